@@ -44,6 +44,8 @@ const AdminManageQuizzes = lazy(() => import('./components/AdminManageQuizzes'))
 const AdminManageAchievements = lazy(() => import('./components/AdminManageAchievements'));
 const AdminStats = lazy(() => import('./components/AdminStats'));
 const AdminTests = lazy(() => import('./components/AdminTests'));
+const AdminSchoolCalendar = lazy(() => import('./components/AdminSchoolCalendar'));
+const SchoolCalendarView = lazy(() => import('./components/SchoolCalendarView'));
 const QuizCreator = lazy(() => import('./components/QuizCreator'));
 const CreateAchievement = lazy(() => import('./components/CreateAchievement'));
 // New Admin Exclusive Components
@@ -61,10 +63,12 @@ const PAGE_TITLES: Record<Exclude<Page, 'module_view' | 'class_view' | 'teacher_
     profile: 'Meu Perfil',
     notifications: 'Notificações',
     boletim: 'Boletim',
+    calendar: 'Calendário Escolar',
     teacher_dashboard: 'Minhas Turmas',
     teacher_main_dashboard: 'Dashboard',
     teacher_statistics: 'Estatísticas do Professor',
     teacher_school_records: 'Histórico Escolar',
+    teacher_calendar: 'Calendário Escolar',
     admin_dashboard: 'Painel do Administrador',
     admin_users: 'Gerenciar Usuários',
     admin_modules: 'Gerenciar Módulos',
@@ -72,6 +76,7 @@ const PAGE_TITLES: Record<Exclude<Page, 'module_view' | 'class_view' | 'teacher_
     admin_achievements: 'Gerenciar Conquistas',
     admin_stats: 'Estatísticas da Plataforma',
     admin_tests: 'Painel de Testes',
+    admin_calendar: 'Calendário Escolar',
 };
 
 const LoadingSpinner: React.FC = () => (
@@ -131,6 +136,7 @@ const useKeyboardShortcuts = () => {
                         case 'c': targetPage = 'admin_achievements'; break;
                         case 'e': targetPage = 'admin_stats'; break;
                         case 't': targetPage = 'admin_tests'; break;
+                        case 'k': targetPage = 'admin_calendar'; break;
                         case 'p': targetPage = 'profile'; break;
                     }
                 }
@@ -195,6 +201,7 @@ const MainLayout: React.FC = () => {
                 case 'admin_achievements': return <AdminManageAchievements />;
                 case 'admin_stats': return <AdminStats />;
                 case 'admin_tests': return <AdminTests />;
+                case 'admin_calendar': return <AdminSchoolCalendar />;
                 // Use generic creator for teacher, but exclusive for admin
                 case 'teacher_create_module': return <ModuleCreator />; // Not used by admin anymore
                 case 'admin_create_module': return <AdminCreateModule />;
@@ -225,6 +232,8 @@ const MainLayout: React.FC = () => {
                      return <TeacherStatistics />;
                 case 'teacher_school_records':
                     return <SchoolRecords />;
+                case 'teacher_calendar':
+                    return <SchoolCalendarView />;
                 case 'class_view':
                     return <ClassView />;
                 case 'profile':
@@ -264,6 +273,8 @@ const MainLayout: React.FC = () => {
                 return <NotificationsPage />;
             case 'boletim':
                 return <Boletim />;
+            case 'calendar':
+                return <SchoolCalendarView />;
             case 'module_view':
                 if (activeModule) {
                     return <ModuleViewPage />;
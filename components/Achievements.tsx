@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import type { Achievement } from '../types';
 import { useStudentData } from '../contexts/StudentDataContext';
+import { getLevelProgress } from '../utils/levelCurve';
 
 
 const AchievementCard: React.FC<{ achievement: Achievement }> = React.memo(({ achievement }) => {
@@ -48,6 +49,7 @@ const Achievements: React.FC = () => {
     const progressPercentage = totalCount > 0 ? Math.round((unlockedCount / totalCount) * 100) : 0;
     const lockedCount = totalCount - unlockedCount;
     const totalPoints = userStats.xp;
+    const levelProgress = getLevelProgress(userStats);
 
     return (
         <div className="space-y-8">
@@ -71,6 +73,15 @@ const Achievements: React.FC = () => {
                         <div className="bg-gradient-to-r from-yellow-400 to-orange-500 h-3 rounded-full" style={{ width: `${progressPercentage}%` }}></div>
                     </div>
                 </div>
+                <div className="mt-4 px-4">
+                    <div className="flex justify-between items-center mb-1 text-sm font-semibold text-slate-600 dark:text-slate-300">
+                        <span>Nível {userStats.level} · {userStats.levelName}</span>
+                        <span>{userStats.xpForNextLevel - userStats.xp} XP para o Nível {userStats.level + 1}</span>
+                    </div>
+                    <div className="w-full bg-black/10 dark:bg-black/20 rounded-full h-2" role="progressbar" aria-valuenow={levelProgress} aria-valuemin={0} aria-valuemax={100} aria-label="Progresso para o próximo nível">
+                        <div className="bg-gradient-to-r from-indigo-400 to-purple-500 h-2 rounded-full" style={{ width: `${levelProgress}%` }}></div>
+                    </div>
+                </div>
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6 pt-6 border-t border-yellow-200/50 dark:border-yellow-500/20">
                     <div>
                         <p className="text-3xl font-bold text-yellow-600 dark:text-yellow-400">{totalPoints}</p>
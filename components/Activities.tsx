@@ -5,34 +5,50 @@ import { Modal } from './common/Modal';
 import { QuizView } from './QuizView';
 import { useStudentData } from '../contexts/StudentDataContext';
 import { useAuth } from '../contexts/AuthContext';
-import type { Activity, ActivitySubmission } from '../types';
+import type { Activity, ActivitySubmission, QuizAnswer } from '../types';
 import { SpinnerIcon } from '../constants/index';
 import { cleanActivity } from '../utils/cleanActivity';
+import { RubricGrid } from './Rubric';
+import { AttachmentList, AttachmentPicker } from './common/SubmissionAttachments';
+import { RichTextContent, RichTextEditor } from './common/RichText';
+import { SubmissionAnswers } from './common/SubmissionAnswers';
+import { formatLateLabel, getEffectiveDueDate, getLateStatus } from '../utils/latePolicy';
+import { getSubmissionStatusColor } from '../utils/submissionHistory';
+import { SubmissionHistory } from './common/SubmissionHistory';
+import { isFailedOutboxEntry } from '../utils/submissionOutbox';
 
 const ActivityDetailsModal: React.FC<{ activity: Activity; onClose: () => void }> = ({ activity, onClose }) => {
-    const { handleActivitySubmit } = useStudentData();
+    const { handleActivitySubmit, handleMultipleChoiceSubmit } = useStudentData();
     const { user } = useAuth();
-    const [submissionText, setSubmissionText] = useState('');
+    // Na reescrita, o aluno parte do texto que enviou antes
+    const [submissionText, setSubmissionText] = useState(() => {
+        const previous = activity.submissions?.find(s => s.studentId === user?.id);
+        return previous?.status === 'Revisão solicitada' ? previous.content : '';
+    });
+    const [submissionFiles, setSubmissionFiles] = useState<File[]>([]);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const studentSubmission = useMemo(() => {
         if (!user?.id) return undefined;
         return activity.submissions?.find(s => s.studentId === user.id);
     }, [activity.submissions, user]);
+
+    const effectiveDueDate = user ? getEffectiveDueDate(activity, user.id) : activity.dueDate;
+    const isRevision = studentSubmission?.status === 'Revisão solicitada';
+    const lateStatus = useMemo(() => user && !isRevision ? getLateStatus(activity, user.id) : null, [activity, user, isRevision]);
     
     const handleSubmit = async () => {
-        if (!submissionText.trim() || isSubmitting) return;
+        if ((!submissionText.trim() && submissionFiles.length === 0) || isSubmitting) return;
         setIsSubmitting(true);
-        await handleActivitySubmit(activity.id, submissionText);
+        await handleActivitySubmit(activity.id, submissionText, submissionFiles);
         setIsSubmitting(false);
         onClose();
     };
 
-    // A dummy handler for now, as submitting activities is not yet implemented.
-    const handleDummySubmit = async (quizId: string, quizTitle: string, score: number, total: number): Promise<number> => {
-        console.log(`Activity "${activity.title}" submitted with score ${score}/${total}.`);
-        // In a real app, this would call an API to save the submission.
-        return 0; // Return 0 XP for activity quizzes for now.
+    // Respostas de Múltipla Escolha viram uma entrega corrigida automaticamente (sem XP, como as demais atividades)
+    const handleQuizSubmit = async (_quizId: string, _quizTitle: string, _score: number, _total: number, answers?: Record<number, QuizAnswer>): Promise<number> => {
+        await handleMultipleChoiceSubmit(activity.id, answers || {});
+        return 0;
     };
 
     return (
@@ -41,8 +57,26 @@ const ActivityDetailsModal: React.FC<{ activity: Activity; onClose: () => void }
                 <div className="flex justify-between text-sm text-slate-500 dark:text-slate-400">
                     <span><span className="font-semibold">Turma:</span> {activity.className || 'Turma desconhecida'}</span>
                     <span><span className="font-semibold">Pontos:</span> {activity.points}</span>
-                    {activity.dueDate && <span><span className="font-semibold">Prazo:</span> {new Date(activity.dueDate).toLocaleDateString('pt-BR')}</span>}
+                    {effectiveDueDate && (
+                        <span>
+                            <span className="font-semibold">Prazo:</span> {new Date(`${effectiveDueDate}T12:00:00`).toLocaleDateString('pt-BR')}
+                            {effectiveDueDate !== activity.dueDate && <span className="ml-1 text-xs text-indigo-600 dark:text-indigo-400">(prorrogado)</span>}
+                        </span>
+                    )}
                 </div>
+                {(!studentSubmission || isRevision) && lateStatus?.isLate && (
+                    <p className={`text-sm p-3 rounded ${lateStatus.blocked ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'}`}>
+                        {lateStatus.blocked
+                            ? 'O prazo desta atividade terminou e ela não aceita envios atrasados.'
+                            : `Prazo encerrado: o envio será marcado como atrasado${lateStatus.penaltyPercent > 0 ? ` e a nota terá desconto de ${lateStatus.penaltyPercent}%` : ''}.`}
+                    </p>
+                )}
+                {isRevision && studentSubmission && (
+                    <div className="p-3 rounded bg-orange-50 text-orange-900 dark:bg-orange-900/30 dark:text-orange-200 space-y-1">
+                        <p className="text-sm font-semibold">O professor pediu que você reescreva esta atividade.</p>
+                        {studentSubmission.feedback && <p className="text-sm">{studentSubmission.feedback}</p>}
+                    </div>
+                )}
                 <hr className="dark:border-slate-700" />
                 <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{activity.description}</p>
                 
@@ -55,36 +89,55 @@ const ActivityDetailsModal: React.FC<{ activity: Activity; onClose: () => void }
                 {activity.type === 'Tarefa (Texto)' && (
                     <div className="pt-4">
                         <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-2">Sua Resposta</h3>
-                        {studentSubmission ? (
+                        {studentSubmission && !isRevision ? (
                             <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border dark:border-slate-700">
                                 <div className="flex justify-between items-center mb-2">
-                                    <p className="font-semibold text-slate-800 dark:text-slate-200">Sua resposta enviada:</p>
-                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${studentSubmission.status === 'Corrigido' ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300'}`}>
+                                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                                        Sua resposta enviada:
+                                        {studentSubmission.isLate && <span className="ml-2 text-xs font-semibold text-red-600 dark:text-red-400">{formatLateLabel(studentSubmission)}</span>}
+                                    </p>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(studentSubmission.status)}`}>
                                         {studentSubmission.status}
                                     </span>
                                 </div>
-                                <p className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border dark:border-slate-600 whitespace-pre-wrap">{studentSubmission.content}</p>
+                                {studentSubmission.content && (
+                                    <RichTextContent text={studentSubmission.content} className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border dark:border-slate-600" />
+                                )}
+                                {studentSubmission.attachments && studentSubmission.attachments.length > 0 && (
+                                    <div className="mt-2">
+                                        <AttachmentList attachments={studentSubmission.attachments} />
+                                    </div>
+                                )}
                                 
                                 {studentSubmission.status === 'Corrigido' && (
                                      <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
                                         <h4 className="font-semibold text-slate-800 dark:text-slate-200">Feedback do Professor</h4>
                                         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Nota: <span className="font-bold text-lg text-indigo-600 dark:text-indigo-400">{studentSubmission.grade} / {activity.points}</span></p>
                                         {studentSubmission.feedback && <p className="mt-2 text-sm text-slate-700 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/30 p-3 rounded">{studentSubmission.feedback}</p>}
+                                        {activity.rubric && studentSubmission.rubricScores && (
+                                            <div className="mt-4">
+                                                <h5 className="text-sm font-semibold text-slate-800 dark:text-slate-200 mb-2">Rubrica: {activity.rubric.title}</h5>
+                                                <RubricGrid rubric={activity.rubric} scores={studentSubmission.rubricScores} />
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
                         ) : (
                             <>
-                                <textarea
+                                <RichTextEditor
                                     rows={8}
                                     placeholder="Escreva sua resposta aqui..."
                                     value={submissionText}
-                                    onChange={(e) => setSubmissionText(e.target.value)}
-                                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                                    onChange={setSubmissionText}
+                                    disabled={isSubmitting}
                                 />
+                                <div className="mt-3">
+                                    <AttachmentPicker files={submissionFiles} onChange={setSubmissionFiles} disabled={isSubmitting} />
+                                </div>
                                 <button
                                     onClick={handleSubmit}
-                                    disabled={!submissionText.trim() || isSubmitting}
+                                    disabled={(!submissionText.trim() && submissionFiles.length === 0) || isSubmitting || !!lateStatus?.blocked}
                                     className="mt-4 w-full px-4 py-2 bg-indigo-200 text-indigo-900 font-semibold rounded-lg hover:bg-indigo-300 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:text-white dark:hover:bg-indigo-600"
                                 >
                                     {isSubmitting ? <SpinnerIcon className="h-5 w-5 mr-2" /> : null}
@@ -97,19 +150,53 @@ const ActivityDetailsModal: React.FC<{ activity: Activity; onClose: () => void }
                 
                 {activity.type === 'Múltipla Escolha' && activity.questions && (
                      <div className="pt-4">
-                        <QuizView
-                            quiz={{
-                                id: activity.id,
-                                title: activity.title,
-                                description: activity.description,
-                                questions: activity.questions,
-                                visibility: 'specific_class',
-                                classId: activity.classId,
-                            }}
-                            onQuizComplete={handleDummySubmit}
-                        />
+                        {studentSubmission && !isRevision ? (
+                            <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border dark:border-slate-700">
+                                <div className="flex justify-between items-center mb-2">
+                                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                                        Suas respostas:
+                                        {studentSubmission.isLate && <span className="ml-2 text-xs font-semibold text-red-600 dark:text-red-400">{formatLateLabel(studentSubmission)}</span>}
+                                    </p>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(studentSubmission.status)}`}>
+                                        {studentSubmission.status}
+                                    </span>
+                                </div>
+                                {studentSubmission.status === 'Corrigido' ? (
+                                    <>
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                                            Nota: <span className="font-bold text-lg text-indigo-600 dark:text-indigo-400">{studentSubmission.grade} / {activity.points}</span>
+                                            {studentSubmission.autoGraded && <span className="ml-2 text-xs">(correção automática)</span>}
+                                        </p>
+                                        {studentSubmission.feedback && <p className="mt-2 text-sm text-slate-700 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/30 p-3 rounded">{studentSubmission.feedback}</p>}
+                                        {studentSubmission.answers && (
+                                            <div className="mt-4">
+                                                <SubmissionAnswers questions={activity.questions} answers={studentSubmission.answers} />
+                                            </div>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 dark:text-slate-400">Suas respostas serão corrigidas assim que forem sincronizadas.</p>
+                                )}
+                            </div>
+                        ) : lateStatus?.blocked ? null : (
+                            <QuizView
+                                quiz={{
+                                    id: activity.id,
+                                    title: activity.title,
+                                    description: activity.description,
+                                    questions: activity.questions,
+                                    visibility: 'specific_class',
+                                    classId: activity.classId,
+                                }}
+                                onQuizComplete={handleQuizSubmit}
+                            />
+                        )}
                     </div>
                 )}
+
+                {user && studentSubmission && (studentSubmission.attempt || 1) > 1 && (
+                    <SubmissionHistory activityId={activity.id} studentId={user.id} points={activity.points} questions={activity.questions} />
+                )}
             </div>
         </Modal>
     );
@@ -136,15 +223,21 @@ const isRecent = (dateInput?: string | any) => {
 
 const ActivityCard: React.FC<{ activity: Activity; onClick: () => void }> = ({ activity, onClick }) => {
     const { user } = useAuth();
+    const { pendingSync } = useStudentData();
     const studentSubmission = activity.submissions?.find(s => s.studentId === user?.id);
+    const outboxEntry = pendingSync.find(e => e.kind === 'activity_submission' && e.payload.activityId === activity.id);
     let statusText: string | null = null;
     let statusColor: string = '';
 
-    if (studentSubmission) {
+    if (outboxEntry && isFailedOutboxEntry(outboxEntry)) {
+        statusText = 'Falha ao sincronizar';
+        statusColor = 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300';
+    } else if (outboxEntry) {
+        statusText = 'Aguardando sincronização';
+        statusColor = 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200';
+    } else if (studentSubmission) {
         statusText = studentSubmission.status;
-        statusColor = statusText === 'Corrigido' 
-            ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300'
-            : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300';
+        statusColor = getSubmissionStatusColor(studentSubmission.status);
     }
 
     const materiaColorMap: { [key: string]: string } = {
@@ -190,6 +283,7 @@ const ActivityCard: React.FC<{ activity: Activity; onClick: () => void }> = ({ a
                      <div className="flex items-center flex-wrap gap-2 mt-3 text-xs font-medium">
                         {activity.unidade && <span className="px-2 py-1 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{activity.unidade}</span>}
                         {activity.materia && <span className={`px-2 py-1 rounded ${materiaColor}`}>{activity.materia}</span>}
+                        {activity.recovery && <span className="px-2 py-1 rounded bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300">Recuperação</span>}
                         <span className={`px-2 py-1 rounded ${activity.type === 'Múltipla Escolha' ? 'bg-purple-100 text-purple-800 dark:bg-purple-500/20 dark:text-purple-300' : 'bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300'}`}>
                             {activity.type}
                         </span>
@@ -244,6 +338,8 @@ const Activities: React.FC = () => {
             let status: string;
             if (!studentSubmission) {
                 status = 'a_fazer';
+            } else if (studentSubmission.status === 'Revisão solicitada') {
+                status = 'a_fazer'; // Reescrita: volta para as tarefas do aluno
             } else if (studentSubmission.status === 'Aguardando correção') {
                 status = 'pendente';
             } else { // Corrigido
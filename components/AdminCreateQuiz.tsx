@@ -4,8 +4,13 @@ import { Card } from './common/Card';
 import { ICONS, SpinnerIcon } from '../constants/index';
 import { AdminDataContext } from '../contexts/AdminDataContext';
 import { useNavigation } from '../contexts/NavigationContext';
-import type { QuizQuestion, Quiz } from '../types';
+import type { QuizQuestion, Quiz, QuizSettings } from '../types';
 import { useToast } from '../contexts/ToastContext';
+import { QuizQuestionEditor } from './QuizQuestionEditor';
+import { createEmptyQuestion, sanitizeQuestion, validateQuestion } from '../utils/quizScoring';
+import { QuizSettingsEditor } from './QuizSettingsEditor';
+import { DEFAULT_QUIZ_SETTINGS } from '../utils/quizPolicy';
+import { QuestionBankPicker, SaveToQuestionBankModal } from './QuestionBank';
 
 const ADMIN_SUBJECTS = [
     'Artes', 'Biologia', 'Ciências', 'Educação Física', 'Espanhol', 'Filosofia', 'Física', 
@@ -74,6 +79,9 @@ const AdminCreateQuiz: React.FC = () => {
     const [questions, setQuestions] = useState<QuizQuestion[]>([]);
     const [selectedSeries, setSelectedSeries] = useState<string[]>([]);
     const [selectedSubjects, setSelectedSubjects] = useState<string[]>([]);
+    const [settings, setSettings] = useState<QuizSettings>({});
+    const [isBankOpen, setIsBankOpen] = useState(false);
+    const [questionToBank, setQuestionToBank] = useState<QuizQuestion | null>(null);
     
     // Validation State
     const [formErrors, setFormErrors] = useState({
@@ -88,6 +96,7 @@ const AdminCreateQuiz: React.FC = () => {
             setTitle(editingQuiz.title);
             setDescription(editingQuiz.description);
             setQuestions(editingQuiz.questions);
+            setSettings(editingQuiz.settings || {});
             
              // Handle Series Multi-select backward compatibility
             if (Array.isArray(editingQuiz.series)) {
@@ -107,15 +116,7 @@ const AdminCreateQuiz: React.FC = () => {
     }, [editingQuiz]);
 
     const handleAddQuestion = () => {
-        setQuestions(prev => [
-            ...prev,
-            {
-                id: Date.now(),
-                question: '',
-                choices: [{ id: '1', text: '' }, { id: '2', text: '' }],
-                correctAnswerId: '1'
-            }
-        ]);
+        setQuestions(prev => [...prev, createEmptyQuestion('single', Date.now())]);
         // Clear questions error if adding one
         setFormErrors(prev => ({ ...prev, questions: false }));
     };
@@ -124,21 +125,13 @@ const AdminCreateQuiz: React.FC = () => {
         setQuestions(prev => prev.map(q => q.id === id ? { ...q, [field]: value } : q));
     };
 
-    const updateChoice = (qId: number, cId: string, text: string) => {
-        setQuestions(prev => prev.map(q => q.id === qId ? {
-            ...q,
-            choices: q.choices.map(c => c.id === cId ? { ...c, text } : c)
-        } : q));
+    const replaceQuestion = (updated: QuizQuestion) => {
+        setQuestions(prev => prev.map(q => q.id === updated.id ? updated : q));
     };
 
-    const addChoice = (qId: number) => {
-        setQuestions(prev => prev.map(q => {
-            if (q.id === qId) {
-                const newId = String(Date.now());
-                return { ...q, choices: [...q.choices, { id: newId, text: '' }] };
-            }
-            return q;
-        }));
+    const handleInsertFromBank = (inserted: QuizQuestion[]) => {
+        setQuestions(prev => [...prev, ...inserted]);
+        setFormErrors(prev => ({ ...prev, questions: false }));
     };
 
     const removeQuestion = (id: number) => {
@@ -154,19 +147,32 @@ const AdminCreateQuiz: React.FC = () => {
         };
         
         setFormErrors(errors);
-        return !Object.values(errors).some(Boolean);
+        if (Object.values(errors).some(Boolean)) {
+            addToast('Por favor, corrija os erros marcados em vermelho.', 'error');
+            return false;
+        }
+
+        if (settings.revealAnswers === 'after_due_date' && !settings.dueDate) {
+            addToast('Informe a data limite para liberar o gabarito.', 'error');
+            return false;
+        }
+
+        const invalidIndex = questions.findIndex(q => validateQuestion(q) !== null);
+        if (invalidIndex >= 0) {
+            addToast(`Questão ${invalidIndex + 1}: ${validateQuestion(questions[invalidIndex])}`, 'error');
+            return false;
+        }
+        return true;
     };
 
     const handleSave = async () => {
-        if (!validateForm()) {
-            addToast('Por favor, corrija os erros marcados em vermelho.', 'error');
-            return;
-        }
+        if (!validateForm()) return;
 
         const quizData: any = {
             title,
             description,
-            questions,
+            questions: questions.map(sanitizeQuestion),
+            settings: { ...DEFAULT_QUIZ_SETTINGS, ...settings },
             visibility: 'public',
             status: 'Ativo',
             series: selectedSeries,
@@ -190,6 +196,23 @@ const AdminCreateQuiz: React.FC = () => {
 
     return (
         <div className="space-y-6">
+            {isBankOpen && (
+                <QuestionBankPicker
+                    isOpen={isBankOpen}
+                    onClose={() => setIsBankOpen(false)}
+                    onInsert={handleInsertFromBank}
+                    initialFilters={{ series: selectedSeries.length === 1 ? selectedSeries[0] : undefined }}
+                />
+            )}
+            {questionToBank && (
+                <SaveToQuestionBankModal
+                    isOpen={!!questionToBank}
+                    onClose={() => setQuestionToBank(null)}
+                    question={questionToBank}
+                    defaultTags={{ series: selectedSeries[0], materia: selectedSubjects[0] }}
+                    onSaved={bankId => replaceQuestion({ ...questionToBank, bankQuestionId: bankId })}
+                />
+            )}
              <div className="flex justify-between items-center">
                  <div>
                      <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">
@@ -240,12 +263,22 @@ const AdminCreateQuiz: React.FC = () => {
                  </div>
             </Card>
 
+            <Card>
+                 <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 border-b dark:border-slate-700 pb-4 mb-6">Regras de Aplicação</h3>
+                 <QuizSettingsEditor settings={settings} onChange={setSettings} />
+            </Card>
+
              <div className="space-y-6">
                 {questions.map((q, idx) => (
                     <Card key={q.id}>
                          <div className="flex justify-between items-start mb-4">
                             <h4 className="font-bold text-slate-700 dark:text-slate-200">Questão {idx + 1}</h4>
-                            <button onClick={() => removeQuestion(q.id)} className="text-sm text-red-600 hover:underline">Remover</button>
+                            <div className="flex items-center space-x-4">
+                                {q.bankQuestionId
+                                    ? <span className="text-xs font-semibold text-green-700 dark:text-green-400">No banco de questões</span>
+                                    : <button onClick={() => setQuestionToBank(q)} className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">Salvar no banco</button>}
+                                <button onClick={() => removeQuestion(q.id)} className="text-sm text-red-600 hover:underline">Remover</button>
+                            </div>
                         </div>
                         <div className="space-y-4">
                             <input 
@@ -254,27 +287,7 @@ const AdminCreateQuiz: React.FC = () => {
                                 onChange={e => updateQuestion(q.id, 'question', e.target.value)}
                                 className="w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white"
                             />
-                             <div className="space-y-2">
-                                <label className="text-sm font-medium text-gray-700 dark:text-slate-300">Alternativas (Marque a correta)</label>
-                                {q.choices.map(choice => (
-                                    <div key={choice.id} className="flex items-center space-x-2">
-                                        <input 
-                                            type="radio" 
-                                            name={`correct-${q.id}`} 
-                                            checked={q.correctAnswerId === choice.id} 
-                                            onChange={() => updateQuestion(q.id, 'correctAnswerId', choice.id)}
-                                            className="h-4 w-4 text-indigo-600"
-                                        />
-                                        <input 
-                                            value={choice.text} 
-                                            onChange={e => updateChoice(q.id, choice.id, e.target.value)} 
-                                            className="flex-grow p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white"
-                                            placeholder="Texto da alternativa"
-                                        />
-                                    </div>
-                                ))}
-                                <button onClick={() => addChoice(q.id)} className="text-sm text-indigo-600 hover:underline">+ Adicionar Alternativa</button>
-                             </div>
+                            <QuizQuestionEditor question={q} onChange={replaceQuestion} />
                         </div>
                     </Card>
                 ))}
@@ -285,9 +298,14 @@ const AdminCreateQuiz: React.FC = () => {
                     </div>
                 )}
 
-                 <button onClick={handleAddQuestion} className="w-full p-3 bg-slate-100 text-slate-700 font-semibold rounded-lg hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 hc-button-override">
-                    Adicionar Questão
-                </button>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <button onClick={handleAddQuestion} className="w-full p-3 bg-slate-100 text-slate-700 font-semibold rounded-lg hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 hc-button-override">
+                        Adicionar Questão
+                    </button>
+                    <button onClick={() => setIsBankOpen(true)} className="w-full p-3 bg-indigo-100 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-200 dark:bg-indigo-500/20 dark:text-indigo-200 dark:hover:bg-indigo-500/30 hc-button-override">
+                        Inserir do Banco de Questões
+                    </button>
+                </div>
             </div>
 
             <div className="flex justify-end space-x-4">
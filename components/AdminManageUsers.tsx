@@ -1,30 +1,291 @@
 
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card } from './common/Card';
-import { ICONS } from '../constants/index';
+import { Modal } from './common/Modal';
+import { ICONS, SpinnerIcon } from '../constants/index';
+import { useAdminData } from '../contexts/AdminDataContext';
+import { useAuth } from '../contexts/AuthContext';
+import type { AdminUser, Role, UserStatus, UserAuditLogEntry } from '../types';
+import { parseUserImportCsv, UserImportResult } from '../utils/userImport';
+
+const ROLE_LABELS: Record<Exclude<Role, null>, string> = {
+    aluno: 'Aluno',
+    professor: 'Professor',
+    admin: 'Admin',
+};
+
+const STATUS_COLORS: Record<UserStatus, string> = {
+    Ativo: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    Pendente: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300',
+    Inativo: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const AUDIT_ACTION_LABELS: Record<UserAuditLogEntry['action'], string> = {
+    role_change: 'Alteração de perfil',
+    status_change: 'Alteração de status',
+    import: 'Importação (CSV)',
+    preregistration_claimed: 'Conta ativada pelo usuário',
+};
+
+const StatCard: React.FC<{ title: string; value: number; icon: React.ReactNode; iconBgColor: string }> = ({ title, value, icon, iconBgColor }) => (
+    <Card>
+        <div className="flex items-center space-x-4">
+            <div className={`p-3 rounded-full ${iconBgColor}`}>
+                {icon}
+            </div>
+            <div>
+                <p className="text-3xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">{value}</p>
+                <p className="text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">{title}</p>
+            </div>
+        </div>
+    </Card>
+);
+
+const formatChanges = (changes: UserAuditLogEntry['changes']) =>
+    Object.entries(changes || {})
+        .map(([field, { from, to }]) => `${field}: ${from ?? '—'} → ${to ?? '—'}`)
+        .join(', ');
+
+const UserRow: React.FC<{ target: AdminUser; isSelf: boolean; disabled: boolean; onRoleChange: (role: Exclude<Role, null>) => void; onStatusChange: (status: UserStatus) => void }> = ({ target, isSelf, disabled, onRoleChange, onStatusChange }) => (
+    <tr className="border-b border-slate-200 dark:border-slate-700 last:border-0 hc-border-override">
+        <td className="p-4 align-top">
+            <p className="font-semibold text-slate-800 dark:text-slate-100 hc-text-primary">{target.name}{isSelf && <span className="ml-2 text-xs text-slate-400">(você)</span>}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 hc-text-secondary">{target.email}</p>
+        </td>
+        <td className="p-4 align-top">
+            <select
+                aria-label={`Perfil de ${target.name}`}
+                value={target.role || ''}
+                disabled={disabled || isSelf}
+                onChange={e => onRoleChange(e.target.value as Exclude<Role, null>)}
+                className="p-1.5 text-sm border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white disabled:opacity-60"
+            >
+                {!target.role && <option value="">Sem perfil</option>}
+                {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+        </td>
+        <td className="p-4 align-top text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">{target.series || '-'}</td>
+        <td className="p-4 align-top">
+            <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${STATUS_COLORS[target.status]}`}>{target.status}</span>
+        </td>
+        <td className="p-4 align-top text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">
+            {target.registrationDate ? new Date(target.registrationDate).toLocaleDateString('pt-BR') : '-'}
+        </td>
+        <td className="p-4 align-top">
+            {!isSelf && (
+                target.status === 'Inativo' ? (
+                    <button onClick={() => onStatusChange('Ativo')} disabled={disabled} className="px-3 py-1 text-sm font-semibold text-green-700 bg-green-50 rounded-md hover:bg-green-100 disabled:opacity-50 dark:bg-green-500/20 dark:text-green-300">Reativar</button>
+                ) : (
+                    <button onClick={() => onStatusChange('Inativo')} disabled={disabled} className="px-3 py-1 text-sm font-semibold text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50 dark:bg-red-500/20 dark:text-red-300">
+                        {target.isPreRegistration ? 'Cancelar convite' : 'Desativar'}
+                    </button>
+                )
+            )}
+        </td>
+    </tr>
+);
+
+const ImportUsersModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { handleImportUsers, isSubmitting } = useAdminData();
+    const [result, setResult] = useState<UserImportResult | null>(null);
+    const [fileName, setFileName] = useState('');
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setResult(parseUserImportCsv(await file.text()));
+    };
+
+    const handleClose = () => {
+        setResult(null);
+        setFileName('');
+        onClose();
+    };
+
+    const handleConfirm = async () => {
+        if (!result || result.rows.length === 0) return;
+        await handleImportUsers(result.rows);
+        handleClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="Importar Alunos e Professores (CSV)">
+            <div className="space-y-4">
+                <p className="text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">
+                    O arquivo deve ter o cabeçalho <code className="px-1 bg-slate-100 dark:bg-slate-700 rounded">nome,email,perfil,serie</code>. O perfil aceita <strong>aluno</strong> ou <strong>professor</strong>; a série é obrigatória para alunos.
+                    Os usuários ficam como <strong>Pendente</strong> até criarem a conta com o mesmo email.
+                </p>
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} aria-label="Arquivo CSV" className="block w-full text-sm text-slate-600 dark:text-slate-300" />
+
+                {result && (
+                    <div className="space-y-3">
+                        <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">
+                            {fileName}: {result.rows.length} linha(s) válida(s), {result.errors.length} com erro.
+                        </p>
+                        {result.errors.length > 0 && (
+                            <ul className="max-h-40 overflow-y-auto text-sm text-red-700 bg-red-50 rounded-md p-3 space-y-1 dark:bg-red-500/10 dark:text-red-300" aria-label="Erros de importação">
+                                {result.errors.map(err => <li key={`${err.line}-${err.message}`}>Linha {err.line}: {err.message}</li>)}
+                            </ul>
+                        )}
+                        {result.rows.length > 0 && (
+                            <ul className="max-h-48 overflow-y-auto text-sm divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-md">
+                                {result.rows.map(row => (
+                                    <li key={row.email} className="px-3 py-2 flex justify-between gap-2 text-slate-700 dark:text-slate-200">
+                                        <span>{row.name} <span className="text-slate-400">({row.email})</span></span>
+                                        <span className="text-slate-500">{ROLE_LABELS[row.role]}{row.series ? ` · ${row.series}` : ''}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button onClick={handleClose} disabled={isSubmitting} className="px-4 py-2 bg-white text-slate-800 font-semibold rounded-lg hover:bg-slate-100 border border-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 hc-button-override disabled:opacity-50">Cancelar</button>
+                    <button onClick={handleConfirm} disabled={!result || result.rows.length === 0 || isSubmitting} className="px-4 py-2 bg-green-200 text-green-900 font-semibold rounded-lg hover:bg-green-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 dark:bg-green-500/30 dark:text-green-200 hc-button-primary-override">
+                        {isSubmitting && <SpinnerIcon className="h-4 w-4" />}
+                        <span>Importar {result?.rows.length || 0} usuário(s)</span>
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
 
 const AdminManageUsers: React.FC = () => {
+    const { user } = useAuth();
+    const { users, userAuditLog, isLoadingUsers, isSubmitting, handleChangeUserRole, handleSetUserStatus } = useAdminData();
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<UserStatus | 'all'>('all');
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const filteredUsers = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return users.filter(u => {
+            if (statusFilter !== 'all' && u.status !== statusFilter) return false;
+            if (!term) return true;
+            const roleLabel = u.role ? ROLE_LABELS[u.role].toLowerCase() : '';
+            return [u.name, u.email, u.role || '', roleLabel, u.series || '']
+                .some(field => field.toLowerCase().includes(term));
+        });
+    }, [users, search, statusFilter]);
+
+    const countByStatus = (status: UserStatus) => users.filter(u => u.status === status).length;
+
+    const onStatusChange = (target: AdminUser, status: UserStatus) => {
+        const message = status === 'Inativo'
+            ? (target.isPreRegistration
+                ? `Cancelar o pré-cadastro de ${target.name}?`
+                : `Desativar a conta de ${target.name}? O usuário não conseguirá mais entrar na plataforma.`)
+            : `Reativar a conta de ${target.name}?`;
+        if (window.confirm(message)) {
+            handleSetUserStatus(target, status);
+        }
+    };
+
+    const onRoleChange = (target: AdminUser, role: Exclude<Role, null>) => {
+        if (window.confirm(`Alterar o perfil de ${target.name} para ${ROLE_LABELS[role]}?`)) {
+            handleChangeUserRole(target, role);
+        }
+    };
+
     return (
         <div className="space-y-8">
-            <div>
-                <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">Gerenciar Usuários</h1>
-                <p className="text-slate-500 dark:text-slate-400 mt-1 hc-text-secondary">Controle de acesso e permissões</p>
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">Gerenciar Usuários</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1 hc-text-secondary">Controle de acesso e permissões</p>
+                </div>
+                <button
+                    onClick={() => setIsImportOpen(true)}
+                    className="flex items-center justify-center px-4 py-2 bg-blue-200 text-blue-900 font-semibold rounded-lg shadow-sm hover:bg-blue-300 transition-colors dark:bg-indigo-500 dark:text-white dark:hover:bg-indigo-600 hc-button-primary-override">
+                    <div className="h-5 w-5 mr-2">{ICONS.plus}</div>
+                    <span>Importar CSV</span>
+                </button>
             </div>
-            
-            <Card className="p-8 text-center border-l-4 border-l-yellow-500">
-                <div className="inline-block p-4 rounded-full bg-yellow-100 text-yellow-600 mb-4 dark:bg-yellow-900/30 dark:text-yellow-400">
-                     <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                    </svg>
+
+            <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                <li><StatCard title="Total" value={users.length} icon={ICONS.admin_users} iconBgColor="bg-blue-100 text-blue-600 dark:bg-blue-900/50 dark:text-blue-300" /></li>
+                <li><StatCard title="Ativos" value={countByStatus('Ativo')} icon={ICONS.admin_users} iconBgColor="bg-green-100 text-green-600 dark:bg-green-900/50 dark:text-green-300" /></li>
+                <li><StatCard title="Pendentes" value={countByStatus('Pendente')} icon={ICONS.admin_users} iconBgColor="bg-yellow-100 text-yellow-600 dark:bg-yellow-900/50 dark:text-yellow-300" /></li>
+                <li><StatCard title="Inativos" value={countByStatus('Inativo')} icon={ICONS.admin_users} iconBgColor="bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300" /></li>
+            </ul>
+
+            <Card className="overflow-x-auto !p-0">
+                <div className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Buscar por nome, email, perfil ou série..."
+                        aria-label="Buscar usuários"
+                        className="flex-1 p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                    />
+                    <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as UserStatus | 'all')} aria-label="Filtrar por status" className="p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white">
+                        <option value="all">Todos os status</option>
+                        <option value="Ativo">Ativo</option>
+                        <option value="Pendente">Pendente</option>
+                        <option value="Inativo">Inativo</option>
+                    </select>
                 </div>
-                <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2">Acesso Restrito</h2>
-                <p className="text-slate-600 dark:text-slate-300 max-w-xl mx-auto">
-                    Por razões de segurança e performance, o gerenciamento direto de usuários, permissões e dados sensíveis foi movido exclusivamente para o <strong>Firebase Console</strong>.
-                </p>
-                <p className="text-sm text-slate-500 dark:text-slate-400 mt-4">
-                    Utilize o painel de autenticação do Firebase para criar, desativar ou alterar senhas de usuários.
-                </p>
+                {isLoadingUsers ? (
+                    <div className="flex justify-center py-12"><SpinnerIcon className="h-8 w-8" /></div>
+                ) : (
+                    <table className="w-full text-left">
+                        <thead className="bg-slate-50 dark:bg-slate-900/50">
+                            <tr className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 hc-text-secondary">
+                                <th className="p-4">Usuário</th>
+                                <th className="p-4">Perfil</th>
+                                <th className="p-4">Série</th>
+                                <th className="p-4">Status</th>
+                                <th className="p-4">Cadastro</th>
+                                <th className="p-4">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredUsers.map(u => (
+                                <UserRow
+                                    key={`${u.isPreRegistration ? 'pre' : 'user'}-${u.id}`}
+                                    target={u}
+                                    isSelf={u.id === user?.id}
+                                    disabled={isSubmitting}
+                                    onRoleChange={role => onRoleChange(u, role)}
+                                    onStatusChange={status => onStatusChange(u, status)}
+                                />
+                            ))}
+                            {filteredUsers.length === 0 && (
+                                <tr><td colSpan={6} className="p-8 text-center text-slate-500 dark:text-slate-400">Nenhum usuário encontrado.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                )}
             </Card>
+
+            <Card>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4 hc-text-primary">Trilha de Auditoria</h3>
+                {userAuditLog.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Nenhuma alteração registrada.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 hc-border-override">
+                        {userAuditLog.map(entry => (
+                            <li key={entry.id} className="py-3 text-sm">
+                                <div className="flex flex-wrap justify-between gap-2">
+                                    <span className="font-semibold text-slate-700 dark:text-slate-200 hc-text-primary">
+                                        {AUDIT_ACTION_LABELS[entry.action] || entry.action}: {entry.targetName} <span className="font-normal text-slate-400">({entry.targetEmail})</span>
+                                    </span>
+                                    <span className="text-xs text-slate-400">{entry.timestamp ? new Date(entry.timestamp).toLocaleString('pt-BR') : ''}</span>
+                                </div>
+                                <p className="text-slate-500 dark:text-slate-400 hc-text-secondary">
+                                    Por {entry.actorName || entry.actorId} · {formatChanges(entry.changes)}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </Card>
+
+            <ImportUsersModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
         </div>
     );
 };
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './common/Card';
+import { SpinnerIcon } from '../constants/index';
+import { useToast } from '../contexts/ToastContext';
+import type { Holiday, SchoolCalendar, SchoolRecess, Unidade } from '../types';
+import { fetchSchoolCalendar, formatDateKey, isUnidadeClosed, saveSchoolCalendar, validateSchoolCalendar } from '../utils/schoolCalendar';
+import { UNIDADES } from '../utils/gradeComposition';
+
+const inputClass = "p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+
+// Calendário escolar do ano letivo: períodos das unidades (que fecham as notas ao terminar),
+// feriados e recessos em que não há chamadas automáticas
+const AdminSchoolCalendar: React.FC = () => {
+    const { addToast } = useToast();
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [calendar, setCalendar] = useState<SchoolCalendar | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [newDate, setNewDate] = useState('');
+    const [newName, setNewName] = useState('');
+    const [newRecess, setNewRecess] = useState<SchoolRecess>({ name: '', start: '', end: '' });
+
+    const validationError = calendar ? validateSchoolCalendar(calendar) : null;
+
+    useEffect(() => {
+        let mounted = true;
+        setIsLoading(true);
+        fetchSchoolCalendar(year)
+            .then(data => { if (mounted) setCalendar(data); })
+            .catch(error => {
+                console.error("Error fetching school calendar:", error);
+                addToast("Erro ao carregar o calendário.", "error");
+            })
+            .finally(() => { if (mounted) setIsLoading(false); });
+        return () => { mounted = false; };
+    }, [year, addToast]);
+
+    const addHoliday = () => {
+        if (!calendar || !newDate || !newName.trim()) return;
+        if (!newDate.startsWith(`${year}-`)) {
+            addToast(`A data deve estar no ano letivo de ${year}.`, "error");
+            return;
+        }
+        const holiday: Holiday = { date: newDate, name: newName.trim() };
+        const holidays = [...calendar.holidays.filter(h => h.date !== newDate), holiday].sort((a, b) => a.date.localeCompare(b.date));
+        setCalendar({ ...calendar, holidays });
+        setNewDate('');
+        setNewName('');
+    };
+
+    const removeHoliday = (date: string) => {
+        if (!calendar) return;
+        setCalendar({ ...calendar, holidays: calendar.holidays.filter(h => h.date !== date) });
+    };
+
+    const updatePeriod = (unidade: Unidade, field: 'start' | 'end', value: string) => {
+        if (!calendar) return;
+        const current = calendar.unidades.find(p => p.unidade === unidade) || { unidade, start: '', end: '' };
+        const updated = { ...current, [field]: value };
+        const others = calendar.unidades.filter(p => p.unidade !== unidade);
+        // Período sem nenhuma data é removido (a unidade volta a não ter calendário)
+        const unidades = updated.start || updated.end ? [...others, updated] : others;
+        setCalendar({ ...calendar, unidades });
+    };
+
+    const addRecess = () => {
+        if (!calendar || !newRecess.name.trim() || !newRecess.start || !newRecess.end) return;
+        setCalendar({ ...calendar, recesses: [...calendar.recesses, { ...newRecess, name: newRecess.name.trim() }] });
+        setNewRecess({ name: '', start: '', end: '' });
+    };
+
+    const removeRecess = (index: number) => {
+        if (!calendar) return;
+        setCalendar({ ...calendar, recesses: calendar.recesses.filter((_, i) => i !== index) });
+    };
+
+    const handleSave = async () => {
+        if (!calendar || validationError) return;
+        setIsSaving(true);
+        try {
+            await saveSchoolCalendar(calendar);
+            addToast("Calendário escolar salvo!", "success");
+        } catch (error) {
+            console.error("Error saving school calendar:", error);
+            addToast("Erro ao salvar o calendário.", "error");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Calendário Escolar</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">Períodos das unidades, feriados e recessos do ano letivo.</p>
+                </div>
+                <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClass} aria-label="Ano letivo">
+                    {[year - 1, year, year + 1].map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+            </div>
+
+            {isLoading || !calendar ? (
+                <div className="text-center py-10"><SpinnerIcon className="h-8 w-8 text-indigo-500 mx-auto" /></div>
+            ) : (
+                <>
+                    <Card>
+                        <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-1">Unidades</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">A unidade das atividades é definida pelo prazo de entrega. Após o fim do período, a unidade fecha e as notas ficam bloqueadas.</p>
+                        <div className="space-y-3">
+                            {UNIDADES.map(unidade => {
+                                const period = calendar.unidades.find(p => p.unidade === unidade);
+                                const closed = isUnidadeClosed(calendar, unidade);
+                                return (
+                                    <div key={unidade} className="flex flex-wrap items-center gap-2 text-sm">
+                                        <span className="w-28 font-semibold text-slate-700 dark:text-slate-200">{unidade}</span>
+                                        <input type="date" value={period?.start || ''} onChange={e => updatePeriod(unidade, 'start', e.target.value)} className={inputClass} aria-label={`Início da ${unidade}`} />
+                                        <span className="text-slate-500">a</span>
+                                        <input type="date" value={period?.end || ''} onChange={e => updatePeriod(unidade, 'end', e.target.value)} className={inputClass} aria-label={`Fim da ${unidade}`} />
+                                        {closed && <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300">Fechada</span>}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">Recessos ({calendar.recesses.length})</h2>
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            <input
+                                type="text"
+                                value={newRecess.name}
+                                onChange={e => setNewRecess(prev => ({ ...prev, name: e.target.value }))}
+                                placeholder="Ex.: Recesso de julho"
+                                className={`${inputClass} flex-1 min-w-[180px]`}
+                                aria-label="Nome do recesso"
+                            />
+                            <input type="date" value={newRecess.start} onChange={e => setNewRecess(prev => ({ ...prev, start: e.target.value }))} className={inputClass} aria-label="Início do recesso" />
+                            <input type="date" value={newRecess.end} onChange={e => setNewRecess(prev => ({ ...prev, end: e.target.value }))} className={inputClass} aria-label="Fim do recesso" />
+                            <button onClick={addRecess} disabled={!newRecess.name.trim() || !newRecess.start || !newRecess.end} className="px-4 py-2 text-sm font-semibold rounded-lg bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300">
+                                Adicionar
+                            </button>
+                        </div>
+                        {calendar.recesses.length === 0 ? (
+                            <p className="text-center text-slate-500 dark:text-slate-400 py-4 text-sm">Nenhum recesso cadastrado para {year}.</p>
+                        ) : (
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                                {calendar.recesses.map((recess, index) => (
+                                    <li key={`${recess.start}_${index}`} className="flex items-center justify-between py-2 text-sm">
+                                        <span className="text-slate-800 dark:text-slate-200">
+                                            <span className="capitalize text-slate-500 dark:text-slate-400 mr-3">{formatDateKey(recess.start)} a {formatDateKey(recess.end)}</span>
+                                            {recess.name}
+                                        </span>
+                                        <button onClick={() => removeRecess(index)} className="text-red-500 hover:text-red-700 font-semibold px-2" aria-label={`Remover ${recess.name}`}>
+                                            Remover
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4">Feriados ({calendar.holidays.length})</h2>
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            <input type="date" value={newDate} onChange={e => setNewDate(e.target.value)} className={inputClass} aria-label="Data do feriado" />
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={e => setNewName(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') addHoliday(); }}
+                                placeholder="Ex.: Carnaval"
+                                className={`${inputClass} flex-1 min-w-[180px]`}
+                                aria-label="Nome do feriado"
+                            />
+                            <button onClick={addHoliday} disabled={!newDate || !newName.trim()} className="px-4 py-2 text-sm font-semibold rounded-lg bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300">
+                                Adicionar
+                            </button>
+                        </div>
+
+                        {calendar.holidays.length === 0 ? (
+                            <p className="text-center text-slate-500 dark:text-slate-400 py-6 text-sm">Nenhum feriado cadastrado para {year}.</p>
+                        ) : (
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                                {calendar.holidays.map(holiday => (
+                                    <li key={holiday.date} className="flex items-center justify-between py-2 text-sm">
+                                        <span className="text-slate-800 dark:text-slate-200">
+                                            <span className="capitalize text-slate-500 dark:text-slate-400 mr-3">{formatDateKey(holiday.date)}</span>
+                                            {holiday.name}
+                                        </span>
+                                        <button onClick={() => removeHoliday(holiday.date)} className="text-red-500 hover:text-red-700 font-semibold px-2" aria-label={`Remover ${holiday.name}`}>
+                                            Remover
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </Card>
+
+                    <div className="flex items-center justify-end gap-4">
+                        {validationError && <p className="text-sm text-red-500">{validationError}</p>}
+                        <button onClick={handleSave} disabled={isSaving || !!validationError} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center min-w-[140px] hc-button-primary-override">
+                            {isSaving ? <SpinnerIcon /> : 'Salvar calendário'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AdminSchoolCalendar;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTeacherData } from '../contexts/TeacherDataContext';
+import { Card } from './common/Card';
+import { SpinnerIcon } from '../constants/index';
+import type { AbsenceAlert, AttendanceRecord, AttendanceSession, AttendanceStatus, TeacherClass } from '../types';
+import {
+    ABSENCE_ALERT_PERCENT, buildMonthlyAttendanceGrid, computeAttendanceTotals, fetchAbsenceAlerts, fetchClassAttendanceRecords,
+    formatFrequency, formatMonthLabel, getAbsencePercent, groupAttendanceTotals, isOverAbsenceLimit, listAttendanceMonths,
+    NO_MATERIA_LABEL, NO_UNIDADE_LABEL
+} from '../utils/attendanceStats';
+
+interface AttendanceReportProps {
+    cls: TeacherClass;
+    onBack: () => void;
+}
+
+const STATUS_MARKS: Partial<Record<AttendanceStatus, { label: string; className: string }>> = {
+    presente: { label: 'P', className: 'text-green-700 dark:text-green-400' },
+    atrasado: { label: 'A', className: 'text-amber-600 dark:text-amber-400' },
+    ausente: { label: 'F', className: 'text-red-600 dark:text-red-400 font-bold' },
+    falta_justificada: { label: 'J', className: 'text-sky-600 dark:text-sky-400' },
+};
+
+const selectClass = "p-2 border border-slate-300 rounded-lg bg-white text-slate-700 text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-slate-200";
+
+// Relatório de frequência da turma: percentuais por aluno (filtráveis por matéria/unidade), alertas de faltas e grade mensal
+const AttendanceReport: React.FC<AttendanceReportProps> = ({ cls, onBack }) => {
+    const { handleSendAbsenceAlert } = useTeacherData();
+    const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+    const [records, setRecords] = useState<AttendanceRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [materia, setMateria] = useState('all');
+    const [unidade, setUnidade] = useState('all');
+    const [month, setMonth] = useState('');
+    const [alerts, setAlerts] = useState<Record<string, AbsenceAlert>>({});
+
+    useEffect(() => {
+        let mounted = true;
+        fetchClassAttendanceRecords(cls.id)
+            .then(data => {
+                if (!mounted) return;
+                setSessions(data.sessions);
+                setRecords(data.records);
+                setMonth(listAttendanceMonths(data.sessions)[0] || '');
+            })
+            .catch(error => console.error("Error fetching attendance report:", error))
+            .finally(() => { if (mounted) setIsLoading(false); });
+        fetchAbsenceAlerts(cls.id)
+            .then(data => { if (mounted) setAlerts(data); })
+            .catch(error => console.error("Error fetching absence alerts:", error));
+        return () => { mounted = false; };
+    }, [cls.id]);
+
+    const students = useMemo(() => [...(cls.students || [])].sort((a, b) => a.name.localeCompare(b.name)), [cls.students]);
+    const materiaOptions = useMemo(() => Array.from(new Set(sessions.map(s => s.materia || NO_MATERIA_LABEL))).sort(), [sessions]);
+    const unidadeOptions = useMemo(() => Array.from(new Set(sessions.map(s => s.unidade || NO_UNIDADE_LABEL))).sort(), [sessions]);
+    const months = useMemo(() => listAttendanceMonths(sessions), [sessions]);
+
+    // Chamadas dentro dos filtros de matéria e unidade
+    const filteredSessions = useMemo(() => sessions.filter(s =>
+        (materia === 'all' || (s.materia || NO_MATERIA_LABEL) === materia) &&
+        (unidade === 'all' || (s.unidade || NO_UNIDADE_LABEL) === unidade)
+    ), [sessions, materia, unidade]);
+
+    const filteredRecords = useMemo(() => {
+        const ids = new Set(filteredSessions.map(s => s.id));
+        return records.filter(r => ids.has(r.sessionId));
+    }, [records, filteredSessions]);
+
+    const totals = useMemo(() => computeAttendanceTotals(filteredRecords), [filteredRecords]);
+    // Frequência por matéria de cada aluno (visão geral, sem filtro de matéria)
+    const totalsByMateria = useMemo(() => groupAttendanceTotals(sessions, records, 'materia'), [sessions, records]);
+    const studentsInAlert = useMemo(() => students.filter(s => isOverAbsenceLimit(totals[s.id])), [students, totals]);
+    const grid = useMemo(() => buildMonthlyAttendanceGrid(filteredSessions, filteredRecords, month), [filteredSessions, filteredRecords, month]);
+
+    const sendAlert = async (studentId: string) => {
+        const alert = await handleSendAbsenceAlert(cls.id, studentId, getAbsencePercent(totals[studentId]));
+        if (alert) setAlerts(prev => ({ ...prev, [studentId]: alert }));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center space-x-4">
+                <button onClick={onBack} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" aria-label="Voltar">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-slate-600 dark:text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                </button>
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">Relatório de Frequência</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">{cls.name} · {sessions.length} chamada(s) registrada(s)</p>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-10"><SpinnerIcon className="h-8 w-8 text-indigo-500 mx-auto" /></div>
+            ) : sessions.length === 0 ? (
+                <Card><p className="text-center text-slate-500 dark:text-slate-400 py-8">Nenhuma chamada registrada nesta turma.</p></Card>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-3">
+                        <select value={materia} onChange={e => setMateria(e.target.value)} className={selectClass} aria-label="Filtrar por matéria">
+                            <option value="all">Todas as matérias</option>
+                            {materiaOptions.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                        <select value={unidade} onChange={e => setUnidade(e.target.value)} className={selectClass} aria-label="Filtrar por unidade">
+                            <option value="all">Todas as unidades</option>
+                            {unidadeOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                        </select>
+                    </div>
+
+                    {studentsInAlert.length > 0 && (
+                        <Card className="border border-red-200 bg-red-50 dark:bg-red-900/10 dark:border-red-800">
+                            <h3 className="font-bold text-red-800 dark:text-red-300 mb-2">
+                                {studentsInAlert.length} aluno(s) com {ABSENCE_ALERT_PERCENT}% ou mais de faltas
+                            </h3>
+                            <ul className="space-y-2">
+                                {studentsInAlert.map(student => (
+                                    <li key={student.id} className="flex items-center justify-between text-sm">
+                                        <span className="text-slate-800 dark:text-slate-200">
+                                            {student.name} — {getAbsencePercent(totals[student.id]).toFixed(1).replace('.', ',')}% de faltas ({totals[student.id].absent}/{totals[student.id].total - totals[student.id].justified})
+                                        </span>
+                                        <button
+                                            onClick={() => sendAlert(student.id)}
+                                            disabled={!!alerts[student.id]}
+                                            className="px-3 py-1 text-xs font-semibold rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                                        >
+                                            {alerts[student.id] ? `Avisado em ${new Date(alerts[student.id].sentAt).toLocaleDateString('pt-BR')}` : 'Avisar aluno'}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </Card>
+                    )}
+
+                    <Card className="!p-0 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300">
+                                <tr>
+                                    <th className="text-left p-3">Aluno</th>
+                                    <th className="p-3">Presenças</th>
+                                    <th className="p-3">Atrasos</th>
+                                    <th className="p-3">Faltas</th>
+                                    <th className="p-3">Justificadas</th>
+                                    <th className="p-3">Frequência</th>
+                                    {materia === 'all' && materiaOptions.length > 1 && materiaOptions.map(m => <th key={m} className="p-3 whitespace-nowrap">{m}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                {students.map(student => {
+                                    const entry = totals[student.id];
+                                    const inAlert = isOverAbsenceLimit(entry);
+                                    return (
+                                        <tr key={student.id} className={inAlert ? 'bg-red-50/60 dark:bg-red-900/10' : ''}>
+                                            <td className="p-3 font-medium text-slate-800 dark:text-slate-200">{student.name}</td>
+                                            <td className="p-3 text-center">{entry?.present ?? 0}</td>
+                                            <td className="p-3 text-center">{entry?.late ?? 0}</td>
+                                            <td className="p-3 text-center">{entry?.absent ?? 0}</td>
+                                            <td className="p-3 text-center">{entry?.justified ?? 0}</td>
+                                            <td className={`p-3 text-center font-bold ${inAlert ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-100'}`}>{formatFrequency(entry?.frequency)}</td>
+                                            {materia === 'all' && materiaOptions.length > 1 && materiaOptions.map(m => (
+                                                <td key={m} className="p-3 text-center text-slate-600 dark:text-slate-300">{formatFrequency(totalsByMateria[m]?.[student.id]?.frequency)}</td>
+                                            ))}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </Card>
+
+                    <Card className="!p-0 overflow-hidden">
+                        <div className="flex items-center justify-between p-4 border-b dark:border-slate-700">
+                            <h3 className="font-bold text-slate-800 dark:text-slate-100">Grade Mensal</h3>
+                            <select value={month} onChange={e => setMonth(e.target.value)} className={selectClass} aria-label="Mês">
+                                {months.map(m => <option key={m} value={m}>{formatMonthLabel(m)}</option>)}
+                            </select>
+                        </div>
+                        {grid.sessions.length === 0 ? (
+                            <p className="text-center text-slate-500 dark:text-slate-400 py-6 text-sm">Nenhuma chamada neste mês com os filtros atuais.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="text-xs">
+                                    <thead className="bg-slate-50 dark:bg-slate-900/40 text-slate-500 dark:text-slate-400">
+                                        <tr>
+                                            <th className="text-left p-2 sticky left-0 bg-slate-50 dark:bg-slate-900">Aluno</th>
+                                            {grid.sessions.map(s => (
+                                                <th key={s.id} className="p-2 text-center font-medium" title={`${s.turno} · ${s.horario}º horário${s.materia ? ` · ${s.materia}` : ''}`}>
+                                                    {s.date.slice(8, 10)}<br /><span className="font-normal">{s.horario}º</span>
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                        {students.map(student => (
+                                            <tr key={student.id}>
+                                                <td className="p-2 whitespace-nowrap sticky left-0 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200">{student.name}</td>
+                                                {grid.sessions.map(s => {
+                                                    const mark = STATUS_MARKS[grid.statusByStudent[student.id]?.[s.id]];
+                                                    return <td key={s.id} className={`p-2 text-center ${mark?.className || 'text-slate-300 dark:text-slate-600'}`}>{mark?.label || '·'}</td>;
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="p-3 text-xs text-slate-500 dark:text-slate-400">P = presente · A = atrasado · F = falta · J = falta justificada · · = sem registro</p>
+                            </div>
+                        )}
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AttendanceReport;
@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useTeacherData } from '../contexts/TeacherDataContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { Card } from './common/Card';
+import { RichTextContent } from './common/RichText';
+import { AttachmentList } from './common/SubmissionAttachments';
+import { SubmissionAnswers } from './common/SubmissionAnswers';
+import { RubricGrid } from './Rubric';
+import type { Activity, ActivitySubmission } from '../types';
+import { SpinnerIcon } from '../constants/index';
+import { computeRubricGrade, isRubricComplete } from '../utils/rubric';
+import { applyLatePenalty, formatLateLabel } from '../utils/latePolicy';
+import { getAnonymousLabel, isIdentityHidden, orderForBlindGrading } from '../utils/blindGrading';
+import type { NotificationGroup } from '../utils/createNotification';
+import { loadFeedbackSnippets, MAX_FEEDBACK_SNIPPETS, saveFeedbackSnippets } from '../utils/feedbackSnippets';
+
+interface QueueItem {
+    activity: Activity;
+    submission: ActivitySubmission;
+    graded: boolean;
+    grade?: number;
+}
+
+interface BatchGradingProps {
+    loadActivities: () => Promise<Activity[]>;
+    onExit: () => void;
+}
+
+const queueKey = (item: QueueItem) => `${item.activity.id}_${item.submission.studentId}`;
+
+const Kbd: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <kbd className="px-1.5 py-0.5 text-[10px] font-mono rounded border border-slate-300 bg-slate-100 text-slate-600 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-300">{children}</kbd>
+);
+
+/**
+ * Correção em lote: percorre todas as entregas pendentes (de todas as turmas filtradas) uma a uma,
+ * sem fechar a tela a cada nota. Cada nota salva já avisa o aluno, somando-se à notificação dele desta sessão.
+ */
+const BatchGrading: React.FC<BatchGradingProps> = ({ loadActivities, onExit }) => {
+    const { user } = useAuth();
+    const { addToast } = useToast();
+    const { handleGradeActivity } = useTeacherData();
+
+    const [queue, setQueue] = useState<QueueItem[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [grade, setGrade] = useState('');
+    const [feedback, setFeedback] = useState('');
+    const [rubricScores, setRubricScores] = useState<Record<string, string>>({});
+    const [snippets, setSnippets] = useState<string[]>(() => user ? loadFeedbackSnippets(user.id) : []);
+    const [newSnippet, setNewSnippet] = useState('');
+
+    const gradeInputRef = useRef<HTMLInputElement>(null);
+    // Uma notificação por aluno nesta sessão (studentId -> notificação criada)
+    const notificationGroupsRef = useRef(new Map<string, NotificationGroup>());
+
+    useEffect(() => {
+        let mounted = true;
+        loadActivities()
+            .then(activities => {
+                if (!mounted) return;
+                const items = activities.flatMap(activity =>
+                    (isIdentityHidden(activity) ? orderForBlindGrading(activity.id, activity.submissions || []) : (activity.submissions || []))
+                        .filter(sub => sub.status === 'Aguardando correção')
+                        .map(submission => ({ activity, submission, graded: false }))
+                );
+                setQueue(items);
+            })
+            .catch(error => {
+                console.error("Error loading batch grading queue:", error);
+                addToast("Erro ao carregar as entregas pendentes.", "error");
+            })
+            .finally(() => mounted && setIsLoading(false));
+        return () => { mounted = false; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const current = queue[currentIndex];
+    const gradedCount = useMemo(() => queue.filter(item => item.graded).length, [queue]);
+
+    // Ao trocar de entrega, o formulário mostra a nota já dada nesta sessão (ou começa vazio)
+    useEffect(() => {
+        if (!current) return;
+        setGrade(current.grade !== undefined ? String(current.grade) : '');
+        setFeedback(current.graded ? current.submission.feedback || '' : '');
+        setRubricScores(current.submission.rubricScores || {});
+        gradeInputRef.current?.focus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [current ? queueKey(current) : null]);
+
+    const goTo = useCallback((index: number) => {
+        if (queue.length === 0) return;
+        setCurrentIndex((index + queue.length) % queue.length);
+    }, [queue.length]);
+
+    const goToNextUngraded = useCallback((from: number = currentIndex, items: QueueItem[] = queue) => {
+        for (let step = 1; step <= items.length; step++) {
+            const index = (from + step) % items.length;
+            if (!items[index].graded) {
+                setCurrentIndex(index);
+                return true;
+            }
+        }
+        return false;
+    }, [currentIndex, queue]);
+
+    const handleRubricChange = (scores: Record<string, string>) => {
+        setRubricScores(scores);
+        if (current?.activity.rubric) setGrade(computeRubricGrade(current.activity.rubric, scores, current.activity.points).toString());
+    };
+
+    const insertSnippet = useCallback((text: string) => {
+        setFeedback(prev => prev.trim() ? `${prev.trim()} ${text}` : text);
+    }, []);
+
+    const updateSnippets = (next: string[]) => {
+        setSnippets(next);
+        if (user) saveFeedbackSnippets(user.id, next);
+    };
+
+    const handleAddSnippet = () => {
+        const text = newSnippet.trim();
+        if (!text || snippets.includes(text) || snippets.length >= MAX_FEEDBACK_SNIPPETS) return;
+        updateSnippets([...snippets, text]);
+        setNewSnippet('');
+    };
+
+    const handleSave = useCallback(async () => {
+        if (!current || isSaving) return;
+        const { activity, submission } = current;
+        if (activity.rubric && !isRubricComplete(activity.rubric, rubricScores)) {
+            addToast('Selecione um nível para cada critério da rubrica.', 'error');
+            return;
+        }
+        const gradeNumber = parseFloat(grade.replace(',', '.'));
+        if (isNaN(gradeNumber) || gradeNumber < 0 || gradeNumber > activity.points) {
+            addToast(`Insira uma nota válida entre 0 e ${activity.points}.`, 'error');
+            gradeInputRef.current?.focus();
+            return;
+        }
+
+        setIsSaving(true);
+        const success = await handleGradeActivity(activity.id, submission.studentId, gradeNumber, feedback, activity.rubric ? rubricScores : undefined, { notificationGroups: notificationGroupsRef.current });
+        setIsSaving(false);
+        if (!success) return;
+
+        const updatedQueue = queue.map((item, index) => index === currentIndex
+            ? { ...item, graded: true, grade: gradeNumber, submission: { ...item.submission, feedback, rubricScores } }
+            : item);
+        setQueue(updatedQueue);
+        if (!goToNextUngraded(currentIndex, updatedQueue)) {
+            addToast("Todas as entregas foram corrigidas!", "success");
+        }
+    }, [current, isSaving, rubricScores, grade, feedback, queue, currentIndex, handleGradeActivity, goToNextUngraded, addToast]);
+
+    const handleExit = () => {
+        const notifiedCount = notificationGroupsRef.current.size;
+        if (notifiedCount > 0) addToast(`${notifiedCount} aluno(s) notificado(s).`, "info");
+        onExit();
+    };
+
+    // Atalhos: Ctrl+Enter salva e avança; Alt+←/→ navega; Alt+N próxima pendente; Alt+1..9 insere trecho
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+                e.preventDefault();
+                handleSave();
+            } else if (e.altKey && e.key === 'ArrowRight') {
+                e.preventDefault();
+                goTo(currentIndex + 1);
+            } else if (e.altKey && e.key === 'ArrowLeft') {
+                e.preventDefault();
+                goTo(currentIndex - 1);
+            } else if (e.altKey && (e.code === 'KeyN')) {
+                e.preventDefault();
+                goToNextUngraded();
+            } else if (e.altKey && /^Digit[1-9]$/.test(e.code)) {
+                const snippet = snippets[Number(e.code.slice(5)) - 1];
+                if (snippet) {
+                    e.preventDefault();
+                    insertSnippet(snippet);
+                }
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [handleSave, goTo, goToNextUngraded, insertSnippet, currentIndex, snippets]);
+
+    if (isLoading) {
+        return <div className="flex justify-center py-20"><SpinnerIcon className="h-8 w-8 text-indigo-500" /></div>;
+    }
+
+    if (queue.length === 0) {
+        return (
+            <Card className="text-center py-12">
+                <p className="text-slate-500 dark:text-slate-400">Nenhuma entrega aguardando correção.</p>
+                <button onClick={handleExit} className="mt-4 text-indigo-600 hover:underline dark:text-indigo-400">Voltar</button>
+            </Card>
+        );
+    }
+
+    const { activity, submission } = current;
+    const parsedGrade = parseFloat(grade.replace(',', '.'));
+
+    return (
+        <div className="space-y-4">
+            <Card className="!p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div>
+                    <p className="font-semibold text-slate-800 dark:text-slate-100">
+                        Entrega {currentIndex + 1} de {queue.length} · {gradedCount} corrigida(s)
+                    </p>
+                    <div className="mt-1 h-2 w-64 max-w-full rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden" role="progressbar" aria-valuenow={gradedCount} aria-valuemin={0} aria-valuemax={queue.length}>
+                        <div className="h-full bg-green-500" style={{ width: `${(gradedCount / queue.length) * 100}%` }} />
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => goTo(currentIndex - 1)} className="px-3 py-2 text-sm font-semibold rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700">← Anterior</button>
+                    <button onClick={() => goTo(currentIndex + 1)} className="px-3 py-2 text-sm font-semibold rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700">Próxima →</button>
+                    <button onClick={() => goToNextUngraded()} disabled={gradedCount === queue.length} className="px-3 py-2 text-sm font-semibold rounded-lg bg-indigo-100 text-indigo-800 hover:bg-indigo-200 disabled:opacity-50 dark:bg-indigo-500/20 dark:text-indigo-200">Próxima pendente</button>
+                    <button onClick={handleExit} className="px-3 py-2 text-sm font-semibold rounded-lg bg-slate-800 text-white hover:bg-slate-700 dark:bg-slate-600">Concluir</button>
+                </div>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <Card className="lg:col-span-2 space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                        <div>
+                            <p className="text-sm text-slate-500 dark:text-slate-400">{activity.className} · {activity.title}</p>
+                            <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">{isIdentityHidden(activity) ? getAnonymousLabel(activity.id, activity.submissions || [], submission.studentId) : submission.studentName}</h2>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                {submission.submissionDate ? `Enviado em: ${new Date(submission.submissionDate).toLocaleString('pt-BR')}` : 'Data de envio não disponível'}
+                                {(submission.attempt || 1) > 1 && ` · Tentativa ${submission.attempt}`}
+                            </p>
+                        </div>
+                        <div className="flex flex-col items-end gap-1">
+                            {current.graded && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300">Corrigido</span>}
+                            {submission.isLate && (
+                                <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300">{formatLateLabel(submission)}</span>
+                            )}
+                        </div>
+                    </div>
+                    {submission.content && (
+                        <RichTextContent text={submission.content} className="text-sm text-slate-700 dark:text-slate-300 bg-slate-50 dark:bg-slate-800 p-3 rounded border dark:border-slate-600" />
+                    )}
+                    <AttachmentList attachments={submission.attachments} />
+                    {activity.questions && submission.answers && (
+                        <SubmissionAnswers questions={activity.questions} answers={submission.answers} />
+                    )}
+                    {activity.rubric && (
+                        <div className="pt-3 border-t border-slate-200 dark:border-slate-600">
+                            <p className="text-xs font-medium text-gray-700 dark:text-slate-300 mb-2">Rubrica: {activity.rubric.title}</p>
+                            <RubricGrid rubric={activity.rubric} scores={rubricScores} onChange={handleRubricChange} />
+                        </div>
+                    )}
+                </Card>
+
+                <Card className="space-y-4">
+                    <div>
+                        <label htmlFor="batch-grade" className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">Nota (de {activity.points})</label>
+                        <input
+                            ref={gradeInputRef}
+                            id="batch-grade"
+                            type="number"
+                            step="any"
+                            min={0}
+                            max={activity.points}
+                            value={grade}
+                            onChange={e => setGrade(e.target.value)}
+                            readOnly={!!activity.rubric}
+                            title={activity.rubric ? 'Nota calculada pela rubrica' : undefined}
+                            className="w-full read-only:bg-slate-100 dark:read-only:bg-slate-900 p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-800 dark:border-slate-600 dark:text-white"
+                        />
+                        {!!submission.latePenaltyPercent && !isNaN(parsedGrade) && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                                Com desconto de {submission.latePenaltyPercent}%: {applyLatePenalty(parsedGrade, submission.latePenaltyPercent)}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="batch-feedback" className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">Feedback</label>
+                        <textarea
+                            id="batch-feedback"
+                            rows={4}
+                            value={feedback}
+                            onChange={e => setFeedback(e.target.value)}
+                            placeholder="Escreva um feedback..."
+                            className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-800 dark:border-slate-600 dark:text-white"
+                        />
+                    </div>
+
+                    <div>
+                        <p className="text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">Trechos salvos</p>
+                        <ul className="space-y-1">
+                            {snippets.map((snippet, index) => (
+                                <li key={snippet} className="flex items-center gap-2">
+                                    <button type="button" onClick={() => insertSnippet(snippet)} className="flex-1 text-left text-sm px-2 py-1 rounded bg-slate-100 hover:bg-indigo-50 text-slate-700 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600">
+                                        <Kbd>Alt+{index + 1}</Kbd> <span className="ml-1">{snippet}</span>
+                                    </button>
+                                    <button type="button" onClick={() => updateSnippets(snippets.filter(s => s !== snippet))} className="text-red-500 hover:text-red-700 text-sm" aria-label={`Remover trecho ${snippet}`}>×</button>
+                                </li>
+                            ))}
+                        </ul>
+                        {snippets.length < MAX_FEEDBACK_SNIPPETS && (
+                            <div className="flex gap-2 mt-2">
+                                <input
+                                    type="text"
+                                    value={newSnippet}
+                                    onChange={e => setNewSnippet(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddSnippet(); } }}
+                                    placeholder="Novo trecho..."
+                                    className="flex-1 p-1.5 text-sm border border-gray-300 rounded-md dark:bg-slate-800 dark:border-slate-600 dark:text-white"
+                                />
+                                <button type="button" onClick={handleAddSnippet} className="px-3 text-sm font-semibold rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-600 dark:text-slate-200">Salvar</button>
+                            </div>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="w-full px-4 py-2 bg-green-200 text-green-900 font-semibold rounded-lg hover:bg-green-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center dark:bg-green-500/30 dark:text-green-200 dark:hover:bg-green-500/40"
+                    >
+                        {isSaving && <SpinnerIcon className="h-5 w-5 mr-2" />}
+                        {current.graded ? 'Atualizar e avançar' : 'Salvar e avançar'}
+                    </button>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">
+                        <Kbd>Ctrl+Enter</Kbd> salvar · <Kbd>Alt+←</Kbd>/<Kbd>Alt+→</Kbd> navegar · <Kbd>Alt+N</Kbd> próxima pendente
+                    </p>
+                </Card>
+            </div>
+        </div>
+    );
+};
+
+export default BatchGrading;
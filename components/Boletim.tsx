@@ -1,9 +1,21 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useStudentData } from '../contexts/StudentDataContext';
 import { useAuth } from '../contexts/AuthContext';
 import { Card } from './common/Card';
-import type { Unidade, ClassGradeReport } from '../types';
+import type { Unidade, ClassGradeReport, FinalGradeStatus, SubjectGradeReport } from '../types';
+import { formatAverage } from '../utils/gradeComposition';
+import { RECOVERY_RULE_LABELS } from '../utils/recovery';
+import {
+    ABSENCE_ALERT_PERCENT, computeAttendanceTotals, fetchStudentAttendanceRecords, formatFrequency,
+    getAbsencePercent, groupAttendanceTotals, isOverAbsenceLimit, StudentAttendanceTotals
+} from '../utils/attendanceStats';
+
+// Frequência do aluno em uma turma: geral e por matéria
+interface ClassAttendance {
+    overall?: StudentAttendanceTotals;
+    byMateria: Record<string, StudentAttendanceTotals | undefined>;
+}
 import { SpinnerIcon } from '../constants/index';
 
 // Helper para ordenar unidades
@@ -17,40 +29,45 @@ const getUnitOrder = (unit: string): number => {
     return map[unit] || 99;
 };
 
-const ClassReportCard: React.FC<{ classId: string; classReport: ClassGradeReport; }> = ({ classId, classReport }) => {
+const STATUS_COLORS: Record<FinalGradeStatus, string> = {
+    'Aprovado': 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    'Recuperação': 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    'Em andamento': 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const SubjectReport: React.FC<{ subject: SubjectGradeReport; attendance?: StudentAttendanceTotals }> = ({ subject, attendance }) => {
     const [expandedUnidade, setExpandedUnidade] = useState<string | null>(null);
 
     // Garante a ordem das unidades (1ª -> 4ª)
     const sortedUnidades = useMemo(() => {
-        return Object.keys(classReport.unidades).sort((a, b) => getUnitOrder(a) - getUnitOrder(b));
-    }, [classReport.unidades]);
-
-    const hasAnyPoints = sortedUnidades.length > 0;
-
-    if (!hasAnyPoints) {
-        return (
-            <Card>
-                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{classReport.className}</h3>
-                <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">Nenhuma nota registrada para esta turma ainda.</p>
-            </Card>
-        );
-    }
+        return Object.keys(subject.unidades).sort((a, b) => getUnitOrder(a) - getUnitOrder(b));
+    }, [subject.unidades]);
 
     const toggleUnidade = (unidade: string) => {
         setExpandedUnidade(prev => prev === unidade ? null : unidade);
     };
 
     return (
-        <Card className="!p-0 overflow-hidden">
-            <div className="p-4 border-b dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
-                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{classReport.className}</h3>
+        <div>
+            <div className="flex flex-wrap justify-between items-center gap-2 px-4 py-3 bg-white dark:bg-slate-800">
+                <p className="font-bold text-slate-800 dark:text-slate-100">{subject.materia}</p>
+                <div className="flex items-center gap-2 text-sm">
+                    {attendance && (
+                        <span className={isOverAbsenceLimit(attendance) ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-slate-600 dark:text-slate-300'}>
+                            Frequência: {formatFrequency(attendance.frequency)}
+                        </span>
+                    )}
+                    <span className="text-slate-600 dark:text-slate-300">Média anual: <strong>{formatAverage(subject.finalAverage)}</strong></span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_COLORS[subject.status]}`}>{subject.status}</span>
+                </div>
             </div>
             <div className="divide-y dark:divide-slate-700">
                 {sortedUnidades.map(unidadeName => {
-                    const data = classReport.unidades[unidadeName as Unidade];
+                    const data = subject.unidades[unidadeName as Unidade];
                     if (!data) return null;
 
                     const isExpanded = expandedUnidade === unidadeName;
+                    const isBelowPassing = data.average !== null && data.average < subject.passingAverage;
 
                     // Ordena atividades por título (ou data se disponível no futuro)
                     const sortedActivities = [...data.activities].sort((a, b) => a.title.localeCompare(b.title));
@@ -65,7 +82,13 @@ const ClassReportCard: React.FC<{ classId: string; classReport: ClassGradeReport
                             >
                                 <div>
                                     <p className="font-semibold text-slate-700 dark:text-slate-200">{unidadeName}</p>
-                                    <p className="text-sm text-indigo-600 dark:text-indigo-400 font-bold">Total: {Number(data.totalPoints).toFixed(1).replace(/\.0$/, '')} pts</p>
+                                    <p className={`text-sm font-bold ${isBelowPassing ? 'text-red-600 dark:text-red-400' : 'text-indigo-600 dark:text-indigo-400'}`}>
+                                        Média: {formatAverage(data.average)}
+                                        <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">({Number(data.totalPoints).toFixed(1).replace(/\.0$/, '')} pts)</span>
+                                    </p>
+                                    {data.recovery && (
+                                        <p className="text-xs text-amber-700 dark:text-amber-300">Após recuperação · média original {formatAverage(data.recovery.originalAverage)}</p>
+                                    )}
                                 </div>
                                 <div className="flex items-center space-x-2">
                                     <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Ver Detalhes</span>
@@ -73,35 +96,117 @@ const ClassReportCard: React.FC<{ classId: string; classReport: ClassGradeReport
                                 </div>
                             </div>
                             {isExpanded && (
-                                <div className="p-4 bg-slate-50 dark:bg-slate-900/30 border-t dark:border-slate-700">
-                                    <h4 className="font-semibold text-sm mb-3 text-slate-600 dark:text-slate-300 uppercase tracking-wider">Atividades Avaliadas</h4>
-                                    {sortedActivities.length > 0 ? (
-                                        <ul className="space-y-2">
-                                            {sortedActivities.map(act => (
-                                                <li key={act.id} className="flex justify-between items-center text-sm p-3 bg-white dark:bg-slate-800 rounded-md border dark:border-slate-700 shadow-sm">
-                                                    <span className="text-slate-700 dark:text-slate-300 font-medium">{act.title}</span>
-                                                    <span className="font-bold text-slate-800 dark:text-slate-100 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
-                                                        {act.grade} <span className="text-slate-400 dark:text-slate-500 text-xs font-normal">/ {act.maxPoints}</span>
-                                                    </span>
-                                                </li>
+                                <div className="p-4 bg-slate-50 dark:bg-slate-900/30 border-t dark:border-slate-700 space-y-4">
+                                    {data.categories.length > 0 && (
+                                        <div className="flex flex-wrap gap-2">
+                                            {data.categories.map(cat => (
+                                                <span key={cat.id} className="text-xs px-2 py-1 rounded-md bg-white border dark:bg-slate-800 dark:border-slate-700 text-slate-600 dark:text-slate-300">
+                                                    {cat.name} ({cat.weight}%): <strong>{formatAverage(cat.average)}</strong>
+                                                </span>
                                             ))}
-                                        </ul>
-                                    ) : (
-                                        <p className="text-sm text-slate-500 italic">Nenhuma atividade registrada nesta unidade.</p>
+                                        </div>
+                                    )}
+                                    {data.recovery && (
+                                        <div className="text-sm p-3 rounded-md bg-amber-50 border border-amber-200 dark:bg-amber-500/10 dark:border-amber-500/30 text-amber-800 dark:text-amber-200">
+                                            <p className="font-semibold">Recuperação: {data.recovery.title}</p>
+                                            <p>Nota {data.recovery.grade} / {data.recovery.maxPoints} · {RECOVERY_RULE_LABELS[data.recovery.rule]}</p>
+                                            <p>Média da unidade: {formatAverage(data.recovery.originalAverage)} → {formatAverage(data.average)}</p>
+                                        </div>
                                     )}
+                                    <div>
+                                        <h4 className="font-semibold text-sm mb-3 text-slate-600 dark:text-slate-300 uppercase tracking-wider">Atividades Avaliadas</h4>
+                                        {sortedActivities.length > 0 ? (
+                                            <ul className="space-y-2">
+                                                {sortedActivities.map(act => (
+                                                    <li key={act.id} className="flex justify-between items-center text-sm p-3 bg-white dark:bg-slate-800 rounded-md border dark:border-slate-700 shadow-sm">
+                                                        <span className="text-slate-700 dark:text-slate-300 font-medium">
+                                                            {act.title}
+                                                            {act.missing && <span className="ml-2 text-xs font-semibold text-red-600 dark:text-red-400">Não entregue</span>}
+                                                        </span>
+                                                        <span className="font-bold text-slate-800 dark:text-slate-100 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
+                                                            {act.grade} <span className="text-slate-400 dark:text-slate-500 text-xs font-normal">/ {act.maxPoints}</span>
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : (
+                                            <p className="text-sm text-slate-500 italic">Nenhuma atividade registrada nesta unidade.</p>
+                                        )}
+                                    </div>
                                 </div>
                             )}
                         </div>
                     );
                 })}
             </div>
+        </div>
+    );
+};
+
+const ClassReportCard: React.FC<{ classId: string; classReport: ClassGradeReport; attendance?: ClassAttendance }> = ({ classId, classReport, attendance }) => {
+    const subjects = useMemo(() => Object.values<SubjectGradeReport>(classReport.subjects).sort((a, b) => a.materia.localeCompare(b.materia)), [classReport.subjects]);
+
+    const overall = attendance?.overall;
+    const attendanceSummary = overall && overall.total > 0 && (
+        <div className={`mt-2 text-sm ${isOverAbsenceLimit(overall) ? 'text-red-700 dark:text-red-300' : 'text-slate-600 dark:text-slate-300'}`}>
+            <p>Frequência geral: <strong>{formatFrequency(overall.frequency)}</strong> · {overall.absent} falta(s) em {overall.total} aula(s){overall.justified > 0 ? ` · ${overall.justified} justificada(s)` : ''}{overall.late > 0 ? ` · ${overall.late} atraso(s)` : ''}</p>
+            {isOverAbsenceLimit(overall) && (
+                <p className="font-semibold">Atenção: você já faltou a {getAbsencePercent(overall).toFixed(1).replace('.', ',')}% das aulas. O limite de alerta é {ABSENCE_ALERT_PERCENT}%.</p>
+            )}
+        </div>
+    );
+
+    if (subjects.length === 0) {
+        return (
+            <Card>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{classReport.className}</h3>
+                {attendanceSummary}
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">Nenhuma nota registrada para esta turma ainda.</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="!p-0 overflow-hidden">
+            <div className="p-4 border-b dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
+                <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{classReport.className}</h3>
+                {attendanceSummary}
+            </div>
+            <div className="divide-y-4 divide-slate-100 dark:divide-slate-900">
+                {subjects.map(subject => <SubjectReport key={subject.materia} subject={subject} attendance={attendance?.byMateria[subject.materia]} />)}
+            </div>
         </Card>
     );
 };
 
 const Boletim: React.FC = () => {
     const { user } = useAuth();
-    const { gradeReport, isLoading } = useStudentData();
+    const { gradeReport, isLoading, studentClasses } = useStudentData();
+    const [attendanceByClass, setAttendanceByClass] = useState<Record<string, ClassAttendance>>({});
+
+    // Frequência própria, calculada a partir dos registros de chamada do aluno
+    useEffect(() => {
+        if (!user || studentClasses.length === 0) return;
+        let mounted = true;
+        fetchStudentAttendanceRecords(user.id, studentClasses.map(c => c.id))
+            .then(({ sessions, records }) => {
+                if (!mounted) return;
+                const result: Record<string, ClassAttendance> = {};
+                studentClasses.forEach(cls => {
+                    const classSessions = sessions.filter(s => s.classId === cls.id);
+                    const sessionIds = new Set(classSessions.map(s => s.id));
+                    const classRecords = records.filter(r => sessionIds.has(r.sessionId));
+                    const byMateria: ClassAttendance['byMateria'] = {};
+                    Object.entries(groupAttendanceTotals(classSessions, classRecords, 'materia')).forEach(([materia, totals]) => {
+                        byMateria[materia] = totals[user.id];
+                    });
+                    result[cls.id] = { overall: computeAttendanceTotals(classRecords)[user.id], byMateria };
+                });
+                setAttendanceByClass(result);
+            })
+            .catch(error => console.error("Error fetching student attendance:", error));
+        return () => { mounted = false; };
+    }, [user, studentClasses]);
 
     if (isLoading) {
         return (
@@ -131,13 +236,13 @@ const Boletim: React.FC = () => {
         <div className="space-y-6">
              <div>
                 <h2 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Meu Boletim</h2>
-                <p className="text-slate-500 dark:text-slate-400 mt-1">Acompanhe seu desempenho escolar por unidade.</p>
+                <p className="text-slate-500 dark:text-slate-400 mt-1">Acompanhe suas médias por matéria e unidade.</p>
             </div>
 
             <ul className="space-y-6">
                 {Object.entries(gradeReport).map(([classId, classReport]) => (
                     <li key={classId}>
-                        <ClassReportCard classId={classId} classReport={classReport} />
+                        <ClassReportCard classId={classId} classReport={classReport} attendance={attendanceByClass[classId]} />
                     </li>
                 ))}
             </ul>
@@ -1,14 +1,24 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigation } from '../contexts/NavigationContext';
-import { useTeacherData } from '../contexts/TeacherDataContext';
+import { useTeacherData, AttendanceRecordUpdate, JoinCodeSettingsUpdate } from '../contexts/TeacherDataContext';
+import { useToast } from '../contexts/ToastContext';
 import { Card } from './common/Card';
 import { ICONS, SpinnerIcon } from '../constants/index';
 import { Modal } from './common/Modal';
-import type { Turno, AttendanceSession, AttendanceRecord, AttendanceStatus } from '../types';
+import type { Turno, AttendanceSession, AttendanceRecord, AttendanceStatus, AttendanceJustification, Activity, Student, GradeCategory, GradingScheme, Unidade, TimetableSlot, Holiday, ClassJoinCode, ClassJoinRequest } from '../types';
 import { collection, getDocs, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from './firebaseClient';
 import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_GRADING_SCHEME, DEFAULT_SCHEME_KEY, GRADE_SCALE, UNIDADES, validateGradingScheme } from '../utils/gradeComposition';
+import AttendanceReport from './AttendanceReport';
+import { ATTENDANCE_STATUS_LABELS, findPreviousAttendanceSession } from '../utils/attendanceStats';
+import { compareTimetableSlots, findTimetableConflict, getSlotsForDate, HORARIOS, TURNOS, WEEKDAYS } from '../utils/timetable';
+import { formatDateKey, getUnidadeForDate, toDateKey } from '../utils/schoolCalendar';
+import { useSchoolCalendar } from '../hooks/useSchoolCalendar';
+import { getJustificationAttachmentUrl, JUSTIFICATION_FILE_ACCEPT, uploadJustificationAttachment, validateJustificationFile } from '../utils/attendanceJustification';
+import { buildJoinLink, fetchJoinCode, getJoinCodeProblem } from '../utils/classCodes';
+import { QrCode } from './common/QrCode';
 
 // --- Constants ---
 const AVAILABLE_SUBJECTS = [
@@ -128,64 +138,814 @@ const InviteTeacherModal: React.FC<InviteTeacherModalProps> = ({ isOpen, onClose
     );
 };
 
+// --- Modal: Composição de Notas ---
+interface GradingSchemeModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    gradingSchemes: Record<string, GradingScheme>;
+    onSave: (materiaKey: string, scheme: GradingScheme | null) => Promise<boolean>;
+}
+
+const newCategoryId = () => `cat_${Date.now().toString(36)}`;
+
+const GradingSchemeModal: React.FC<GradingSchemeModalProps> = ({ isOpen, onClose, gradingSchemes, onSave }) => {
+    const [materiaKey, setMateriaKey] = useState(DEFAULT_SCHEME_KEY);
+    const [scheme, setScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const existingScheme = gradingSchemes[materiaKey];
+    const validationError = validateGradingScheme(scheme);
+    const totalWeight = scheme.categories.reduce((sum, c) => sum + (c.weight || 0), 0);
+
+    // Carrega o esquema salvo da matéria selecionada (ou o modelo provas/trabalhos)
+    useEffect(() => {
+        if (isOpen) {
+            setScheme(JSON.parse(JSON.stringify(gradingSchemes[materiaKey] || DEFAULT_GRADING_SCHEME)));
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen, materiaKey]);
+
+    const updateCategory = (id: string, changes: Partial<GradeCategory>) => {
+        setScheme(prev => ({ ...prev, categories: prev.categories.map(c => c.id === id ? { ...c, ...changes } : c) }));
+    };
+
+    const handleSave = async () => {
+        if (validationError || isSaving) return;
+        setIsSaving(true);
+        const cleanScheme: GradingScheme = {
+            passingAverage: scheme.passingAverage,
+            categories: scheme.categories.map(c => ({ id: c.id, name: c.name.trim(), weight: c.weight }))
+        };
+        if (await onSave(materiaKey, cleanScheme)) onClose();
+        setIsSaving(false);
+    };
+
+    const handleRemove = async () => {
+        if (isSaving) return;
+        setIsSaving(true);
+        if (await onSave(materiaKey, null)) onClose();
+        setIsSaving(false);
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Composição de Notas">
+            <div className="space-y-6">
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Defina as categorias de avaliação e seus pesos. A média de cada unidade vai de 0 a 10 e a média anual é a média das quatro unidades.
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <InputField label="Matéria" required>
+                        <select
+                            value={materiaKey}
+                            onChange={e => setMateriaKey(e.target.value)}
+                            className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                        >
+                            <option value={DEFAULT_SCHEME_KEY}>Padrão da turma (todas as matérias)</option>
+                            {AVAILABLE_SUBJECTS.map(s => <option key={s} value={s}>{s}{gradingSchemes[s] ? ' ✓' : ''}</option>)}
+                        </select>
+                    </InputField>
+                    <InputField label="Média para aprovação" required>
+                        <input
+                            type="number"
+                            min={0}
+                            max={GRADE_SCALE}
+                            step="0.5"
+                            value={scheme.passingAverage}
+                            onChange={e => setScheme(prev => ({ ...prev, passingAverage: Number(e.target.value) }))}
+                            className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                        />
+                    </InputField>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                        <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Categorias</h4>
+                        <span className={`text-xs font-semibold ${Math.abs(totalWeight - 100) > 0.01 ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>Total: {totalWeight}%</span>
+                    </div>
+                    {scheme.categories.map(category => (
+                        <div key={category.id} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={category.name}
+                                onChange={e => updateCategory(category.id, { name: e.target.value })}
+                                placeholder="Ex.: Provas"
+                                aria-label="Nome da categoria"
+                                className="flex-1 p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            />
+                            <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                value={category.weight}
+                                onChange={e => updateCategory(category.id, { weight: Number(e.target.value) })}
+                                aria-label={`Peso de ${category.name || 'categoria'} (%)`}
+                                className="w-24 p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            />
+                            <span className="text-sm text-slate-500">%</span>
+                            <button
+                                onClick={() => setScheme(prev => ({ ...prev, categories: prev.categories.filter(c => c.id !== category.id) }))}
+                                className="text-red-500 hover:text-red-700 font-semibold text-sm px-2"
+                                aria-label={`Remover categoria ${category.name}`}
+                            >
+                                Remover
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setScheme(prev => ({ ...prev, categories: [...prev.categories, { id: newCategoryId(), name: '', weight: 0 }] }))}
+                        className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400"
+                    >
+                        + Adicionar categoria
+                    </button>
+                </div>
+
+                {validationError && <p className="text-sm text-red-500">{validationError}</p>}
+
+                <div className="flex justify-between gap-2">
+                    {existingScheme ? (
+                        <button
+                            onClick={handleRemove}
+                            disabled={isSaving}
+                            className="px-4 py-2 text-red-600 font-semibold rounded-lg hover:bg-red-50 disabled:opacity-50 dark:text-red-400 dark:hover:bg-red-500/10"
+                        >
+                            Remover composição
+                        </button>
+                    ) : <span />}
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !!validationError}
+                        className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center min-w-[140px] dark:bg-indigo-500 dark:hover:bg-indigo-600 hc-button-primary-override"
+                    >
+                        {isSaving ? <SpinnerIcon /> : 'Salvar'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+// --- Modal: Horário Semanal ---
+interface TimetableModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    timetable: TimetableSlot[];
+    teacherId: string;
+    defaultMateria: string;
+    onSave: (slots: TimetableSlot[]) => Promise<boolean>;
+}
+
+const newSlotId = () => `slot_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const TimetableModal: React.FC<TimetableModalProps> = ({ isOpen, onClose, timetable, teacherId, defaultMateria, onSave }) => {
+    const [slots, setSlots] = useState<TimetableSlot[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Aulas dos outros professores: não editáveis aqui, mas ocupam o horário
+    const otherSlots = useMemo(() => timetable.filter(s => s.teacherId !== teacherId), [timetable, teacherId]);
+
+    useEffect(() => {
+        if (isOpen) setSlots(timetable.filter(s => s.teacherId === teacherId).sort(compareTimetableSlots));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    const conflict = findTimetableConflict([...otherSlots, ...slots]);
+    const conflictLabel = conflict
+        ? `${WEEKDAYS.find(w => w.day === conflict.dayOfWeek)?.label}, ${conflict.turno}, ${conflict.horario}º horário`
+        : '';
+
+    const updateSlot = (id: string, changes: Partial<TimetableSlot>) => {
+        setSlots(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+    };
+
+    const addSlot = () => {
+        const last = slots[slots.length - 1];
+        setSlots(prev => [...prev, {
+            id: newSlotId(),
+            dayOfWeek: last?.dayOfWeek ?? 1,
+            turno: last?.turno ?? 'matutino',
+            horario: last ? Math.min(last.horario + 1, HORARIOS[HORARIOS.length - 1]) : 1,
+            teacherId,
+            ...(defaultMateria ? { materia: defaultMateria } : {})
+        }]);
+    };
+
+    const handleSave = async () => {
+        if (conflict || isSaving) return;
+        setIsSaving(true);
+        const cleanSlots = slots.map(({ materia, ...slot }) => ({ ...slot, ...(materia ? { materia } : {}) }));
+        if (await onSave(cleanSlots)) onClose();
+        setIsSaving(false);
+    };
+
+    const selectClass = "p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Horário Semanal">
+            <div className="space-y-6">
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Cadastre suas aulas fixas nesta turma. Nos dias letivos, as chamadas são criadas automaticamente ao abrir a turma (feriados do calendário escolar são ignorados).
+                </p>
+
+                <div className="space-y-2">
+                    {slots.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-4">Nenhuma aula cadastrada.</p>
+                    )}
+                    {slots.map(slot => (
+                        <div key={slot.id} className="flex flex-wrap items-center gap-2">
+                            <select value={slot.dayOfWeek} onChange={e => updateSlot(slot.id, { dayOfWeek: Number(e.target.value) })} className={selectClass} aria-label="Dia da semana">
+                                {WEEKDAYS.map(w => <option key={w.day} value={w.day}>{w.label}</option>)}
+                            </select>
+                            <select value={slot.turno} onChange={e => updateSlot(slot.id, { turno: e.target.value as Turno })} className={`${selectClass} capitalize`} aria-label="Turno">
+                                {TURNOS.map(t => <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>)}
+                            </select>
+                            <select value={slot.horario} onChange={e => updateSlot(slot.id, { horario: Number(e.target.value) })} className={selectClass} aria-label="Horário">
+                                {HORARIOS.map(h => <option key={h} value={h}>{h}º Horário</option>)}
+                            </select>
+                            <select value={slot.materia || ''} onChange={e => updateSlot(slot.id, { materia: e.target.value || undefined })} className={`${selectClass} flex-1 min-w-[140px]`} aria-label="Matéria">
+                                <option value="">Sem matéria</option>
+                                {AVAILABLE_SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                            <button
+                                onClick={() => setSlots(prev => prev.filter(s => s.id !== slot.id))}
+                                className="text-red-500 hover:text-red-700 font-semibold text-sm px-2"
+                                aria-label="Remover aula"
+                            >
+                                Remover
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={addSlot} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400">
+                        + Adicionar aula
+                    </button>
+                </div>
+
+                {otherSlots.length > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Outros professores ocupam {otherSlots.length} horário(s) desta turma.
+                    </p>
+                )}
+                {conflict && <p className="text-sm text-red-500">Conflito de horário: {conflictLabel}.</p>}
+
+                <div className="flex justify-end">
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !!conflict}
+                        className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center min-w-[140px] dark:bg-indigo-500 dark:hover:bg-indigo-600 hc-button-primary-override"
+                    >
+                        {isSaving ? <SpinnerIcon /> : 'Salvar'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+// --- Aulas de hoje (horário semanal) ---
+const TodayClassesCard: React.FC<{
+    slots: TimetableSlot[];
+    sessions: AttendanceSession[];
+    today: string;
+    holiday?: Holiday;
+    isGenerating: boolean;
+    onOpenSession: (session: AttendanceSession) => void;
+    onGenerate: () => void;
+}> = ({ slots, sessions, today, holiday, isGenerating, onOpenSession, onGenerate }) => {
+    const sessionFor = (slot: TimetableSlot) => sessions.find(s => s.date === today && s.turno === slot.turno && s.horario === slot.horario);
+    const hasMissing = slots.some(slot => !sessionFor(slot));
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100">Aulas de Hoje</h2>
+                <span className="text-sm text-slate-500 dark:text-slate-400 capitalize">{formatDateKey(today)}</span>
+            </div>
+            {holiday ? (
+                <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg">Feriado: {holiday.name}. Nenhuma chamada gerada.</p>
+            ) : (
+                <div className="space-y-2">
+                    {slots.map(slot => {
+                        const session = sessionFor(slot);
+                        return (
+                            <div key={slot.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-900/40 rounded-lg">
+                                <div className="text-sm">
+                                    <p className="font-semibold text-slate-800 dark:text-slate-100">{slot.horario}º Horário · <span className="capitalize">{slot.turno}</span></p>
+                                    {slot.materia && <p className="text-xs text-slate-500 dark:text-slate-400">{slot.materia}</p>}
+                                </div>
+                                {session ? (
+                                    <button onClick={() => onOpenSession(session)} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 hc-button-primary-override">
+                                        Fazer chamada
+                                    </button>
+                                ) : (
+                                    <span className="text-xs text-slate-400">{isGenerating ? 'Criando...' : 'Sem chamada'}</span>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {hasMissing && !isGenerating && (
+                        <button onClick={onGenerate} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400">
+                            Criar chamadas do dia
+                        </button>
+                    )}
+                </div>
+            )}
+        </Card>
+    );
+};
+
+// --- Modal: Código de Acesso ---
+interface JoinCodeModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    code: string;
+    onRegenerate: () => Promise<string | null>;
+    onUpdateSettings: (code: string, changes: JoinCodeSettingsUpdate) => Promise<boolean>;
+}
+
+// datetime-local trabalha no fuso do navegador, sem o "Z" do ISO
+const toLocalDateTimeInput = (iso?: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const JoinCodeModal: React.FC<JoinCodeModalProps> = ({ isOpen, onClose, code, onRegenerate, onUpdateSettings }) => {
+    const { addToast } = useToast();
+    const [joinCode, setJoinCode] = useState<ClassJoinCode | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isProjecting, setIsProjecting] = useState(false);
+    const [requireApproval, setRequireApproval] = useState(false);
+    const [expiresAt, setExpiresAt] = useState('');
+    const [maxUses, setMaxUses] = useState('');
+
+    const loadCode = async () => {
+        setIsLoading(true);
+        try {
+            const data = await fetchJoinCode(code);
+            setJoinCode(data);
+            setRequireApproval(!!data?.requireApproval);
+            setExpiresAt(toLocalDateTimeInput(data?.expiresAt));
+            setMaxUses(data?.maxUses !== undefined ? String(data.maxUses) : '');
+        } catch (error) {
+            console.error("Error fetching join code:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) loadCode();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen, code]);
+
+    const joinLink = buildJoinLink(code);
+    const problem = joinCode ? getJoinCodeProblem(joinCode) : null;
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(joinLink);
+            addToast("Link copiado!", "success");
+        } catch {
+            addToast("Não foi possível copiar o link.", "error");
+        }
+    };
+
+    const regenerate = async () => {
+        if (!window.confirm("Gerar um novo código? O código atual deixará de funcionar imediatamente.")) return;
+        setIsSaving(true);
+        await onRegenerate();
+        setIsSaving(false);
+    };
+
+    const toggleEnabled = async () => {
+        if (!joinCode) return;
+        setIsSaving(true);
+        if (await onUpdateSettings(code, { enabled: !joinCode.enabled })) await loadCode();
+        setIsSaving(false);
+    };
+
+    const saveSettings = async () => {
+        const limit = maxUses.trim() ? Number(maxUses) : null;
+        if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) {
+            addToast("O limite de usos deve ser um número inteiro maior que zero.", "error");
+            return;
+        }
+        if (expiresAt && new Date(expiresAt) <= new Date()) {
+            addToast("A data de expiração deve estar no futuro.", "error");
+            return;
+        }
+        setIsSaving(true);
+        const saved = await onUpdateSettings(code, {
+            requireApproval,
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+            maxUses: limit,
+        });
+        if (saved) await loadCode();
+        setIsSaving(false);
+    };
+
+    return (
+        <>
+            <Modal isOpen={isOpen} onClose={onClose} title="Código de Acesso">
+                {isLoading ? (
+                    <div className="text-center py-10"><SpinnerIcon className="h-8 w-8 text-indigo-500 mx-auto" /></div>
+                ) : (
+                    <div className="space-y-5">
+                        <div className="flex flex-col sm:flex-row items-center gap-5">
+                            <QrCode value={joinLink} className="w-40 h-40 rounded-lg border border-slate-200 dark:border-slate-700 flex-shrink-0" />
+                            <div className="text-center sm:text-left space-y-2">
+                                <p className="font-mono text-3xl font-bold tracking-widest text-slate-800 dark:text-slate-100">{code}</p>
+                                {joinCode ? (
+                                    <p className={`text-sm font-semibold ${problem ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>
+                                        {problem || 'Ativo'} · {joinCode.uses}{joinCode.maxUses !== undefined ? `/${joinCode.maxUses}` : ''} uso(s)
+                                    </p>
+                                ) : (
+                                    <p className="text-sm text-amber-700 dark:text-amber-300">Código antigo, sem expiração, limite ou aprovação. Gere um novo código para usar esses controles.</p>
+                                )}
+                                <div className="flex flex-wrap justify-center sm:justify-start gap-2">
+                                    <button onClick={() => setIsProjecting(true)} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 hc-button-primary-override">Projetar</button>
+                                    <button onClick={copyLink} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-200 hc-button-override">Copiar link</button>
+                                </div>
+                            </div>
+                        </div>
+
+                        {joinCode && (
+                            <div className="space-y-3 border-t dark:border-slate-700 pt-4">
+                                <div className="flex items-center">
+                                    <input id="join-require-approval" type="checkbox" checked={requireApproval} onChange={e => setRequireApproval(e.target.checked)} className="focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                    <label htmlFor="join-require-approval" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">Aprovar cada aluno antes de entrar na turma</label>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    <InputField label="Expira em">
+                                        <input type="datetime-local" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                                    </InputField>
+                                    <InputField label="Limite de usos">
+                                        <input type="number" min={1} value={maxUses} onChange={e => setMaxUses(e.target.value)} placeholder="Ilimitado" className="w-full p-2 border border-gray-300 rounded-lg dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                                    </InputField>
+                                </div>
+                                <div className="flex justify-end">
+                                    <button onClick={saveSettings} disabled={isSaving} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600 hc-button-primary-override">
+                                        Salvar configurações
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex flex-wrap justify-end gap-3 border-t dark:border-slate-700 pt-4">
+                            {joinCode && (
+                                <button onClick={toggleEnabled} disabled={isSaving} className="px-4 py-2 bg-white text-slate-700 font-semibold rounded-lg border border-slate-300 hover:bg-slate-50 disabled:opacity-50 dark:bg-slate-600 dark:text-slate-200 dark:border-slate-500 dark:hover:bg-slate-500 hc-button-override">
+                                    {joinCode.enabled ? 'Desativar código' : 'Reativar código'}
+                                </button>
+                            )}
+                            <button onClick={regenerate} disabled={isSaving} className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:opacity-50">
+                                Gerar novo código
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            {/* Tela cheia para projetar na sala de aula */}
+            {isProjecting && (
+                <div className="fixed inset-0 z-[60] bg-white flex flex-col items-center justify-center p-6" onClick={() => setIsProjecting(false)}>
+                    <QrCode value={joinLink} className="w-[min(70vh,80vw)] h-[min(70vh,80vw)]" />
+                    <p className="mt-6 font-mono text-6xl font-bold tracking-widest text-slate-900">{code}</p>
+                    <p className="mt-2 text-lg text-slate-600">Escaneie o QR Code ou digite o código em "Turmas"</p>
+                    <button onClick={() => setIsProjecting(false)} className="mt-6 px-4 py-2 bg-slate-800 text-white font-semibold rounded-lg">Fechar</button>
+                </div>
+            )}
+        </>
+    );
+};
+
+// --- Fila de aprovação de entradas ---
+const JoinRequestsCard: React.FC<{
+    requests: ClassJoinRequest[];
+    onDecide: (request: ClassJoinRequest, approve: boolean) => Promise<void>;
+}> = ({ requests, onDecide }) => {
+    const [decidingId, setDecidingId] = useState<string | null>(null);
+
+    const decide = async (request: ClassJoinRequest, approve: boolean) => {
+        setDecidingId(request.id);
+        await onDecide(request, approve);
+        setDecidingId(null);
+    };
+
+    return (
+        <Card className="border border-amber-200 bg-amber-50 dark:bg-amber-900/10 dark:border-amber-800">
+            <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-3">Pedidos de Entrada ({requests.length})</h3>
+            <ul className="space-y-2">
+                {requests.map(request => (
+                    <li key={request.id} className="flex items-center justify-between gap-2 text-sm p-2 bg-white dark:bg-slate-800 rounded">
+                        <div className="min-w-0">
+                            <p className="font-semibold text-slate-700 dark:text-slate-200 truncate">{request.studentName}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(request.createdAt).toLocaleString('pt-BR')}</p>
+                        </div>
+                        <div className="flex gap-1 flex-shrink-0">
+                            <button onClick={() => decide(request, true)} disabled={decidingId === request.id} className="px-2 py-1 text-xs font-semibold rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50">Aceitar</button>
+                            <button onClick={() => decide(request, false)} disabled={decidingId === request.id} className="px-2 py-1 text-xs font-semibold rounded bg-white border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50 dark:bg-slate-700 dark:border-red-800 dark:text-red-400">Recusar</button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </Card>
+    );
+};
+
+// --- Modal: Extensões de Prazo ---
+interface ExtensionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    activities: Activity[];
+    students: Student[];
+    onGrant: (activityId: string, studentId: string, dueDate: string | null) => Promise<void>;
+}
+
+const ExtensionsModal: React.FC<ExtensionsModalProps> = ({ isOpen, onClose, activities, students, onGrant }) => {
+    const [activityId, setActivityId] = useState('');
+    const [studentId, setStudentId] = useState('');
+    const [newDueDate, setNewDueDate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Só faz sentido estender atividades com prazo definido
+    const activitiesWithDueDate = useMemo(() => activities.filter(a => a.dueDate), [activities]);
+    const selectedActivity = activitiesWithDueDate.find(a => a.id === activityId);
+    const studentName = (id: string) => students.find(s => s.id === id)?.name || 'Aluno';
+
+    useEffect(() => {
+        if (isOpen) {
+            setActivityId(activitiesWithDueDate[0]?.id || '');
+            setStudentId('');
+            setNewDueDate('');
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    const handleGrant = async () => {
+        if (!activityId || !studentId || !newDueDate || isSaving) return;
+        setIsSaving(true);
+        await onGrant(activityId, studentId, newDueDate);
+        setIsSaving(false);
+        setStudentId('');
+        setNewDueDate('');
+    };
+
+    const formatDate = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('pt-BR');
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Extensões de Prazo">
+            {activitiesWithDueDate.length === 0 ? (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-8">Nenhuma atividade desta turma possui prazo.</p>
+            ) : (
+                <div className="space-y-6">
+                    <InputField label="Atividade" required>
+                        <select
+                            value={activityId}
+                            onChange={e => setActivityId(e.target.value)}
+                            className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                        >
+                            {activitiesWithDueDate.map(a => (
+                                <option key={a.id} value={a.id}>{a.title} (prazo {formatDate(a.dueDate!)})</option>
+                            ))}
+                        </select>
+                    </InputField>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <InputField label="Aluno" required>
+                            <select
+                                value={studentId}
+                                onChange={e => setStudentId(e.target.value)}
+                                className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            >
+                                <option value="">Selecione...</option>
+                                {students.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </InputField>
+                        <InputField label="Novo prazo" required>
+                            <input
+                                type="date"
+                                value={newDueDate}
+                                min={selectedActivity?.dueDate}
+                                onChange={e => setNewDueDate(e.target.value)}
+                                className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            />
+                        </InputField>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleGrant}
+                            disabled={isSaving || !activityId || !studentId || !newDueDate}
+                            className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center min-w-[140px] dark:bg-indigo-500 dark:hover:bg-indigo-600 hc-button-primary-override"
+                        >
+                            {isSaving ? <SpinnerIcon /> : 'Conceder Extensão'}
+                        </button>
+                    </div>
+
+                    {selectedActivity && Object.keys(selectedActivity.extensions || {}).length > 0 && (
+                        <div className="pt-4 border-t dark:border-slate-700">
+                            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">Extensões concedidas</h4>
+                            <ul className="space-y-2">
+                                {Object.entries<string>(selectedActivity.extensions!).map(([sid, date]) => (
+                                    <li key={sid} className="flex items-center justify-between p-2 bg-slate-50 dark:bg-slate-700/50 rounded-md text-sm">
+                                        <span className="text-slate-800 dark:text-slate-200">{studentName(sid)} — até {formatDate(date)}</span>
+                                        <button
+                                            onClick={() => onGrant(selectedActivity.id, sid, null)}
+                                            className="text-red-500 hover:text-red-700 font-semibold"
+                                            aria-label={`Remover extensão de ${studentName(sid)}`}
+                                        >
+                                            Remover
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
+
 // --- Attendance Student Item Component ---
+const STATUS_OPTIONS: { status: AttendanceStatus; label: string; activeClass: string; hoverClass: string }[] = [
+    { status: 'presente', label: 'Presente', activeClass: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/50 dark:text-green-300 dark:border-green-700', hoverClass: 'hover:bg-green-50 hover:text-green-700 hover:border-green-200 dark:hover:bg-green-900/30' },
+    { status: 'atrasado', label: 'Atrasado', activeClass: 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/50 dark:text-amber-300 dark:border-amber-700', hoverClass: 'hover:bg-amber-50 hover:text-amber-700 hover:border-amber-200 dark:hover:bg-amber-900/30' },
+    { status: 'ausente', label: 'Ausente', activeClass: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-900/50 dark:text-red-300 dark:border-red-700', hoverClass: 'hover:bg-red-50 hover:text-red-700 hover:border-red-200 dark:hover:bg-red-900/30' },
+    { status: 'falta_justificada', label: 'Justificada', activeClass: 'bg-sky-100 text-sky-800 border-sky-300 dark:bg-sky-900/50 dark:text-sky-300 dark:border-sky-700', hoverClass: 'hover:bg-sky-50 hover:text-sky-700 hover:border-sky-200 dark:hover:bg-sky-900/30' },
+];
+
+const STATUS_TEXT_COLORS: Record<AttendanceStatus, string> = {
+    pendente: 'text-slate-500 dark:text-slate-400',
+    presente: 'text-green-600 dark:text-green-400',
+    atrasado: 'text-amber-600 dark:text-amber-400',
+    ausente: 'text-red-600 dark:text-red-400',
+    falta_justificada: 'text-sky-600 dark:text-sky-400',
+};
+
+// Atestado: o link é resolvido no clique (a aba é aberta antes, para não ser barrada como pop-up)
+const JustificationAttachmentLink: React.FC<{ justification: AttendanceJustification }> = ({ justification }) => {
+    const { addToast } = useToast();
+
+    const handleOpen = async () => {
+        if (!justification.attachmentPath) return;
+        const tab = window.open('', '_blank');
+        if (tab) tab.opener = null;
+        try {
+            const url = await getJustificationAttachmentUrl(justification.attachmentPath);
+            if (tab) tab.location.href = url;
+            else window.location.href = url;
+        } catch (error) {
+            console.error("Error opening justification:", error);
+            tab?.close();
+            addToast("Não foi possível abrir o atestado.", "error");
+        }
+    };
+
+    return (
+        <button type="button" onClick={handleOpen} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {justification.attachmentName || 'Atestado'}
+        </button>
+    );
+};
+
 const AttendanceStudentItem: React.FC<{ 
     record: AttendanceRecord; 
     canEdit: boolean; 
     onUpdateStatus: (status: AttendanceStatus) => void;
+    onJustify: () => void;
     isUpdating: boolean;
-}> = ({ record, canEdit, onUpdateStatus, isUpdating }) => {
+}> = ({ record, canEdit, onUpdateStatus, onJustify, isUpdating }) => {
     return (
-        <div className="flex items-center justify-between p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
-            <div>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
+            <div className="min-w-0">
                 <p className="font-semibold text-slate-800 dark:text-slate-100">{record.studentName}</p>
-                <p className={`text-xs font-medium ${
-                    record.status === 'presente' ? 'text-green-600 dark:text-green-400' :
-                    record.status === 'ausente' ? 'text-red-600 dark:text-red-400' :
-                    'text-slate-500 dark:text-slate-400'
-                }`}>
-                    {record.status === 'pendente' ? 'Pendente' : record.status === 'presente' ? 'Presente' : 'Ausente'}
+                <p className={`text-xs font-medium ${STATUS_TEXT_COLORS[record.status] || STATUS_TEXT_COLORS.pendente}`}>
+                    {ATTENDANCE_STATUS_LABELS[record.status] || ATTENDANCE_STATUS_LABELS.pendente}
                 </p>
+                {record.status === 'falta_justificada' && record.justification && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                        {record.justification.reason}
+                        {record.justification.attachmentPath && (
+                            <> · <JustificationAttachmentLink justification={record.justification} /></>
+                        )}
+                    </p>
+                )}
             </div>
             
-            <div className="flex space-x-2">
-                <button
-                    onClick={() => onUpdateStatus('presente')}
-                    disabled={!canEdit || isUpdating}
-                    className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
-                        record.status === 'presente' 
-                            ? 'bg-green-100 text-green-800 border border-green-300 dark:bg-green-900/50 dark:text-green-300 dark:border-green-700' 
-                            : 'bg-slate-50 text-slate-600 border border-slate-200 hover:bg-green-50 hover:text-green-700 hover:border-green-200 dark:bg-slate-700 dark:text-slate-300 dark:border-slate-600 dark:hover:bg-green-900/30'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    aria-label={`Marcar ${record.studentName} como presente`}
-                    aria-pressed={record.status === 'presente'}
-                >
-                    Presente
-                </button>
-                <button
-                    onClick={() => onUpdateStatus('ausente')}
-                    disabled={!canEdit || isUpdating}
-                    className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
-                        record.status === 'ausente' 
-                            ? 'bg-red-100 text-red-800 border border-red-300 dark:bg-red-900/50 dark:text-red-300 dark:border-red-700' 
-                            : 'bg-slate-50 text-slate-600 border border-slate-200 hover:bg-red-50 hover:text-red-700 hover:border-red-200 dark:bg-slate-700 dark:text-slate-300 dark:border-slate-600 dark:hover:bg-red-900/30'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    aria-label={`Marcar ${record.studentName} como ausente`}
-                    aria-pressed={record.status === 'ausente'}
-                >
-                    Ausente
-                </button>
+            <div className="flex flex-wrap gap-2">
+                {STATUS_OPTIONS.map(option => (
+                    <button
+                        key={option.status}
+                        onClick={() => option.status === 'falta_justificada' ? onJustify() : onUpdateStatus(option.status)}
+                        disabled={!canEdit || isUpdating}
+                        className={`px-3 py-1.5 rounded-md text-sm font-semibold border transition-colors ${
+                            record.status === option.status
+                                ? option.activeClass
+                                : `bg-slate-50 text-slate-600 border-slate-200 dark:bg-slate-700 dark:text-slate-300 dark:border-slate-600 ${option.hoverClass}`
+                        } disabled:opacity-50 disabled:cursor-not-allowed`}
+                        aria-label={`Marcar ${record.studentName} como ${option.label.toLowerCase()}`}
+                        aria-pressed={record.status === option.status}
+                    >
+                        {option.label}
+                    </button>
+                ))}
             </div>
         </div>
     );
 };
 
+// --- Justification Modal (falta justificada com atestado) ---
+const JustificationModal: React.FC<{
+    record: AttendanceRecord | null;
+    sessionId: string;
+    onClose: () => void;
+    onSave: (record: AttendanceRecord, justification: AttendanceJustification) => Promise<void>;
+}> = ({ record, sessionId, onClose, onSave }) => {
+    const { addToast } = useToast();
+    const [reason, setReason] = useState('');
+    const [file, setFile] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setReason(record?.justification?.reason || '');
+        setFile(null);
+    }, [record]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0] || null;
+        e.target.value = '';
+        if (!selected) return;
+        const error = validateJustificationFile(selected);
+        if (error) { addToast(error, 'error'); return; }
+        setFile(selected);
+    };
+
+    const handleSave = async () => {
+        if (!record || !reason.trim()) return;
+        setIsSaving(true);
+        try {
+            // Sem novo arquivo, mantém o atestado já anexado
+            const attachment = file
+                ? await uploadJustificationAttachment(sessionId, record.studentId, file)
+                : record.justification;
+            const justification: AttendanceJustification = {
+                reason: reason.trim(),
+                ...(attachment?.attachmentName ? { attachmentName: attachment.attachmentName } : {}),
+                ...(attachment?.attachmentPath ? { attachmentPath: attachment.attachmentPath } : {}),
+            };
+            await onSave(record, justification);
+            onClose();
+        } catch (error) {
+            console.error("Error saving justification:", error);
+            addToast("Erro ao salvar a justificativa.", "error");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!record} onClose={onClose} title="Falta Justificada">
+            {record && (
+                <div className="space-y-4">
+                    <p className="text-sm text-slate-600 dark:text-slate-300">Aluno: <strong>{record.studentName}</strong></p>
+                    <InputField label="Motivo" required>
+                        <textarea
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                            rows={3}
+                            placeholder="Ex.: atestado médico, consulta, luto..."
+                            className="w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                        />
+                    </InputField>
+                    <InputField label="Atestado (foto ou PDF, opcional)">
+                        <input type="file" accept={JUSTIFICATION_FILE_ACCEPT} onChange={handleFileChange} className="text-sm text-slate-600 dark:text-slate-300" />
+                        {(file || record.justification?.attachmentName) && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{file ? file.name : `Anexado: ${record.justification?.attachmentName}`}</p>
+                        )}
+                    </InputField>
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button onClick={onClose} className="px-4 py-2 bg-white border border-gray-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-200">Cancelar</button>
+                        <button onClick={handleSave} disabled={isSaving || !reason.trim()} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center">
+                            {isSaving && <SpinnerIcon className="h-4 w-4 mr-2" />} Salvar
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
 // --- Attendance Session Detail View ---
 const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () => void }> = ({ session, onBack }) => {
-    const { handleUpdateAttendanceStatus } = useTeacherData();
+    const { handleUpdateAttendanceStatus, handleBulkUpdateAttendance, attendanceSessionsByClass } = useTeacherData();
+    const { addToast } = useToast();
     const [records, setRecords] = useState<AttendanceRecord[]>([]);
     const [loading, setLoading] = useState(true);
     const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [isBulkUpdating, setIsBulkUpdating] = useState(false);
+    const [justifyingRecord, setJustifyingRecord] = useState<AttendanceRecord | null>(null);
 
     // Verifica regra de 7 dias
     const canEdit = useMemo(() => {
@@ -197,6 +957,11 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
         return diffDays <= 7;
     }, [session.createdAt]);
 
+    const previousSession = useMemo(
+        () => findPreviousAttendanceSession(attendanceSessionsByClass[session.classId] || [], session),
+        [attendanceSessionsByClass, session]
+    );
+
     useEffect(() => {
         let mounted = true;
         const fetchRecords = async () => {
@@ -220,17 +985,17 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
         return () => { mounted = false; };
     }, [session.id]);
 
-    const onUpdateStatus = async (recordId: string, status: AttendanceStatus) => {
+    const onUpdateStatus = async (recordId: string, status: AttendanceStatus, justification?: AttendanceJustification) => {
         if (!canEdit) return;
         
         // Optimistic UI Update: Update local state immediately
         setRecords(prevRecords => 
-            prevRecords.map(r => r.id === recordId ? { ...r, status } : r)
+            prevRecords.map(r => r.id === recordId ? { ...r, status, justification: status === 'falta_justificada' ? justification : undefined } : r)
         );
 
         setUpdatingId(recordId);
         try {
-            await handleUpdateAttendanceStatus(session.id, recordId, status);
+            await handleUpdateAttendanceStatus(session.id, recordId, status, justification);
         } catch (error) {
             console.error("Failed to update status remotely", error);
         } finally {
@@ -238,12 +1003,69 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
         }
     };
 
+    const applyBulkUpdates = async (updates: AttendanceRecordUpdate[]) => {
+        if (!canEdit || updates.length === 0) return;
+        const previousRecords = records;
+        const updatesById = new Map(updates.map(u => [u.recordId, u]));
+        setRecords(prev => prev.map(r => {
+            const update = updatesById.get(r.id);
+            return update ? { ...r, status: update.status, justification: update.status === 'falta_justificada' ? update.justification : undefined } : r;
+        }));
+
+        setIsBulkUpdating(true);
+        try {
+            await handleBulkUpdateAttendance(session.id, updates);
+        } catch {
+            setRecords(previousRecords);
+        } finally {
+            setIsBulkUpdating(false);
+        }
+    };
+
+    const markAllPresent = () => applyBulkUpdates(
+        records.filter(r => r.status !== 'presente').map(r => ({ recordId: r.id, status: 'presente' as AttendanceStatus }))
+    );
+
+    // Copia a situação de cada aluno da chamada anterior (ex.: aulas seguidas no mesmo dia)
+    const copyFromPreviousSession = async () => {
+        if (!previousSession) return;
+        const alreadyMarked = records.some(r => r.status !== 'pendente');
+        if (alreadyMarked && !window.confirm("Esta chamada já tem marcações. Substituir pela chamada anterior?")) return;
+
+        setIsBulkUpdating(true);
+        try {
+            const snapshot = await getDocs(collection(db, "attendance_sessions", previousSession.id, "records"));
+            const previousByStudent = new Map(snapshot.docs.map(d => {
+                const record = d.data() as AttendanceRecord;
+                return [record.studentId, record];
+            }));
+            const updates: AttendanceRecordUpdate[] = [];
+            records.forEach(r => {
+                const previous = previousByStudent.get(r.studentId);
+                if (!previous || !previous.status || previous.status === 'pendente') return;
+                updates.push({ recordId: r.id, status: previous.status, ...(previous.justification ? { justification: previous.justification } : {}) });
+            });
+            if (updates.length === 0) {
+                addToast("A chamada anterior não tem marcações para copiar.", "info");
+                setIsBulkUpdating(false);
+                return;
+            }
+            await applyBulkUpdates(updates);
+        } catch (error) {
+            console.error("Error copying previous session:", error);
+            addToast("Erro ao copiar a chamada anterior.", "error");
+            setIsBulkUpdating(false);
+        }
+    };
+
     const stats = useMemo(() => {
-        const total = records.length;
-        const present = records.filter(r => r.status === 'presente').length;
-        const absent = records.filter(r => r.status === 'ausente').length;
-        const pending = total - present - absent;
-        return { total, present, absent, pending };
+        const count = (status: AttendanceStatus) => records.filter(r => r.status === status).length;
+        const present = count('presente');
+        const late = count('atrasado');
+        const absent = count('ausente');
+        const justified = count('falta_justificada');
+        const pending = records.length - present - late - absent - justified;
+        return { total: records.length, present, late, absent, justified, pending };
     }, [records]);
 
     return (
@@ -259,7 +1081,7 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
                         Chamada de {new Date(session.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' })}
                     </h2>
                     <p className="text-sm text-slate-500 dark:text-slate-400 capitalize">
-                        {session.turno} • {session.horario}º Horário
+                        {session.turno} • {session.horario}º Horário{session.materia ? ` • ${session.materia}` : ''}{session.unidade ? ` • ${session.unidade}` : ''}
                     </p>
                 </div>
                 <div className="flex-grow" />
@@ -270,14 +1092,22 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
                 )}
             </div>
 
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-3 md:grid-cols-5 gap-4">
                 <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded-lg border border-green-200 dark:border-green-800 text-center">
                     <p className="text-xs text-green-600 dark:text-green-400 font-bold uppercase">Presentes</p>
                     <p className="text-2xl font-bold text-green-700 dark:text-green-300">{stats.present}</p>
                 </div>
+                <div className="bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg border border-amber-200 dark:border-amber-800 text-center">
+                    <p className="text-xs text-amber-600 dark:text-amber-400 font-bold uppercase">Atrasados</p>
+                    <p className="text-2xl font-bold text-amber-700 dark:text-amber-300">{stats.late}</p>
+                </div>
                 <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-200 dark:border-red-800 text-center">
                     <p className="text-xs text-red-600 dark:text-red-400 font-bold uppercase">Ausentes</p>
                     <p className="text-2xl font-bold text-red-700 dark:text-red-300">{stats.absent}</p>
+                </div>
+                <div className="bg-sky-50 dark:bg-sky-900/20 p-3 rounded-lg border border-sky-200 dark:border-sky-800 text-center">
+                    <p className="text-xs text-sky-600 dark:text-sky-400 font-bold uppercase">Justificadas</p>
+                    <p className="text-2xl font-bold text-sky-700 dark:text-sky-300">{stats.justified}</p>
                 </div>
                  <div className="bg-slate-50 dark:bg-slate-800 p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-center">
                     <p className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase">Pendentes</p>
@@ -285,6 +1115,27 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
                 </div>
             </div>
 
+            {canEdit && records.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={markAllPresent}
+                        disabled={isBulkUpdating || stats.present === stats.total}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                    >
+                        Marcar todos presentes
+                    </button>
+                    <button
+                        onClick={copyFromPreviousSession}
+                        disabled={isBulkUpdating || !previousSession}
+                        title={previousSession ? `${new Date(previousSession.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' })} · ${previousSession.horario}º horário` : 'Nenhuma chamada anterior nesta turma'}
+                        className="px-4 py-2 text-sm font-semibold rounded-lg bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+                    >
+                        Copiar da chamada anterior
+                    </button>
+                    {isBulkUpdating && <SpinnerIcon className="h-5 w-5 text-indigo-500 self-center" />}
+                </div>
+            )}
+
             {loading ? (
                 <div className="text-center py-10"><SpinnerIcon className="h-8 w-8 text-indigo-500 mx-auto" /></div>
             ) : records.length === 0 ? (
@@ -296,12 +1147,20 @@ const AttendanceSessionView: React.FC<{ session: AttendanceSession, onBack: () =
                             key={record.id}
                             record={record}
                             canEdit={canEdit}
-                            isUpdating={updatingId === record.id}
+                            isUpdating={updatingId === record.id || isBulkUpdating}
                             onUpdateStatus={(status) => onUpdateStatus(record.id, status)}
+                            onJustify={() => setJustifyingRecord(record)}
                         />
                     ))}
                 </div>
             )}
+
+            <JustificationModal
+                record={justifyingRecord}
+                sessionId={session.id}
+                onClose={() => setJustifyingRecord(null)}
+                onSave={(record, justification) => onUpdateStatus(record.id, 'falta_justificada', justification)}
+            />
         </div>
     );
 };
@@ -425,16 +1284,37 @@ const SessionList: React.FC<{ sessions: AttendanceSession[], onSelectSession: (s
 const ClassView: React.FC = () => {
     const { user } = useAuth();
     const { activeClass, exitClass } = useNavigation();
-    const { handleCreateAttendanceSession, isSubmitting, fetchClassDetails, attendanceSessionsByClass, handleInviteTeacher } = useTeacherData();
+    const { handleCreateAttendanceSession, isSubmitting, fetchClassDetails, attendanceSessionsByClass, handleInviteTeacher, teacherClasses, handleGrantExtension, handleSaveGradingScheme, handleSaveTimetable, handleGenerateDailySessions, joinRequests, handleRegenerateJoinCode, handleUpdateJoinCodeSettings, handleDecideJoinRequest } = useTeacherData();
     
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+    const [isExtensionsModalOpen, setIsExtensionsModalOpen] = useState(false);
+    const [isGradingModalOpen, setIsGradingModalOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [isTimetableModalOpen, setIsTimetableModalOpen] = useState(false);
+    const [isJoinCodeModalOpen, setIsJoinCodeModalOpen] = useState(false);
+    const [todayHoliday, setTodayHoliday] = useState<Holiday | undefined>();
+    const [isGenerating, setIsGenerating] = useState(false);
+    const generatedForRef = useRef<string | null>(null);
     const [selectedSession, setSelectedSession] = useState<AttendanceSession | null>(null);
     
     // Modal State
     const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
     const [turno, setTurno] = useState<Turno>('matutino');
     const [horario, setHorario] = useState<number>(1);
+    const [sessionUnidade, setSessionUnidade] = useState<Unidade>('1ª Unidade');
+    // Matéria da chamada: por padrão, a disciplina do professor na turma
+    const [sessionMateria, setSessionMateria] = useState(() => {
+        const subject = user && activeClass?.subjects?.[user.id];
+        return subject && AVAILABLE_SUBJECTS.includes(subject) ? subject : '';
+    });
+
+    // Unidade da chamada manual segue o calendário escolar da data escolhida
+    const { calendar: sessionCalendar } = useSchoolCalendar(Number(date.slice(0, 4)) || new Date().getFullYear());
+    useEffect(() => {
+        const calendarUnidade = getUnidadeForDate(sessionCalendar, date);
+        if (calendarUnidade) setSessionUnidade(calendarUnidade);
+    }, [sessionCalendar, date]);
 
     useEffect(() => {
         if (activeClass && !activeClass.isFullyLoaded) {
@@ -443,7 +1323,32 @@ const ClassView: React.FC = () => {
     }, [activeClass, fetchClassDetails]);
 
     const sessions = activeClass ? (attendanceSessionsByClass[activeClass.id] || []) : [];
+    // activeClass é um retrato do momento da navegação; atividades e alunos atualizados vêm do contexto
+    const liveClass = activeClass ? (teacherClasses.find(c => c.id === activeClass.id) || activeClass) : null;
     const isOwner = user && activeClass && activeClass.teacherId === user.id;
+    const today = toDateKey(new Date());
+    const todaySlots = useMemo(() => user ? getSlotsForDate(liveClass?.timetable, today, user.id) : [], [liveClass?.timetable, today, user]);
+    const mySlotCount = (liveClass?.timetable || []).filter(s => s.teacherId === user?.id).length;
+    const teacherSubject = (user && activeClass?.subjects?.[user.id]) || '';
+    const classJoinRequests = activeClass ? joinRequests.filter(r => r.classId === activeClass.id) : [];
+
+    const generateTodaySessions = async () => {
+        if (!liveClass) return;
+        setIsGenerating(true);
+        const result = await handleGenerateDailySessions(liveClass.id, today);
+        setTodayHoliday(result.holiday);
+        setIsGenerating(false);
+    };
+
+    // Abre a turma com as chamadas do dia já criadas (uma vez por turma e data)
+    useEffect(() => {
+        if (!liveClass?.isFullyLoaded || todaySlots.length === 0) return;
+        const key = `${liveClass.id}_${today}`;
+        if (generatedForRef.current === key) return;
+        generatedForRef.current = key;
+        generateTodaySessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [liveClass?.id, liveClass?.isFullyLoaded, todaySlots.length, today]);
 
     if (!activeClass) {
         return (
@@ -456,7 +1361,7 @@ const ClassView: React.FC = () => {
 
     const handleCreate = async () => {
         if (!date || !activeClass) return;
-        await handleCreateAttendanceSession(activeClass.id, date, turno, horario);
+        await handleCreateAttendanceSession(activeClass.id, date, turno, horario, sessionMateria || undefined, sessionUnidade);
         setIsModalOpen(false);
     };
 
@@ -465,6 +1370,12 @@ const ClassView: React.FC = () => {
         setIsInviteModalOpen(false);
     };
 
+    if (isReportOpen && liveClass) {
+        return (
+            <AttendanceReport cls={liveClass} onBack={() => setIsReportOpen(false)} />
+        );
+    }
+
     if (selectedSession) {
         return (
             <Card>
@@ -513,6 +1424,17 @@ const ClassView: React.FC = () => {
             {/* Main Content */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-2 space-y-6">
+                    {todaySlots.length > 0 && (
+                        <TodayClassesCard
+                            slots={todaySlots}
+                            sessions={sessions}
+                            today={today}
+                            holiday={todayHoliday}
+                            isGenerating={isGenerating}
+                            onOpenSession={setSelectedSession}
+                            onGenerate={generateTodaySessions}
+                        />
+                    )}
                     <Card>
                         <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-4 flex items-center">
                             {ICONS.chamada}
@@ -529,9 +1451,73 @@ const ClassView: React.FC = () => {
                     <Card className="bg-slate-50 dark:bg-slate-800/50">
                         <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-2">Resumo da Turma</h3>
                         <div className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
-                            <p>Código: <span className="font-mono bg-slate-200 dark:bg-slate-700 px-1 rounded">{activeClass.code}</span></p>
-                            <p>Alunos Matriculados: {activeClass.studentCount || (activeClass.students?.length || 0)}</p>
+                            <p>Código: <span className="font-mono bg-slate-200 dark:bg-slate-700 px-1 rounded">{liveClass?.code}</span></p>
+                            <p>Alunos Matriculados: {liveClass?.studentCount || (liveClass?.students?.length || 0)}</p>
                         </div>
+                        {isOwner && (
+                            <button
+                                onClick={() => setIsJoinCodeModalOpen(true)}
+                                className="mt-3 w-full px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-50 transition-colors dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-slate-700 hc-button-override"
+                            >
+                                Código de Acesso e QR Code
+                            </button>
+                        )}
+                    </Card>
+
+                    {isOwner && classJoinRequests.length > 0 && (
+                        <JoinRequestsCard requests={classJoinRequests} onDecide={handleDecideJoinRequest} />
+                    )}
+
+                    <Card>
+                        <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-2">Horário Semanal</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+                            {mySlotCount > 0
+                                ? `${mySlotCount} aula(s) por semana. As chamadas do dia são criadas automaticamente.`
+                                : 'Cadastre suas aulas fixas para gerar as chamadas do dia automaticamente.'}
+                        </p>
+                        <button
+                            onClick={() => setIsTimetableModalOpen(true)}
+                            className="w-full px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-50 transition-colors dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-slate-700 hc-button-override"
+                        >
+                            Configurar Horário
+                        </button>
+                    </Card>
+
+                    <Card>
+                        <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-2">Frequência</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">Percentuais por aluno, matéria e unidade, alertas de faltas e grade mensal.</p>
+                        <button
+                            onClick={() => setIsReportOpen(true)}
+                            className="w-full px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-50 transition-colors dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-slate-700 hc-button-override"
+                        >
+                            Ver Relatório
+                        </button>
+                    </Card>
+
+                    <Card>
+                        <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-2">Prazos Individuais</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">Conceda mais tempo a um aluno específico em uma atividade.</p>
+                        <button
+                            onClick={() => setIsExtensionsModalOpen(true)}
+                            className="w-full px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-50 transition-colors dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-slate-700 hc-button-override"
+                        >
+                            Gerenciar Extensões
+                        </button>
+                    </Card>
+
+                    <Card>
+                        <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-2">Composição de Notas</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+                            {Object.keys(liveClass?.gradingSchemes || {}).length > 0
+                                ? `${Object.keys(liveClass!.gradingSchemes!).length} esquema(s) de pesos configurado(s).`
+                                : 'Sem pesos configurados: a média usa a soma simples dos pontos.'}
+                        </p>
+                        <button
+                            onClick={() => setIsGradingModalOpen(true)}
+                            className="w-full px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-50 transition-colors dark:bg-slate-800 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-slate-700 hc-button-override"
+                        >
+                            Configurar Pesos
+                        </button>
                     </Card>
 
                     {/* Seção de Professores (Corpo Docente) */}
@@ -574,6 +1560,28 @@ const ClassView: React.FC = () => {
                         />
                     </InputField>
                     
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <InputField label="Matéria">
+                            <select
+                                value={sessionMateria}
+                                onChange={e => setSessionMateria(e.target.value)}
+                                className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            >
+                                <option value="">Não informar</option>
+                                {AVAILABLE_SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </InputField>
+                        <InputField label="Unidade" required>
+                            <select
+                                value={sessionUnidade}
+                                onChange={e => setSessionUnidade(e.target.value as Unidade)}
+                                className="w-full p-2 border border-gray-300 rounded-md shadow-sm bg-white text-slate-900 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                            >
+                                {UNIDADES.map(u => <option key={u} value={u}>{u}</option>)}
+                            </select>
+                        </InputField>
+                    </div>
+
                     <InputField label="Turno" required>
                         <div className="flex space-x-4">
                             {(['matutino', 'vespertino', 'noturno'] as const).map(t => (
@@ -629,6 +1637,44 @@ const ClassView: React.FC = () => {
                 </div>
             </Modal>
 
+            {/* Modal de Extensões de Prazo */}
+            <ExtensionsModal
+                isOpen={isExtensionsModalOpen}
+                onClose={() => setIsExtensionsModalOpen(false)}
+                activities={liveClass?.activities || []}
+                students={liveClass?.students || []}
+                onGrant={handleGrantExtension}
+            />
+
+            {/* Modal de Composição de Notas */}
+            <GradingSchemeModal
+                isOpen={isGradingModalOpen}
+                onClose={() => setIsGradingModalOpen(false)}
+                gradingSchemes={liveClass?.gradingSchemes || {}}
+                onSave={(materiaKey, scheme) => handleSaveGradingScheme(activeClass.id, materiaKey, scheme)}
+            />
+
+            {user && (
+                <TimetableModal
+                    isOpen={isTimetableModalOpen}
+                    onClose={() => setIsTimetableModalOpen(false)}
+                    timetable={liveClass?.timetable || []}
+                    teacherId={user.id}
+                    defaultMateria={AVAILABLE_SUBJECTS.includes(teacherSubject) ? teacherSubject : ''}
+                    onSave={(slots) => handleSaveTimetable(activeClass.id, slots)}
+                />
+            )}
+
+            {isOwner && liveClass && (
+                <JoinCodeModal
+                    isOpen={isJoinCodeModalOpen}
+                    onClose={() => setIsJoinCodeModalOpen(false)}
+                    code={liveClass.code}
+                    onRegenerate={() => handleRegenerateJoinCode(liveClass.id)}
+                    onUpdateSettings={handleUpdateJoinCodeSettings}
+                />
+            )}
+
             {/* Modal de Convite */}
             <InviteTeacherModal 
                 isOpen={isInviteModalOpen} 
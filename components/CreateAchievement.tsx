@@ -1,9 +1,120 @@
 import React, { useState, useEffect } from 'react';
-import type { Achievement } from '../types';
+import type { Achievement, AchievementCondition, AchievementGroupCondition, AchievementRuleCondition, AchievementOperator, UserGamificationStats } from '../types';
 import { Card } from './common/Card';
 import { ICONS, SpinnerIcon } from '../constants/index';
 import { useAdminData } from '../contexts/AdminDataContext';
 import { useNavigation } from '../contexts/NavigationContext';
+import { ACHIEVEMENT_METRICS, describeCondition, evaluateCondition, getAchievementCondition, supportsTimeWindow } from '../utils/gamificationEngine';
+
+const MAX_GROUP_DEPTH = 2;
+
+const createRule = (): AchievementRuleCondition => ({ kind: 'rule', metric: 'modulesCompleted', operator: '>=', value: 1 });
+const createGroup = (kind: 'all' | 'any' = 'all'): AchievementGroupCondition => ({ kind, conditions: [createRule()] });
+
+// Raiz sempre é um grupo, para que o editor trate regras simples e compostas da mesma forma
+const toRootGroup = (condition: AchievementCondition | null): AchievementGroupCondition => {
+    if (!condition) return createGroup();
+    return condition.kind === 'rule' ? { kind: 'all', conditions: [condition] } : condition;
+};
+
+/**
+ * As métricas são contadores que começam em 0 (e uma janela de dias sem atividade também vale 0).
+ * Regras satisfeitas com 0 (ex.: "xp >= 0", "quizzes < 5") desbloqueariam para todos imediatamente;
+ * "< 0" nunca é satisfeita. Em ambos os casos a regra é rejeitada.
+ */
+const getConditionProblem = (condition: AchievementCondition): string | null => {
+    if (condition.kind === 'rule') {
+        if (!condition.metric || !Number.isFinite(condition.value) || condition.value < 0) return 'Informe um valor maior ou igual a zero.';
+        if (condition.operator === '<' || condition.operator === '<=') return 'Use ≥, > ou =: com < ou ≤ a regra vale para quem ainda não fez nada.';
+        if (condition.windowDays && !supportsTimeWindow(String(condition.metric))) return `A métrica da regra "${describeCondition(condition)}" não aceita janela de dias.`;
+        if (evaluateCondition(condition, {} as UserGamificationStats)) return `A regra "${describeCondition(condition)}" já vale para alunos sem nenhuma atividade.`;
+        return null;
+    }
+    if (condition.conditions.length === 0) return 'Adicione pelo menos uma regra.';
+    for (const child of condition.conditions) {
+        const problem = getConditionProblem(child);
+        if (problem) return problem;
+    }
+    return null;
+};
+
+const isConditionValid = (condition: AchievementCondition): boolean => getConditionProblem(condition) === null;
+
+// Remove campos opcionais vazios (o Firestore rejeita `undefined`)
+const sanitizeCondition = (condition: AchievementCondition): AchievementCondition => {
+    if (condition.kind === 'rule') {
+        const { windowDays, ...rule } = condition;
+        return windowDays && windowDays > 0 ? { ...rule, windowDays } : rule;
+    }
+    return { kind: condition.kind, conditions: condition.conditions.map(sanitizeCondition) };
+};
+
+const selectClass = "p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+
+const RuleEditor: React.FC<{ rule: AchievementRuleCondition; onChange: (rule: AchievementRuleCondition) => void; onRemove?: () => void }> = ({ rule, onChange, onRemove }) => (
+    <div className="flex flex-wrap items-center gap-2">
+        <select aria-label="Métrica" value={String(rule.metric)} onChange={e => onChange({ ...rule, metric: e.target.value, ...(supportsTimeWindow(e.target.value) ? {} : { windowDays: undefined }) })} className={selectClass}>
+            {ACHIEVEMENT_METRICS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+        <select aria-label="Operador" value={rule.operator} onChange={e => onChange({ ...rule, operator: e.target.value as AchievementOperator })} className={selectClass}>
+            <option value=">=">≥</option>
+            <option value=">">&gt;</option>
+            <option value="==">=</option>
+        </select>
+        <input aria-label="Valor" type="number" min={0} value={rule.value} onChange={e => onChange({ ...rule, value: Math.max(0, Number(e.target.value)) })} className={`w-24 ${selectClass}`} />
+        {/* Janela de dias só para métricas acumuladas dia a dia (ver supportsTimeWindow) */}
+        {supportsTimeWindow(String(rule.metric)) && (
+            <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                em
+                <input aria-label="Janela de tempo em dias" type="number" min={0} placeholder="∞" value={rule.windowDays || ''} onChange={e => onChange({ ...rule, windowDays: Math.max(0, Number(e.target.value)) || undefined })} className={`w-20 ${selectClass}`} />
+                dias
+            </label>
+        )}
+        {onRemove && (
+            <button type="button" onClick={onRemove} className="px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded dark:text-red-400 dark:hover:bg-red-500/10" aria-label="Remover regra">✕</button>
+        )}
+    </div>
+);
+
+const ConditionGroupEditor: React.FC<{ group: AchievementGroupCondition; depth: number; onChange: (group: AchievementGroupCondition) => void; onRemove?: () => void }> = ({ group, depth, onChange, onRemove }) => {
+    const updateChild = (index: number, child: AchievementCondition) => {
+        onChange({ ...group, conditions: group.conditions.map((c, i) => i === index ? child : c) });
+    };
+    const removeChild = (index: number) => {
+        onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+    };
+
+    return (
+        <div className={`space-y-3 ${depth > 0 ? 'p-3 border-l-4 border-indigo-200 dark:border-indigo-500/40 bg-slate-50 dark:bg-slate-800/50 rounded-r-md' : ''}`}>
+            <div className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <span>Desbloquear quando</span>
+                <select aria-label="Combinação das regras" value={group.kind} onChange={e => onChange({ ...group, kind: e.target.value as 'all' | 'any' })} className={selectClass}>
+                    <option value="all">TODAS (E)</option>
+                    <option value="any">QUALQUER UMA (OU)</option>
+                </select>
+                <span>as condições abaixo forem atendidas:</span>
+                {onRemove && (
+                    <button type="button" onClick={onRemove} className="ml-auto px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded dark:text-red-400 dark:hover:bg-red-500/10">Remover grupo</button>
+                )}
+            </div>
+            {group.conditions.map((child, index) => (
+                <div key={index}>
+                    {child.kind === 'rule' ? (
+                        <RuleEditor rule={child} onChange={r => updateChild(index, r)} onRemove={group.conditions.length > 1 ? () => removeChild(index) : undefined} />
+                    ) : (
+                        <ConditionGroupEditor group={child} depth={depth + 1} onChange={g => updateChild(index, g)} onRemove={() => removeChild(index)} />
+                    )}
+                </div>
+            ))}
+            <div className="flex gap-2">
+                <button type="button" onClick={() => onChange({ ...group, conditions: [...group.conditions, createRule()] })} className="px-3 py-1 text-sm font-semibold text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 dark:bg-indigo-500/20 dark:text-indigo-300">+ Regra</button>
+                {depth < MAX_GROUP_DEPTH && (
+                    <button type="button" onClick={() => onChange({ ...group, conditions: [...group.conditions, createGroup(group.kind === 'all' ? 'any' : 'all')] })} className="px-3 py-1 text-sm font-semibold text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-200">+ Grupo</button>
+                )}
+            </div>
+        </div>
+    );
+};
 
 const InputField: React.FC<{ label: string, required?: boolean, children: React.ReactNode, helperText?: string }> = ({ label, required, children, helperText }) => (
     <div>
@@ -24,8 +135,7 @@ const CreateAchievement: React.FC = () => {
     const [title, setTitle] = useState('');
     const [description, setDescription] = useState('');
     const [points, setPoints] = useState(10);
-    const [criterionType, setCriterionType] = useState<'modules' | 'quizzes' | 'activities'>('modules');
-    const [criterionCount, setCriterionCount] = useState(1);
+    const [condition, setCondition] = useState<AchievementGroupCondition>(() => createGroup());
     const [category, setCategory] = useState<'social' | 'learning' | 'engagement'>('learning');
     const [rarity, setRarity] = useState<'common' | 'rare' | 'epic'>('common');
     const [status, setStatus] = useState<'Ativa' | 'Inativa'>('Ativa');
@@ -36,8 +146,7 @@ const CreateAchievement: React.FC = () => {
             setTitle(editingAchievement.title);
             setDescription(editingAchievement.description);
             setPoints(editingAchievement.points);
-            setCriterionType(editingAchievement.criterionType || 'modules');
-            setCriterionCount(editingAchievement.criterionCount || 1);
+            setCondition(toRootGroup(getAchievementCondition(editingAchievement)));
             setCategory(editingAchievement.category || 'learning');
             setRarity(editingAchievement.rarity || 'common');
             setStatus(editingAchievement.status || 'Ativa');
@@ -48,19 +157,15 @@ const CreateAchievement: React.FC = () => {
         if (!title || !description || action) return;
 
         setAction('save');
-        const criterionTextMap = {
-            modules: `Completar ${criterionCount} módulo(s)`,
-            quizzes: `Completar ${criterionCount} quiz(zes)`,
-            activities: `Enviar ${criterionCount} atividade(s)`,
-        };
+        // Grupo com uma única regra é salvo como regra simples
+        const finalCondition = sanitizeCondition(condition.conditions.length === 1 ? condition.conditions[0] : condition);
 
         const achievementData = {
             title,
             description,
             points,
-            criterion: criterionTextMap[criterionType],
-            criterionType: criterionType,
-            criterionCount: criterionCount,
+            criterion: describeCondition(finalCondition),
+            condition: finalCondition,
             category,
             rarity,
             status,
@@ -112,7 +217,7 @@ const CreateAchievement: React.FC = () => {
         }
     };
 
-    const isFormValid = title.trim() !== '' && description.trim() !== '' && criterionCount > 0;
+    const isFormValid = title.trim() !== '' && description.trim() !== '' && isConditionValid(condition);
 
     return (
         <div className="space-y-6">
@@ -139,18 +244,18 @@ const CreateAchievement: React.FC = () => {
                         <textarea value={description} onChange={e => setDescription(e.target.value)} rows={3} className="w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
                     </InputField>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <InputField label="Tipo de Critério" required>
-                            <select value={criterionType} onChange={e => setCriterionType(e.target.value as any)} className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus-visible:ring-indigo-500 focus-visible:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white">
-                                <option value="modules">Módulos Concluídos</option>
-                                <option value="quizzes">Quizzes Concluídos</option>
-                                <option value="activities">Atividades Enviadas</option>
-                            </select>
-                        </InputField>
-                        <InputField label="Quantidade Necessária" required>
-                            <input type="number" value={criterionCount} onChange={e => setCriterionCount(Math.max(1, Number(e.target.value)))} className="w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
-                        </InputField>
-                    </div>
+                    <InputField label="Critério de Desbloqueio" required helperText="Deixe o campo de dias vazio para considerar todo o histórico do aluno.">
+                        <div className="p-4 border border-gray-200 rounded-md dark:border-slate-600">
+                            <ConditionGroupEditor group={condition} depth={0} onChange={setCondition} />
+                            {isConditionValid(condition) ? (
+                                <p className="mt-4 text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">
+                                    <span className="font-semibold">Prévia:</span> {describeCondition(condition)}
+                                </p>
+                            ) : (
+                                <p className="mt-4 text-sm text-red-600 dark:text-red-400">{getConditionProblem(condition)}</p>
+                            )}
+                        </div>
+                    </InputField>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                         <InputField label="Pontos">
@@ -1,6 +1,6 @@
 
-import React, { useState } from 'react';
-import type { Activity, ActivityType, QuizQuestion, Unidade } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Activity, ActivityType, LatePenalty, QuestionBankTags, QuizQuestion, RecoveryRule, Rubric, Unidade } from '../types';
 import { Card } from './common/Card';
 import { ICONS, SpinnerIcon } from '../constants/index';
 import { useTeacherData } from '../contexts/TeacherDataContext';
@@ -10,6 +10,13 @@ import { useToast } from '../contexts/ToastContext';
 import { storage } from './firebaseClient';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { useAuth } from '../contexts/AuthContext';
+import { QuestionBankPicker, SaveToQuestionBankModal } from './QuestionBank';
+import { RubricEditor } from './Rubric';
+import { createEmptyRubric, sanitizeRubric, validateRubric } from '../utils/rubric';
+import { findStudentsBelowPassing, formatAverage, getGradingScheme, resolveCategory, UNIDADES } from '../utils/gradeComposition';
+import { RECOVERY_RULE_DESCRIPTIONS, RECOVERY_RULE_LABELS } from '../utils/recovery';
+import { formatShortDate, getUnidadeForDate, getUnidadePeriod, isUnidadeClosed, toDateKey } from '../utils/schoolCalendar';
+import { useClosedUnidadeCheck, useSchoolCalendar } from '../hooks/useSchoolCalendar';
 
 const PROFESSOR_EXIGENTE_SYSTEM_PROMPT = `Sua escrita é clara, direta e exigente, valorizando a lucidez e o rigor conceitual. O texto deve ensinar com precisão, sem introduções típicas de IA e sem frases automáticas como “Olá” ou “como uma inteligência artificial”. O estilo é objetivo, culto e sem sentimentalismo. Prefira frases curtas, ideias bem estruturadas e transições lógicas. Evite linguagem opinativa e adjetivação emocional. Ao escrever materiais didáticos, mantenha organização modular: use títulos e subtítulos curtos, explicações diretas e, quando necessário, exemplos históricos precisos e contextualizados. A linguagem deve ser acessível para estudantes do ensino fundamental II e médio, mas sem subestimar o leitor — explique os conceitos de modo que o aluno perceba complexidade e seriedade no conteúdo. Prefira verbos de ação e tom analítico. Evite analogias forçadas ou tentativas de “deixar o texto leve”. O tom geral deve transmitir a sensação de um professor que respeita a inteligência do aluno e ensina com clareza, firmeza e propósito. Em suma: seja preciso, lúcido e didático, sem perder densidade histórica.`;
 
@@ -23,8 +30,10 @@ const InputField: React.FC<{ label: string, required?: boolean, children: React.
     </div>
 );
 
-const MultipleChoiceCreator: React.FC<{ questions: QuizQuestion[], setQuestions: React.Dispatch<React.SetStateAction<QuizQuestion[]>> }> = ({ questions, setQuestions }) => {
+const MultipleChoiceCreator: React.FC<{ questions: QuizQuestion[], setQuestions: React.Dispatch<React.SetStateAction<QuizQuestion[]>>, bankTags?: QuestionBankTags }> = ({ questions, setQuestions, bankTags }) => {
     const [isGeneratingChoices, setIsGeneratingChoices] = useState<number | null>(null);
+    const [isBankOpen, setIsBankOpen] = useState(false);
+    const [questionToBank, setQuestionToBank] = useState<QuizQuestion | null>(null);
     const { addToast } = useToast();
 
     const handleGenerateChoices = async (qId: number, questionText: string) => {
@@ -125,7 +134,12 @@ const MultipleChoiceCreator: React.FC<{ questions: QuizQuestion[], setQuestions:
                 <Card key={q.id} className="bg-slate-50 dark:bg-slate-700/50">
                     <div className="flex justify-between items-center mb-4">
                         <h4 className="font-semibold text-slate-700 dark:text-slate-200">Questão {qIndex + 1}</h4>
-                        <button type="button" onClick={() => removeQuestion(q.id)} className="text-sm text-red-500 font-semibold hover:underline">Remover Questão</button>
+                        <div className="flex items-center space-x-4">
+                            {q.bankQuestionId
+                                ? <span className="text-xs font-semibold text-green-700 dark:text-green-400">No banco de questões</span>
+                                : <button type="button" onClick={() => setQuestionToBank(q)} className="text-sm text-indigo-600 font-semibold hover:underline dark:text-indigo-400">Salvar no banco</button>}
+                            <button type="button" onClick={() => removeQuestion(q.id)} className="text-sm text-red-500 font-semibold hover:underline">Remover Questão</button>
+                        </div>
                     </div>
                     <div className="space-y-4">
                         <textarea
@@ -174,15 +188,38 @@ const MultipleChoiceCreator: React.FC<{ questions: QuizQuestion[], setQuestions:
                     </div>
                 </Card>
             ))}
-            <button type="button" onClick={addQuestion} className="w-full p-2.5 bg-slate-100 text-slate-700 font-semibold rounded-lg hover:bg-slate-200 transition-colors dark:bg-slate-600 dark:text-slate-200 dark:hover:bg-slate-500 hc-button-override">
-                Adicionar Questão
-            </button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <button type="button" onClick={addQuestion} className="w-full p-2.5 bg-slate-100 text-slate-700 font-semibold rounded-lg hover:bg-slate-200 transition-colors dark:bg-slate-600 dark:text-slate-200 dark:hover:bg-slate-500 hc-button-override">
+                    Adicionar Questão
+                </button>
+                <button type="button" onClick={() => setIsBankOpen(true)} className="w-full p-2.5 bg-indigo-100 text-indigo-700 font-semibold rounded-lg hover:bg-indigo-200 transition-colors dark:bg-indigo-500/20 dark:text-indigo-200 dark:hover:bg-indigo-500/30 hc-button-override">
+                    Inserir do Banco de Questões
+                </button>
+            </div>
+            {isBankOpen && (
+                <QuestionBankPicker
+                    isOpen={isBankOpen}
+                    onClose={() => setIsBankOpen(false)}
+                    onInsert={inserted => setQuestions(prev => [...prev, ...inserted])}
+                    initialFilters={{ materia: bankTags?.materia }}
+                    allowedTypes={['single', 'true_false']}
+                />
+            )}
+            {questionToBank && (
+                <SaveToQuestionBankModal
+                    isOpen={!!questionToBank}
+                    onClose={() => setQuestionToBank(null)}
+                    question={questionToBank}
+                    defaultTags={bankTags}
+                    onSaved={bankId => setQuestions(prev => prev.map(q => q.id === questionToBank.id ? { ...q, bankQuestionId: bankId } : q))}
+                />
+            )}
         </div>
     );
 }
 
 const CreateActivity: React.FC = () => {
-    const { teacherClasses, handleSaveActivity } = useTeacherData();
+    const { teacherClasses, handleSaveActivity, fetchClassDetails } = useTeacherData();
     const { setCurrentPage } = useNavigation();
     const { addToast } = useToast();
     const { user } = useAuth();
@@ -194,15 +231,59 @@ const CreateActivity: React.FC = () => {
     const [selectedClassId, setSelectedClassId] = useState(teacherClasses.length > 0 ? teacherClasses[0].id : '');
     const [unidade, setUnidade] = useState<Unidade>('1ª Unidade');
     const [materia, setMateria] = useState('História');
+    const [gradeCategory, setGradeCategory] = useState('');
+    const [isRecovery, setIsRecovery] = useState(false);
+    const [recoveryRule, setRecoveryRule] = useState<RecoveryRule>('maior_nota');
+    const [recoveryStudentIds, setRecoveryStudentIds] = useState<string[]>([]);
     const [dueDate, setDueDate] = useState('');
     const [points, setPoints] = useState(0);
     const [isVisible, setIsVisible] = useState(true);
     const [allowLateSubmissions, setAllowLateSubmissions] = useState(true);
+    const [blindGrading, setBlindGrading] = useState(false);
+    const [usePenalty, setUsePenalty] = useState(false);
+    const [latePenalty, setLatePenalty] = useState<LatePenalty>({ percentPerDay: 10, maxPercent: 50 });
     const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+    const [useRubric, setUseRubric] = useState(false);
+    const [rubric, setRubric] = useState<Rubric>(() => createEmptyRubric());
     const [attachments, setAttachments] = useState<File[]>([]);
 
     const [isGeneratingDescription, setIsGeneratingDescription] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Categoria de avaliação (ex.: Provas 60%) conforme a composição de notas da turma/matéria
+    const gradingScheme = getGradingScheme(teacherClasses.find(c => c.id === selectedClassId), materia);
+    const selectedCategory = resolveCategory(gradingScheme, gradeCategory);
+
+    // Calendário escolar: a unidade segue o prazo de entrega (ou a data de hoje, sem prazo)
+    const { calendar } = useSchoolCalendar(dueDate ? Number(dueDate.slice(0, 4)) : new Date().getFullYear());
+    const calendarUnidade = getUnidadeForDate(calendar, dueDate || toDateKey(new Date()));
+    const unidadePeriod = getUnidadePeriod(calendar, unidade);
+    const isSelectedUnidadeClosed = isUnidadeClosed(calendar, unidade);
+
+    useEffect(() => {
+        if (calendarUnidade) setUnidade(calendarUnidade);
+    }, [calendarUnidade]);
+
+    // Recuperação: precisa das atividades corrigidas da turma para achar quem ficou abaixo da média
+    useEffect(() => {
+        if (isRecovery && selectedClassId) fetchClassDetails(selectedClassId);
+    }, [isRecovery, selectedClassId, fetchClassDetails]);
+
+    const recoveryClass = teacherClasses.find(c => c.id === selectedClassId);
+    const isRecoveryUnidadeClosed = useClosedUnidadeCheck(isRecovery ? recoveryClass?.activities || [] : []);
+    const recoveryCandidates = useMemo(() => {
+        if (!isRecovery) return [];
+        return findStudentsBelowPassing(recoveryClass, materia, unidade, { isUnidadeClosed: isRecoveryUnidadeClosed });
+    }, [isRecovery, recoveryClass, materia, unidade, isRecoveryUnidadeClosed]);
+
+    // Por padrão, convoca todos os alunos abaixo da média
+    useEffect(() => {
+        setRecoveryStudentIds(recoveryCandidates.map(c => c.studentId));
+    }, [recoveryCandidates]);
+
+    const toggleRecoveryStudent = (studentId: string) => {
+        setRecoveryStudentIds(prev => prev.includes(studentId) ? prev.filter(id => id !== studentId) : [...prev, studentId]);
+    };
     
     const materiaOptions = [ 'Artes', 'Biologia', 'Ciências', 'Educação Física', 'Espanhol', 'Filosofia', 'Física', 'Geografia', 'História', 'História Sergipana', 'Inglês', 'Matemática', 'Português / Literatura', 'Química', 'Sociologia', 'Tecnologia / Informática'];
 
@@ -279,6 +360,23 @@ const CreateActivity: React.FC = () => {
 
     const handleSave = async () => {
         if (!title || !description || !selectedClassId || isSubmitting || !user) return;
+
+        const hasRubric = activityType === 'Tarefa (Texto)' && useRubric;
+        if (hasRubric) {
+            const rubricError = validateRubric(rubric);
+            if (rubricError) {
+                addToast(rubricError, 'error');
+                return;
+            }
+        }
+        if (isRecovery && recoveryStudentIds.length === 0) {
+            addToast('Selecione pelo menos um aluno para a recuperação.', 'error');
+            return;
+        }
+        if (isSelectedUnidadeClosed) {
+            addToast(`A ${unidade} já foi fechada no calendário escolar. Escolha outra unidade.`, 'error');
+            return;
+        }
         setIsSubmitting(true);
 
         try {
@@ -325,6 +423,24 @@ const CreateActivity: React.FC = () => {
                 activityData.questions = questions;
             }
 
+            if (dueDate && allowLateSubmissions && usePenalty && latePenalty.percentPerDay > 0) {
+                activityData.latePenalty = latePenalty;
+            }
+
+            if (isRecovery) {
+                activityData.recovery = { rule: recoveryRule, studentIds: recoveryStudentIds };
+            } else if (selectedCategory) {
+                activityData.gradeCategory = selectedCategory.id;
+            }
+
+            if (blindGrading) {
+                activityData.blindGrading = true;
+            }
+
+            if (hasRubric) {
+                activityData.rubric = sanitizeRubric(rubric);
+            }
+
             const success = await handleSaveActivity(activityData as Omit<Activity, 'id'>);
             
             if (success) {
@@ -399,23 +515,84 @@ const CreateActivity: React.FC = () => {
                         </InputField>
                          <InputField label="Unidade" required>
                             <select value={unidade} onChange={e => setUnidade(e.target.value as Unidade)} className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus-visible:ring-indigo-500 focus-visible:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white">
-                                <option>1ª Unidade</option>
-                                <option>2ª Unidade</option>
-                                <option>3ª Unidade</option>
-                                <option>4ª Unidade</option>
+                                {UNIDADES.map(u => (
+                                    <option key={u} value={u} disabled={isUnidadeClosed(calendar, u)}>
+                                        {u}{isUnidadeClosed(calendar, u) ? ' (fechada)' : ''}
+                                    </option>
+                                ))}
                             </select>
+                            {unidadePeriod && (
+                                <p className={`text-xs mt-1 ${isSelectedUnidadeClosed ? 'text-red-500' : 'text-slate-500 dark:text-slate-400'}`}>
+                                    {formatShortDate(unidadePeriod.start)} a {formatShortDate(unidadePeriod.end)}
+                                    {isSelectedUnidadeClosed ? ' · unidade fechada' : calendarUnidade === unidade ? ' · definida pelo calendário' : ''}
+                                </p>
+                            )}
                         </InputField>
                         <InputField label="Matéria" required>
                              <select value={materia} onChange={e => setMateria(e.target.value)} className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus-visible:ring-indigo-500 focus-visible:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white">
                                  {materiaOptions.map(opt => <option key={opt} value={opt}>{opt}</option>)}
                             </select>
                         </InputField>
+                        {gradingScheme && selectedCategory && !isRecovery && (
+                            <InputField label="Categoria da Nota">
+                                <select value={selectedCategory.id} onChange={e => setGradeCategory(e.target.value)} className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus-visible:ring-indigo-500 focus-visible:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white">
+                                    {gradingScheme.categories.map(c => <option key={c.id} value={c.id}>{c.name} ({c.weight}%)</option>)}
+                                </select>
+                            </InputField>
+                        )}
+                    </div>
+
+                    <div className="space-y-3">
+                        <div className="flex items-center">
+                            <input id="is-recovery" type="checkbox" checked={isRecovery} onChange={e => setIsRecovery(e.target.checked)} className="focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                            <label htmlFor="is-recovery" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">Atividade de recuperação ({unidade} de {materia})</label>
+                        </div>
+                        {isRecovery && (
+                            <div className="ml-7 space-y-3">
+                                <InputField label="Regra de substituição">
+                                    <select value={recoveryRule} onChange={e => setRecoveryRule(e.target.value as RecoveryRule)} className="w-full max-w-md p-2 border border-gray-300 rounded-md shadow-sm focus-visible:ring-indigo-500 focus-visible:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white">
+                                        {(Object.keys(RECOVERY_RULE_LABELS) as RecoveryRule[]).map(rule => <option key={rule} value={rule}>{RECOVERY_RULE_LABELS[rule]}</option>)}
+                                    </select>
+                                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{RECOVERY_RULE_DESCRIPTIONS[recoveryRule]}</p>
+                                </InputField>
+                                <div>
+                                    <p className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Alunos abaixo da média ({recoveryStudentIds.length} selecionado(s))</p>
+                                    {recoveryCandidates.length === 0 ? (
+                                        <p className="text-sm text-slate-500 dark:text-slate-400 italic">Nenhum aluno abaixo da média nesta unidade e matéria.</p>
+                                    ) : (
+                                        <ul className="max-h-48 overflow-y-auto space-y-1">
+                                            {recoveryCandidates.map(candidate => (
+                                                <li key={candidate.studentId}>
+                                                    <label className="flex items-center justify-between gap-2 p-2 rounded-md bg-slate-50 dark:bg-slate-700/50 text-sm cursor-pointer">
+                                                        <span className="flex items-center gap-2">
+                                                            <input type="checkbox" checked={recoveryStudentIds.includes(candidate.studentId)} onChange={() => toggleRecoveryStudent(candidate.studentId)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                                            <span className="text-slate-800 dark:text-slate-200">{candidate.name}</span>
+                                                        </span>
+                                                        <span className="font-semibold text-red-600 dark:text-red-400">{formatAverage(candidate.average)}</span>
+                                                    </label>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {activityType === 'Múltipla Escolha' && (
                         <div>
                             <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 hc-text-secondary">Questões</label>
-                            <MultipleChoiceCreator questions={questions} setQuestions={setQuestions} />
+                            <MultipleChoiceCreator questions={questions} setQuestions={setQuestions} bankTags={{ materia }} />
+                        </div>
+                    )}
+
+                    {activityType === 'Tarefa (Texto)' && (
+                        <div className="space-y-3">
+                            <div className="flex items-center">
+                                <input id="use-rubric" type="checkbox" checked={useRubric} onChange={e => setUseRubric(e.target.checked)} className="focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                <label htmlFor="use-rubric" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">Corrigir com rubrica (critérios e níveis de desempenho)</label>
+                            </div>
+                            {useRubric && <RubricEditor rubric={rubric} onChange={setRubric} activityPoints={points} />}
                         </div>
                     )}
 
@@ -480,6 +657,31 @@ const CreateActivity: React.FC = () => {
                             <input id="allow-late" name="allow-late" type="checkbox" checked={allowLateSubmissions} onChange={e => setAllowLateSubmissions(e.target.checked)} className="focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
                             <label htmlFor="allow-late" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">Permitir envio após o prazo</label>
                         </div>
+                        {allowLateSubmissions && dueDate && (
+                            <div className="ml-7 space-y-3">
+                                <div className="flex items-center">
+                                    <input id="late-penalty" name="late-penalty" type="checkbox" checked={usePenalty} onChange={e => setUsePenalty(e.target.checked)} className="focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                    <label htmlFor="late-penalty" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">Descontar nota por atraso</label>
+                                </div>
+                                {usePenalty && (
+                                    <div className="grid grid-cols-2 gap-4 max-w-sm">
+                                        <InputField label="% por dia de atraso">
+                                            <input type="number" min={1} max={100} value={latePenalty.percentPerDay} onChange={e => setLatePenalty(p => ({ ...p, percentPerDay: Math.min(100, Math.max(0, Number(e.target.value))) }))} className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                                        </InputField>
+                                        <InputField label="Desconto máximo (%)">
+                                            <input type="number" min={1} max={100} value={latePenalty.maxPercent} onChange={e => setLatePenalty(p => ({ ...p, maxPercent: Math.min(100, Math.max(0, Number(e.target.value))) }))} className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white" />
+                                        </InputField>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        <div className="flex items-start">
+                            <input id="blind-grading" name="blind-grading" type="checkbox" checked={blindGrading} onChange={e => setBlindGrading(e.target.checked)} className="mt-0.5 focus-visible:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                            <label htmlFor="blind-grading" className="ml-3 block text-sm font-medium text-gray-700 dark:text-slate-300 hc-text-secondary">
+                                Correção anônima
+                                <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">Os nomes dos alunos ficam ocultos até todas as entregas serem corrigidas.</span>
+                            </label>
+                        </div>
                     </div>
                 </fieldset>
             </Card>
@@ -488,7 +690,7 @@ const CreateActivity: React.FC = () => {
                 <button onClick={() => setCurrentPage('teacher_dashboard')} className="px-6 py-2 bg-white text-slate-800 font-semibold rounded-lg hover:bg-slate-100 border border-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600 hc-button-override">
                     Cancelar
                 </button>
-                <button onClick={handleSave} disabled={!title || !description || !selectedClassId || isSubmitting} className="px-6 py-2 bg-indigo-200 text-indigo-900 font-semibold rounded-lg hover:bg-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 dark:bg-indigo-500 dark:hover:bg-indigo-600 dark:text-white hc-button-primary-override">
+                <button onClick={handleSave} disabled={!title || !description || !selectedClassId || isSubmitting || (isRecovery && recoveryStudentIds.length === 0)} className="px-6 py-2 bg-indigo-200 text-indigo-900 font-semibold rounded-lg hover:bg-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 dark:bg-indigo-500 dark:hover:bg-indigo-600 dark:text-white hc-button-primary-override">
                      {isSubmitting ? <SpinnerIcon className="h-5 w-5 text-indigo-900 dark:text-white" /> : ICONS.teacher_create_activity}
                     <span>{isSubmitting ? 'Criando...' : 'Criar Atividade'}</span>
                 </button>
@@ -4,6 +4,8 @@ import { Card } from './common/Card';
 import { ICONS } from '../constants/index';
 import { useStudentData } from '../contexts/StudentDataContext';
 import { useNavigation } from '../contexts/NavigationContext';
+import type { UserStreak } from '../types';
+import { STREAK_FREEZE_MAX } from '../utils/streakPolicy';
 
 const WelcomeBanner: React.FC = () => (
     <div className="p-8 rounded-xl bg-gradient-to-r from-blue-500 to-teal-400 text-white shadow-lg hc-bg-override hc-border-override">
@@ -34,6 +36,28 @@ const QuickActionCard: React.FC<{ icon: React.ReactNode; title: string; descript
     </button>
 );
 
+const StreakWidget: React.FC<{ streak: UserStreak }> = ({ streak }) => (
+    <Card>
+        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center mb-4 hc-text-primary">
+            <span className="mr-2" aria-hidden="true">🔥</span>
+            Sequência de Estudos
+        </h2>
+        <div className="flex items-end justify-between">
+            <div>
+                <p className="text-4xl font-bold text-orange-500 dark:text-orange-400 hc-text-primary">{streak.current}</p>
+                <p className="text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">{streak.current === 1 ? 'dia seguido' : 'dias seguidos'}</p>
+            </div>
+            <div className="text-right">
+                <p className="text-sm font-semibold text-slate-700 dark:text-slate-200 hc-text-primary">Recorde: {streak.longest}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 hc-text-secondary" title="Proteções cobrem dias sem acesso sem zerar a sequência. Ganhe uma a cada 7 dias seguidos.">
+                    <span aria-hidden="true">🧊</span> Proteções: {streak.freezes}/{STREAK_FREEZE_MAX}
+                </p>
+            </div>
+        </div>
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400 hc-text-secondary">Acesse a plataforma todos os dias para manter sua sequência.</p>
+    </Card>
+);
+
 const Skeleton: React.FC<{ className?: string }> = ({ className }) => (
     <div className={`animate-pulse bg-slate-200 dark:bg-slate-700 rounded-xl ${className}`} />
 );
@@ -61,7 +85,7 @@ const SafeImage: React.FC<{ src: string; alt: string; className: string }> = ({
 
 
 const Dashboard: React.FC = () => {
-    const { modules, quizzes, achievements, isLoading } = useStudentData();
+    const { modules, quizzes, achievements, streak, isLoading } = useStudentData();
     const { startModule, setCurrentPage } = useNavigation();
     
     // FIX: A module's student-facing status is derived from its progress. 
@@ -212,6 +236,7 @@ const Dashboard: React.FC = () => {
 
                 {/* Right Column */}
                 <div className="space-y-8">
+                    {isLoading ? <Skeleton className="h-40" /> : <StreakWidget streak={streak} />}
                     <Card>
                         <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center mb-4 hc-text-primary">
                             <div className="h-5 w-5 mr-2">{ICONS.achievements}</div>
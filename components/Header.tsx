@@ -1,13 +1,116 @@
-import React, { useContext } from 'react';
-import { ICONS } from '../constants/index';
+import React, { useContext, useState } from 'react';
+import { ICONS, SpinnerIcon } from '../constants/index';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '../contexts/NavigationContext';
 // FIX: Import StudentDataContext to be used with useContext.
 import { StudentDataContext } from '../contexts/StudentDataContext';
 import { TeacherDataContext } from '../contexts/TeacherDataContext';
 import { AdminDataContext } from '../contexts/AdminDataContext';
+import { useToast } from '../contexts/ToastContext';
+import { isFailedOutboxEntry, OutboxEntry } from '../utils/submissionOutbox';
 import { ZoomControls } from './common/ZoomControls';
 
+// Indicador de conexão e de envios aguardando sincronização (apenas alunos)
+const SyncStatus: React.FC = () => {
+    const studentData = useContext(StudentDataContext);
+    if (!studentData) return null;
+
+    const { pendingSync, isOnline, isSyncing, syncPendingSubmissions } = studentData;
+    const queued = pendingSync.filter(e => !isFailedOutboxEntry(e));
+    const hasFailed = queued.length < pendingSync.length;
+    if (isOnline && queued.length === 0) return hasFailed ? <FailedSyncList /> : null;
+
+    const pendingLabel = `${queued.length} ${queued.length === 1 ? 'envio pendente' : 'envios pendentes'}`;
+    const title = queued.length > 0
+        ? `Aguardando sincronização: ${queued.map(e => e.label).join(', ')}`
+        : 'Você está offline';
+
+    return (
+        <>
+            <button
+                onClick={() => syncPendingSubmissions()}
+                disabled={!isOnline || isSyncing || queued.length === 0}
+                title={title}
+                className={`flex items-center text-xs font-semibold px-3 py-1.5 rounded-full disabled:cursor-default ${isOnline ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200 dark:bg-yellow-500/20 dark:text-yellow-300' : 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200'}`}
+                aria-live="polite"
+            >
+                {isSyncing && <SpinnerIcon className="h-3 w-3 mr-1.5" />}
+                {!isOnline && <span className="h-2 w-2 rounded-full bg-red-500 mr-1.5" aria-hidden="true"></span>}
+                <span>
+                    {!isOnline ? 'Offline' : isSyncing ? 'Sincronizando...' : 'Sincronizar'}
+                    {queued.length > 0 && ` · ${pendingLabel}`}
+                </span>
+            </button>
+            {hasFailed && <FailedSyncList />}
+        </>
+    );
+};
+
+// Envios da fila que não foram aceitos: o aluno copia o texto, tenta de novo ou descarta
+const FailedSyncList: React.FC = () => {
+    const studentData = useContext(StudentDataContext);
+    const { addToast } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    if (!studentData) return null;
+
+    const { pendingSync, isOnline, isSyncing, retryOutboxEntry, discardOutboxEntry } = studentData;
+    const failed = pendingSync.filter(isFailedOutboxEntry);
+    if (failed.length === 0) return null;
+
+    const copyContent = async (content: string) => {
+        try {
+            await navigator.clipboard.writeText(content);
+            addToast("Texto copiado!", "success");
+        } catch {
+            addToast("Não foi possível copiar o texto.", "error");
+        }
+    };
+
+    const discard = (entry: OutboxEntry) => {
+        if (!window.confirm(`Descartar "${entry.label}"? O envio será perdido.`)) return;
+        discardOutboxEntry(entry.id);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="flex items-center text-xs font-semibold px-3 py-1.5 rounded-full bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-500/20 dark:text-red-300"
+            >
+                {failed.length} {failed.length === 1 ? 'envio com falha' : 'envios com falha'}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 max-w-[90vw] bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg p-3 space-y-3 z-50">
+                    {failed.map(entry => {
+                        const content = entry.kind === 'activity_submission' ? entry.payload.content : '';
+                        return (
+                            <div key={entry.id} className="text-sm border-b last:border-b-0 border-slate-100 dark:border-slate-700 pb-3 last:pb-0">
+                                <p className="font-semibold text-slate-800 dark:text-slate-100">{entry.label}</p>
+                                <p className="text-xs text-red-600 dark:text-red-400">Não sincronizado: {entry.failedReason}</p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">Feito em {new Date(entry.createdAt).toLocaleString('pt-BR')}</p>
+                                <div className="flex gap-3 mt-2 text-xs font-semibold">
+                                    {content && (
+                                        <button onClick={() => copyContent(content)} className="text-indigo-600 hover:underline dark:text-indigo-400">Copiar texto</button>
+                                    )}
+                                    <button
+                                        onClick={() => retryOutboxEntry(entry.id)}
+                                        disabled={!isOnline || isSyncing}
+                                        className="text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline dark:text-indigo-400"
+                                    >
+                                        Tentar novamente
+                                    </button>
+                                    <button onClick={() => discard(entry)} className="text-red-600 hover:underline dark:text-red-400">Descartar</button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
 interface HeaderProps {
     title: string;
     isScrolled: boolean;
@@ -37,6 +140,7 @@ export const Header: React.FC<HeaderProps> = ({ title, isScrolled }) => {
 
             {/* Right-aligned Actions */}
             <div className={`flex items-center space-x-4 transition-all duration-300 ease-in-out ${isScrolled ? 'opacity-0 scale-90 pointer-events-none' : 'opacity-100'}`}>
+                {userRole === 'aluno' && <SyncStatus />}
                 <div className="hidden sm:block">
                     <ZoomControls />
                 </div>
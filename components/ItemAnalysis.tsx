@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { collection, collectionGroup, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebaseClient';
+import { Card } from './common/Card';
+import { SpinnerIcon } from '../constants/index';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { useAuth } from '../contexts/AuthContext';
+import type { Quiz, QuizQuestion, QuizResult, TeacherClass } from '../types';
+import { analyzeItems, describeDiscrimination, ItemAnalysisRow, StudentItemResponses } from '../utils/itemAnalysis';
+
+interface ItemAnalysisProps {
+    classes: TeacherClass[];
+}
+
+// Fonte da análise: "quiz:<id>" ou "activity:<id>"
+type SourceKey = string;
+
+const toneClasses: Record<ReturnType<typeof describeDiscrimination>['tone'], string> = {
+    good: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    ok: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300',
+    bad: 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    none: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const percentColor = (value: number) =>
+    value >= 70 ? 'bg-green-500' : value >= 40 ? 'bg-yellow-500' : 'bg-red-500';
+
+const ItemRow: React.FC<{ row: ItemAnalysisRow }> = ({ row }) => {
+    const [expanded, setExpanded] = useState(false);
+    const discrimination = describeDiscrimination(row.discrimination);
+    const maxCount = Math.max(1, ...row.distractors.map(d => d.count));
+
+    return (
+        <li className="p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <p className="font-semibold text-slate-800 dark:text-slate-100 hc-text-primary">{row.index + 1}. {row.question}</p>
+                <div className="flex items-center gap-3 flex-shrink-0 text-sm">
+                    <div className="w-32">
+                        <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400"><span>Acerto</span><span className="font-bold">{row.percentCorrect}%</span></div>
+                        <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 mt-1">
+                            <div className={`${percentColor(row.percentCorrect)} h-2 rounded-full`} style={{ width: `${row.percentCorrect}%` }} />
+                        </div>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${toneClasses[discrimination.tone]}`} title="Índice de discriminação (grupo superior − grupo inferior)">
+                        D = {row.discrimination ?? '—'} · {discrimination.label}
+                    </span>
+                </div>
+            </div>
+
+            <button
+                type="button"
+                onClick={() => setExpanded(prev => !prev)}
+                className="mt-2 text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400"
+                aria-expanded={expanded}
+            >
+                {expanded ? 'Ocultar detalhes' : `Ver respostas (${row.answeredCount}) e quem errou (${row.missedBy.length})`}
+            </button>
+
+            {expanded && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <h5 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400">Frequência das respostas</h5>
+                        {row.distractors.length === 0 && <p className="text-sm text-slate-500">Sem respostas registradas.</p>}
+                        {row.distractors.map(d => (
+                            <div key={d.key} className="text-sm">
+                                <div className="flex justify-between">
+                                    <span className={d.isCorrect ? 'font-semibold text-green-700 dark:text-green-400' : 'text-slate-700 dark:text-slate-300'}>
+                                        {d.label} {d.isCorrect && '✓'}
+                                    </span>
+                                    <span className="text-slate-500">{d.count}</span>
+                                </div>
+                                <div className="w-full bg-slate-100 dark:bg-slate-700 rounded h-1.5 mt-0.5">
+                                    <div className={`${d.isCorrect ? 'bg-green-500' : 'bg-slate-400'} h-1.5 rounded`} style={{ width: `${(d.count / maxCount) * 100}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <h5 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-2">Alunos que erraram</h5>
+                        {row.missedBy.length === 0 ? (
+                            <p className="text-sm text-green-700 dark:text-green-400">Todos acertaram.</p>
+                        ) : (
+                            <ul className="text-sm text-slate-700 dark:text-slate-300 max-h-40 overflow-y-auto space-y-0.5">
+                                {row.missedBy.map(s => <li key={s.id}>{s.name}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </li>
+    );
+};
+
+/**
+ * Análise de itens por questão para quizzes e atividades de Múltipla Escolha.
+ * Quizzes usam a primeira tentativa salva em users/{id}/quiz_results (collectionGroup).
+ */
+const ItemAnalysis: React.FC<ItemAnalysisProps> = ({ classes }) => {
+    const { user } = useAuth();
+    const { data: quizzesData } = useCachedQuery('teacher_item_analysis_quizzes', () => query(collection(db, 'quizzes'), where('status', '==', 'Ativo')));
+    const [source, setSource] = useState<SourceKey>('');
+    const [responses, setResponses] = useState<StudentItemResponses[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const studentsById = useMemo(() => {
+        const map = new Map<string, string>();
+        classes.forEach(c => (c.students || []).forEach(s => map.set(s.id, s.name)));
+        return map;
+    }, [classes]);
+
+    const activities = useMemo(() => classes
+        .flatMap(c => c.activities || [])
+        .filter(a => a.type === 'Múltipla Escolha' && a.questions && a.questions.length > 0),
+    [classes]);
+
+    const quizzes = useMemo(() => ((quizzesData || []) as Quiz[]).sort((a, b) => a.title.localeCompare(b.title, 'pt-BR')), [quizzesData]);
+
+    const [kind, sourceId] = source.split(':');
+
+    const questions: QuizQuestion[] = useMemo(() => {
+        if (kind === 'quiz') return quizzes.find(q => q.id === sourceId)?.questions || [];
+        if (kind === 'activity') return activities.find(a => a.id === sourceId)?.questions || [];
+        return [];
+    }, [kind, sourceId, quizzes, activities]);
+
+    useEffect(() => {
+        let mounted = true;
+        setLoadError(null);
+
+        if (kind === 'activity') {
+            const activity = activities.find(a => a.id === sourceId);
+            setResponses((activity?.submissions || [])
+                .filter(s => s.answers)
+                .map(s => ({ studentId: s.studentId, studentName: s.studentName, answers: s.answers! })));
+            return;
+        }
+
+        if (kind !== 'quiz' || !sourceId || !user) {
+            setResponses([]);
+            return;
+        }
+
+        const loadQuizResponses = async () => {
+            setIsLoading(true);
+            try {
+                // As regras só liberam resultados que listam o professor em teacherIds
+                const snap = await getDocs(query(
+                    collectionGroup(db, 'quiz_results'),
+                    where('quizId', '==', sourceId),
+                    where('teacherIds', 'array-contains', user.id)
+                ));
+                if (!mounted) return;
+                const loaded: StudentItemResponses[] = [];
+                snap.docs.forEach(d => {
+                    const data = d.data() as QuizResult;
+                    const studentId = data.userId || d.ref.parent.parent?.id || '';
+                    // Apenas alunos das turmas selecionadas e tentativas com respostas registradas
+                    if (!studentsById.has(studentId) || !data.firstAnswers) return;
+                    loaded.push({ studentId, studentName: studentsById.get(studentId)!, answers: data.firstAnswers });
+                });
+                setResponses(loaded);
+            } catch (error) {
+                console.error('Erro ao carregar respostas do quiz:', error);
+                if (mounted) setLoadError('Não foi possível carregar as respostas deste quiz.');
+            } finally {
+                if (mounted) setIsLoading(false);
+            }
+        };
+        loadQuizResponses();
+        return () => { mounted = false; };
+    }, [kind, sourceId, activities, studentsById, user]);
+
+    const rows = useMemo(() => analyzeItems(questions, responses), [questions, responses]);
+
+    return (
+        <Card>
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 border-b dark:border-slate-700 pb-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 hc-text-primary">Análise de Itens</h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">Acerto por questão, distratores, discriminação e alunos que erraram.</p>
+                </div>
+                <select
+                    value={source}
+                    onChange={e => setSource(e.target.value)}
+                    className="w-full md:w-80 px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                    aria-label="Selecionar quiz ou atividade"
+                >
+                    <option value="">Selecione um quiz ou atividade...</option>
+                    {activities.length > 0 && (
+                        <optgroup label="Atividades de Múltipla Escolha">
+                            {activities.map(a => <option key={a.id} value={`activity:${a.id}`}>{a.title} ({a.className})</option>)}
+                        </optgroup>
+                    )}
+                    {quizzes.length > 0 && (
+                        <optgroup label="Quizzes">
+                            {quizzes.map(q => <option key={q.id} value={`quiz:${q.id}`}>{q.title}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+            </div>
+
+            {!source && <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">Escolha um quiz ou atividade para ver a análise.</p>}
+            {isLoading && <div className="flex justify-center py-8"><SpinnerIcon className="h-8 w-8 text-indigo-600" /></div>}
+            {loadError && <p className="text-sm text-red-500 text-center py-4">{loadError}</p>}
+
+            {source && !isLoading && !loadError && (
+                responses.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">
+                        Nenhuma resposta registrada pelos alunos das turmas selecionadas.
+                    </p>
+                ) : (
+                    <>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{responses.length} aluno(s) analisado(s).</p>
+                        <ul className="space-y-3">
+                            {rows.map(row => <ItemRow key={row.questionId} row={row} />)}
+                        </ul>
+                    </>
+                )
+            )}
+        </Card>
+    );
+};
+
+export default ItemAnalysis;
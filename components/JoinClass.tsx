@@ -1,6 +1,6 @@
 
-import React, { useState, useMemo } from 'react';
-import type { TeacherClass, ClassNotice, Activity, ActivitySubmission, Module } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { TeacherClass, ClassNotice, Activity, ActivitySubmission, Module, QuizAnswer } from '../types';
 import { Card } from './common/Card';
 import { Modal } from './common/Modal';
 import { QuizView } from './QuizView';
@@ -9,6 +9,14 @@ import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '../contexts/NavigationContext';
 import { ICONS, SpinnerIcon } from '../constants/index';
 import { cleanActivity } from '../utils/cleanActivity';
+import { RubricGrid } from './Rubric';
+import { AttachmentList, AttachmentPicker } from './common/SubmissionAttachments';
+import { RichTextContent, RichTextEditor } from './common/RichText';
+import { SubmissionAnswers } from './common/SubmissionAnswers';
+import { formatLateLabel, getEffectiveDueDate, getLateStatus } from '../utils/latePolicy';
+import { getSubmissionStatusColor } from '../utils/submissionHistory';
+import { SubmissionHistory } from './common/SubmissionHistory';
+import { clearJoinCodeFromUrl, JOIN_CODE_LENGTH, readJoinCodeFromUrl } from '../utils/classCodes';
 
 // --- Local Components for Class Details ---
 
@@ -261,26 +269,36 @@ const ClassAccordion: React.FC<{
 };
 
 const ActivityDetailsModal: React.FC<{ activity: Activity & { className: string }; onClose: () => void }> = ({ activity, onClose }) => {
-    const { handleActivitySubmit } = useStudentData();
+    const { handleActivitySubmit, handleMultipleChoiceSubmit } = useStudentData();
     const { user } = useAuth();
-    const [submissionText, setSubmissionText] = useState('');
+    // Na reescrita, o aluno parte do texto que enviou antes
+    const [submissionText, setSubmissionText] = useState(() => {
+        const previous = activity.submissions?.find(s => s.studentId === user?.id);
+        return previous?.status === 'Revisão solicitada' ? previous.content : '';
+    });
+    const [submissionFiles, setSubmissionFiles] = useState<File[]>([]);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const studentSubmission = useMemo(() => {
         if (!user?.id) return undefined;
         return activity.submissions?.find(s => s.studentId === user.id);
     }, [activity.submissions, user]);
+
+    const effectiveDueDate = user ? getEffectiveDueDate(activity, user.id) : activity.dueDate;
+    const isRevision = studentSubmission?.status === 'Revisão solicitada';
+    const lateStatus = useMemo(() => user && !isRevision ? getLateStatus(activity, user.id) : null, [activity, user, isRevision]);
     
     const handleSubmit = async () => {
-        if (!submissionText.trim() || isSubmitting) return;
+        if ((!submissionText.trim() && submissionFiles.length === 0) || isSubmitting) return;
         setIsSubmitting(true);
-        await handleActivitySubmit(activity.id, submissionText);
+        await handleActivitySubmit(activity.id, submissionText, submissionFiles);
         setIsSubmitting(false);
         onClose();
     };
 
-    const handleDummySubmit = async (quizId: string, quizTitle: string, score: number, total: number): Promise<number> => {
-        console.log(`Activity "${activity.title}" submitted with score ${score}/${total}.`);
+    // Respostas de Múltipla Escolha viram uma entrega corrigida automaticamente (sem XP, como as demais atividades)
+    const handleQuizSubmit = async (_quizId: string, _quizTitle: string, _score: number, _total: number, answers?: Record<number, QuizAnswer>): Promise<number> => {
+        await handleMultipleChoiceSubmit(activity.id, answers || {});
         return 0;
     };
 
@@ -290,8 +308,26 @@ const ActivityDetailsModal: React.FC<{ activity: Activity & { className: string
                 <div className="flex justify-between text-sm text-slate-500 dark:text-slate-400">
                     <span><span className="font-semibold">Turma:</span> {activity.className}</span>
                     <span><span className="font-semibold">Pontos:</span> {activity.points}</span>
-                    {activity.dueDate && <span><span className="font-semibold">Prazo:</span> {new Date(activity.dueDate).toLocaleDateString('pt-BR')}</span>}
+                    {effectiveDueDate && (
+                        <span>
+                            <span className="font-semibold">Prazo:</span> {new Date(`${effectiveDueDate}T12:00:00`).toLocaleDateString('pt-BR')}
+                            {effectiveDueDate !== activity.dueDate && <span className="ml-1 text-xs text-indigo-600 dark:text-indigo-400">(prorrogado)</span>}
+                        </span>
+                    )}
                 </div>
+                {(!studentSubmission || isRevision) && lateStatus?.isLate && (
+                    <p className={`text-sm p-3 rounded ${lateStatus.blocked ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'}`}>
+                        {lateStatus.blocked
+                            ? 'O prazo desta atividade terminou e ela não aceita envios atrasados.'
+                            : `Prazo encerrado: o envio será marcado como atrasado${lateStatus.penaltyPercent > 0 ? ` e a nota terá desconto de ${lateStatus.penaltyPercent}%` : ''}.`}
+                    </p>
+                )}
+                {isRevision && studentSubmission && (
+                    <div className="p-3 rounded bg-orange-50 text-orange-900 dark:bg-orange-900/30 dark:text-orange-200 space-y-1">
+                        <p className="text-sm font-semibold">O professor pediu que você reescreva esta atividade.</p>
+                        {studentSubmission.feedback && <p className="text-sm">{studentSubmission.feedback}</p>}
+                    </div>
+                )}
                 <hr className="dark:border-slate-700" />
                 <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{activity.description}</p>
                 
@@ -304,36 +340,55 @@ const ActivityDetailsModal: React.FC<{ activity: Activity & { className: string
                 {activity.type === 'Tarefa (Texto)' && (
                     <div className="pt-4">
                         <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-2">Sua Resposta</h3>
-                        {studentSubmission ? (
+                        {studentSubmission && !isRevision ? (
                             <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border dark:border-slate-700">
                                 <div className="flex justify-between items-center mb-2">
-                                    <p className="font-semibold text-slate-800 dark:text-slate-200">Sua resposta enviada:</p>
-                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${studentSubmission.status === 'Corrigido' ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300'}`}>
+                                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                                        Sua resposta enviada:
+                                        {studentSubmission.isLate && <span className="ml-2 text-xs font-semibold text-red-600 dark:text-red-400">{formatLateLabel(studentSubmission)}</span>}
+                                    </p>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(studentSubmission.status)}`}>
                                         {studentSubmission.status}
                                     </span>
                                 </div>
-                                <p className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border dark:border-slate-600 whitespace-pre-wrap">{studentSubmission.content}</p>
+                                {studentSubmission.content && (
+                                    <RichTextContent text={studentSubmission.content} className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-2 rounded border dark:border-slate-600" />
+                                )}
+                                {studentSubmission.attachments && studentSubmission.attachments.length > 0 && (
+                                    <div className="mt-2">
+                                        <AttachmentList attachments={studentSubmission.attachments} />
+                                    </div>
+                                )}
                                 
                                 {studentSubmission.status === 'Corrigido' && (
                                      <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
                                         <h4 className="font-semibold text-slate-800 dark:text-slate-200">Feedback do Professor</h4>
                                         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Nota: <span className="font-bold text-lg text-indigo-600 dark:text-indigo-400">{studentSubmission.grade} / {activity.points}</span></p>
                                         {studentSubmission.feedback && <p className="mt-2 text-sm text-slate-700 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/30 p-3 rounded">{studentSubmission.feedback}</p>}
+                                        {activity.rubric && studentSubmission.rubricScores && (
+                                            <div className="mt-4">
+                                                <h5 className="text-sm font-semibold text-slate-800 dark:text-slate-200 mb-2">Rubrica: {activity.rubric.title}</h5>
+                                                <RubricGrid rubric={activity.rubric} scores={studentSubmission.rubricScores} />
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
                         ) : (
                             <>
-                                <textarea
+                                <RichTextEditor
                                     rows={8}
                                     placeholder="Escreva sua resposta aqui..."
                                     value={submissionText}
-                                    onChange={(e) => setSubmissionText(e.target.value)}
-                                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                                    onChange={setSubmissionText}
+                                    disabled={isSubmitting}
                                 />
+                                <div className="mt-3">
+                                    <AttachmentPicker files={submissionFiles} onChange={setSubmissionFiles} disabled={isSubmitting} />
+                                </div>
                                 <button
                                     onClick={handleSubmit}
-                                    disabled={!submissionText.trim() || isSubmitting}
+                                    disabled={(!submissionText.trim() && submissionFiles.length === 0) || isSubmitting || !!lateStatus?.blocked}
                                     className="mt-4 w-full px-4 py-2 bg-indigo-200 text-indigo-900 font-semibold rounded-lg hover:bg-indigo-300 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:text-white dark:hover:bg-indigo-600"
                                 >
                                     {isSubmitting ? <SpinnerIcon className="h-5 w-5 mr-2" /> : null}
@@ -346,37 +401,74 @@ const ActivityDetailsModal: React.FC<{ activity: Activity & { className: string
                 
                 {activity.type === 'Múltipla Escolha' && activity.questions && (
                      <div className="pt-4">
-                        <QuizView
-                            quiz={{
-                                id: activity.id,
-                                title: activity.title,
-                                description: activity.description,
-                                questions: activity.questions,
-                                visibility: 'specific_class',
-                                classId: activity.classId,
-                            }}
-                            onQuizComplete={handleDummySubmit}
-                        />
+                        {studentSubmission && !isRevision ? (
+                            <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border dark:border-slate-700">
+                                <div className="flex justify-between items-center mb-2">
+                                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                                        Suas respostas:
+                                        {studentSubmission.isLate && <span className="ml-2 text-xs font-semibold text-red-600 dark:text-red-400">{formatLateLabel(studentSubmission)}</span>}
+                                    </p>
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(studentSubmission.status)}`}>
+                                        {studentSubmission.status}
+                                    </span>
+                                </div>
+                                {studentSubmission.status === 'Corrigido' ? (
+                                    <>
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                                            Nota: <span className="font-bold text-lg text-indigo-600 dark:text-indigo-400">{studentSubmission.grade} / {activity.points}</span>
+                                            {studentSubmission.autoGraded && <span className="ml-2 text-xs">(correção automática)</span>}
+                                        </p>
+                                        {studentSubmission.feedback && <p className="mt-2 text-sm text-slate-700 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/30 p-3 rounded">{studentSubmission.feedback}</p>}
+                                        {studentSubmission.answers && (
+                                            <div className="mt-4">
+                                                <SubmissionAnswers questions={activity.questions} answers={studentSubmission.answers} />
+                                            </div>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 dark:text-slate-400">Suas respostas serão corrigidas assim que forem sincronizadas.</p>
+                                )}
+                            </div>
+                        ) : lateStatus?.blocked ? null : (
+                            <QuizView
+                                quiz={{
+                                    id: activity.id,
+                                    title: activity.title,
+                                    description: activity.description,
+                                    questions: activity.questions,
+                                    visibility: 'specific_class',
+                                    classId: activity.classId,
+                                }}
+                                onQuizComplete={handleQuizSubmit}
+                            />
+                        )}
                     </div>
                 )}
+
+                {user && studentSubmission && (studentSubmission.attempt || 1) > 1 && (
+                    <SubmissionHistory activityId={activity.id} studentId={user.id} points={activity.points} questions={activity.questions} />
+                )}
             </div>
         </Modal>
     );
 };
 
 const JoinClass: React.FC = () => {
-    const { studentClasses, handleJoinClass, handleLeaveClass, activities, modules, fetchClassSpecificHistory } = useStudentData();
-    const [classCode, setClassCode] = useState('');
+    const { studentClasses, joinRequests, handleJoinClass, handleLeaveClass, activities, modules, fetchClassSpecificHistory } = useStudentData();
+    // Código vindo do link/QR Code projetado pelo professor
+    const [classCode, setClassCode] = useState(() => readJoinCodeFromUrl() || '');
     const [isJoining, setIsJoining] = useState(false);
     const [expandedClassId, setExpandedClassId] = useState<string | null>(null);
     const [selectedActivity, setSelectedActivity] = useState<(Activity & { className: string }) | null>(null);
     
     const safeStudentClasses = studentClasses || [];
 
+    useEffect(() => { clearJoinCodeFromUrl(); }, []);
+
     const onJoin = async () => {
         if (!classCode.trim() || isJoining) return;
         setIsJoining(true);
-        const success = await handleJoinClass(classCode.trim().toUpperCase());
+        const success = await handleJoinClass(classCode);
         setIsJoining(false);
         if (success) {
             setClassCode('');
@@ -412,7 +504,7 @@ const JoinClass: React.FC = () => {
                             type="text" 
                             value={classCode}
                             onChange={(e) => setClassCode(e.target.value)}
-                            placeholder="Digite o código (ex: ABC123XY)"
+                            placeholder={`Digite o código (${JOIN_CODE_LENGTH} caracteres)`}
                             className="flex-grow px-4 py-2 border border-gray-300 rounded-l-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 dark:bg-slate-700 dark:border-slate-600 dark:text-white"
                         />
                         <button 
@@ -423,6 +515,16 @@ const JoinClass: React.FC = () => {
                             {isJoining ? <SpinnerIcon /> : 'Entrar'}
                         </button>
                     </div>
+                    {joinRequests.length > 0 && (
+                        <ul className="mt-4 w-full max-w-sm space-y-2 text-left">
+                            {joinRequests.map(request => (
+                                <li key={request.id} className="flex items-center justify-between p-2 rounded-lg bg-white/70 dark:bg-slate-800/60 text-sm">
+                                    <span className="font-medium text-slate-700 dark:text-slate-200">{request.className}</span>
+                                    <span className="text-xs font-semibold text-amber-600 dark:text-amber-400">Aguardando aprovação</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             </Card>
 
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useContext, useCallback } from 'react';
-import type { Module, ModulePage, ModulePageContent, ModulePageContentType } from '../types';
+import type { Module, ModulePage, ModulePageContent, ModulePageContentType, QuizQuestion } from '../types';
 import { Card } from './common/Card';
 import { Modal } from './common/Modal';
 import { ICONS, SpinnerIcon } from '../constants/index';
@@ -13,6 +13,9 @@ import { useSettings } from '../contexts/SettingsContext';
 import { useToast } from '../contexts/ToastContext';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from './firebaseClient';
+import { QuizQuestionEditor } from './QuizQuestionEditor';
+import { QuestionBankPicker, SaveToQuestionBankModal } from './QuestionBank';
+import { createEmptyQuestion, sanitizeQuestion, validateQuestion } from '../utils/quizScoring';
 
 const PROFESSOR_EXIGENTE_SYSTEM_PROMPT = `Sua escrita é clara, direta e exigente, valorizando a lucidez e o rigor conceitual. O texto deve ensinar com precisão, sem introduções típicas de IA e sem frases automáticas como “Olá” ou “como uma inteligência artificial”. O estilo é objetivo, culto e sem sentimentalismo, com frases curtas e transições lógicas. Evite linguagem opinativa e adjetivação emocional. Ao escrever materiais didáticos, mantenha organização modular: use títulos e subtítulos curtos, explicações diretas e, quando necessário, exemplos históricos precisos e contextualizados. A linguagem deve ser acessível para estudantes do ensino fundamental II e médio, mas sem subestimar o leitor — explique os conceitos de modo que o aluno perceba complexidade e seriedade no conteúdo. Prefira verbos de ação e tom analítico. Evite analogias forçadas ou tentativas de “deixar o texto leve”. O tom geral deve transmitir a sensação de um professor que respeita a inteligência do aluno e ensina com clareza, firmeza e propósito. Em suma: seja preciso, lúcido e didático, sem perder densidade histórica.`;
 
@@ -267,6 +270,11 @@ const ModuleCreator: React.FC = () => {
     const [pages, setPages] = useState<ModulePage[]>([{ id: Date.now(), title: 'Página 1', content: [] }]);
     const [isLoadingContent, setIsLoadingContent] = useState(false);
 
+    // Module Quiz State (questões de fixação ao final do módulo)
+    const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
+    const [isBankOpen, setIsBankOpen] = useState(false);
+    const [questionToBank, setQuestionToBank] = useState<QuizQuestion | null>(null);
+
     // AI Content Generation State
     const [isAIModalOpen, setIsAIModalOpen] = useState(false);
     const [aiGenerationTarget, setAIGenerationTarget] = useState<{ pageId: number | null }>({ pageId: null });
@@ -293,6 +301,7 @@ const ModuleCreator: React.FC = () => {
             setDifficulty(editingModule.difficulty || 'Fácil');
             setDuration(editingModule.duration || '');
             setSelectedClassIds(editingModule.classIds || []);
+            setQuizQuestions(editingModule.quiz || []);
             
             const loadPages = async () => {
                 if (editingModule.pages && editingModule.pages.length > 0) {
@@ -540,12 +549,18 @@ const ModuleCreator: React.FC = () => {
             return;
         }
 
+        const invalidQuizIndex = quizQuestions.findIndex(q => validateQuestion(q) !== null);
+        if (invalidQuizIndex >= 0) {
+            addToast(`Quiz do módulo, questão ${invalidQuizIndex + 1}: ${validateQuestion(quizQuestions[invalidQuizIndex])}`, 'error');
+            return;
+        }
+
         // 3. Construct Payload
         const moduleData: any = {
             title, description, coverImageUrl, videoUrl, series, materia, difficulty, duration,
             visibility, // Enforced strictly
             pages,
-            quiz: editingModule?.quiz || [],
+            quiz: quizQuestions.map(sanitizeQuestion),
             status: editingModule?.status || 'Ativo',
             classIds: visibility === 'specific_class' ? selectedClassIds : [], // Ensure empty if public
         };
@@ -570,6 +585,10 @@ const ModuleCreator: React.FC = () => {
         }
     };
     
+    const updateQuizQuestion = (updated: QuizQuestion) => {
+        setQuizQuestions(prev => prev.map(q => q.id === updated.id ? updated : q));
+    };
+
     const handleCancel = () => {
         if (isEditMode) {
             exitEditingModule();
@@ -706,6 +725,23 @@ const ModuleCreator: React.FC = () => {
 
     return (
         <div className="space-y-6">
+            {isBankOpen && (
+                <QuestionBankPicker
+                    isOpen={isBankOpen}
+                    onClose={() => setIsBankOpen(false)}
+                    onInsert={inserted => setQuizQuestions(prev => [...prev, ...inserted])}
+                    initialFilters={{ series, materia }}
+                />
+            )}
+            {questionToBank && (
+                <SaveToQuestionBankModal
+                    isOpen={!!questionToBank}
+                    onClose={() => setQuestionToBank(null)}
+                    question={questionToBank}
+                    defaultTags={{ series, materia, difficulty }}
+                    onSaved={bankId => updateQuizQuestion({ ...questionToBank, bankQuestionId: bankId })}
+                />
+            )}
             {isAIModalOpen && (
                 <Modal isOpen={isAIModalOpen} onClose={closeAIModal} title="Gerar Conteúdo com IA">
                     <div className="space-y-4">
@@ -972,6 +1008,52 @@ const ModuleCreator: React.FC = () => {
                         ))}
                     </div>
                 </Card>
+
+                <Card>
+                    <div className="flex justify-between items-center border-b dark:border-slate-700 pb-4 mb-6 hc-border-override">
+                        <div>
+                            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 hc-text-primary">Quiz do Módulo</h3>
+                            <p className="text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">Questões de fixação (opcional). Reaproveite questões do banco compartilhado.</p>
+                        </div>
+                        <div className="flex space-x-2">
+                            <button type="button" onClick={() => setIsBankOpen(true)} className="px-3 py-1.5 text-sm font-semibold text-indigo-700 bg-indigo-100 hover:bg-indigo-200 rounded-lg dark:bg-indigo-900/50 dark:text-indigo-200 dark:hover:bg-indigo-900">
+                                Inserir do Banco
+                            </button>
+                            <button type="button" onClick={() => setQuizQuestions(prev => [...prev, createEmptyQuestion('single', Date.now())])} className="px-3 py-1.5 text-sm font-semibold bg-white border border-gray-300 text-slate-700 rounded-lg hover:bg-slate-50 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600 hc-button-override">
+                                Nova Questão
+                            </button>
+                        </div>
+                    </div>
+                    {quizQuestions.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-4">Nenhuma questão adicionada.</p>
+                    ) : (
+                        <div className="space-y-4">
+                            {quizQuestions.map((q, qIndex) => (
+                                <Card key={q.id} className="bg-white border dark:bg-slate-900/50 dark:border-slate-700">
+                                    <div className="flex justify-between items-center mb-3">
+                                        <h4 className="font-semibold text-slate-700 dark:text-slate-200">Questão {qIndex + 1}</h4>
+                                        <div className="flex items-center space-x-4">
+                                            {q.bankQuestionId
+                                                ? <span className="text-xs font-semibold text-green-700 dark:text-green-400">No banco de questões</span>
+                                                : <button type="button" onClick={() => setQuestionToBank(q)} className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">Salvar no banco</button>}
+                                            <button type="button" onClick={() => setQuizQuestions(prev => prev.filter(item => item.id !== q.id))} className="text-sm text-red-600 hover:underline dark:text-red-400">Remover</button>
+                                        </div>
+                                    </div>
+                                    <div className="space-y-4">
+                                        <input
+                                            type="text"
+                                            placeholder="Enunciado da pergunta..."
+                                            value={q.question}
+                                            onChange={e => updateQuizQuestion({ ...q, question: e.target.value })}
+                                            className="w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white"
+                                        />
+                                        <QuizQuestionEditor question={q} onChange={updateQuizQuestion} />
+                                    </div>
+                                </Card>
+                            ))}
+                        </div>
+                    )}
+                </Card>
             </fieldset>
 
             <div className="flex justify-end space-x-4">
@@ -12,6 +12,7 @@ import { SpinnerIcon } from '../constants/index';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from './firebaseClient';
 import { getSessionCache, setSessionCache } from '../utils/cacheUtils';
+import { getOfflineModule, isOfflineStorageSupported } from '../utils/offlineModules';
 
 
 // Helper to extract YouTube video ID from various URL formats
@@ -113,7 +114,7 @@ const PageContent: React.FC<{ content: ModulePageContent[] }> = React.memo(({ co
 
 const ModuleViewPage: React.FC = () => {
     const { activeModule: module, exitModule: onExit } = useNavigation();
-    const { userRole } = useAuth();
+    const { user, userRole } = useAuth();
     
     // Get both contexts
     const studentData = useContext(StudentDataContext);
@@ -159,7 +160,20 @@ const ModuleViewPage: React.FC = () => {
                 return;
             }
 
-            // 3. Fetch Check (Phase 2): Download from module_contents
+            // 3. Offline Fallback: cópia baixada pelo usuário (IndexedDB), usada só sem rede
+            // para que edições do professor feitas depois do download apareçam quando houver conexão
+            const loadOfflineCopy = async () => {
+                if (!user || !isOfflineStorageSupported()) return false;
+                const offlineRecord = await getOfflineModule(user.id, module.id).catch(() => undefined);
+                if (!offlineRecord || offlineRecord.module.pages.length === 0) return false;
+                setContentPages(offlineRecord.module.pages);
+                setAnnouncement(`Módulo ${module.title}, página 1 de ${offlineRecord.module.pages.length} exibida (Offline).`);
+                return true;
+            };
+
+            if (!navigator.onLine && await loadOfflineCopy()) return;
+
+            // 4. Fetch Check (Phase 2): Download from module_contents
             setIsLoadingContent(true);
             try {
                 const contentRef = doc(db, 'module_contents', module.id);
@@ -170,7 +184,7 @@ const ModuleViewPage: React.FC = () => {
                     const pages = data.pages || [];
                     setContentPages(pages);
                     
-                    // 4. Save to Cache (Phase 3)
+                    // 5. Save to Cache (Phase 3)
                     setSessionCache(cacheKey, pages);
 
                     if (pages.length > 0) {
@@ -185,6 +199,7 @@ const ModuleViewPage: React.FC = () => {
                 }
             } catch (error) {
                 console.error("Failed to load module content:", error);
+                await loadOfflineCopy();
             } finally {
                 setIsLoadingContent(false);
             }
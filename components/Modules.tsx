@@ -1,13 +1,16 @@
 
-import React, { useState, useMemo, useEffect, useRef, useContext } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useContext, useCallback } from 'react';
 import type { Module, ModuleStatus } from '../types';
 import { Card } from './common/Card';
-import { ICONS } from '../constants/index';
+import { ICONS, SpinnerIcon } from '../constants/index';
 import { useNavigation } from '../contexts/NavigationContext';
 import { useAuth } from '../contexts/AuthContext';
 // FIX: Import StudentDataContext to be used with useContext.
 import { StudentDataContext } from '../contexts/StudentDataContext';
 import { TeacherDataContext } from '../contexts/TeacherDataContext';
+import { useToast } from '../contexts/ToastContext';
+import { useOfflineModules } from '../hooks/useOfflineModules';
+import { formatBytes, OfflineModuleRecord, StorageEstimate } from '../utils/offlineModules';
 
 const PlayIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -16,7 +19,18 @@ const PlayIcon = () => (
     </svg>
 );
 
-const ModuleCard: React.FC<{ module: Module; onStartModule: (module: Module) => void; }> = React.memo(({ module, onStartModule }) => {
+const DownloadIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+    </svg>
+);
+
+const ModuleCard: React.FC<{
+    module: Module;
+    onStartModule: (module: Module) => void;
+    onDownload?: (module: Module) => void;
+    onRemoveDownload?: (module: Module) => void;
+}> = React.memo(({ module, onStartModule, onDownload, onRemoveDownload }) => {
     
     const isCompleted = module.progress === 100;
 
@@ -69,6 +83,9 @@ const ModuleCard: React.FC<{ module: Module; onStartModule: (module: Module) =>
                     {module.visibility === 'public' && (
                         <span className="text-xs font-bold text-white bg-black/40 backdrop-blur-sm px-2.5 py-1 rounded-full">Público</span>
                     )}
+                    {module.downloadState === 'downloaded' && (
+                        <span className="text-xs font-bold text-white bg-green-600/80 backdrop-blur-sm px-2.5 py-1 rounded-full">Disponível offline</span>
+                    )}
                 </div>
                 {module.difficulty && (
                     <div className="absolute top-3 right-3">
@@ -115,11 +132,70 @@ const ModuleCard: React.FC<{ module: Module; onStartModule: (module: Module) =>
                     <PlayIcon />
                     <span>{buttonText}</span>
                 </button>
+
+                {onDownload && onRemoveDownload && (
+                    module.downloadState === 'downloaded' ? (
+                        <button
+                            onClick={() => onRemoveDownload(module)}
+                            className="mt-2 w-full text-sm font-semibold py-2 px-4 rounded-lg text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-500/10 dark:text-red-300 dark:hover:bg-red-500/20 transition-colors"
+                        >
+                            Remover download
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => onDownload(module)}
+                            disabled={module.downloadState === 'downloading'}
+                            className="mt-2 w-full text-sm font-semibold py-2 px-4 rounded-lg text-slate-700 bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 transition-colors flex items-center justify-center disabled:opacity-60 disabled:cursor-wait hc-button-override"
+                        >
+                            {module.downloadState === 'downloading' ? (
+                                <>
+                                    <SpinnerIcon className="h-4 w-4 mr-2" />
+                                    <span>Baixando...</span>
+                                </>
+                            ) : (
+                                <>
+                                    <DownloadIcon />
+                                    <span>Baixar para offline</span>
+                                </>
+                            )}
+                        </button>
+                    )
+                )}
             </div>
         </div>
     );
 });
 
+// Resumo do armazenamento offline: espaço usado pelo navegador e módulos baixados
+const OfflineStoragePanel: React.FC<{ records: OfflineModuleRecord[]; estimate: StorageEstimate | null }> = ({ records, estimate }) => {
+    if (records.length === 0) return null;
+
+    const downloadedSize = records.reduce((sum, r) => sum + r.sizeBytes, 0);
+    const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : null;
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-4 flex flex-col md:flex-row md:items-center gap-4 hc-bg-override hc-border-override">
+            <div className="flex-grow">
+                <p className="font-semibold text-slate-800 dark:text-slate-100 hc-text-primary">
+                    {records.length} {records.length === 1 ? 'módulo disponível' : 'módulos disponíveis'} offline
+                    <span className="font-normal text-slate-500 dark:text-slate-400"> · {formatBytes(downloadedSize)}</span>
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 hc-text-secondary">Vídeos do YouTube ainda precisam de internet.</p>
+            </div>
+            {estimate && usagePercent !== null && (
+                <div className="w-full md:w-64">
+                    <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+                        <span>Armazenamento do aparelho</span>
+                        <span>{formatBytes(estimate.usage)} de {formatBytes(estimate.quota)}</span>
+                    </div>
+                    <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2" role="progressbar" aria-valuenow={Math.round(usagePercent)} aria-valuemin={0} aria-valuemax={100} aria-label="Espaço de armazenamento usado">
+                        <div className={`${usagePercent > 80 ? 'bg-red-500' : 'bg-indigo-500'} h-2 rounded-full`} style={{ width: `${Math.max(usagePercent, 1)}%` }}></div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
 
 const Modules: React.FC = () => {
     const { user, userRole } = useAuth();
@@ -128,9 +204,39 @@ const Modules: React.FC = () => {
     const teacherData = useContext(TeacherDataContext);
 
     const data = userRole === 'aluno' ? studentData : teacherData;
-    const modules = data?.modules || [];
-    
     const { startModule } = useNavigation();
+    const { addToast } = useToast();
+    const offline = useOfflineModules(user?.id);
+
+    // Módulos baixados aparecem mesmo se a lista não puder ser carregada (sem conexão)
+    const modules = useMemo(() => {
+        const loaded = data?.modules || [];
+        const loadedIds = new Set(loaded.map(m => m.id));
+        const offlineOnly = offline.records
+            .filter(r => !loadedIds.has(r.moduleId))
+            .map(r => r.module);
+        return [...loaded, ...offlineOnly].map(m => ({ ...m, downloadState: offline.getDownloadState(m.id) }));
+    }, [data?.modules, offline.records, offline.getDownloadState]);
+
+    const handleDownload = useCallback(async (module: Module) => {
+        try {
+            await offline.download(module);
+            addToast(`"${module.title}" disponível offline.`, 'success');
+        } catch (error) {
+            console.error('Erro ao baixar módulo:', error);
+            addToast('Não foi possível baixar o módulo. Verifique sua conexão e o espaço disponível.', 'error');
+        }
+    }, [offline.download, addToast]);
+
+    const handleRemoveDownload = useCallback(async (module: Module) => {
+        try {
+            await offline.remove(module.id);
+            addToast(`Download de "${module.title}" removido.`, 'success');
+        } catch (error) {
+            console.error('Erro ao remover módulo offline:', error);
+            addToast('Não foi possível remover o download.', 'error');
+        }
+    }, [offline.remove, addToast]);
     
     // Default filtering for students: show only their series if available
     const [selectedSerie, setSelectedSerie] = useState(user?.series || 'all');
@@ -268,6 +374,8 @@ const Modules: React.FC = () => {
                 </div>
             </div>
             
+            {offline.isSupported && <OfflineStoragePanel records={offline.records} estimate={offline.estimate} />}
+
             <div className="sr-only" role="status" aria-live="polite">
                 {liveRegionText}
             </div>
@@ -276,7 +384,12 @@ const Modules: React.FC = () => {
                 <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {filteredModules.map(module => (
                         <li key={module.id}>
-                            <ModuleCard module={module} onStartModule={startModule} />
+                            <ModuleCard
+                                module={module}
+                                onStartModule={startModule}
+                                onDownload={offline.isSupported ? handleDownload : undefined}
+                                onRemoveDownload={offline.isSupported ? handleRemoveDownload : undefined}
+                            />
                         </li>
                     ))}
                 </ul>
@@ -3,6 +3,7 @@ import React, { useState, useMemo } from 'react';
 import { useTeacherData, PendingActivity } from '../contexts/TeacherDataContext';
 import { Card } from './common/Card';
 import { SubmissionsModal } from './common/SubmissionsModal';
+import BatchGrading from './BatchGrading';
 import type { Activity } from '../types';
 import { ICONS } from '../constants/index';
 import { db } from './firebaseClient';
@@ -11,7 +12,14 @@ import { collection, query, orderBy, getDocs, doc, getDoc } from 'firebase/fires
 const PendingActivityItem: React.FC<{ item: PendingActivity; onView: () => void }> = ({ item, onView }) => (
     <div className="flex items-center justify-between p-4 hover:bg-slate-50 dark:hover:bg-slate-700/50 rounded-lg transition-colors duration-200 cursor-pointer" onClick={onView}>
         <div>
-            <p className="font-semibold text-indigo-600 dark:text-indigo-400 hc-link-override">{item.title}</p>
+            <p className="font-semibold text-indigo-600 dark:text-indigo-400 hc-link-override">
+                {item.title}
+                {item.lateCount > 0 && (
+                    <span className="ml-2 align-middle text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300">
+                        {item.lateCount} atrasada{item.lateCount > 1 ? 's' : ''}
+                    </span>
+                )}
+            </p>
             <p className="text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">{item.className}</p>
         </div>
         <div className="text-center flex items-center space-x-4">
@@ -24,11 +32,64 @@ const PendingActivityItem: React.FC<{ item: PendingActivity; onView: () => void
     </div>
 );
 
+// Carrega a atividade completa com as entregas da subcoleção (fonte de verdade), mais antigas primeiro
+const fetchActivityWithSubmissions = async (pendingItem: PendingActivity): Promise<Activity | null> => {
+    // 1. Fetch full Activity Document
+    const activityRef = doc(db, "activities", pendingItem.id);
+    const activitySnap = await getDoc(activityRef);
+    if (!activitySnap.exists()) return null;
+
+    const activityData = activitySnap.data();
+    let className = pendingItem.className;
+
+    // 2. Validate Class Name (Fetch if missing/unknown)
+    if (!className || className === "Turma desconhecida") {
+        if (activityData.classId) {
+            const classSnap = await getDoc(doc(db, "classes", activityData.classId));
+            if (classSnap.exists()) {
+                className = classSnap.data().name;
+            }
+        }
+    }
+
+    // 3. Fetch Submissions Subcollection (Source of truth)
+    const subRef = collection(db, "activities", pendingItem.id, "submissions");
+    const q = query(subRef, orderBy("submissionDate", "asc")); // Oldest first for grading queue
+    const subSnap = await getDocs(q);
+
+    const submissions = subSnap.docs.map(d => {
+        const data = d.data();
+        // Safe date parsing
+        let subDateStr = '';
+        if (data.submissionDate?.toDate) {
+            subDateStr = data.submissionDate.toDate().toISOString();
+        } else if (typeof data.submissionDate === 'string') {
+            subDateStr = data.submissionDate;
+        }
+
+        return {
+            studentId: d.data().studentId || d.id,
+            ...data,
+            submissionDate: subDateStr,
+            gradedAt: data.gradedAt?.toDate ? data.gradedAt.toDate().toISOString() : data.gradedAt
+        };
+    });
+
+    // 4. Construct full object for Modal
+    return {
+        id: pendingItem.id,
+        ...activityData,
+        className: className,
+        submissions: submissions
+    } as Activity;
+};
+
 const PendingActivities: React.FC = () => {
-    const { teacherClasses, allPendingActivities, handleGradeActivity } = useTeacherData();
+    const { teacherClasses, allPendingActivities, handleGradeActivity, handleRequestRevision, handleRevealIdentities } = useTeacherData();
     const [selectedClassId, setSelectedClassId] = useState('all');
     const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null);
     const [isLoadingSubmissions, setIsLoadingSubmissions] = useState(false);
+    const [isBatchMode, setIsBatchMode] = useState(false);
 
     // Use the centralized `allPendingActivities` list and filter it locally.
     const pendingActivities = useMemo((): PendingActivity[] => {
@@ -41,61 +102,12 @@ const PendingActivities: React.FC = () => {
     const handleOpenResponses = async (pendingItem: PendingActivity) => {
         setIsLoadingSubmissions(true);
         try {
-            // 1. Fetch full Activity Document
-            const activityRef = doc(db, "activities", pendingItem.id);
-            const activitySnap = await getDoc(activityRef);
-            
-            if (!activitySnap.exists()) {
+            const fullActivity = await fetchActivityWithSubmissions(pendingItem);
+            if (!fullActivity) {
                 alert("Atividade não encontrada.");
                 return;
             }
-
-            const activityData = activitySnap.data();
-            let className = pendingItem.className;
-            
-            // 2. Validate Class Name (Fetch if missing/unknown)
-            if (!className || className === "Turma desconhecida") {
-                 if (activityData.classId) {
-                     const classSnap = await getDoc(doc(db, "classes", activityData.classId));
-                     if (classSnap.exists()) {
-                         className = classSnap.data().name;
-                     }
-                 }
-            }
-
-            // 3. Fetch Submissions Subcollection (Source of truth)
-            const subRef = collection(db, "activities", pendingItem.id, "submissions");
-            const q = query(subRef, orderBy("submissionDate", "asc")); // Oldest first for grading queue
-            const subSnap = await getDocs(q);
-
-            const submissions = subSnap.docs.map(d => {
-                const data = d.data();
-                // Safe date parsing
-                let subDateStr = '';
-                if (data.submissionDate?.toDate) {
-                    subDateStr = data.submissionDate.toDate().toISOString();
-                } else if (typeof data.submissionDate === 'string') {
-                    subDateStr = data.submissionDate;
-                }
-
-                return {
-                    studentId: d.data().studentId || d.id,
-                    ...data,
-                    submissionDate: subDateStr,
-                    gradedAt: data.gradedAt?.toDate ? data.gradedAt.toDate().toISOString() : data.gradedAt
-                };
-            });
-
-            // 4. Construct full object for Modal
-            const fullActivity: any = {
-                id: pendingItem.id,
-                ...activityData,
-                className: className,
-                submissions: submissions
-            };
-
             setSelectedActivity(fullActivity);
-
         } catch (error) {
             console.error("Error fetching submissions:", error);
             alert("Erro ao carregar submissões.");
@@ -104,6 +116,24 @@ const PendingActivities: React.FC = () => {
         }
     };
 
+    // Correção em lote: todas as entregas pendentes das atividades listadas (respeita o filtro de turma)
+    const loadBatchActivities = async (): Promise<Activity[]> => {
+        const loaded = await Promise.all(pendingActivities.map(fetchActivityWithSubmissions));
+        return loaded.filter((a): a is Activity => a !== null);
+    };
+
+    if (isBatchMode) {
+        return (
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">Correção em Lote</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1 hc-text-secondary">Corrija as entregas em sequência; os alunos são notificados ao concluir.</p>
+                </div>
+                <BatchGrading loadActivities={loadBatchActivities} onExit={() => setIsBatchMode(false)} />
+            </div>
+        );
+    }
+
     return (
         <div className="space-y-6">
              <div>
@@ -112,7 +142,14 @@ const PendingActivities: React.FC = () => {
             </div>
 
             <Card className="!p-4">
-                <div className="flex justify-end items-center">
+                <div className="flex flex-wrap justify-end items-center gap-2">
+                    <button
+                        onClick={() => setIsBatchMode(true)}
+                        disabled={pendingActivities.length === 0}
+                        className="mr-auto px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600 hc-button-primary-override"
+                    >
+                        Correção em lote
+                    </button>
                     <label htmlFor="class-filter" className="text-sm font-medium text-slate-600 dark:text-slate-300 mr-2">Filtrar por turma:</label>
                     <select
                         id="class-filter"
@@ -155,6 +192,8 @@ const PendingActivities: React.FC = () => {
                     onClose={() => setSelectedActivity(null)}
                     activity={selectedActivity}
                     onGradeActivity={handleGradeActivity}
+                    onRequestRevision={handleRequestRevision}
+                    onRevealIdentities={handleRevealIdentities}
                 />
             )}
         </div>
@@ -5,6 +5,7 @@ import { useSettings, Theme } from '../contexts/SettingsContext';
 import { useAuth } from '../contexts/AuthContext';
 // FIX: Import StudentDataContext to be used with useContext.
 import { StudentDataContext } from '../contexts/StudentDataContext';
+import { getLevelProgress } from '../utils/levelCurve';
 
 
 const StatCard: React.FC<{ icon: React.ReactNode, value: string | number, label: string }> = React.memo(({ icon, value, label }) => (
@@ -195,10 +196,20 @@ const Profile: React.FC = () => {
                 <>
                     <ul className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
                         <li><StatCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>} value={moduleProgress.filter(p => p.status === 'Concluído').length} label="Módulos Concluídos" /></li>
-                        <li><StatCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M3 21v-4.5a1.5 1.5 0 011.5-1.5h15A1.5 1.5 0 0121 16.5V21" /><path d="M10 3v2.5a1.5 1.5 0 001.5 1.5h1A1.5 1.5 0 0014 5.5V3" /><path d="M6 3v2.5A1.5 1.5 0 007.5 7h1A1.5 1.5 0 0010 5.5V3" /><path d="M14 3v2.5a1.5 1.5 0 001.5 1.5h1a1.5 1.5 0 001.5-1.5V3" /><path d="M3 10.5v.5a1.5 1.5 0 001.5 1.5h15a1.5 1.5 0 001.5-1.5v-.5" /></svg>} value={userStats.level} label="Nível Atual" /></li>
+                        <li><StatCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M3 21v-4.5a1.5 1.5 0 011.5-1.5h15A1.5 1.5 0 0121 16.5V21" /><path d="M10 3v2.5a1.5 1.5 0 001.5 1.5h1A1.5 1.5 0 0014 5.5V3" /><path d="M6 3v2.5A1.5 1.5 0 007.5 7h1A1.5 1.5 0 0010 5.5V3" /><path d="M14 3v2.5a1.5 1.5 0 001.5 1.5h1a1.5 1.5 0 001.5-1.5V3" /><path d="M3 10.5v.5a1.5 1.5 0 001.5 1.5h15a1.5 1.5 0 001.5-1.5v-.5" /></svg>} value={userStats.level} label={`Nível Atual · ${userStats.levelName}`} /></li>
                         <li><StatCard icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M5 21v-4M3 19h4M21 3v4M19 5h4M21 21v-4M19 19h4M12 5V3M12 21v-2" /><path d="M12 18a6 6 0 100-12 6 6 0 000 12z" /></svg>} value={userStats.xp} label="Pontos de XP" /></li>
                     </ul>
 
+                    <Card>
+                        <div className="flex justify-between items-center mb-2 text-sm font-semibold text-slate-600 dark:text-slate-300 hc-text-secondary">
+                            <span>Progresso para o Nível {userStats.level + 1}</span>
+                            <span>{userStats.xp} / {userStats.xpForNextLevel} XP</span>
+                        </div>
+                        <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3" role="progressbar" aria-valuenow={getLevelProgress(userStats)} aria-valuemin={0} aria-valuemax={100} aria-label="Progresso para o próximo nível">
+                            <div className="bg-indigo-500 h-3 rounded-full" style={{ width: `${getLevelProgress(userStats)}%` }}></div>
+                        </div>
+                    </Card>
+
                     <Card>
                         <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-2 hc-text-primary">Meu Progresso nos Módulos</h2>
                         <ul className="divide-y divide-slate-200 dark:divide-slate-700 hc-border-override">
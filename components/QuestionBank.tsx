@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { collection, query, orderBy, limit } from 'firebase/firestore';
+import { db } from './firebaseClient';
+import { Modal } from './common/Modal';
+import { SpinnerIcon } from '../constants/index';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { removeSessionCache } from '../utils/cacheUtils';
+import type { QuestionBankItem, QuestionBankTags, QuestionDifficulty, QuizQuestion, QuizQuestionType } from '../types';
+import { QUESTION_TYPE_OPTIONS, getQuestionType } from '../utils/quizScoring';
+import {
+    QUESTION_BANK_COLLECTION, QuestionBankFilters, collectTagValues, describeUsage,
+    filterQuestionBank, instantiateBankQuestion, saveQuestionToBank
+} from '../utils/questionBank';
+
+const QUESTION_BANK_CACHE_KEY = 'question_bank';
+
+const SCHOOL_YEARS = [
+    "6º Ano", "7º Ano", "8º Ano", "9º Ano",
+    "1º Ano (Ensino Médio)", "2º Ano (Ensino Médio)", "3º Ano (Ensino Médio)",
+];
+
+const DIFFICULTIES: QuestionDifficulty[] = ['Fácil', 'Médio', 'Difícil'];
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md text-sm dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+const labelClass = "block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1";
+
+const typeLabel = (type: QuizQuestionType) => QUESTION_TYPE_OPTIONS.find(o => o.value === type)?.label || type;
+
+// --- INSERIR DO BANCO ---
+
+interface QuestionBankPickerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onInsert: (questions: QuizQuestion[]) => void;
+    initialFilters?: QuestionBankFilters;
+    // Alguns destinos (ex: atividade de Múltipla Escolha) só aceitam certos tipos
+    allowedTypes?: QuizQuestionType[];
+}
+
+export const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({ isOpen, onClose, onInsert, initialFilters, allowedTypes }) => {
+    const { data, loading, error } = useCachedQuery(
+        QUESTION_BANK_CACHE_KEY,
+        () => query(collection(db, QUESTION_BANK_COLLECTION), orderBy('createdAt', 'desc'), limit(500))
+    );
+    const [filters, setFilters] = useState<QuestionBankFilters>(initialFilters || {});
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const items = useMemo(() => {
+        const all = (data || []) as QuestionBankItem[];
+        return allowedTypes ? all.filter(item => allowedTypes.includes(getQuestionType(item.question))) : all;
+    }, [data, allowedTypes]);
+
+    const filtered = useMemo(() => filterQuestionBank(items, filters), [items, filters]);
+    const periodOptions = useMemo(() => collectTagValues(items, 'period'), [items]);
+    const materiaOptions = useMemo(() => collectTagValues(items, 'materia'), [items]);
+
+    const updateFilter = (patch: Partial<QuestionBankFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+    const toggle = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+
+    const handleInsert = () => {
+        const base = Date.now();
+        const chosen = items.filter(item => selectedIds.includes(item.id));
+        onInsert(chosen.map((item, index) => instantiateBankQuestion(item, base + index)));
+        setSelectedIds([]);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Banco de Questões">
+            <div className="space-y-4">
+                <input
+                    type="search"
+                    value={filters.search || ''}
+                    onChange={e => updateFilter({ search: e.target.value })}
+                    placeholder="Buscar por enunciado, alternativas, período ou BNCC..."
+                    className={inputClass}
+                    aria-label="Buscar no banco de questões"
+                />
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    <select value={filters.series || ''} onChange={e => updateFilter({ series: e.target.value || undefined })} className={inputClass} aria-label="Filtrar por série">
+                        <option value="">Todas as séries</option>
+                        {SCHOOL_YEARS.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                    <select value={filters.materia || ''} onChange={e => updateFilter({ materia: e.target.value || undefined })} className={inputClass} aria-label="Filtrar por matéria">
+                        <option value="">Todas as matérias</option>
+                        {materiaOptions.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                    <select value={filters.difficulty || ''} onChange={e => updateFilter({ difficulty: e.target.value || undefined })} className={inputClass} aria-label="Filtrar por dificuldade">
+                        <option value="">Qualquer dificuldade</option>
+                        {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                    <input
+                        list="question-bank-periods"
+                        value={filters.period || ''}
+                        onChange={e => updateFilter({ period: e.target.value || undefined })}
+                        placeholder="Período histórico"
+                        className={inputClass}
+                        aria-label="Filtrar por período histórico"
+                    />
+                    <datalist id="question-bank-periods">
+                        {periodOptions.map(p => <option key={p} value={p} />)}
+                    </datalist>
+                    <input
+                        value={filters.bnccCode || ''}
+                        onChange={e => updateFilter({ bnccCode: e.target.value || undefined })}
+                        placeholder="Código BNCC (ex: EF08HI)"
+                        className={inputClass}
+                        aria-label="Filtrar por código BNCC"
+                    />
+                </div>
+
+                <div className="max-h-80 overflow-y-auto space-y-2 border-t dark:border-slate-700 pt-3">
+                    {loading && (
+                        <div className="flex justify-center py-8"><SpinnerIcon className="h-6 w-6 text-indigo-600" /></div>
+                    )}
+                    {error && <p className="text-sm text-red-500 text-center">Erro ao carregar o banco de questões.</p>}
+                    {!loading && !error && filtered.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">Nenhuma questão encontrada com esses filtros.</p>
+                    )}
+                    {filtered.map(item => (
+                        <label key={item.id} className="flex items-start p-3 rounded-lg border border-slate-200 has-[:checked]:bg-indigo-50 has-[:checked]:border-indigo-400 cursor-pointer dark:border-slate-700 dark:has-[:checked]:bg-indigo-500/20">
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.includes(item.id)}
+                                onChange={() => toggle(item.id)}
+                                className="mt-1 h-4 w-4 text-indigo-600 rounded"
+                            />
+                            <div className="ml-3 flex-grow min-w-0">
+                                <p className="text-sm font-medium text-slate-800 dark:text-slate-100">{item.question.question}</p>
+                                <div className="flex flex-wrap gap-1 mt-1 text-[11px] font-medium">
+                                    <span className="px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 dark:bg-indigo-500/20 dark:text-indigo-300">{typeLabel(getQuestionType(item.question))}</span>
+                                    {item.tags?.series && <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{item.tags.series}</span>}
+                                    {item.tags?.materia && <span className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300">{item.tags.materia}</span>}
+                                    {item.tags?.period && <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300">{item.tags.period}</span>}
+                                    {item.tags?.bnccCode && <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300">{item.tags.bnccCode}</span>}
+                                    {item.tags?.difficulty && <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{item.tags.difficulty}</span>}
+                                </div>
+                                <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1" title={Object.values(item.usages || {}).map(describeUsage).join('\n')}>
+                                    Por {item.creatorName} · usada em {Object.keys(item.usages || {}).length} conteúdo(s)
+                                </p>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex justify-between items-center border-t dark:border-slate-700 pt-3">
+                    <span className="text-sm text-slate-500 dark:text-slate-400">{selectedIds.length} selecionada(s)</span>
+                    <button
+                        type="button"
+                        onClick={handleInsert}
+                        disabled={selectedIds.length === 0}
+                        className="px-4 py-2 bg-indigo-200 text-indigo-900 font-semibold rounded-lg hover:bg-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:text-white dark:hover:bg-indigo-600 hc-button-primary-override"
+                    >
+                        Inserir Questões
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+// --- SALVAR NO BANCO ---
+
+interface SaveToQuestionBankModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    question: QuizQuestion;
+    defaultTags?: QuestionBankTags;
+    onSaved: (bankQuestionId: string) => void;
+}
+
+export const SaveToQuestionBankModal: React.FC<SaveToQuestionBankModalProps> = ({ isOpen, onClose, question, defaultTags, onSaved }) => {
+    const { user } = useAuth();
+    const { addToast } = useToast();
+    const [tags, setTags] = useState<QuestionBankTags>(defaultTags || {});
+    const [isSaving, setIsSaving] = useState(false);
+
+    const updateTag = (patch: Partial<QuestionBankTags>) => setTags(prev => ({ ...prev, ...patch }));
+
+    const handleSave = async () => {
+        if (!user || isSaving) return;
+        if (!question.question.trim()) {
+            addToast('Escreva o enunciado antes de salvar no banco.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const id = await saveQuestionToBank(question, tags, { id: user.id, name: user.name });
+            removeSessionCache(QUESTION_BANK_CACHE_KEY);
+            addToast('Questão salva no banco!', 'success');
+            onSaved(id);
+            onClose();
+        } catch (error: any) {
+            console.error(error);
+            addToast(`Erro ao salvar no banco: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Salvar no Banco de Questões">
+            <div className="space-y-4">
+                <p className="text-sm text-slate-600 dark:text-slate-300 p-3 rounded-md bg-slate-50 dark:bg-slate-900">{question.question || '(sem enunciado)'}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Série</label>
+                        <select value={tags.series || ''} onChange={e => updateTag({ series: e.target.value })} className={inputClass}>
+                            <option value="">—</option>
+                            {SCHOOL_YEARS.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Matéria</label>
+                        <input value={tags.materia || ''} onChange={e => updateTag({ materia: e.target.value })} className={inputClass} placeholder="Ex: História" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Período histórico</label>
+                        <input value={tags.period || ''} onChange={e => updateTag({ period: e.target.value })} className={inputClass} placeholder="Ex: Brasil Colônia" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Habilidade BNCC</label>
+                        <input value={tags.bnccCode || ''} onChange={e => updateTag({ bnccCode: e.target.value })} className={inputClass} placeholder="Ex: EF07HI12" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Dificuldade</label>
+                        <select value={tags.difficulty || ''} onChange={e => updateTag({ difficulty: (e.target.value || undefined) as QuestionDifficulty | undefined })} className={inputClass}>
+                            <option value="">—</option>
+                            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-green-200 text-green-900 font-semibold rounded-lg hover:bg-green-300 disabled:opacity-50 dark:bg-green-500/30 dark:text-green-200 dark:hover:bg-green-500/40 hc-button-primary-override"
+                >
+                    {isSaving ? <SpinnerIcon className="h-5 w-5 mr-2" /> : null}
+                    {isSaving ? 'Salvando...' : 'Salvar no Banco'}
+                </button>
+            </div>
+        </Modal>
+    );
+};
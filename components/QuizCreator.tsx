@@ -1,7 +1,12 @@
 
 import React, { useState } from 'react';
 import { Card } from './common/Card';
-import { QuizQuestion, QuizChoice } from '../types';
+import { QuizQuestion, QuizSettings } from '../types';
+import { QuizQuestionEditor } from './QuizQuestionEditor';
+import { createEmptyQuestion, sanitizeQuestion } from '../utils/quizScoring';
+import { QuizSettingsEditor } from './QuizSettingsEditor';
+import { QuestionBankPicker, SaveToQuestionBankModal } from './QuestionBank';
+import { DEFAULT_QUIZ_SETTINGS } from '../utils/quizPolicy';
 
 interface QuizCreatorProps {
     onSave: (quizData: {
@@ -10,6 +15,7 @@ interface QuizCreatorProps {
         series?: string;
         materia?: string;
         questions: QuizQuestion[];
+        settings?: QuizSettings;
     }) => void;
     initialData?: {
         title: string;
@@ -17,6 +23,7 @@ interface QuizCreatorProps {
         series?: string;
         materia?: string;
         questions: QuizQuestion[];
+        settings?: QuizSettings;
     };
 }
 
@@ -26,17 +33,12 @@ const QuizCreator: React.FC<QuizCreatorProps> = ({ onSave, initialData }) => {
     const [series, setSeries] = useState(initialData?.series || '');
     const [materia, setMateria] = useState(initialData?.materia || '');
     const [questions, setQuestions] = useState<QuizQuestion[]>(initialData?.questions || []);
+    const [settings, setSettings] = useState<QuizSettings>(initialData?.settings || {});
+    const [isBankOpen, setIsBankOpen] = useState(false);
+    const [questionToBank, setQuestionToBank] = useState<number | null>(null);
 
     const handleAddQuestion = () => {
-        setQuestions(prev => [
-            ...prev,
-            {
-                id: prev.length + 1,
-                question: '',
-                choices: [],
-                correctAnswerId: ''
-            }
-        ]);
+        setQuestions(prev => [...prev, createEmptyQuestion('single', prev.length + 1)]);
     };
 
     const handleQuestionChange = (index: number, field: keyof QuizQuestion, value: any) => {
@@ -45,19 +47,15 @@ const QuizCreator: React.FC<QuizCreatorProps> = ({ onSave, initialData }) => {
         setQuestions(updated);
     };
 
-    const handleAddChoice = (qIndex: number) => {
+    const handleReplaceQuestion = (index: number, question: QuizQuestion) => {
         const updated = [...questions];
-        updated[qIndex].choices.push({
-            id: crypto.randomUUID(),
-            text: ''
-        });
+        updated[index] = question;
         setQuestions(updated);
     };
 
-    const handleChoiceChange = (qIndex: number, cIndex: number, value: string) => {
-        const updated = [...questions];
-        updated[qIndex].choices[cIndex].text = value;
-        setQuestions(updated);
+    const handleInsertFromBank = (inserted: QuizQuestion[]) => {
+        // Mantém a numeração sequencial usada pelo QuizCreator
+        setQuestions(prev => [...prev, ...inserted.map((q, i) => ({ ...q, id: prev.length + i + 1 }))]);
     };
 
     const handleSave = () => {
@@ -66,7 +64,8 @@ const QuizCreator: React.FC<QuizCreatorProps> = ({ onSave, initialData }) => {
             description,
             series,
             materia,
-            questions
+            questions: questions.map(sanitizeQuestion),
+            settings: { ...DEFAULT_QUIZ_SETTINGS, ...settings }
         });
     };
 
@@ -114,20 +113,57 @@ const QuizCreator: React.FC<QuizCreatorProps> = ({ onSave, initialData }) => {
 
             <hr className="my-4 border-slate-300 dark:border-slate-700" />
 
+            <h3 className="text-xl font-semibold">Regras de Aplicação</h3>
+
+            <QuizSettingsEditor settings={settings} onChange={setSettings} />
+
+            <hr className="my-4 border-slate-300 dark:border-slate-700" />
+
             <h3 className="text-xl font-semibold">Questões</h3>
 
-            <button
-                onClick={handleAddQuestion}
-                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
-            >
-                Adicionar Questão
-            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={handleAddQuestion}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                >
+                    Adicionar Questão
+                </button>
+                <button
+                    onClick={() => setIsBankOpen(true)}
+                    className="px-4 py-2 bg-slate-200 dark:bg-slate-700 rounded hover:bg-slate-300"
+                >
+                    Inserir do Banco
+                </button>
+            </div>
+
+            {isBankOpen && (
+                <QuestionBankPicker
+                    isOpen={isBankOpen}
+                    onClose={() => setIsBankOpen(false)}
+                    onInsert={handleInsertFromBank}
+                    initialFilters={{ series: series || undefined, materia: materia || undefined }}
+                />
+            )}
+            {questionToBank !== null && questions[questionToBank] && (
+                <SaveToQuestionBankModal
+                    isOpen={questionToBank !== null}
+                    onClose={() => setQuestionToBank(null)}
+                    question={questions[questionToBank]}
+                    defaultTags={{ series, materia }}
+                    onSaved={bankId => handleReplaceQuestion(questionToBank, { ...questions[questionToBank], bankQuestionId: bankId })}
+                />
+            )}
 
             <div className="space-y-6 mt-4">
                 {questions.map((q, qIndex) => (
                     <Card key={q.id} className="p-4 space-y-4">
                         <div className="space-y-2">
-                            <label className="font-semibold">Pergunta {qIndex + 1}</label>
+                            <div className="flex justify-between items-center">
+                                <label className="font-semibold">Pergunta {qIndex + 1}</label>
+                                {q.bankQuestionId
+                                    ? <span className="text-xs text-green-700 dark:text-green-400">No banco de questões</span>
+                                    : <button onClick={() => setQuestionToBank(qIndex)} className="text-sm text-indigo-600 hover:underline">Salvar no banco</button>}
+                            </div>
                             <input
                                 className="w-full p-2 border rounded"
                                 value={q.question}
@@ -137,48 +173,10 @@ const QuizCreator: React.FC<QuizCreatorProps> = ({ onSave, initialData }) => {
                             />
                         </div>
 
-                        <div className="space-y-2">
-                            <label className="font-semibold">Alternativas</label>
-                            {q.choices.map((c, cIndex) => (
-                                <input
-                                    key={c.id}
-                                    className="w-full p-2 border rounded mb-2"
-                                    value={c.text}
-                                    onChange={e =>
-                                        handleChoiceChange(qIndex, cIndex, e.target.value)
-                                    }
-                                />
-                            ))}
-
-                            <button
-                                onClick={() => handleAddChoice(qIndex)}
-                                className="px-3 py-1 bg-slate-200 dark:bg-slate-700 rounded"
-                            >
-                                + Alternativa
-                            </button>
-                        </div>
-
-                        <div className="space-y-2">
-                            <label className="font-semibold">Resposta correta</label>
-                            <select
-                                className="w-full p-2 border rounded"
-                                value={q.correctAnswerId}
-                                onChange={e =>
-                                    handleQuestionChange(
-                                        qIndex,
-                                        'correctAnswerId',
-                                        e.target.value
-                                    )
-                                }
-                            >
-                                <option value="">Selecione</option>
-                                {q.choices.map(c => (
-                                    <option key={c.id} value={c.id}>
-                                        {c.text || '(vazio)'}
-                                    </option>
-                                ))}
-                            </select>
-                        </div>
+                        <QuizQuestionEditor
+                            question={q}
+                            onChange={updated => handleReplaceQuestion(qIndex, updated)}
+                        />
                     </Card>
                 ))}
             </div>
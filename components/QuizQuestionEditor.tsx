@@ -0,0 +1,228 @@
+import React from 'react';
+import type { QuizQuestion, QuizQuestionType } from '../types';
+import { QUESTION_TYPE_OPTIONS, changeQuestionType, getQuestionType } from '../utils/quizScoring';
+
+interface QuizQuestionEditorProps {
+    question: QuizQuestion;
+    onChange: (question: QuizQuestion) => void;
+}
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+const labelClass = "text-sm font-medium text-gray-700 dark:text-slate-300";
+const linkButtonClass = "text-sm text-indigo-600 hover:underline dark:text-indigo-400";
+
+const newId = () => String(Date.now() + Math.floor(Math.random() * 1000));
+
+/**
+ * Editor dos campos de resposta de uma questão, de acordo com o tipo escolhido.
+ * Compartilhado entre QuizCreator.tsx e AdminCreateQuiz.tsx.
+ */
+export const QuizQuestionEditor: React.FC<QuizQuestionEditorProps> = ({ question, onChange }) => {
+    const type = getQuestionType(question);
+
+    const update = (patch: Partial<QuizQuestion>) => onChange({ ...question, ...patch });
+
+    const updateChoice = (choiceId: string, text: string) => {
+        update({ choices: question.choices.map(c => c.id === choiceId ? { ...c, text } : c) });
+    };
+
+    const addChoice = () => update({ choices: [...question.choices, { id: newId(), text: '' }] });
+
+    const removeChoice = (choiceId: string) => {
+        update({
+            choices: question.choices.filter(c => c.id !== choiceId),
+            correctAnswerIds: question.correctAnswerIds?.filter(id => id !== choiceId),
+            correctAnswerId: question.correctAnswerId === choiceId ? '' : question.correctAnswerId,
+        });
+    };
+
+    const moveChoice = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= question.choices.length) return;
+        const choices = [...question.choices];
+        [choices[index], choices[target]] = [choices[target], choices[index]];
+        update({ choices });
+    };
+
+    const toggleCorrectId = (choiceId: string) => {
+        const current = question.correctAnswerIds || [];
+        update({
+            correctAnswerIds: current.includes(choiceId) ? current.filter(id => id !== choiceId) : [...current, choiceId]
+        });
+    };
+
+    const pairs = question.pairs || [];
+    const updatePair = (pairId: string, field: 'left' | 'right', value: string) => {
+        update({ pairs: pairs.map(p => p.id === pairId ? { ...p, [field]: value } : p) });
+    };
+
+    const accepted = question.acceptedAnswers || [];
+
+    const renderChoiceList = (mode: 'radio' | 'checkbox' | 'order') => (
+        <div className="space-y-2">
+            {question.choices.map((choice, index) => (
+                <div key={choice.id} className="flex items-center space-x-2">
+                    {mode === 'radio' && (
+                        <input
+                            type="radio"
+                            name={`correct-${question.id}`}
+                            checked={question.correctAnswerId === choice.id}
+                            onChange={() => update({ correctAnswerId: choice.id })}
+                            className="h-4 w-4 text-indigo-600"
+                            aria-label="Marcar como correta"
+                        />
+                    )}
+                    {mode === 'checkbox' && (
+                        <input
+                            type="checkbox"
+                            checked={(question.correctAnswerIds || []).includes(choice.id)}
+                            onChange={() => toggleCorrectId(choice.id)}
+                            className="h-4 w-4 text-indigo-600 rounded"
+                            aria-label="Marcar como correta"
+                        />
+                    )}
+                    {mode === 'order' && (
+                        <span className="w-6 text-center text-sm font-bold text-slate-500">{index + 1}.</span>
+                    )}
+                    <input
+                        value={choice.text}
+                        onChange={e => updateChoice(choice.id, e.target.value)}
+                        className={`flex-grow ${inputClass}`}
+                        placeholder={mode === 'order' ? 'Item / acontecimento' : 'Texto da alternativa'}
+                    />
+                    {mode === 'order' && (
+                        <>
+                            <button type="button" onClick={() => moveChoice(index, -1)} disabled={index === 0} className="px-2 text-slate-500 disabled:opacity-30" aria-label="Mover para cima">▲</button>
+                            <button type="button" onClick={() => moveChoice(index, 1)} disabled={index === question.choices.length - 1} className="px-2 text-slate-500 disabled:opacity-30" aria-label="Mover para baixo">▼</button>
+                        </>
+                    )}
+                    {question.choices.length > 2 && (
+                        <button type="button" onClick={() => removeChoice(choice.id)} className="px-2 text-red-500 hover:text-red-700" aria-label="Remover">✕</button>
+                    )}
+                </div>
+            ))}
+            <button type="button" onClick={addChoice} className={linkButtonClass}>
+                {mode === 'order' ? '+ Adicionar Item' : '+ Adicionar Alternativa'}
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-1">
+                <label className={labelClass}>Tipo de questão</label>
+                <select
+                    value={type}
+                    onChange={e => onChange(changeQuestionType(question, e.target.value as QuizQuestionType))}
+                    className={inputClass}
+                >
+                    {QUESTION_TYPE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+            </div>
+
+            {type === 'single' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Alternativas (Marque a correta)</label>
+                    {renderChoiceList('radio')}
+                </div>
+            )}
+
+            {type === 'true_false' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Resposta correta</label>
+                    <div className="flex space-x-4">
+                        {question.choices.map(choice => (
+                            <label key={choice.id} className="flex items-center space-x-2 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name={`correct-${question.id}`}
+                                    checked={question.correctAnswerId === choice.id}
+                                    onChange={() => update({ correctAnswerId: choice.id })}
+                                    className="h-4 w-4 text-indigo-600"
+                                />
+                                <span className="text-sm text-slate-700 dark:text-slate-200">{choice.text}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {type === 'multi_select' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Alternativas (Marque todas as corretas)</label>
+                    {renderChoiceList('checkbox')}
+                </div>
+            )}
+
+            {type === 'ordering' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Itens na ordem correta (o aluno verá embaralhado)</label>
+                    {renderChoiceList('order')}
+                </div>
+            )}
+
+            {type === 'matching' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Pares (o aluno associa cada item à esquerda com um da direita)</label>
+                    {pairs.map(pair => (
+                        <div key={pair.id} className="flex items-center space-x-2">
+                            <input value={pair.left} onChange={e => updatePair(pair.id, 'left', e.target.value)} className={inputClass} placeholder="Ex: Tiradentes" />
+                            <span className="text-slate-400">↔</span>
+                            <input value={pair.right} onChange={e => updatePair(pair.id, 'right', e.target.value)} className={inputClass} placeholder="Ex: Inconfidência Mineira" />
+                            {pairs.length > 2 && (
+                                <button type="button" onClick={() => update({ pairs: pairs.filter(p => p.id !== pair.id) })} className="px-2 text-red-500 hover:text-red-700" aria-label="Remover par">✕</button>
+                            )}
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => update({ pairs: [...pairs, { id: newId(), left: '', right: '' }] })} className={linkButtonClass}>+ Adicionar Par</button>
+                </div>
+            )}
+
+            {type === 'fill_blank' && (
+                <div className="space-y-2">
+                    <label className={labelClass}>Respostas aceitas (acentos e maiúsculas são ignorados)</label>
+                    {accepted.map((answer, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                            <input
+                                value={answer}
+                                onChange={e => update({ acceptedAnswers: accepted.map((a, i) => i === index ? e.target.value : a) })}
+                                className={inputClass}
+                                placeholder="Ex: 1822"
+                            />
+                            {accepted.length > 1 && (
+                                <button type="button" onClick={() => update({ acceptedAnswers: accepted.filter((_, i) => i !== index) })} className="px-2 text-red-500 hover:text-red-700" aria-label="Remover resposta">✕</button>
+                            )}
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => update({ acceptedAnswers: [...accepted, ''] })} className={linkButtonClass}>+ Adicionar Variação</button>
+                </div>
+            )}
+
+            {type === 'numeric' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                        <label className={labelClass}>Resposta correta</label>
+                        <input
+                            type="number"
+                            step="any"
+                            value={question.numericAnswer ?? ''}
+                            onChange={e => update({ numericAnswer: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className={labelClass}>Margem de erro (±)</label>
+                        <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={question.numericTolerance ?? 0}
+                            onChange={e => update({ numericTolerance: Number(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
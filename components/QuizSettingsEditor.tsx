@@ -0,0 +1,103 @@
+import React from 'react';
+import type { QuizRevealPolicy, QuizScorePolicy, QuizSettings } from '../types';
+import { DEFAULT_QUIZ_SETTINGS, REVEAL_POLICY_OPTIONS, SCORE_POLICY_OPTIONS } from '../utils/quizPolicy';
+
+interface QuizSettingsEditorProps {
+    settings: QuizSettings;
+    onChange: (settings: QuizSettings) => void;
+}
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-slate-300";
+
+/**
+ * Regras de aplicação do quiz: tempo, tentativas, embaralhamento, gabarito e nota considerada.
+ */
+export const QuizSettingsEditor: React.FC<QuizSettingsEditorProps> = ({ settings, onChange }) => {
+    const current = { ...DEFAULT_QUIZ_SETTINGS, ...settings };
+    const update = (patch: Partial<QuizSettings>) => onChange({ ...settings, ...patch });
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                    <label className={labelClass}>Tempo limite (minutos)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={current.timeLimitMinutes}
+                        onChange={e => update({ timeLimitMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                        className={inputClass}
+                    />
+                    <p className="text-xs text-slate-500 dark:text-slate-400">0 = sem limite de tempo.</p>
+                </div>
+                <div className="space-y-1">
+                    <label className={labelClass}>Máximo de tentativas</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={current.maxAttempts}
+                        onChange={e => update({ maxAttempts: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                        className={inputClass}
+                    />
+                    <p className="text-xs text-slate-500 dark:text-slate-400">0 = tentativas ilimitadas.</p>
+                </div>
+                <div className="space-y-1">
+                    <label className={labelClass}>Nota considerada</label>
+                    <select
+                        value={current.scorePolicy}
+                        onChange={e => update({ scorePolicy: e.target.value as QuizScorePolicy })}
+                        className={inputClass}
+                    >
+                        {SCORE_POLICY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                    <label className={labelClass}>Exibir gabarito</label>
+                    <select
+                        value={current.revealAnswers}
+                        onChange={e => update({ revealAnswers: e.target.value as QuizRevealPolicy })}
+                        className={inputClass}
+                    >
+                        {REVEAL_POLICY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                </div>
+                {current.revealAnswers === 'after_due_date' && (
+                    <div className="space-y-1">
+                        <label className={labelClass}>Data limite</label>
+                        <input
+                            type="date"
+                            value={settings.dueDate || ''}
+                            onChange={e => update({ dueDate: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={current.shuffleQuestions}
+                        onChange={e => update({ shuffleQuestions: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 rounded"
+                    />
+                    <span className="text-sm text-slate-700 dark:text-slate-200">Embaralhar questões</span>
+                </label>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={current.shuffleChoices}
+                        onChange={e => update({ shuffleChoices: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 rounded"
+                    />
+                    <span className="text-sm text-slate-700 dark:text-slate-200">Embaralhar alternativas</span>
+                </label>
+            </div>
+        </div>
+    );
+};
@@ -1,11 +1,16 @@
-import React, { useState } from 'react';
-import type { Quiz, QuizQuestion } from '../types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { Quiz, QuizAnswer, QuizQuestion } from '../types';
 import { SpinnerIcon } from '../constants/index';
+import { describeCorrectAnswer, describeGivenAnswer, getQuestionType, isAnswerCorrect, isQuestionAnswered, scoreQuiz, shuffleArray } from '../utils/quizScoring';
+import { canAttemptQuiz, formatCountdown, getQuizSettings, getRemainingAttempts, prepareQuizQuestions, shouldRevealAnswers } from '../utils/quizPolicy';
 
 interface QuizViewProps {
     quiz?: Quiz;
     questions?: QuizQuestion[];
-    onQuizComplete: (quizId: string, quizTitle: string, score: number, total: number) => Promise<number>;
+    onQuizComplete: (quizId: string, quizTitle: string, score: number, total: number, answers?: Record<number, QuizAnswer>) => Promise<number>;
+    // Registra o início da tentativa cronometrada no servidor e devolve o horário (ms); null se falhar.
+    // Sem ele (ex: pré-visualização do professor) o relógio é apenas local.
+    onQuizStart?: (quizId: string) => Promise<number | null>;
 }
 
 // Helper to extract YouTube video ID from various URL formats
@@ -54,42 +59,262 @@ const QuestionMedia: React.FC<{ url: string }> = ({ url }) => {
 };
 
 
-export const QuizView: React.FC<QuizViewProps> = ({ quiz, questions: questionsFromProps, onQuizComplete }) => {
-    const [answers, setAnswers] = useState<Record<number, string>>({});
+// Estado inicial das respostas: questões de ordenação começam com os itens embaralhados
+const buildInitialAnswers = (questions: QuizQuestion[] | undefined): Record<number, QuizAnswer> => {
+    const initial: Record<number, QuizAnswer> = {};
+    (questions || []).forEach(q => {
+        if (getQuestionType(q) === 'ordering') {
+            initial[q.id] = shuffleArray(q.choices.map(c => c.id));
+        }
+    });
+    return initial;
+};
+
+// Opções da coluna da direita em questões de associação, embaralhadas uma única vez
+const buildMatchingOptions = (questions: QuizQuestion[] | undefined): Record<number, { id: string; text: string }[]> => {
+    const options: Record<number, { id: string; text: string }[]> = {};
+    (questions || []).forEach(q => {
+        if (getQuestionType(q) === 'matching') {
+            options[q.id] = shuffleArray((q.pairs || []).map(p => ({ id: p.id, text: p.right })));
+        }
+    });
+    return options;
+};
+
+const optionClass = "flex items-center p-3 rounded-lg border border-slate-200 has-[:checked]:bg-indigo-50 has-[:checked]:border-indigo-400 cursor-pointer dark:border-slate-700 dark:has-[:checked]:bg-indigo-500/20 dark:has-[:checked]:border-indigo-500";
+const textInputClass = "w-full p-3 rounded-lg border border-slate-300 dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+
+const QuestionInput: React.FC<{
+    question: QuizQuestion;
+    answer: QuizAnswer | undefined;
+    matchingOptions: { id: string; text: string }[];
+    onChange: (answer: QuizAnswer) => void;
+}> = ({ question: q, answer, matchingOptions, onChange }) => {
+    const type = getQuestionType(q);
+
+    if (type === 'multi_select') {
+        const selected = Array.isArray(answer) ? answer : [];
+        const toggle = (id: string) => onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+        return (
+            <div className="mt-2 space-y-2">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Marque todas as alternativas corretas.</p>
+                {q.choices.map(choice => (
+                    <label key={choice.id} className={optionClass}>
+                        <input
+                            type="checkbox"
+                            checked={selected.includes(choice.id)}
+                            onChange={() => toggle(choice.id)}
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus-visible:ring-indigo-500"
+                        />
+                        <span className="ml-3 text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">{choice.text}</span>
+                    </label>
+                ))}
+            </div>
+        );
+    }
+
+    if (type === 'ordering') {
+        const order = Array.isArray(answer) ? answer : q.choices.map(c => c.id);
+        const move = (index: number, direction: -1 | 1) => {
+            const target = index + direction;
+            if (target < 0 || target >= order.length) return;
+            const next = [...order];
+            [next[index], next[target]] = [next[target], next[index]];
+            onChange(next);
+        };
+        return (
+            <div className="mt-2 space-y-2">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Use as setas para colocar os itens na ordem correta (do primeiro ao último).</p>
+                {order.map((id, index) => {
+                    const choice = q.choices.find(c => c.id === id);
+                    return (
+                        <div key={id} className="flex items-center p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <span className="w-6 text-sm font-bold text-indigo-600 dark:text-indigo-400">{index + 1}.</span>
+                            <span className="flex-grow text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">{choice?.text}</span>
+                            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-slate-500 disabled:opacity-30" aria-label={`Mover "${choice?.text}" para cima`}>▲</button>
+                            <button type="button" onClick={() => move(index, 1)} disabled={index === order.length - 1} className="px-2 text-slate-500 disabled:opacity-30" aria-label={`Mover "${choice?.text}" para baixo`}>▼</button>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    if (type === 'matching') {
+        const mapping = answer && typeof answer === 'object' && !Array.isArray(answer) ? answer : {};
+        return (
+            <div className="mt-2 space-y-2">
+                {(q.pairs || []).map(pair => (
+                    <div key={pair.id} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+                        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{pair.left}</span>
+                        <select
+                            value={mapping[pair.id] || ''}
+                            onChange={e => onChange({ ...mapping, [pair.id]: e.target.value })}
+                            className={textInputClass}
+                            aria-label={`Associação para ${pair.left}`}
+                        >
+                            <option value="">Selecione...</option>
+                            {matchingOptions.map(opt => <option key={opt.id} value={opt.id}>{opt.text}</option>)}
+                        </select>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    if (type === 'fill_blank' || type === 'numeric') {
+        return (
+            <div className="mt-2">
+                <input
+                    type="text"
+                    inputMode={type === 'numeric' ? 'decimal' : 'text'}
+                    value={typeof answer === 'string' ? answer : ''}
+                    onChange={e => onChange(e.target.value)}
+                    className={textInputClass}
+                    placeholder={type === 'numeric' ? 'Digite um número' : 'Digite sua resposta'}
+                />
+            </div>
+        );
+    }
+
+    // single / true_false
+    return (
+        <div className="mt-2 space-y-2">
+            {q.choices.map(choice => (
+                <label key={choice.id} className={optionClass}>
+                    <input
+                        type="radio"
+                        name={`question-${q.id}`}
+                        value={choice.id}
+                        checked={answer === choice.id}
+                        onChange={() => onChange(choice.id)}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 focus-visible:ring-indigo-500"
+                    />
+                    <span className="ml-3 text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">{choice.text}</span>
+                </label>
+            ))}
+        </div>
+    );
+};
+
+export const QuizView: React.FC<QuizViewProps> = ({ quiz, questions: questionsFromProps, onQuizComplete, onQuizStart }) => {
+    const settings = getQuizSettings(quiz);
+    const [questions] = useState<QuizQuestion[] | undefined>(() => {
+        const source = quiz?.questions || questionsFromProps;
+        return source ? prepareQuizQuestions(source, settings) : undefined;
+    });
+    const [answers, setAnswers] = useState<Record<number, QuizAnswer>>(() => buildInitialAnswers(questions));
+    const [matchingOptions] = useState(() => buildMatchingOptions(questions));
     const [submitted, setSubmitted] = useState(false);
     const [score, setScore] = useState(0);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [xpAwarded, setXpAwarded] = useState<number | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+    const [timedOut, setTimedOut] = useState(false);
+    const [startError, setStartError] = useState(false);
 
-    const questions = quiz?.questions || questionsFromProps;
-    if (!questions) {
-        return <p>Questões não encontradas.</p>;
-    }
     const quizId = quiz?.id || '';
     const quizTitle = quiz?.title || 'Quiz';
+    const attemptsDone = quiz?.attempts || 0;
+    const isBlocked = !canAttemptQuiz(settings, attemptsDone);
+    const timeLimitSeconds = settings.timeLimitMinutes > 0 ? Math.round(settings.timeLimitMinutes * 60) : 0;
 
-    const handleAnswerChange = (questionId: number, choiceId: string) => {
-        setAnswers(prev => ({ ...prev, [questionId]: choiceId }));
-    };
-
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (isSubmitting) return;
+    // Refs evitam closures desatualizadas quando o tempo esgota e o envio é automático
+    const answersRef = useRef(answers);
+    answersRef.current = answers;
+    const isSubmittingRef = useRef(false);
 
+    const submitQuiz = useCallback(async () => {
+        if (!questions || isSubmittingRef.current) return;
+        isSubmittingRef.current = true;
         setIsSubmitting(true);
-        let currentScore = 0;
-        questions.forEach(q => {
-            if (answers[q.id] === q.correctAnswerId) {
-                currentScore++;
-            }
-        });
+
+        const currentScore = scoreQuiz(questions, answersRef.current);
         
-        const xp = await onQuizComplete(quizId, quizTitle, currentScore, questions.length);
+        const xp = await onQuizComplete(quizId, quizTitle, currentScore, questions.length, answersRef.current);
         
         setXpAwarded(xp);
         setScore(currentScore);
         setSubmitted(true);
         // No need to set isSubmitting back to false, as the view changes.
+    }, [questions, onQuizComplete, quizId, quizTitle]);
+
+    // Cronômetro: envia automaticamente as respostas dadas até o fim do tempo.
+    // O início vem do servidor, então recarregar a página não reinicia o relógio (o prazo é validado em rules.txt).
+    useEffect(() => {
+        if (!timeLimitSeconds || submitted || isBlocked) return;
+
+        let cancelled = false;
+        let interval: ReturnType<typeof setInterval> | undefined;
+
+        const startTimer = async () => {
+            const startedAt = onQuizStart && quizId ? await onQuizStart(quizId) : Date.now();
+            if (cancelled) return;
+            if (startedAt === null) {
+                setStartError(true);
+                return;
+            }
+
+            const tick = () => {
+                const remaining = Math.ceil(timeLimitSeconds - (Date.now() - startedAt) / 1000);
+                setSecondsLeft(Math.max(0, remaining));
+                if (remaining <= 0) {
+                    clearInterval(interval);
+                    setTimedOut(true);
+                    submitQuiz();
+                }
+                return remaining > 0;
+            };
+            if (tick()) interval = setInterval(tick, 1000);
+        };
+        startTimer();
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [timeLimitSeconds, submitted, isBlocked, quizId, onQuizStart, submitQuiz]);
+
+    if (!questions) {
+        return <p>Questões não encontradas.</p>;
+    }
+
+    if (isBlocked && !submitted) {
+        return (
+            <div className="text-center py-8">
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 mb-2 hc-text-primary">Tentativas esgotadas</h2>
+                <p className="text-slate-600 dark:text-slate-300 hc-text-secondary">
+                    Você já utilizou as {settings.maxAttempts} tentativa(s) permitidas para este quiz.
+                </p>
+                {typeof quiz?.finalScore === 'number' && (
+                    <p className="mt-2 font-semibold text-indigo-600 dark:text-indigo-400">Nota registrada: {quiz.finalScore} de {questions.length}</p>
+                )}
+            </div>
+        );
+    }
+
+    if (startError && !submitted) {
+        return (
+            <div className="text-center py-8">
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 mb-2 hc-text-primary">Não foi possível iniciar o quiz</h2>
+                <p className="text-slate-600 dark:text-slate-300 hc-text-secondary">
+                    Este quiz tem tempo limite e precisa de conexão para começar. Verifique sua internet e tente novamente.
+                </p>
+            </div>
+        );
+    }
+
+    const handleAnswerChange = (questionId: number, answer: QuizAnswer) => {
+        setAnswers(prev => ({ ...prev, [questionId]: answer }));
+    };
+
+    const allAnswered = questions.every(q => isQuestionAnswered(q, answers[q.id]));
+    const remainingAttempts = getRemainingAttempts(settings, attemptsDone);
+    const revealAnswers = shouldRevealAnswers(settings);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await submitQuiz();
     };
 
     if (submitted) {
@@ -110,60 +335,88 @@ export const QuizView: React.FC<QuizViewProps> = ({ quiz, questions: questionsFr
                     Você acertou <span className="font-bold text-green-600 dark:text-green-400">{score}</span> de <span className="font-bold">{questions.length}</span> perguntas.
                 </p>
                 {attempts && <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Este quiz foi feito {attempts} vez(es).</p>}
+                {timedOut && <p className="text-sm font-semibold text-amber-600 dark:text-amber-400 mb-2">O tempo acabou e suas respostas foram enviadas automaticamente.</p>}
                 <p className="font-semibold text-indigo-600 dark:text-indigo-400 hc-link-override">{xpMessage}</p>
-                <div className="text-left mt-6 space-y-4">
+                {!revealAnswers && (
+                    <p className="mt-4 text-sm text-slate-500 dark:text-slate-400 hc-text-secondary">
+                        {settings.revealAnswers === 'after_due_date' && settings.dueDate
+                            ? `O gabarito será liberado após ${new Date(`${settings.dueDate}T12:00:00`).toLocaleDateString('pt-BR')}.`
+                            : 'O professor optou por não exibir o gabarito deste quiz.'}
+                    </p>
+                )}
+                {revealAnswers && <div className="text-left mt-6 space-y-4">
                     {questions.map((q, index) => (
                         <div key={q.id} className="p-4 rounded-lg bg-slate-50 border dark:bg-slate-700/50 dark:border-slate-700 hc-bg-override hc-border-override">
                             <p className="font-semibold hc-text-primary">{index + 1}. {q.question}</p>
                             {q.mediaUrl && <QuestionMedia url={q.mediaUrl} />}
-                            <div className="mt-2 space-y-1 text-sm">
-                                {q.choices.map(choice => {
-                                    const isCorrect = choice.id === q.correctAnswerId;
-                                    const isSelected = choice.id === answers[q.id];
-                                    let color = 'text-slate-700 dark:text-slate-300 hc-text-secondary';
-                                    if(isCorrect) color = 'text-green-600 dark:text-green-400 font-bold';
-                                    else if(isSelected && !isCorrect) color = 'text-red-600 dark:text-red-400';
-
-                                    return <p key={choice.id} className={color}>{choice.text} {isCorrect && '✓'}</p>
-                                })}
-                            </div>
+                            {['single', 'true_false'].includes(getQuestionType(q)) ? (
+                                <div className="mt-2 space-y-1 text-sm">
+                                    {q.choices.map(choice => {
+                                        const isCorrect = choice.id === q.correctAnswerId;
+                                        const isSelected = choice.id === answers[q.id];
+                                        let color = 'text-slate-700 dark:text-slate-300 hc-text-secondary';
+                                        if(isCorrect) color = 'text-green-600 dark:text-green-400 font-bold';
+                                        else if(isSelected && !isCorrect) color = 'text-red-600 dark:text-red-400';
+
+                                        return <p key={choice.id} className={color}>{choice.text} {isCorrect && '✓'}</p>
+                                    })}
+                                </div>
+                            ) : (
+                                <div className="mt-2 space-y-1 text-sm">
+                                    <p className={isAnswerCorrect(q, answers[q.id]) ? 'text-green-600 dark:text-green-400 font-bold' : 'text-red-600 dark:text-red-400'}>
+                                        Sua resposta: {describeGivenAnswer(q, answers[q.id])} {isAnswerCorrect(q, answers[q.id]) ? '✓' : '✗'}
+                                    </p>
+                                    {!isAnswerCorrect(q, answers[q.id]) && (
+                                        <p className="text-green-600 dark:text-green-400">Resposta correta: {describeCorrectAnswer(q)}</p>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
-                </div>
+                </div>}
             </div>
         );
     }
 
     return (
         <div>
-            <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 mb-4 hc-text-primary">Teste seu conhecimento</h2>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 hc-text-primary">Teste seu conhecimento</h2>
+                <div className="flex items-center gap-2 text-sm">
+                    {remainingAttempts !== null && (
+                        <span className="px-2 py-1 rounded-full bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                            {remainingAttempts} tentativa(s) restante(s)
+                        </span>
+                    )}
+                    {secondsLeft !== null && (
+                        <span
+                            className={`px-3 py-1 rounded-full font-mono font-bold ${secondsLeft <= 60 ? 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300' : 'bg-indigo-100 text-indigo-700 dark:bg-indigo-500/20 dark:text-indigo-300'}`}
+                            role="timer"
+                            aria-label={`Tempo restante: ${formatCountdown(secondsLeft)}`}
+                        >
+                            ⏱ {formatCountdown(secondsLeft)}
+                        </span>
+                    )}
+                </div>
+            </div>
             <form onSubmit={handleSubmit}>
                 <div className="space-y-6">
                     {questions.map((q, index) => (
                         <fieldset key={q.id}>
                              {q.mediaUrl && <QuestionMedia url={q.mediaUrl} />}
                             <legend className="font-semibold text-slate-700 dark:text-slate-200 hc-text-primary">{index + 1}. {q.question}</legend>
-                            <div className="mt-2 space-y-2">
-                                {q.choices.map(choice => (
-                                    <label key={choice.id} className="flex items-center p-3 rounded-lg border border-slate-200 has-[:checked]:bg-indigo-50 has-[:checked]:border-indigo-400 cursor-pointer dark:border-slate-700 dark:has-[:checked]:bg-indigo-500/20 dark:has-[:checked]:border-indigo-500">
-                                        <input
-                                            type="radio"
-                                            name={`question-${q.id}`}
-                                            value={choice.id}
-                                            checked={answers[q.id] === choice.id}
-                                            onChange={() => handleAnswerChange(q.id, choice.id)}
-                                            className="h-4 w-4 text-indigo-600 border-gray-300 focus-visible:ring-indigo-500"
-                                        />
-                                        <span className="ml-3 text-sm text-slate-600 dark:text-slate-300 hc-text-secondary">{choice.text}</span>
-                                    </label>
-                                ))}
-                            </div>
+                            <QuestionInput
+                                question={q}
+                                answer={answers[q.id]}
+                                matchingOptions={matchingOptions[q.id] || []}
+                                onChange={answer => handleAnswerChange(q.id, answer)}
+                            />
                         </fieldset>
                     ))}
                 </div>
                 <button
                     type="submit"
-                    disabled={Object.keys(answers).length !== questions.length || isSubmitting}
+                    disabled={!allAnswered || isSubmitting}
                     className="mt-8 w-full bg-green-200 text-green-900 font-semibold py-3 px-4 rounded-lg hover:bg-green-300 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:cursor-not-allowed flex justify-center items-center dark:bg-green-500/30 dark:text-green-200 dark:hover:bg-green-500/40 dark:disabled:bg-slate-700 dark:disabled:text-slate-400 hc-button-primary-override"
                 >
                     {isSubmitting ? (
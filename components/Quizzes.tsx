@@ -5,9 +5,13 @@ import { useStudentData } from '../contexts/StudentDataContext';
 import type { Quiz } from '../types';
 import { QuizView } from './QuizView';
 import { useAuth } from '../contexts/AuthContext';
+import { getQuizSettings, getRemainingAttempts } from '../utils/quizPolicy';
 
 const QuizCard: React.FC<{ quiz: Quiz, onStart: () => void }> = ({ quiz, onStart }) => {
     const attempts = quiz.attempts || 0;
+    const settings = getQuizSettings(quiz);
+    const remainingAttempts = getRemainingAttempts(settings, attempts);
+    const isExhausted = remainingAttempts === 0;
     const statusText = attempts > 0 ? `Feito ${attempts}x` : 'Não iniciado';
     const statusColor = attempts > 0 ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300';
     
@@ -38,12 +42,17 @@ const QuizCard: React.FC<{ quiz: Quiz, onStart: () => void }> = ({ quiz, onStart
                     {displayMateria && <span className={`px-2 py-1 rounded ${materiaColor} truncate max-w-[150px]`}>{displayMateria}</span>}
                 </div>
                 <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 flex-grow hc-text-secondary">{quiz.description}</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-slate-500 dark:text-slate-400">
+                    {settings.timeLimitMinutes > 0 && <span>⏱ {settings.timeLimitMinutes} min</span>}
+                    {remainingAttempts !== null && <span>{remainingAttempts} de {settings.maxAttempts} tentativa(s) restante(s)</span>}
+                    {attempts > 0 && typeof quiz.finalScore === 'number' && <span>Nota: {quiz.finalScore}/{quiz.questions.length}</span>}
+                </div>
             </div>
             <button
                 onClick={onStart}
                 className="mt-6 w-full font-semibold py-2.5 px-4 rounded-lg transition-colors bg-indigo-200 text-indigo-900 hover:bg-indigo-300 dark:bg-indigo-500/30 dark:text-indigo-200 dark:hover:bg-indigo-500/40 hc-button-primary-override"
             >
-                {attempts > 0 ? 'Tentar Novamente' : 'Iniciar Quiz'}
+                {isExhausted ? 'Ver Resultado' : attempts > 0 ? 'Tentar Novamente' : 'Iniciar Quiz'}
             </button>
         </Card>
     );
@@ -51,7 +60,7 @@ const QuizCard: React.FC<{ quiz: Quiz, onStart: () => void }> = ({ quiz, onStart
 
 const Quizzes: React.FC = () => {
     const { user } = useAuth();
-    const { quizzes, handleQuizComplete } = useStudentData();
+    const { quizzes, handleQuizStart, handleQuizComplete } = useStudentData();
     const [selectedQuizId, setSelectedQuizId] = useState<string | null>(null);
 
     const [selectedSerie, setSelectedSerie] = useState(user?.series || 'all');
@@ -118,7 +127,7 @@ const Quizzes: React.FC = () => {
                     &larr; Voltar para a lista de Quizzes
                 </button>
                 <Card>
-                    <QuizView quiz={currentQuizData} onQuizComplete={handleQuizComplete} />
+                    <QuizView quiz={currentQuizData} onQuizStart={handleQuizStart} onQuizComplete={handleQuizComplete} />
                 </Card>
             </div>
         );
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { collection, query, where } from 'firebase/firestore';
+import { db } from './firebaseClient';
+import type { Rubric, RubricCriterion, RubricLevel } from '../types';
+import { SpinnerIcon } from '../constants/index';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { createCriterion, createLevel, getRubricMaxPoints, RUBRICS_COLLECTION, saveRubricTemplate, validateRubric } from '../utils/rubric';
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-md dark:bg-slate-700 dark:border-slate-600 dark:text-white";
+const formatPoints = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+// --- EDITOR (criação da atividade) ---
+
+interface RubricEditorProps {
+    rubric: Rubric;
+    onChange: (rubric: Rubric) => void;
+    activityPoints: number;
+}
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onChange, activityPoints }) => {
+    const { user } = useAuth();
+    const { addToast } = useToast();
+    const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+    const templatesCacheKey = `teacher_rubrics_${user?.id}`;
+    const { data: templates, invalidate } = useCachedQuery(
+        templatesCacheKey,
+        () => user ? query(collection(db, RUBRICS_COLLECTION), where('creatorId', '==', user.id)) : null,
+        [user?.id]
+    );
+
+    const maxPoints = getRubricMaxPoints(rubric);
+
+    const updateCriterion = (criterionId: string, patch: Partial<RubricCriterion>) =>
+        onChange({ ...rubric, criteria: rubric.criteria.map(c => c.id === criterionId ? { ...c, ...patch } : c) });
+
+    const updateLevel = (criterion: RubricCriterion, levelId: string, patch: Partial<RubricLevel>) =>
+        updateCriterion(criterion.id, { levels: criterion.levels.map(l => l.id === levelId ? { ...l, ...patch } : l) });
+
+    const handleLoadTemplate = (templateId: string) => {
+        const template = (templates || []).find(t => t.id === templateId) as Rubric | undefined;
+        if (template) onChange(JSON.parse(JSON.stringify({ id: template.id, title: template.title, criteria: template.criteria })));
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!user || isSavingTemplate) return;
+        const error = validateRubric(rubric);
+        if (error) {
+            addToast(error, 'error');
+            return;
+        }
+        setIsSavingTemplate(true);
+        try {
+            const id = await saveRubricTemplate(rubric, { id: user.id, name: user.name });
+            onChange({ ...rubric, id });
+            invalidate();
+            addToast('Rubrica salva nos seus modelos.', 'success');
+        } catch (err) {
+            console.error('Erro ao salvar rubrica:', err);
+            addToast('Erro ao salvar a rubrica.', 'error');
+        } finally {
+            setIsSavingTemplate(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Nome da rubrica</label>
+                    <input type="text" value={rubric.title} onChange={e => onChange({ ...rubric, title: e.target.value })} placeholder="Ex: Redação dissertativa" className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Usar um modelo salvo</label>
+                    <select value="" onChange={e => handleLoadTemplate(e.target.value)} className={inputClass} disabled={!templates || templates.length === 0}>
+                        <option value="">{templates && templates.length > 0 ? 'Selecione...' : 'Nenhum modelo salvo'}</option>
+                        {(templates || []).map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {rubric.criteria.map((criterion, index) => (
+                <div key={criterion.id} className="p-4 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700/50 space-y-3">
+                    <div className="flex items-start gap-2">
+                        <div className="flex-grow space-y-2">
+                            <input type="text" value={criterion.title} onChange={e => updateCriterion(criterion.id, { title: e.target.value })} placeholder={`Critério ${index + 1} (ex: Argumentação)`} className={`${inputClass} font-semibold`} />
+                            <input type="text" value={criterion.description || ''} onChange={e => updateCriterion(criterion.id, { description: e.target.value })} placeholder="Descrição do critério (opcional)" className={`${inputClass} text-sm`} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => onChange({ ...rubric, criteria: rubric.criteria.filter(c => c.id !== criterion.id) })}
+                            disabled={rubric.criteria.length === 1}
+                            className="text-sm font-semibold text-red-500 hover:text-red-700 disabled:opacity-40 px-2 py-2"
+                            aria-label={`Remover critério ${index + 1}`}
+                        >
+                            Remover
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+                        {criterion.levels.map(level => (
+                            <div key={level.id} className="p-2 rounded-md bg-white dark:bg-slate-800 border dark:border-slate-600 space-y-1">
+                                <div className="flex gap-1">
+                                    <input type="text" value={level.label} onChange={e => updateLevel(criterion, level.id, { label: e.target.value })} placeholder="Nível" className={`${inputClass} text-sm`} />
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="any"
+                                        value={level.points}
+                                        onChange={e => updateLevel(criterion, level.id, { points: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                        className={`${inputClass} text-sm w-20`}
+                                        aria-label={`Pontos do nível ${level.label}`}
+                                    />
+                                </div>
+                                <textarea value={level.description || ''} onChange={e => updateLevel(criterion, level.id, { description: e.target.value })} rows={2} placeholder="Descrição do desempenho" className={`${inputClass} text-xs`} />
+                                <button
+                                    type="button"
+                                    onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter(l => l.id !== level.id) })}
+                                    disabled={criterion.levels.length <= 2}
+                                    className="text-xs text-red-500 hover:underline disabled:opacity-40"
+                                >
+                                    Remover nível
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button type="button" onClick={() => updateCriterion(criterion.id, { levels: [...criterion.levels, createLevel()] })} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400">
+                        + Adicionar nível
+                    </button>
+                </div>
+            ))}
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="flex gap-4">
+                    <button type="button" onClick={() => onChange({ ...rubric, criteria: [...rubric.criteria, createCriterion()] })} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400">
+                        + Adicionar critério
+                    </button>
+                    <button type="button" onClick={handleSaveTemplate} disabled={isSavingTemplate} className="text-sm font-semibold text-slate-600 hover:underline dark:text-slate-300 flex items-center disabled:opacity-50">
+                        {isSavingTemplate && <SpinnerIcon className="h-4 w-4 mr-1" />}
+                        Salvar como modelo
+                    </button>
+                </div>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Total da rubrica: <span className="font-bold">{formatPoints(maxPoints)}</span>
+                    {maxPoints > 0 && maxPoints !== activityPoints && ` (convertido para ${formatPoints(activityPoints)} pontos da atividade)`}
+                </p>
+            </div>
+        </div>
+    );
+};
+
+// --- GRADE (correção e visualização) ---
+
+interface RubricGridProps {
+    rubric: Rubric;
+    scores: Record<string, string>;
+    onChange?: (scores: Record<string, string>) => void; // Ausente = somente leitura
+}
+
+/**
+ * Critérios × níveis. Com onChange o professor escolhe um nível por critério;
+ * sem onChange exibe a rubrica preenchida para o aluno.
+ */
+export const RubricGrid: React.FC<RubricGridProps> = ({ rubric, scores, onChange }) => (
+    <div className="space-y-3">
+        {rubric.criteria.map(criterion => (
+            <fieldset key={criterion.id}>
+                <legend className="text-sm font-semibold text-slate-800 dark:text-slate-200">{criterion.title}</legend>
+                {criterion.description && <p className="text-xs text-slate-500 dark:text-slate-400">{criterion.description}</p>}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-1">
+                    {criterion.levels.map(level => {
+                        const isSelected = scores[criterion.id] === level.id;
+                        const classes = `text-left p-2 rounded-md border text-xs transition-colors ${isSelected
+                            ? 'bg-indigo-100 border-indigo-500 text-indigo-900 dark:bg-indigo-500/30 dark:text-indigo-100'
+                            : 'bg-white border-slate-200 text-slate-600 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-300'}`;
+                        const body = (
+                            <>
+                                <span className="flex justify-between font-semibold">
+                                    <span>{level.label}</span>
+                                    <span>{formatPoints(level.points)} pt</span>
+                                </span>
+                                {level.description && <span className="block mt-1">{level.description}</span>}
+                            </>
+                        );
+                        return onChange ? (
+                            <button
+                                key={level.id}
+                                type="button"
+                                onClick={() => onChange({ ...scores, [criterion.id]: level.id })}
+                                className={`${classes} hover:border-indigo-400`}
+                                aria-pressed={isSelected}
+                            >
+                                {body}
+                            </button>
+                        ) : (
+                            <div key={level.id} className={`${classes} ${isSelected ? '' : 'opacity-60'}`}>{body}</div>
+                        );
+                    })}
+                </div>
+            </fieldset>
+        ))}
+    </div>
+);
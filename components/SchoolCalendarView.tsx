@@ -0,0 +1,155 @@
+import React, { useContext, useMemo, useState } from 'react';
+import { Card } from './common/Card';
+import { SpinnerIcon } from '../constants/index';
+import { useAuth } from '../contexts/AuthContext';
+import { StudentDataContext } from '../contexts/StudentDataContext';
+import { TeacherDataContext } from '../contexts/TeacherDataContext';
+import type { Unidade } from '../types';
+import { useSchoolCalendar } from '../hooks/useSchoolCalendar';
+import { UNIDADES } from '../utils/gradeComposition';
+import { getEffectiveDueDate } from '../utils/latePolicy';
+import { buildMonthWeeks, formatShortDate, getNonSchoolDay, getUnidadeForDate, isUnidadeClosed, shiftMonth, toDateKey } from '../utils/schoolCalendar';
+import { formatMonthLabel } from '../utils/attendanceStats';
+
+const WEEKDAY_HEADERS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const UNIDADE_COLORS: Record<Unidade, { cell: string; badge: string }> = {
+    '1ª Unidade': { cell: 'bg-sky-50 dark:bg-sky-900/10', badge: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300' },
+    '2ª Unidade': { cell: 'bg-emerald-50 dark:bg-emerald-900/10', badge: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300' },
+    '3ª Unidade': { cell: 'bg-violet-50 dark:bg-violet-900/10', badge: 'bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-300' },
+    '4ª Unidade': { cell: 'bg-rose-50 dark:bg-rose-900/10', badge: 'bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-300' },
+};
+
+interface CalendarEvent {
+    id: string;
+    date: string;
+    title: string;
+    subtitle?: string;
+}
+
+const MAX_EVENTS_PER_DAY = 2;
+
+// Calendário escolar (unidades, feriados, recessos) com os prazos das atividades do aluno ou do professor
+const SchoolCalendarView: React.FC = () => {
+    const { user, userRole } = useAuth();
+    const studentData = useContext(StudentDataContext);
+    const teacherData = useContext(TeacherDataContext);
+    const today = toDateKey(new Date());
+    const [month, setMonth] = useState(today.slice(0, 7));
+    const { calendar, loading } = useSchoolCalendar(Number(month.slice(0, 4)));
+
+    const events = useMemo<CalendarEvent[]>(() => {
+        if (userRole === 'professor') {
+            return (teacherData?.teacherClasses || []).flatMap(cls => (cls.activities || [])
+                .filter(a => a.dueDate)
+                .map(a => ({ id: a.id, date: a.dueDate!.slice(0, 10), title: a.title, subtitle: cls.name })));
+        }
+        return (studentData?.activities || []).flatMap(a => {
+            const dueDate = user ? getEffectiveDueDate(a, user.id) : a.dueDate;
+            return dueDate ? [{ id: a.id, date: dueDate.slice(0, 10), title: a.title, subtitle: a.className }] : [];
+        });
+    }, [userRole, teacherData?.teacherClasses, studentData?.activities, user]);
+
+    const eventsByDate = useMemo(() => {
+        const grouped: Record<string, CalendarEvent[]> = {};
+        events.forEach(e => { (grouped[e.date] = grouped[e.date] || []).push(e); });
+        return grouped;
+    }, [events]);
+
+    const weeks = useMemo(() => buildMonthWeeks(month), [month]);
+    const monthEvents = useMemo(() => events.filter(e => e.date.startsWith(month)).sort((a, b) => a.date.localeCompare(b.date)), [events, month]);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">Calendário Escolar</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">Unidades, feriados, recessos e prazos de entrega.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setMonth(m => shiftMonth(m, -1))} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Mês anterior">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-600 dark:text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+                    </button>
+                    <span className="w-40 text-center font-semibold text-slate-800 dark:text-slate-100 capitalize">{formatMonthLabel(month)}</span>
+                    <button onClick={() => setMonth(m => shiftMonth(m, 1))} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Próximo mês">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-600 dark:text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+                    </button>
+                    {month !== today.slice(0, 7) && (
+                        <button onClick={() => setMonth(today.slice(0, 7))} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400">Hoje</button>
+                    )}
+                </div>
+            </div>
+
+            {calendar && calendar.unidades.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {UNIDADES.map(unidade => {
+                        const period = calendar.unidades.find(p => p.unidade === unidade);
+                        if (!period) return null;
+                        const status = isUnidadeClosed(calendar, unidade, today) ? 'fechada' : today >= period.start ? 'em andamento' : 'a iniciar';
+                        return (
+                            <span key={unidade} className={`text-xs font-semibold px-3 py-1 rounded-full ${UNIDADE_COLORS[unidade].badge}`}>
+                                {unidade}: {formatShortDate(period.start)} a {formatShortDate(period.end)} · {status}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+
+            <Card className="!p-0 overflow-hidden">
+                {loading ? (
+                    <div className="text-center py-10"><SpinnerIcon className="h-8 w-8 text-indigo-500 mx-auto" /></div>
+                ) : (
+                    <table className="w-full table-fixed text-xs">
+                        <thead className="bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300">
+                            <tr>{WEEKDAY_HEADERS.map(d => <th key={d} className="p-2 font-semibold">{d}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {weeks.map((week, i) => (
+                                <tr key={i}>
+                                    {week.map((dateKey, j) => {
+                                        if (!dateKey) return <td key={j} className="h-24 border border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/30" />;
+                                        const unidade = getUnidadeForDate(calendar, dateKey);
+                                        const offDay = getNonSchoolDay(calendar, dateKey);
+                                        const dayEvents = eventsByDate[dateKey] || [];
+                                        return (
+                                            <td key={j} className={`h-24 align-top p-1.5 border border-slate-100 dark:border-slate-700 ${unidade ? UNIDADE_COLORS[unidade].cell : ''}`}>
+                                                <div className={`font-semibold mb-1 ${dateKey === today ? 'inline-flex items-center justify-center h-6 w-6 rounded-full bg-indigo-600 text-white' : 'text-slate-700 dark:text-slate-200'}`}>
+                                                    {Number(dateKey.slice(8, 10))}
+                                                </div>
+                                                {offDay && <p className="text-amber-700 dark:text-amber-300 font-medium truncate" title={offDay.name}>{offDay.name}</p>}
+                                                {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map(e => (
+                                                    <p key={e.id} className="truncate text-indigo-700 dark:text-indigo-300" title={`${e.title}${e.subtitle ? ` · ${e.subtitle}` : ''}`}>• {e.title}</p>
+                                                ))}
+                                                {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                                                    <p className="text-slate-500 dark:text-slate-400">+{dayEvents.length - MAX_EVENTS_PER_DAY} prazo(s)</p>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </Card>
+
+            <Card>
+                <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 mb-3">Prazos do mês</h2>
+                {monthEvents.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Nenhum prazo de entrega neste mês.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {monthEvents.map(e => (
+                            <li key={e.id} className="flex items-center justify-between py-2 text-sm">
+                                <span className="text-slate-800 dark:text-slate-200">{e.title}{e.subtitle && <span className="text-slate-500 dark:text-slate-400"> · {e.subtitle}</span>}</span>
+                                <span className="text-slate-500 dark:text-slate-400">{formatShortDate(e.date)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+export default SchoolCalendarView;
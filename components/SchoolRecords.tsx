@@ -1,17 +1,22 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useTeacherData } from '../contexts/TeacherDataContext';
+import { useToast } from '../contexts/ToastContext';
 import { Card } from './common/Card';
-import { ICONS } from '../constants/index';
-import type { TeacherClass, Activity, Unidade, ActivitySubmission } from '../types';
+import { ICONS, SpinnerIcon } from '../constants/index';
+import type { Unidade, SubjectGradeReport, FinalGradeStatus } from '../types';
+import { buildSubjectReports, formatAverage } from '../utils/gradeComposition';
+import { useClosedUnidadeCheck } from '../hooks/useSchoolCalendar';
+import { RECOVERY_RULE_LABELS } from '../utils/recovery';
+import { computeAttendanceTotals, fetchClassAttendanceRecords, StudentAttendanceTotals } from '../utils/attendanceStats';
+import {
+    buildClassSheetCsv, buildClassSheetHtml, buildStudentReportCsv, buildStudentReportHtml,
+    downloadTextFile, printHtmlDocument, slugifyFilename
+} from '../utils/reportExport';
 
-// Estrutura do relatório agrupado
-type GroupedReport = {
-    [key in Unidade]?: {
-        activities: (Activity & { submission: ActivitySubmission })[];
-        totalPoints: number;
-    };
-};
+type ExportKind = 'student_pdf' | 'student_csv' | 'class_pdf' | 'class_csv' | 'all_students_pdf';
+
+const exportButtonClass = "px-3 py-2 text-sm font-semibold rounded-lg bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-50 dark:bg-slate-700 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-600 hc-button-override";
 
 // Helper para ordenar unidades
 const getUnitOrder = (unit: string): number => {
@@ -24,14 +29,22 @@ const getUnitOrder = (unit: string): number => {
     return map[unit] || 99;
 };
 
+const STATUS_COLORS: Record<FinalGradeStatus, string> = {
+    'Aprovado': 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    'Recuperação': 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    'Em andamento': 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+};
+
 const SchoolRecords: React.FC = () => {
-    const { teacherClasses } = useTeacherData();
+    const { teacherClasses, fetchClassDetails } = useTeacherData();
+    const { addToast } = useToast();
 
     // State for filters
     const [selectedClassId, setSelectedClassId] = useState('');
     const [selectedMateria, setSelectedMateria] = useState('all');
     const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
     const [expandedUnidade, setExpandedUnidade] = useState<string | null>(null);
+    const [exporting, setExporting] = useState<ExportKind | null>(null);
 
     // Seleciona automaticamente a primeira turma se disponível
     useEffect(() => {
@@ -40,8 +53,16 @@ const SchoolRecords: React.FC = () => {
         }
     }, [teacherClasses, selectedClassId]);
 
+    // O histórico precisa de todas as atividades da turma, não só as pendentes carregadas no início
+    useEffect(() => {
+        if (selectedClassId) fetchClassDetails(selectedClassId);
+    }, [selectedClassId, fetchClassDetails]);
+
     // Dados derivados da turma selecionada
     const selectedClass = useMemo(() => teacherClasses.find(c => c.id === selectedClassId), [teacherClasses, selectedClassId]);
+    // Unidade fechada: atividades sem entrega contam como zero
+    const isReportUnidadeClosed = useClosedUnidadeCheck(selectedClass?.activities || []);
+    const reportOptions = useMemo(() => ({ isUnidadeClosed: isReportUnidadeClosed }), [isReportUnidadeClosed]);
     
     // Lista de alunos, ordenada alfabeticamente
     const studentsInClass = useMemo(() => {
@@ -65,61 +86,86 @@ const SchoolRecords: React.FC = () => {
         setExpandedUnidade(null);
     }, [selectedClassId]);
 
-    // GERAÇÃO DO RELATÓRIO (Lógica Principal)
-    const reportData = useMemo((): GroupedReport | null => {
-        if (!selectedStudent || !selectedClass) return null;
+    // GERAÇÃO DO RELATÓRIO (Lógica Principal): médias ponderadas por matéria conforme o esquema da turma
+    const subjectReports = useMemo((): SubjectGradeReport[] => {
+        if (!selectedStudent || !selectedClass) return [];
 
-        const grouped: GroupedReport = {};
-        const activities = selectedClass.activities || [];
-        
-        for (const activity of activities) {
-            // Filtro de Matéria
-            if (selectedMateria !== 'all' && activity.materia !== selectedMateria) {
-                continue;
-            }
-
-            // Busca a submissão do aluno nesta atividade
-            // A estrutura do Firestore agora garante que submissions é um array dentro da atividade
-            const submission = activity.submissions?.find(s => 
-                s.studentId === selectedStudent.id && s.status === 'Corrigido'
-            );
-
-            // Se houver submissão corrigida e unidade definida
-            if (submission && activity.unidade && typeof submission.grade === 'number') {
-                const unidadeKey = activity.unidade as Unidade;
-                
-                if (!grouped[unidadeKey]) {
-                    grouped[unidadeKey] = { activities: [], totalPoints: 0 };
-                }
-                
-                grouped[unidadeKey]!.activities.push({ ...activity, submission });
-                grouped[unidadeKey]!.totalPoints += submission.grade;
-            }
-        }
+        const activities = (selectedClass.activities || []).filter(activity =>
+            selectedMateria === 'all' || activity.materia === selectedMateria
+        );
+        const subjects = Object.values<SubjectGradeReport>(buildSubjectReports(selectedClass, activities, selectedStudent.id, reportOptions));
 
         // Ordenação das atividades dentro de cada unidade (Data da correção mais recente primeiro)
-        Object.keys(grouped).forEach((key) => {
-            const uKey = key as Unidade;
-            grouped[uKey]!.activities.sort((a, b) => {
-                const dateA = a.submission.gradedAt ? new Date(a.submission.gradedAt).getTime() : 0;
-                const dateB = b.submission.gradedAt ? new Date(b.submission.gradedAt).getTime() : 0;
-                return dateB - dateA;
+        subjects.forEach(subject => {
+            Object.values(subject.unidades).forEach(unit => {
+                unit?.activities.sort((a, b) => {
+                    const dateA = a.gradedAt ? new Date(a.gradedAt).getTime() : 0;
+                    const dateB = b.gradedAt ? new Date(b.gradedAt).getTime() : 0;
+                    return dateB - dateA;
+                });
             });
         });
 
-        return grouped;
-    }, [selectedStudent, selectedClass, selectedMateria]);
-
-    // Ordenação das chaves das unidades para exibição
-    const sortedUnits = useMemo(() => {
-        if (!reportData) return [];
-        return (Object.keys(reportData) as Unidade[]).sort((a, b) => getUnitOrder(a) - getUnitOrder(b));
-    }, [reportData]);
+        return subjects.sort((a, b) => a.materia.localeCompare(b.materia));
+    }, [selectedStudent, selectedClass, selectedMateria, reportOptions]);
 
     const toggleUnidade = (unidade: string) => {
         setExpandedUnidade(prev => (prev === unidade ? null : unidade));
     };
 
+    // EXPORTAÇÃO: boletins e mapa de notas (respeita o filtro de matéria), com totais de frequência
+    const handleExport = async (kind: ExportKind) => {
+        if (!selectedClass || exporting) return;
+        setExporting(kind);
+        try {
+            let attendance: Record<string, StudentAttendanceTotals> = {};
+            try {
+                attendance = computeAttendanceTotals((await fetchClassAttendanceRecords(selectedClass.id)).records);
+            } catch (error) {
+                console.error("Error fetching attendance for export:", error);
+                addToast("Não foi possível carregar a frequência; o documento sairá sem ela.", "info");
+            }
+
+            const activities = (selectedClass.activities || []).filter(a => selectedMateria === 'all' || a.materia === selectedMateria);
+            const suffix = selectedMateria === 'all' ? '' : `_${slugifyFilename(selectedMateria)}`;
+            const studentReport = (student: { id: string; name: string }) => ({
+                student,
+                className: selectedClass.name,
+                subjects: buildSubjectReports(selectedClass, activities, student.id, reportOptions),
+                attendance: attendance[student.id],
+            });
+
+            switch (kind) {
+                case 'student_pdf':
+                    if (selectedStudent) printHtmlDocument(`Boletim - ${selectedStudent.name}`, buildStudentReportHtml(studentReport(selectedStudent)));
+                    break;
+                case 'student_csv':
+                    if (selectedStudent) downloadTextFile(`boletim_${slugifyFilename(selectedStudent.name)}${suffix}.csv`, buildStudentReportCsv(studentReport(selectedStudent)));
+                    break;
+                case 'all_students_pdf':
+                    printHtmlDocument(`Boletins - ${selectedClass.name}`, studentsInClass.map(s => buildStudentReportHtml(studentReport(s))).join(''));
+                    break;
+                case 'class_pdf':
+                    printHtmlDocument(`Mapa de Notas - ${selectedClass.name}`, buildClassSheetHtml(selectedClass, activities, attendance, reportOptions), true);
+                    break;
+                case 'class_csv':
+                    downloadTextFile(`mapa_de_notas_${slugifyFilename(selectedClass.name)}${suffix}.csv`, buildClassSheetCsv(selectedClass, activities, attendance, reportOptions));
+                    break;
+            }
+        } catch (error) {
+            console.error("Error exporting report:", error);
+            addToast("Erro ao gerar o documento.", "error");
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const renderExportButton = (kind: ExportKind, label: string, disabled = false) => (
+        <button onClick={() => handleExport(kind)} disabled={disabled || !!exporting} className={exportButtonClass}>
+            {exporting === kind ? <SpinnerIcon className="h-4 w-4 text-indigo-500" /> : label}
+        </button>
+    );
+
     return (
         <div className="space-y-6">
             <div>
@@ -158,6 +204,12 @@ const SchoolRecords: React.FC = () => {
                         </select>
                     </div>
                 </div>
+                <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+                    <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mr-1">Exportar turma</span>
+                    {renderExportButton('class_pdf', 'Mapa de notas (PDF)', !selectedClass)}
+                    {renderExportButton('class_csv', 'Mapa de notas (CSV)', !selectedClass)}
+                    {renderExportButton('all_students_pdf', 'Boletins de todos (PDF)', studentsInClass.length === 0)}
+                </div>
             </Card>
 
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
@@ -199,26 +251,43 @@ const SchoolRecords: React.FC = () => {
                 <div className="lg:col-span-8">
                     {selectedStudent ? (
                         <Card className="!p-0 overflow-hidden min-h-[400px]">
-                             <div className="p-6 bg-white dark:bg-slate-800 border-b dark:border-slate-700">
-                                <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
-                                    {selectedStudent.name}
-                                </h2>
-                                <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
-                                    Relatório de Desempenho - {selectedClass?.name}
-                                </p>
+                             <div className="p-6 bg-white dark:bg-slate-800 border-b dark:border-slate-700 flex flex-wrap items-start justify-between gap-3">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+                                        {selectedStudent.name}
+                                    </h2>
+                                    <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                                        Relatório de Desempenho - {selectedClass?.name}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    {renderExportButton('student_pdf', 'Boletim (PDF)')}
+                                    {renderExportButton('student_csv', 'CSV')}
+                                </div>
                             </div>
 
-                            {reportData && sortedUnits.length > 0 ? (
-                                <div className="p-4 space-y-4 bg-slate-50/50 dark:bg-slate-900/20">
-                                    {sortedUnits.map(unidade => {
-                                        const data = reportData[unidade];
-                                        const isExpanded = expandedUnidade === unidade;
+                            {subjectReports.length > 0 ? (
+                                <div className="p-4 space-y-6 bg-slate-50/50 dark:bg-slate-900/20">
+                                    {subjectReports.map(subject => (
+                                    <section key={subject.materia} className="space-y-3">
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{subject.materia}</h3>
+                                            <div className="flex items-center gap-2 text-sm">
+                                                <span className="text-slate-600 dark:text-slate-300">Média anual: <strong>{formatAverage(subject.finalAverage)}</strong> <span className="text-xs text-slate-400">(mínima {formatAverage(subject.passingAverage)})</span></span>
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_COLORS[subject.status]}`}>{subject.status}</span>
+                                            </div>
+                                        </div>
+                                    {(Object.keys(subject.unidades) as Unidade[]).sort((a, b) => getUnitOrder(a) - getUnitOrder(b)).map(unidade => {
+                                        const data = subject.unidades[unidade];
+                                        const unitKey = `${subject.materia}_${unidade}`;
+                                        const isExpanded = expandedUnidade === unitKey;
+                                        const isBelowPassing = data?.average !== null && data?.average !== undefined && data.average < subject.passingAverage;
                                         
                                         return (
-                                            <div key={unidade} className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-all duration-200">
+                                            <div key={unitKey} className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-all duration-200">
                                                 <div 
                                                     className="flex justify-between items-center p-5 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/30" 
-                                                    onClick={() => toggleUnidade(unidade)}
+                                                    onClick={() => toggleUnidade(unitKey)}
                                                 >
                                                     <div className="flex items-center space-x-4">
                                                         <div className="h-10 w-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-blue-600 dark:text-blue-400 font-bold">
@@ -226,16 +295,35 @@ const SchoolRecords: React.FC = () => {
                                                         </div>
                                                         <div>
                                                             <h3 className="font-bold text-slate-800 dark:text-slate-200">{unidade}</h3>
-                                                            <p className="text-xs text-slate-500 dark:text-slate-400">{data?.activities.length} atividades avaliadas</p>
+                                                            <p className="text-xs text-slate-500 dark:text-slate-400">{data?.activities.length} atividades avaliadas · {data?.totalPoints} pts</p>
+                                                            {data?.recovery && (
+                                                                <p className="text-xs text-amber-700 dark:text-amber-300">Recuperação · média original {formatAverage(data.recovery.originalAverage)}</p>
+                                                            )}
                                                         </div>
                                                     </div>
                                                     <div className="text-right">
-                                                        <p className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">{data?.totalPoints} <span className="text-sm font-normal text-slate-400">pts</span></p>
+                                                        <p className={`text-2xl font-bold ${isBelowPassing ? 'text-red-600 dark:text-red-400' : 'text-indigo-600 dark:text-indigo-400'}`}>{formatAverage(data?.average)} <span className="text-sm font-normal text-slate-400">média</span></p>
                                                     </div>
                                                 </div>
                                                 
                                                 {isExpanded && (
                                                     <div className="border-t border-slate-100 dark:border-slate-700">
+                                                        {data && data.categories.length > 0 && (
+                                                            <div className="flex flex-wrap gap-2 px-4 py-3">
+                                                                {data.categories.map(cat => (
+                                                                    <span key={cat.id} className="text-xs px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                                                                        {cat.name} ({cat.weight}%): <strong>{formatAverage(cat.average)}</strong> · {cat.earned}/{cat.possible} pts
+                                                                    </span>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                        {data?.recovery && (
+                                                            <div className="mx-4 my-3 text-sm p-3 rounded-md bg-amber-50 border border-amber-200 dark:bg-amber-500/10 dark:border-amber-500/30 text-amber-800 dark:text-amber-200">
+                                                                <p className="font-semibold">Recuperação: {data.recovery.title}</p>
+                                                                <p>Nota {data.recovery.grade} de {data.recovery.maxPoints} · {RECOVERY_RULE_LABELS[data.recovery.rule]}</p>
+                                                                <p>Média da unidade: {formatAverage(data.recovery.originalAverage)} → {formatAverage(data.average)}</p>
+                                                            </div>
+                                                        )}
                                                         <div className="bg-slate-50 dark:bg-slate-900/50 px-4 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex justify-between">
                                                             <span>Atividade</span>
                                                             <span>Nota</span>
@@ -246,17 +334,21 @@ const SchoolRecords: React.FC = () => {
                                                                     <div>
                                                                         <p className="font-semibold text-slate-700 dark:text-slate-200 text-sm">{act.title}</p>
                                                                         <div className="flex items-center space-x-2 mt-1">
-                                                                            {act.materia && <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300 font-bold">{act.materia}</span>}
-                                                                            <span className="text-xs text-slate-400">
-                                                                                {act.submission.gradedAt ? new Date(act.submission.gradedAt).toLocaleDateString() : '-'}
-                                                                            </span>
+                                                                            {act.categoryId && <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300 font-bold">{data.categories.find(c => c.id === act.categoryId)?.name || act.categoryId}</span>}
+                                                                            {act.missing ? (
+                                                                                <span className="text-xs font-semibold text-red-600 dark:text-red-400">Não entregue</span>
+                                                                            ) : (
+                                                                                <span className="text-xs text-slate-400">
+                                                                                    {act.gradedAt ? new Date(act.gradedAt).toLocaleDateString() : '-'}
+                                                                                </span>
+                                                                            )}
                                                                         </div>
                                                                     </div>
                                                                     <div className="flex flex-col items-end">
                                                                         <span className="font-bold text-slate-800 dark:text-slate-100 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 px-3 py-1 rounded-lg text-sm">
-                                                                            {act.submission.grade}
+                                                                            {act.grade}
                                                                         </span>
-                                                                        <span className="text-[10px] text-slate-400 mt-1">de {act.points}</span>
+                                                                        <span className="text-[10px] text-slate-400 mt-1">de {act.maxPoints}</span>
                                                                     </div>
                                                                 </li>
                                                             ))}
@@ -266,6 +358,8 @@ const SchoolRecords: React.FC = () => {
                                             </div>
                                         );
                                     })}
+                                    </section>
+                                    ))}
                                 </div>
                             ) : (
                                 <div className="flex flex-col items-center justify-center h-64 text-slate-400">
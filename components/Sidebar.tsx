@@ -17,6 +17,7 @@ const studentNavItems: { id: Page, label: string }[] = [
     { id: 'activities', label: 'Atividades' },
     { id: 'achievements', label: 'Conquistas' },
     { id: 'boletim', label: 'Boletim' },
+    { id: 'calendar', label: 'Calendário' },
     { id: 'join_class', label: 'Turmas' },
 ];
 
@@ -29,6 +30,7 @@ const teacherNavItems: { id: Page, label: string }[] = [
     { id: 'teacher_create_activity', label: 'Criar Atividade' },
     { id: 'teacher_statistics', label: 'Estatísticas' },
     { id: 'teacher_school_records', label: 'Histórico Escolar' },
+    { id: 'teacher_calendar', label: 'Calendário' },
 ];
 
 const adminNavItems: { id: Page, label: string }[] = [
@@ -37,6 +39,7 @@ const adminNavItems: { id: Page, label: string }[] = [
     { id: 'admin_quizzes', label: 'Gerenciar Quizzes' },
     { id: 'admin_achievements', label: 'Gerenciar Conquistas' },
     { id: 'admin_stats', label: 'Estatísticas' },
+    { id: 'admin_calendar', label: 'Calendário Escolar' },
     { id: 'admin_tests', label: 'Testes' },
 ];
 
@@ -49,6 +52,7 @@ const iconMap: { [key in Page]?: React.ReactNode } = {
     activities: ICONS['activities'],
     achievements: ICONS['achievements'],
     boletim: ICONS['boletim'],
+    calendar: ICONS['calendar'],
     join_class: ICONS['join_class'],
     // Teacher
     teacher_main_dashboard: ICONS['dashboard'],
@@ -58,6 +62,7 @@ const iconMap: { [key in Page]?: React.ReactNode } = {
     teacher_create_activity: ICONS['teacher_create_activity'],
     teacher_statistics: ICONS['teacher_statistics'],
     teacher_school_records: ICONS['teacher_school_records'],
+    teacher_calendar: ICONS['calendar'],
     // Admin
     admin_dashboard: ICONS['dashboard'],
     admin_users: ICONS['admin_users'],
@@ -66,6 +71,7 @@ const iconMap: { [key in Page]?: React.ReactNode } = {
     admin_achievements: ICONS['achievements'],
     admin_stats: ICONS['teacher_statistics'], // Re-using icon
     admin_tests: ICONS['admin_tests'],
+    admin_calendar: ICONS['calendar'],
 }
 
 export const Sidebar: React.FC = () => {
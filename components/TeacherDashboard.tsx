@@ -245,9 +245,10 @@ interface ClassCardProps {
     onDeleteModule: (classId: string, moduleId: string) => void;
     user: User | null;
     onFetchClassDetails: (classId: string) => void;
+    pendingJoinCount?: number; // Pedidos de entrada aguardando aprovação
 }
 
-const ClassCard: React.FC<ClassCardProps> = React.memo(({ classData, modules, onPostNoticeClick, onViewSubmissionsClick, onDeleteModule, user, onFetchClassDetails }) => {
+const ClassCard: React.FC<ClassCardProps> = React.memo(({ classData, modules, onPostNoticeClick, onViewSubmissionsClick, onDeleteModule, user, onFetchClassDetails, pendingJoinCount = 0 }) => {
     const { setCurrentPage, startEditingModule, openClass } = useNavigation();
     const [activeTab, setActiveTab] = useState<ClassCardTab>('overview');
     const [copySuccess, setCopySuccess] = useState(false);
@@ -389,6 +390,11 @@ const ClassCard: React.FC<ClassCardProps> = React.memo(({ classData, modules, on
                                     {copySuccess ? "Código copiado com sucesso!" : ""}
                                 </span>
                             </div>
+                            {pendingJoinCount > 0 && (
+                                <span className="bg-amber-100 text-amber-800 text-xs font-semibold px-2 py-0.5 rounded-full dark:bg-amber-900/30 dark:text-amber-300">
+                                    {pendingJoinCount} pedido(s) de entrada
+                                </span>
+                            )}
                         </div>
                     </div>
                     <button 
@@ -432,7 +438,7 @@ const ClassCard: React.FC<ClassCardProps> = React.memo(({ classData, modules, on
 });
 
 const TeacherDashboard: React.FC = () => {
-    const { teacherClasses, modules, handlePostNotice, handleCreateClass, handleDeleteModule, handleGradeActivity, fetchData, isLoading, fetchClassDetails, fetchModulesLibrary, pendingInvitations, handleAcceptInvite, handleDeclineInvite, isSubmitting } = useTeacherData();
+    const { teacherClasses, modules, handlePostNotice, handleCreateClass, handleDeleteModule, handleGradeActivity, handleRequestRevision, handleRevealIdentities, fetchData, isLoading, fetchClassDetails, fetchModulesLibrary, pendingInvitations, handleAcceptInvite, handleDeclineInvite, isSubmitting, joinRequests } = useTeacherData();
     const { user } = useAuth();
     
     const [isNoticeModalOpen, setIsNoticeModalOpen] = useState(false);
@@ -517,6 +523,7 @@ const TeacherDashboard: React.FC = () => {
                             onViewSubmissionsClick={handleViewSubmissionsClick}
                             onDeleteModule={handleDeleteModule}
                             onFetchClassDetails={fetchClassDetails}
+                            pendingJoinCount={joinRequests.filter(r => r.classId === c.id).length}
                         />
                     );
                 })}
@@ -567,6 +574,8 @@ const TeacherDashboard: React.FC = () => {
                     }}
                     activity={activityForSubmissions}
                     onGradeActivity={handleGradeActivity}
+                    onRequestRevision={handleRequestRevision}
+                    onRevealIdentities={handleRevealIdentities}
                 />
             )}
             
@@ -3,6 +3,7 @@ import type { TeacherClass } from '../types';
 import { Card } from './common/Card';
 import { ICONS } from '../constants/index';
 import { useTeacherData } from '../contexts/TeacherDataContext';
+import ItemAnalysis from './ItemAnalysis';
 
 const StatCard: React.FC<{ title: string; value: string | number; description: string; icon: React.ReactNode; iconBgColor: string; iconTextColor: string }> = React.memo(({ title, value, description, icon, iconBgColor, iconTextColor }) => (
     <Card>
@@ -23,10 +24,12 @@ const TeacherStatistics: React.FC = () => {
     const { teacherClasses } = useTeacherData();
     const [selectedClassId, setSelectedClassId] = useState('all');
 
+    const filteredClasses = useMemo(() => selectedClassId === 'all'
+        ? teacherClasses
+        : teacherClasses.filter(c => c.id === selectedClassId),
+    [teacherClasses, selectedClassId]);
+
     const stats = useMemo(() => {
-        const filteredClasses = selectedClassId === 'all' 
-            ? teacherClasses 
-            : teacherClasses.filter(c => c.id === selectedClassId);
 
         const allStudents = filteredClasses.flatMap(c => c.students);
         const uniqueStudentIds = new Set(allStudents.map(s => s.id));
@@ -61,7 +64,7 @@ const TeacherStatistics: React.FC = () => {
             activeStudents,
             engagementRate,
         };
-    }, [teacherClasses, selectedClassId]);
+    }, [filteredClasses]);
 
     return (
         <div className="space-y-8">
@@ -87,6 +90,7 @@ const TeacherStatistics: React.FC = () => {
                 <li><StatCard title="Taxa de Engajamento" value={`${stats.engagementRate}%`} description="Alunos ativos / Total" icon={ICONS.stats_engagement} iconBgColor="bg-red-100 dark:bg-red-500/20" iconTextColor="text-red-600 dark:text-red-300" /></li>
             </ul>
 
+            <ItemAnalysis classes={filteredClasses} />
         </div>
     );
 };
@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { buildQrSvgPath, encodeQrCode } from '../../utils/qrCode';
+
+interface QrCodeProps {
+    value: string;
+    className?: string;
+    label?: string;
+}
+
+// QR Code em SVG (escala sem perder nitidez ao projetar); fundo sempre branco para a leitura pela câmera.
+// Se o texto não couber no QR Code, mostra o aviso no lugar da imagem (o código da turma continua valendo).
+export const QrCode: React.FC<QrCodeProps> = ({ value, className = '', label }) => {
+    const qr = useMemo(() => {
+        try {
+            return buildQrSvgPath(encodeQrCode(value));
+        } catch (error) {
+            console.error("Error generating QR code:", error);
+            return null;
+        }
+    }, [value]);
+
+    if (!qr) {
+        return (
+            <div role="alert" className={`flex items-center justify-center p-3 text-center text-sm font-semibold text-red-600 bg-red-50 ${className}`}>
+                Não foi possível gerar o QR Code. Use o código da turma.
+            </div>
+        );
+    }
+
+    return (
+        <svg
+            viewBox={`0 0 ${qr.viewBoxSize} ${qr.viewBoxSize}`}
+            className={`bg-white ${className}`}
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={label || `QR Code: ${value}`}
+        >
+            <rect width="100%" height="100%" fill="#ffffff" />
+            <path d={qr.path} fill="#000000" />
+        </svg>
+    );
+};
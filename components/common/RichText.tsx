@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+
+// Formatação simples das respostas, guardada como texto: **negrito**, _itálico_ e listas com "- ".
+// Respostas antigas (texto puro) continuam sendo exibidas normalmente.
+
+const renderInline = (text: string): React.ReactNode[] =>
+    text.split(/(\*\*[^*]+\*\*|_[^_]+_)/g).map((part, index) => {
+        if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return <strong key={index}>{part.slice(2, -2)}</strong>;
+        if (part.startsWith('_') && part.endsWith('_') && part.length > 2) return <em key={index}>{part.slice(1, -1)}</em>;
+        return part;
+    });
+
+export const RichTextContent: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => {
+    const blocks: React.ReactNode[] = [];
+    let listItems: string[] = [];
+
+    const flushList = () => {
+        if (listItems.length === 0) return;
+        blocks.push(
+            <ul key={`list-${blocks.length}`} className="list-disc pl-5">
+                {listItems.map((item, i) => <li key={i}>{renderInline(item)}</li>)}
+            </ul>
+        );
+        listItems = [];
+    };
+
+    text.split('\n').forEach(line => {
+        if (/^\s*[-•]\s+/.test(line)) {
+            listItems.push(line.replace(/^\s*[-•]\s+/, ''));
+            return;
+        }
+        flushList();
+        blocks.push(<p key={`p-${blocks.length}`} className="min-h-[1em]">{renderInline(line)}</p>);
+    });
+    flushList();
+
+    return <div className={`space-y-1 break-words ${className}`}>{blocks}</div>;
+};
+
+interface RichTextEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    rows?: number;
+    placeholder?: string;
+    disabled?: boolean;
+}
+
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, rows = 8, placeholder, disabled }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    // Envolve o trecho selecionado com o marcador (ou insere o marcador vazio no cursor)
+    const wrapSelection = (marker: string) => {
+        const el = textareaRef.current;
+        if (!el) return;
+        const { selectionStart: start, selectionEnd: end } = el;
+        const selected = value.slice(start, end) || 'texto';
+        onChange(`${value.slice(0, start)}${marker}${selected}${marker}${value.slice(end)}`);
+        requestAnimationFrame(() => {
+            el.focus();
+            el.setSelectionRange(start + marker.length, start + marker.length + selected.length);
+        });
+    };
+
+    const toggleList = () => {
+        const el = textareaRef.current;
+        if (!el) return;
+        const lineStart = value.lastIndexOf('\n', el.selectionStart - 1) + 1;
+        const lineEndIndex = value.indexOf('\n', el.selectionEnd);
+        const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+        const lines = value.slice(lineStart, lineEnd).split('\n');
+        const allListed = lines.every(l => l.startsWith('- '));
+        const updated = lines.map(l => allListed ? l.slice(2) : `- ${l}`).join('\n');
+        onChange(`${value.slice(0, lineStart)}${updated}${value.slice(lineEnd)}`);
+        requestAnimationFrame(() => el.focus());
+    };
+
+    const toolbarButton = "px-2 py-1 text-sm rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50";
+
+    return (
+        <div className="border border-gray-300 rounded-md shadow-sm dark:border-slate-600 focus-within:ring-2 focus-within:ring-indigo-500">
+            <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-800 rounded-t-md text-slate-700 dark:text-slate-200" role="toolbar" aria-label="Formatação da resposta">
+                <button type="button" onClick={() => wrapSelection('**')} disabled={disabled} className={`${toolbarButton} font-bold`} aria-label="Negrito">B</button>
+                <button type="button" onClick={() => wrapSelection('_')} disabled={disabled} className={`${toolbarButton} italic`} aria-label="Itálico">I</button>
+                <button type="button" onClick={toggleList} disabled={disabled} className={toolbarButton} aria-label="Lista">• Lista</button>
+            </div>
+            <textarea
+                ref={textareaRef}
+                rows={rows}
+                placeholder={placeholder}
+                value={value}
+                disabled={disabled}
+                onChange={e => onChange(e.target.value)}
+                className="w-full p-2 rounded-b-md focus:outline-none dark:bg-slate-700 dark:text-white"
+            />
+        </div>
+    );
+};
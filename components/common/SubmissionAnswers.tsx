@@ -0,0 +1,38 @@
+import React from 'react';
+import type { QuizAnswer, QuizQuestion } from '../../types';
+import { describeCorrectAnswer, describeGivenAnswer, isAnswerCorrect } from '../../utils/quizScoring';
+
+interface SubmissionAnswersProps {
+    questions: QuizQuestion[];
+    answers: Record<string, QuizAnswer>;
+}
+
+// Revisão das respostas de uma entrega de Múltipla Escolha, questão por questão
+export const SubmissionAnswers: React.FC<SubmissionAnswersProps> = ({ questions, answers }) => {
+    const correctCount = questions.filter(q => isAnswerCorrect(q, answers[String(q.id)])).length;
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+                Acertos: {correctCount} de {questions.length}
+            </p>
+            <ol className="space-y-2">
+                {questions.map((q, index) => {
+                    const answer = answers[String(q.id)];
+                    const correct = isAnswerCorrect(q, answer);
+                    return (
+                        <li key={q.id} className={`p-2 rounded border text-sm ${correct ? 'border-green-200 bg-green-50 dark:border-green-500/30 dark:bg-green-900/20' : 'border-red-200 bg-red-50 dark:border-red-500/30 dark:bg-red-900/20'}`}>
+                            <p className="font-medium text-slate-800 dark:text-slate-200">{index + 1}. {q.question}</p>
+                            <p className="text-slate-600 dark:text-slate-300">
+                                Resposta: {describeGivenAnswer(q, answer)} {correct ? '✓' : '✗'}
+                            </p>
+                            {!correct && (
+                                <p className="text-green-700 dark:text-green-400">Resposta correta: {describeCorrectAnswer(q)}</p>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import type { SubmissionAttachment } from '../../types';
+import { useToast } from '../../contexts/ToastContext';
+import {
+    formatFileSize, getAttachmentKind, getSubmissionAttachmentUrl, MAX_SUBMISSION_FILES, SUBMISSION_FILE_ACCEPT, validateSubmissionFile
+} from '../../utils/submissionAttachments';
+
+interface AttachmentPickerProps {
+    files: File[];
+    onChange: (files: File[]) => void;
+    disabled?: boolean;
+}
+
+// Seleção de anexos do aluno, com validação de tipo, tamanho e quantidade
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ files, onChange, disabled }) => {
+    const { addToast } = useToast();
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!e.target.files) return;
+        const valid = Array.from(e.target.files).filter((file: File) => {
+            const error = validateSubmissionFile(file);
+            if (error) addToast(error, 'error');
+            return !error;
+        });
+        const next = [...files, ...valid];
+        if (next.length > MAX_SUBMISSION_FILES) {
+            addToast(`Envie no máximo ${MAX_SUBMISSION_FILES} arquivos.`, 'error');
+        }
+        onChange(next.slice(0, MAX_SUBMISSION_FILES));
+        e.target.value = '';
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className={`inline-flex items-center px-3 py-2 text-sm font-semibold rounded-lg border border-dashed border-slate-300 text-slate-600 dark:border-slate-600 dark:text-slate-300 ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500 hover:text-indigo-600'}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" /></svg>
+                Anexar foto, PDF ou áudio
+                <input type="file" multiple accept={SUBMISSION_FILE_ACCEPT} onChange={handleFileChange} disabled={disabled} className="sr-only" />
+            </label>
+            {files.length > 0 && (
+                <ul className="space-y-1">
+                    {files.map((file, index) => (
+                        <li key={`${file.name}-${index}`} className="flex items-center justify-between p-2 bg-slate-100 dark:bg-slate-700/50 rounded-md text-sm">
+                            <span className="text-slate-800 dark:text-slate-200 truncate pr-4">{file.name} <span className="text-xs text-slate-500">({formatFileSize(file.size)})</span></span>
+                            <button
+                                type="button"
+                                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                                disabled={disabled}
+                                className="text-red-500 hover:text-red-700 font-semibold"
+                                aria-label={`Remover anexo ${file.name}`}
+                            >
+                                Remover
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// Um anexo: o link é resolvido sob demanda, apenas para o aluno e o professor da atividade
+const AttachmentItem: React.FC<{ attachment: SubmissionAttachment }> = ({ attachment }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+    const kind = getAttachmentKind(attachment.contentType);
+
+    useEffect(() => {
+        let active = true;
+        setUrl(null);
+        setFailed(false);
+        getSubmissionAttachmentUrl(attachment.path)
+            .then(resolved => { if (active) setUrl(resolved); })
+            .catch(error => {
+                console.error("Erro ao abrir anexo:", error);
+                if (active) setFailed(true);
+            });
+        return () => { active = false; };
+    }, [attachment.path]);
+
+    const label = (
+        <>
+            <span className="truncate pr-2">{kind === 'pdf' ? '📄 ' : ''}{attachment.name}</span>
+            <span className="text-xs text-slate-500 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+        </>
+    );
+
+    return (
+        <li className="p-2 rounded-md border bg-white dark:bg-slate-800 dark:border-slate-600 text-sm">
+            {url && kind === 'image' && (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="block mb-1">
+                    <img src={url} alt={attachment.name} loading="lazy" className="rounded max-h-48 w-full object-contain bg-slate-100 dark:bg-slate-900" />
+                </a>
+            )}
+            {url && kind === 'audio' && <audio controls preload="none" src={url} className="w-full mb-1" />}
+            {url ? (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center justify-between text-indigo-600 hover:underline dark:text-indigo-400">
+                    {label}
+                </a>
+            ) : (
+                <div className="flex items-center justify-between text-slate-500 dark:text-slate-400">
+                    {label}
+                </div>
+            )}
+            {failed && <p className="text-xs text-red-500 mt-1">Não foi possível abrir o anexo.</p>}
+        </li>
+    );
+};
+
+// Pré-visualização dos anexos enviados: miniatura de imagens, player de áudio e link para PDFs
+export const AttachmentList: React.FC<{ attachments?: SubmissionAttachment[] }> = ({ attachments }) => {
+    if (!attachments || attachments.length === 0) return null;
+
+    return (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {attachments.map(attachment => <AttachmentItem key={attachment.path} attachment={attachment} />)}
+        </ul>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { QuizQuestion, SubmissionAttempt } from '../../types';
+import { SpinnerIcon } from '../../constants/index';
+import { RichTextContent } from './RichText';
+import { AttachmentList } from './SubmissionAttachments';
+import { SubmissionAnswers } from './SubmissionAnswers';
+import { fetchSubmissionHistory, getSubmissionStatusColor } from '../../utils/submissionHistory';
+
+interface SubmissionHistoryProps {
+    activityId: string;
+    studentId: string;
+    points: number;
+    questions?: QuizQuestion[];
+}
+
+// Tentativas anteriores de uma entrega, carregadas sob demanda (usado pelo professor e pelo aluno)
+export const SubmissionHistory: React.FC<SubmissionHistoryProps> = ({ activityId, studentId, points, questions }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [attempts, setAttempts] = useState<SubmissionAttempt[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleToggle = async () => {
+        const next = !isOpen;
+        setIsOpen(next);
+        if (!next || attempts) return;
+        setIsLoading(true);
+        try {
+            setAttempts(await fetchSubmissionHistory(activityId, studentId));
+        } catch (error) {
+            console.error("Error fetching submission history:", error);
+            setAttempts([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div>
+            <button type="button" onClick={handleToggle} className="text-sm font-semibold text-indigo-600 hover:underline dark:text-indigo-400" aria-expanded={isOpen}>
+                {isOpen ? 'Ocultar tentativas anteriores' : 'Ver tentativas anteriores'}
+            </button>
+            {isOpen && (
+                <div className="mt-2 space-y-3">
+                    {isLoading && <div className="flex justify-center py-2"><SpinnerIcon className="h-5 w-5 text-indigo-500" /></div>}
+                    {!isLoading && attempts?.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Nenhuma tentativa anterior.</p>
+                    )}
+                    {!isLoading && attempts?.map(attempt => (
+                        <div key={attempt.attempt} className="p-3 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 space-y-2">
+                            <div className="flex flex-wrap justify-between items-center gap-2 text-xs">
+                                <span className="font-semibold text-slate-700 dark:text-slate-200">
+                                    Tentativa {attempt.attempt} · {new Date(attempt.submissionDate).toLocaleString('pt-BR')}
+                                    {attempt.isLate && <span className="ml-1 text-red-600 dark:text-red-400">(atrasada)</span>}
+                                </span>
+                                <span className={`font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(attempt.status)}`}>{attempt.status}</span>
+                            </div>
+                            {attempt.content && <RichTextContent text={attempt.content} className="text-sm text-slate-700 dark:text-slate-300" />}
+                            <AttachmentList attachments={attempt.attachments} />
+                            {questions && attempt.answers && <SubmissionAnswers questions={questions} answers={attempt.answers} />}
+                            {typeof attempt.grade === 'number' && (
+                                <p className="text-sm text-slate-600 dark:text-slate-300">Nota: <span className="font-bold">{attempt.grade} / {points}</span></p>
+                            )}
+                            {attempt.feedback && (
+                                <p className="text-sm text-slate-700 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/30 p-2 rounded">{attempt.feedback}</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
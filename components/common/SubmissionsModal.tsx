@@ -2,20 +2,46 @@ import React, { useState } from 'react';
 import type { Activity, ActivitySubmission, Student } from '../../types';
 import { SpinnerIcon } from '../../constants/index';
 import { Modal } from './Modal';
+import { RubricGrid } from '../Rubric';
+import { AttachmentList } from './SubmissionAttachments';
+import { RichTextContent } from './RichText';
+import { SubmissionAnswers } from './SubmissionAnswers';
+import { SubmissionHistory } from './SubmissionHistory';
+import { getSubmissionStatusColor } from '../../utils/submissionHistory';
+import { areAllSubmissionsGraded, getAnonymousLabel, isIdentityHidden, orderForBlindGrading } from '../../utils/blindGrading';
+import { applyLatePenalty, formatLateLabel } from '../../utils/latePolicy';
+import { computeRubricGrade, isRubricComplete } from '../../utils/rubric';
+import { formatShortDate, getActivitySchoolYear, getUnidadePeriod, isUnidadeClosed } from '../../utils/schoolCalendar';
+import { useSchoolCalendar } from '../../hooks/useSchoolCalendar';
 
 // Component for a single submission item within the modal
 interface SubmissionItemProps {
     submission: ActivitySubmission;
     activity: Activity;
-    onGrade: (studentId: string, grade: number, feedback: string) => Promise<boolean>;
+    onGrade: (studentId: string, grade: number, feedback: string, rubricScores?: Record<string, string>) => Promise<boolean>;
+    onRequestRevision?: (studentId: string, feedback: string) => Promise<boolean>;
+    displayName: string; // Nome do aluno ou rótulo anônimo
 }
 
-const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, onGrade }) => {
-    const [grade, setGrade] = useState<string>(submission.grade?.toString() || '');
+const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, onGrade, onRequestRevision, displayName }) => {
+    // Em entregas atrasadas o campo mostra a nota cheia; o desconto é aplicado ao salvar
+    const [grade, setGrade] = useState<string>((submission.rawGrade ?? submission.grade)?.toString() || '');
     const [feedback, setFeedback] = useState<string>(submission.feedback || '');
+    const [rubricScores, setRubricScores] = useState<Record<string, string>>(submission.rubricScores || {});
     const [isSaving, setIsSaving] = useState(false);
+    const rubric = activity.rubric;
+
+    // Com rubrica, a nota é sempre a calculada pelos níveis escolhidos
+    const handleRubricChange = (scores: Record<string, string>) => {
+        setRubricScores(scores);
+        if (rubric) setGrade(computeRubricGrade(rubric, scores, activity.points).toString());
+    };
 
     const handleSaveGrade = async () => {
+        if (rubric && !isRubricComplete(rubric, rubricScores)) {
+            alert('Selecione um nível para cada critério da rubrica.');
+            return;
+        }
         const gradeNumber = parseFloat(grade.replace(',', '.'));
         if (isNaN(gradeNumber) || gradeNumber < 0 || gradeNumber > activity.points || isSaving) {
             alert(`Por favor, insira uma nota válida entre 0 e ${activity.points}.`);
@@ -23,15 +49,29 @@ const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, o
         }
 
         setIsSaving(true);
-        await onGrade(submission.studentId, gradeNumber, feedback);
+        await onGrade(submission.studentId, gradeNumber, feedback, rubric ? rubricScores : undefined);
         // No need to set isSaving(false) as the modal will close on success
     };
 
+    const handleRequestRevision = async () => {
+        if (!onRequestRevision || isSaving) return;
+        if (!feedback.trim()) {
+            alert('Escreva no feedback o que o aluno deve revisar.');
+            return;
+        }
+        setIsSaving(true);
+        const success = await onRequestRevision(submission.studentId, feedback.trim());
+        if (!success) setIsSaving(false);
+    };
+
     return (
         <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border dark:border-slate-700 space-y-3">
             <div className="flex justify-between items-start">
                  <div>
-                    <p className="font-semibold text-slate-800 dark:text-slate-200">{submission.studentName}</p>
+                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                        {displayName}
+                        {(submission.attempt || 1) > 1 && <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">Tentativa {submission.attempt}</span>}
+                    </p>
                     <p className="text-xs text-slate-500 dark:text-slate-400">
                         {submission.submissionDate
                             ? `Enviado em: ${new Date(submission.submissionDate).toLocaleString('pt-BR')}`
@@ -39,17 +79,41 @@ const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, o
                         }
                     </p>
                 </div>
-                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${submission.status === 'Corrigido' ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300'}`}>
-                    {submission.status}
-                </span>
+                <div className="flex flex-col items-end gap-1">
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${getSubmissionStatusColor(submission.status)}`}>
+                        {submission.status}
+                    </span>
+                    {submission.isLate && (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300">
+                            {formatLateLabel(submission)}
+                        </span>
+                    )}
+                </div>
             </div>
             
-            <p className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-3 rounded border dark:border-slate-600 whitespace-pre-wrap">{submission.content}</p>
+            {submission.content && (
+                <RichTextContent text={submission.content} className="text-sm text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-800 p-3 rounded border dark:border-slate-600" />
+            )}
+            <AttachmentList attachments={submission.attachments} />
+            {activity.type === 'Múltipla Escolha' && activity.questions && submission.answers && (
+                <SubmissionAnswers questions={activity.questions} answers={submission.answers} />
+            )}
+            {(submission.attempt || 1) > 1 && (
+                <SubmissionHistory activityId={activity.id} studentId={submission.studentId} points={activity.points} questions={activity.questions} />
+            )}
 
             <div className="pt-3 border-t border-slate-200 dark:border-slate-600 space-y-3">
+                {rubric && (
+                    <div>
+                        <p className="text-xs font-medium text-gray-700 dark:text-slate-300 mb-2">Rubrica: {rubric.title}</p>
+                        <RubricGrid rubric={rubric} scores={rubricScores} onChange={handleRubricChange} />
+                    </div>
+                )}
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                     <div className="sm:col-span-1">
-                        <label htmlFor={`grade-${submission.studentId}`} className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">Nota (de {activity.points})</label>
+                        <label htmlFor={`grade-${submission.studentId}`} className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">
+                            Nota (de {activity.points}){submission.autoGraded && ' · automática'}
+                        </label>
                         <input
                             id={`grade-${submission.studentId}`}
                             type="number"
@@ -58,8 +122,15 @@ const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, o
                             onChange={e => setGrade(e.target.value)}
                             max={activity.points}
                             min={0}
-                            className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-800 dark:border-slate-600 dark:text-white"
+                            readOnly={!!rubric}
+                            title={rubric ? 'Nota calculada pela rubrica' : undefined}
+                            className="w-full read-only:bg-slate-100 dark:read-only:bg-slate-900 p-2 border border-gray-300 rounded-md shadow-sm dark:bg-slate-800 dark:border-slate-600 dark:text-white"
                         />
+                        {!!submission.latePenaltyPercent && grade !== '' && !isNaN(parseFloat(grade.replace(',', '.'))) && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                                Com desconto de {submission.latePenaltyPercent}%: {applyLatePenalty(parseFloat(grade.replace(',', '.')), submission.latePenaltyPercent)}
+                            </p>
+                        )}
                     </div>
                      <div className="sm:col-span-2">
                          <label htmlFor={`feedback-${submission.studentId}`} className="block text-xs font-medium text-gray-700 dark:text-slate-300 mb-1">Feedback</label>
@@ -73,14 +144,26 @@ const SubmissionItem: React.FC<SubmissionItemProps> = ({ submission, activity, o
                         />
                     </div>
                 </div>
-                 <button
-                    onClick={handleSaveGrade}
-                    disabled={isSaving}
-                    className="w-full sm:w-auto float-right px-4 py-2 bg-green-200 text-green-900 font-semibold rounded-lg hover:bg-green-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center dark:bg-green-500/30 dark:text-green-200 dark:hover:bg-green-500/40"
-                >
-                    {isSaving && <SpinnerIcon className="h-5 w-5 mr-2" />}
-                    {submission.status === 'Corrigido' ? 'Atualizar Correção' : 'Salvar Correção'}
-                </button>
+                <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+                    {onRequestRevision && submission.status !== 'Revisão solicitada' && (
+                        <button
+                            onClick={handleRequestRevision}
+                            disabled={isSaving}
+                            title="O aluno poderá reenviar a atividade; a tentativa atual fica no histórico"
+                            className="w-full sm:w-auto px-4 py-2 bg-orange-100 text-orange-900 font-semibold rounded-lg hover:bg-orange-200 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-orange-500/20 dark:text-orange-200 dark:hover:bg-orange-500/30"
+                        >
+                            Devolver para reescrita
+                        </button>
+                    )}
+                    <button
+                        onClick={handleSaveGrade}
+                        disabled={isSaving}
+                        className="w-full sm:w-auto px-4 py-2 bg-green-200 text-green-900 font-semibold rounded-lg hover:bg-green-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center dark:bg-green-500/30 dark:text-green-200 dark:hover:bg-green-500/40"
+                    >
+                        {isSaving && <SpinnerIcon className="h-5 w-5 mr-2" />}
+                        {submission.status === 'Corrigido' ? 'Atualizar Correção' : 'Salvar Correção'}
+                    </button>
+                </div>
             </div>
         </div>
     );
@@ -91,12 +174,39 @@ interface SubmissionsModalProps {
     isOpen: boolean;
     onClose: () => void;
     activity: Activity;
-    onGradeActivity: (activityId: string, studentId: string, grade: number, feedback: string) => Promise<boolean>;
+    onGradeActivity: (activityId: string, studentId: string, grade: number, feedback: string, rubricScores?: Record<string, string>) => Promise<boolean>;
+    onRequestRevision?: (activityId: string, studentId: string, feedback: string) => Promise<boolean>;
+    onRevealIdentities?: (activityId: string) => Promise<boolean>;
 }
 
-export const SubmissionsModal: React.FC<SubmissionsModalProps> = ({ isOpen, onClose, activity, onGradeActivity }) => {
-    const onGrade = async (studentId: string, grade: number, feedback: string): Promise<boolean> => {
-        const success = await onGradeActivity(activity.id, studentId, grade, feedback);
+export const SubmissionsModal: React.FC<SubmissionsModalProps> = ({ isOpen, onClose, activity, onGradeActivity, onRequestRevision, onRevealIdentities }) => {
+    const [revealedAt, setRevealedAt] = useState(activity.identitiesRevealedAt);
+    const [isRevealing, setIsRevealing] = useState(false);
+    const submissions = activity.submissions || [];
+    const identityHidden = isIdentityHidden({ blindGrading: activity.blindGrading, identitiesRevealedAt: revealedAt });
+    const gradedCount = submissions.filter(s => s.status === 'Corrigido').length;
+    const orderedSubmissions = identityHidden ? orderForBlindGrading(activity.id, submissions) : submissions;
+    const { calendar } = useSchoolCalendar(getActivitySchoolYear(activity));
+    const closedPeriod = isUnidadeClosed(calendar, activity.unidade) ? getUnidadePeriod(calendar, activity.unidade!) : undefined;
+
+    const handleReveal = async () => {
+        if (!onRevealIdentities || isRevealing) return;
+        setIsRevealing(true);
+        if (await onRevealIdentities(activity.id)) setRevealedAt(new Date().toISOString());
+        setIsRevealing(false);
+    };
+
+    const onGrade = async (studentId: string, grade: number, feedback: string, rubricScores?: Record<string, string>): Promise<boolean> => {
+        const success = await onGradeActivity(activity.id, studentId, grade, feedback, rubricScores);
+        if (success) {
+            onClose();
+        }
+        return success;
+    };
+
+    const onRevision = async (studentId: string, feedback: string): Promise<boolean> => {
+        if (!onRequestRevision) return false;
+        const success = await onRequestRevision(activity.id, studentId, feedback);
         if (success) {
             onClose();
         }
@@ -106,13 +216,40 @@ export const SubmissionsModal: React.FC<SubmissionsModalProps> = ({ isOpen, onCl
     return (
         <Modal isOpen={isOpen} onClose={onClose} title={`Respostas para: ${activity.title}`}>
             <div className="space-y-4 max-h-[70vh] overflow-y-auto p-1">
-                {activity.submissions && activity.submissions.length > 0 ? (
-                    activity.submissions.map((sub) => (
+                {closedPeriod && (
+                    <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-300">
+                        A {closedPeriod.unidade} terminou em {formatShortDate(closedPeriod.end)}: as notas desta atividade estão bloqueadas.
+                    </div>
+                )}
+                {activity.blindGrading && submissions.length > 0 && (
+                    <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-slate-100 dark:bg-slate-700/50 text-sm text-slate-700 dark:text-slate-200">
+                        {identityHidden ? (
+                            <>
+                                <span>Correção anônima: os nomes ficam ocultos até todas as entregas serem corrigidas ({gradedCount}/{submissions.length}).</span>
+                                {onRevealIdentities && (
+                                    <button
+                                        onClick={handleReveal}
+                                        disabled={!areAllSubmissionsGraded(submissions) || isRevealing}
+                                        className="px-3 py-1.5 font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500"
+                                    >
+                                        Revelar nomes
+                                    </button>
+                                )}
+                            </>
+                        ) : (
+                            <span>Correção anônima · nomes revelados em {new Date(revealedAt!).toLocaleString('pt-BR')}.</span>
+                        )}
+                    </div>
+                )}
+                {orderedSubmissions.length > 0 ? (
+                    orderedSubmissions.map((sub) => (
                         <SubmissionItem
                             key={sub.studentId}
                             submission={sub}
                             activity={activity}
+                            displayName={identityHidden ? getAnonymousLabel(activity.id, submissions, sub.studentId) : sub.studentName}
                             onGrade={onGrade}
+                            onRequestRevision={onRequestRevision ? onRevision : undefined}
                         />
                     ))
                 ) : (
@@ -1,7 +1,8 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore, enableIndexedDbPersistence } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, enableIndexedDbPersistence, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -18,6 +19,19 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 export const auth = getAuth(app);
 export const db = getFirestore(app);
+export const storage = getStorage(app);
+export const functions = getFunctions(app);
+
+// Emuladores locais (firebase emulators:start): ative com VITE_USE_FIREBASE_EMULATOR=true no .env.local
+// Portas conforme firebase.json
+export const isUsingEmulators = import.meta.env.VITE_USE_FIREBASE_EMULATOR === 'true';
+
+if (isUsingEmulators) {
+    connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+    connectFirestoreEmulator(db, '127.0.0.1', 8080);
+    connectStorageEmulator(storage, '127.0.0.1', 9199);
+    connectFunctionsEmulator(functions, '127.0.0.1', 5001);
+}
 
 // Habilita persistência offline (IndexedDB)
 // Isso permite que o app funcione offline e reduz leituras em sessões subsequentes (principalmente para listeners)
@@ -29,6 +43,4 @@ enableIndexedDbPersistence(db).catch((err) => {
         // O navegador não suporta a persistência
         console.warn('Persistence failed: Browser not supported');
     }
-});
-
-export const storage = getStorage(app);
\ No newline at end of file
+});
\ No newline at end of file
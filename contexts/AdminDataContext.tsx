@@ -1,6 +1,6 @@
 
 import React, { createContext, useState, useCallback, useMemo, useEffect, useContext, ReactNode } from 'react';
-import type { Module, Quiz, Achievement } from '../types';
+import type { Module, Quiz, Achievement, AdminUser, Role, UserStatus, UserAuditLogEntry, UserAuditAction } from '../types';
 import { useAuth } from './AuthContext';
 import { useToast } from './ToastContext';
 import { db } from '../components/firebaseClient';
@@ -10,6 +10,8 @@ import {
     limit, startAfter, getCountFromServer, QueryDocumentSnapshot 
 } from 'firebase/firestore';
 import { useCachedQuery } from '../hooks/useCachedQuery';
+import { clearQuestionUsage, syncQuestionUsage } from '../utils/questionBank';
+import { UserImportRow, toPreRegistration } from '../utils/userImport';
 
 export interface AdminDataContextType {
     modules: Module[];
@@ -38,6 +40,15 @@ export interface AdminDataContextType {
     
     handleSaveModule: (newModule: Omit<Module, 'id'>) => Promise<boolean>;
     handleUpdateModule: (updatedModule: Module) => Promise<void>;
+
+    // --- Gerenciamento de Usuários ---
+    users: AdminUser[];
+    userAuditLog: UserAuditLogEntry[];
+    isLoadingUsers: boolean;
+    handleChangeUserRole: (target: AdminUser, role: Exclude<Role, null>) => Promise<void>;
+    handleSetUserStatus: (target: AdminUser, status: UserStatus) => Promise<void>;
+    handleImportUsers: (rows: UserImportRow[]) => Promise<{ imported: number; skipped: number }>;
+    refreshUsers: () => void;
     
     fetchData: () => Promise<void>;
     fetchNextModulesPage: () => Promise<void>; // Função para carregar próxima página
@@ -47,6 +58,14 @@ export const AdminDataContext = createContext<AdminDataContextType | undefined>(
 
 const MODULES_PER_PAGE = 20;
 
+// Timestamps podem chegar como Timestamp (rede), string ISO ou { seconds } (serializados no cache de sessão)
+const toDateString = (value: any): string => {
+    if (value?.toDate) return value.toDate().toISOString();
+    if (typeof value === 'string') return value;
+    if (typeof value?.seconds === 'number') return new Date(value.seconds * 1000).toISOString();
+    return '';
+};
+
 export function AdminDataProvider({ children }: { children?: ReactNode }) {
     const { user } = useAuth();
     const { addToast } = useToast();
@@ -67,8 +86,13 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
     const { data: quizzesData, loading: quizzesLoading, invalidate: invalidateQuizzes, error: quizzesError } = useCachedQuery('admin_quizzes', () => query(collection(db, 'quizzes'), orderBy('date', 'desc')), [user]);
     const { data: achievementsData, loading: achievementsLoading, invalidate: invalidateAchievements, error: achievementsError } = useCachedQuery('admin_achievements', () => query(collection(db, 'achievements')), [user]);
 
+    const { data: usersData, loading: usersLoading, invalidate: invalidateUsers, error: usersError } = useCachedQuery('admin_users', () => query(collection(db, 'users')), [user]);
+    const { data: preRegistrationsData, loading: preRegistrationsLoading, invalidate: invalidatePreRegistrations } = useCachedQuery('admin_user_preregistrations', () => query(collection(db, 'users_preregistrations')), [user]);
+    const { data: auditLogData, invalidate: invalidateAuditLog } = useCachedQuery('admin_user_audit_log', () => query(collection(db, 'user_audit_log'), orderBy('timestamp', 'desc'), limit(100)), [user]);
+
     const isLoading = quizzesLoading || achievementsLoading; // Modules loading is handled separately now
-    const hasError = quizzesError || achievementsError;
+    const isLoadingUsers = usersLoading || preRegistrationsLoading;
+    const hasError = quizzesError || achievementsError || usersError;
     
     useEffect(() => {
         if (hasError) {
@@ -83,6 +107,42 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
     // Data Transformation
     const quizzes = useMemo(() => (quizzesData || []).map(d => ({ ...d, date: d.date?.toDate ? d.date.toDate().toLocaleDateString('pt-BR') : undefined }) as Quiz), [quizzesData]);
     const achievements = useMemo(() => (achievementsData || []) as Achievement[], [achievementsData]);
+
+    // Contas existentes + pré-cadastros (CSV) que ainda não criaram conta
+    const users = useMemo(() => {
+        const accounts = (usersData || []).map(d => ({
+            id: d.id,
+            name: d.name || d.email || 'Sem nome',
+            email: d.email || '',
+            role: d.role ?? null,
+            series: d.series,
+            avatarUrl: d.avatarUrl,
+            registrationDate: toDateString(d.registrationDate),
+            // Perfis antigos não possuem status: são contas ativas
+            status: (d.status || 'Ativo') as UserStatus,
+        }) as AdminUser);
+
+        const accountEmails = new Set(accounts.map(a => a.email.toLowerCase()));
+        const preRegistrations = (preRegistrationsData || [])
+            .filter(d => !accountEmails.has(String(d.email).toLowerCase()))
+            .map(d => ({
+                id: d.id,
+                name: d.name,
+                email: d.email,
+                role: d.role,
+                series: d.series,
+                registrationDate: toDateString(d.importedAt),
+                status: 'Pendente',
+                isPreRegistration: true,
+            }) as AdminUser);
+
+        return [...accounts, ...preRegistrations].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+    }, [usersData, preRegistrationsData]);
+
+    const userAuditLog = useMemo(() => (auditLogData || []).map(d => ({
+        ...d,
+        timestamp: toDateString(d.timestamp)
+    }) as UserAuditLogEntry), [auditLogData]);
     
     // --- MODULES PAGINATION LOGIC ---
 
@@ -180,6 +240,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
 
             // 2. Save Content
             await setDoc(doc(db, "module_contents", docRef.id), { pages });
+            await syncQuestionUsage(metadata.quiz, { kind: 'module', id: docRef.id, title: metadata.title });
 
             addToast('Módulo salvo com sucesso!', 'success');
             refreshModules(); // Reload list to show new item at top
@@ -205,6 +266,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
             if (pages) {
                 await setDoc(doc(db, "module_contents", id), { pages }, { merge: true });
             }
+            await syncQuestionUsage(metadata.quiz, { kind: 'module', id, title: metadata.title });
 
             addToast('Módulo atualizado com sucesso!', 'success');
             // Optimistic Update
@@ -219,6 +281,8 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
     const handleDeleteModule = useCallback(async (moduleId: string) => {
         setIsSubmitting(true);
         try {
+            // Remove o módulo do rastreio do banco de questões antes de perder a posse do documento
+            await clearQuestionUsage({ kind: 'module', id: moduleId });
             // Delete metadata
             await deleteDoc(doc(db, "modules", moduleId));
             // Delete content
@@ -235,6 +299,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
     const handleBulkDeleteModules = useCallback(async (moduleIds: Set<string>) => {
         setIsSubmitting(true);
         try {
+            await Promise.all(Array.from(moduleIds).map(id => clearQuestionUsage({ kind: 'module', id })));
             const batch = writeBatch(db);
             moduleIds.forEach(id => {
                 batch.delete(doc(db, "modules", id));
@@ -256,6 +321,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
             // but for this scope it fits the test requirement.
             const modulesQuery = query(collection(db, "modules"));
             const snapshot = await getDocs(modulesQuery);
+            await Promise.all(snapshot.docs.map(d => clearQuestionUsage({ kind: 'module', id: d.id })));
             const batch = writeBatch(db);
             snapshot.docs.forEach(d => {
                 batch.delete(d.ref);
@@ -275,7 +341,8 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
         if (!user) return;
         setIsSubmitting(true);
         try {
-            await addDoc(collection(db, "quizzes"), { ...newQuizData, createdBy: user.email, date: serverTimestamp() });
+            const quizRef = await addDoc(collection(db, "quizzes"), { ...newQuizData, createdBy: user.email, date: serverTimestamp() });
+            await syncQuestionUsage(newQuizData.questions, { kind: 'quiz', id: quizRef.id, title: newQuizData.title });
             addToast('Quiz salvo com sucesso!', 'success');
             invalidateQuizzes();
         } catch (e: any) { addToast(`Erro ao salvar quiz: ${e.message}`, 'error'); }
@@ -286,6 +353,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
         setIsSubmitting(true);
         try {
             await updateDoc(doc(db, "quizzes", updatedQuiz.id), updatedQuiz as any);
+            await syncQuestionUsage(updatedQuiz.questions, { kind: 'quiz', id: updatedQuiz.id, title: updatedQuiz.title });
             addToast('Quiz atualizado com sucesso!', 'success');
             invalidateQuizzes();
         } catch (e: any) { addToast(`Erro ao atualizar quiz: ${e.message}`, 'error'); }
@@ -294,6 +362,7 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
 
     const handleDeleteQuiz = useCallback(async (quizId: string) => {
         try {
+            await clearQuestionUsage({ kind: 'quiz', id: quizId });
             await deleteDoc(doc(db, "quizzes", quizId));
             addToast('Quiz excluído com sucesso!', 'success');
             invalidateQuizzes();
@@ -342,12 +411,117 @@ export function AdminDataProvider({ children }: { children?: ReactNode }) {
     }, [addToast, invalidateAchievements]);
 
 
+    // --- User Management Operations ---
+
+    const refreshUsers = useCallback(() => {
+        invalidateUsers();
+        invalidatePreRegistrations();
+        invalidateAuditLog();
+    }, [invalidateUsers, invalidatePreRegistrations, invalidateAuditLog]);
+
+    // Toda alteração gera um registro na trilha de auditoria, no mesmo batch da alteração
+    const buildAuditEntry = useCallback((action: UserAuditAction, target: Pick<AdminUser, 'id' | 'email' | 'name' | 'isPreRegistration'>, changes: UserAuditLogEntry['changes']) => ({
+        action,
+        targetUserId: target.isPreRegistration ? null : target.id,
+        targetEmail: target.email,
+        targetName: target.name,
+        actorId: user?.id || '',
+        actorName: user?.name || '',
+        changes,
+        timestamp: serverTimestamp()
+    }), [user]);
+
+    const handleChangeUserRole = useCallback(async (target: AdminUser, role: Exclude<Role, null>) => {
+        if (!user || target.role === role) return;
+        if (target.id === user.id) {
+            addToast('Você não pode alterar o próprio perfil de acesso.', 'error');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const batch = writeBatch(db);
+            const targetRef = target.isPreRegistration
+                ? doc(db, 'users_preregistrations', target.id)
+                : doc(db, 'users', target.id);
+            batch.update(targetRef, { role });
+            batch.set(doc(collection(db, 'user_audit_log')), buildAuditEntry('role_change', target, { role: { from: target.role, to: role } }));
+            await batch.commit();
+            addToast(`Perfil de ${target.name} alterado para ${role}.`, 'success');
+            refreshUsers();
+        } catch (e: any) {
+            addToast(`Erro ao alterar perfil: ${e.message}`, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [user, addToast, buildAuditEntry, refreshUsers]);
+
+    const handleSetUserStatus = useCallback(async (target: AdminUser, status: UserStatus) => {
+        if (!user || target.status === status) return;
+        if (target.id === user.id) {
+            addToast('Você não pode desativar a própria conta.', 'error');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const batch = writeBatch(db);
+            if (target.isPreRegistration) {
+                // Pré-cadastro "desativado" é simplesmente removido (ainda não há conta)
+                batch.delete(doc(db, 'users_preregistrations', target.id));
+            } else {
+                batch.update(doc(db, 'users', target.id), { status });
+            }
+            batch.set(doc(collection(db, 'user_audit_log')), buildAuditEntry('status_change', target, { status: { from: target.status, to: status } }));
+            await batch.commit();
+            addToast(`Status de ${target.name} alterado para ${status}.`, 'success');
+            refreshUsers();
+        } catch (e: any) {
+            addToast(`Erro ao alterar status: ${e.message}`, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [user, addToast, buildAuditEntry, refreshUsers]);
+
+    const handleImportUsers = useCallback(async (rows: UserImportRow[]) => {
+        if (!user || rows.length === 0) return { imported: 0, skipped: 0 };
+        setIsSubmitting(true);
+        try {
+            const existingEmails = new Set(users.map(u => u.email.toLowerCase()));
+            const newRows = rows.filter(r => !existingEmails.has(r.email));
+
+            // Batches do Firestore aceitam até 500 operações (2 por linha: pré-cadastro + auditoria)
+            const CHUNK_SIZE = 200;
+            for (let i = 0; i < newRows.length; i += CHUNK_SIZE) {
+                const batch = writeBatch(db);
+                newRows.slice(i, i + CHUNK_SIZE).forEach(row => {
+                    batch.set(doc(db, 'users_preregistrations', row.email), toPreRegistration(row, user.id));
+                    batch.set(doc(collection(db, 'user_audit_log')), buildAuditEntry(
+                        'import',
+                        { id: row.email, email: row.email, name: row.name, isPreRegistration: true },
+                        { role: { from: null, to: row.role }, series: { from: null, to: row.series || null } }
+                    ));
+                });
+                await batch.commit();
+            }
+
+            const skipped = rows.length - newRows.length;
+            addToast(`${newRows.length} usuário(s) importado(s)${skipped > 0 ? `, ${skipped} já existente(s) ignorado(s)` : ''}.`, 'success');
+            refreshUsers();
+            return { imported: newRows.length, skipped };
+        } catch (e: any) {
+            addToast(`Erro na importação: ${e.message}`, 'error');
+            return { imported: 0, skipped: 0 };
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [user, users, addToast, buildAuditEntry, refreshUsers]);
+
     const value = {
         modules, totalModulesCount, quizzes, achievements, isLoading, isLoadingModules, hasMoreModules, isSubmitting, isOffline,
         handleDeleteAllModules, handleDeleteModule, handleBulkDeleteModules, 
         handleSaveQuiz, handleUpdateQuiz, handleDeleteQuiz, 
         handleSaveAchievement, handleUpdateAchievement, handleDeleteAchievement, 
         handleSaveModule, handleUpdateModule,
+        users, userAuditLog, isLoadingUsers, handleChangeUserRole, handleSetUserStatus, handleImportUsers, refreshUsers,
         fetchData, fetchNextModulesPage
     };
 
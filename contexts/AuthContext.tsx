@@ -1,7 +1,7 @@
 
 
 import React, { createContext, useState, useCallback, useContext, ReactNode, useEffect } from 'react';
-import type { Role, User } from '../types';
+import type { Role, User, UserStatus } from '../types';
 import { auth, db } from '../components/firebaseClient';
 import { 
     onAuthStateChanged,
@@ -13,7 +13,8 @@ import {
     User as FirebaseUser,
     updateProfile
 } from 'firebase/auth';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc, writeBatch, collection, serverTimestamp } from 'firebase/firestore';
+import { recordDailyActivity } from '../utils/streak';
 
 
 type AuthState = 'unauthenticated' | 'authenticated' | 'loading';
@@ -58,10 +59,59 @@ export function AuthProvider({ children }: { children?: ReactNode }) {
         }
     };
 
+    // Aplica um pré-cadastro importado pelo admin (CSV) quando o usuário cria a conta com o mesmo email.
+    // Retorna o perfil criado ou null se não houver pré-cadastro.
+    const claimPreRegistration = async (firebaseUser: FirebaseUser): Promise<User | null> => {
+        const email = firebaseUser.email?.toLowerCase();
+        if (!email) return null;
+
+        const preRegRef = doc(db, "users_preregistrations", email);
+        const preRegSnap = await getDoc(preRegRef);
+        if (!preRegSnap.exists()) return null;
+
+        const preReg = preRegSnap.data();
+        const profile: Record<string, any> = {
+            name: preReg.name || firebaseUser.displayName || email,
+            email: firebaseUser.email,
+            role: preReg.role,
+            status: 'Ativo',
+            registrationDate: new Date().toISOString(),
+        };
+        if (preReg.series) profile.series = preReg.series;
+
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'users', firebaseUser.uid), profile);
+        batch.delete(preRegRef);
+        batch.set(doc(collection(db, 'user_audit_log')), {
+            action: 'preregistration_claimed',
+            targetUserId: firebaseUser.uid,
+            targetEmail: email,
+            targetName: profile.name,
+            actorId: firebaseUser.uid,
+            actorName: profile.name,
+            changes: { status: { from: 'Pendente', to: 'Ativo' } },
+            timestamp: serverTimestamp()
+        });
+        await batch.commit();
+
+        if (profile.role === 'professor') {
+            await ensureTeacherHistoryDoc(firebaseUser);
+        }
+
+        return {
+            id: firebaseUser.uid,
+            name: profile.name,
+            email: firebaseUser.email!,
+            role: profile.role,
+            series: profile.series,
+        };
+    };
+
     useEffect(() => {
         const unsubscribe = onAuthStateChanged(auth, async (user) => {
-            setAuthError(null);
+            // O erro só é limpo em um novo login: ao deslogar por erro (perfil/conta inativa) ele precisa chegar à LoginPage
             if (user) {
+                setAuthError(null);
                 setFirebaseUser(user);
                 try {
                     const userDocRef = doc(db, 'users', user.uid);
@@ -69,6 +119,14 @@ export function AuthProvider({ children }: { children?: ReactNode }) {
 
                     if (docSnap.exists()) {
                         const profile = docSnap.data();
+
+                        // Conta desativada pelo admin (AdminManageUsers)
+                        if (profile.status === 'Inativo') {
+                            setAuthError('Sua conta está desativada. Procure a coordenação da escola para reativá-la.');
+                            await signOut(auth);
+                            return;
+                        }
+
                         const appUser: User = {
                             id: user.uid,
                             name: profile.name,
@@ -76,6 +134,13 @@ export function AuthProvider({ children }: { children?: ReactNode }) {
                             role: profile.role,
                             series: profile.series,
                         };
+
+                        // Streak diário: registrado antes de liberar a UI para que o
+                        // StudentDataContext já leia a sequência atualizada
+                        if (appUser.role === 'aluno') {
+                            await recordDailyActivity(user.uid);
+                        }
+
                         setUser(appUser);
                         setAuthState('authenticated');
 
@@ -85,6 +150,14 @@ export function AuthProvider({ children }: { children?: ReactNode }) {
                         }
 
                     } else {
+                        // Pré-cadastro via CSV: perfil e série já definidos pelo admin
+                        const preRegisteredUser = await claimPreRegistration(user);
+                        if (preRegisteredUser) {
+                            setUser(preRegisteredUser);
+                            setAuthState('authenticated');
+                            return;
+                        }
+
                         // Profile doesn't exist, start onboarding
                         const partialUser: User = {
                             id: user.uid,
@@ -195,10 +268,14 @@ export function AuthProvider({ children }: { children?: ReactNode }) {
             email: string | null; 
             role: Role; 
             series?: string;
+            status: UserStatus;
+            registrationDate: string;
         } = {
             name: firebaseUser.displayName || firebaseUser.email,
             email: firebaseUser.email,
             role: role,
+            status: 'Ativo',
+            registrationDate: new Date().toISOString(),
         };
 
         if (series) {
@@ -3,6 +3,7 @@ import React, { createContext, useState, useCallback, useContext, ReactNode, use
 import type { Module, Quiz, Page, Achievement, TeacherClass } from '../types';
 import { useAuth } from './AuthContext';
 import { useLocation } from 'react-router-dom';
+import { readJoinCodeFromUrl } from '../utils/classCodes';
 
 interface NavigationState {
     currentPage: Page;
@@ -54,7 +55,8 @@ export function NavigationProvider({ children }: { children?: ReactNode }) {
             } else if (userRole === 'professor') {
                 setCurrentPage('teacher_main_dashboard');
             } else {
-                setCurrentPage('dashboard');
+                // Link do QR Code da turma (?turma=CODIGO) abre direto a tela de entrada
+                setCurrentPage(readJoinCodeFromUrl() ? 'join_class' : 'dashboard');
             }
         }
     }, [authState, userRole]);
@@ -1,15 +1,31 @@
 
-import React, { createContext, useState, useContext, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import { useToast } from './ToastContext';
 import { db } from '../components/firebaseClient';
 import { 
     collection, query, where, onSnapshot, doc, updateDoc, 
-    increment, getDoc, setDoc, serverTimestamp, arrayUnion, runTransaction, getDocs, orderBy, deleteDoc, writeBatch, limit, startAfter, QueryDocumentSnapshot, Timestamp 
+    increment, getDoc, setDoc, serverTimestamp, arrayUnion, runTransaction, getDocs, orderBy, deleteDoc, writeBatch, limit, startAfter, QueryDocumentSnapshot, Timestamp, Transaction 
 } from 'firebase/firestore';
-import type { Module, Quiz, Achievement, Activity, TeacherClass, Notification, GradeReport, UserStats, ClassGradeReport, Unidade } from '../types';
+import type { Module, Quiz, Achievement, Activity, TeacherClass, Notification, GradeReport, UserStats, ClassGradeReport, UserStreak, QuizResult, QuizAnswer, ActivitySubmission, ClassJoinCode, ClassJoinRequest } from '../types';
 import { createNotification } from '../utils/createNotification';
-import { fetchGlobalAchievements, fetchUserAchievementsDoc } from '../utils/achievements';
+import { fetchGlobalAchievements, fetchUserAchievementsDoc, mapUserAchievementsDoc, USER_ACHIEVEMENTS_COLLECTION } from '../utils/achievements';
+import { getLevelInfo } from '../utils/levelCurve';
+import { createEmptyStreak } from '../utils/streakPolicy';
+import { canAttemptQuiz, computeQuizResult, getQuizSettings } from '../utils/quizPolicy';
+import { buildLateFields, getDeadlineReferenceTime, getLateStatus, ON_TIME_STATUS } from '../utils/latePolicy';
+import { toSubmissionAttempt } from '../utils/submissionHistory';
+import { serializeQuizAnswers } from '../utils/itemAnalysis';
+import { uploadSubmissionAttachments } from '../utils/submissionAttachments';
+import { buildSubjectReports } from '../utils/gradeComposition';
+import { useClosedUnidadeCheck } from '../hooks/useSchoolCalendar';
+import { fetchSchoolCalendar, getActivitySchoolYear, isUnidadeClosed } from '../utils/schoolCalendar';
+import { isActivityAvailableTo } from '../utils/recovery';
+import { fetchJoinCode, getJoinCodeProblem, joinCodeRef, mapJoinCode, normalizeJoinCode } from '../utils/classCodes';
+import {
+    ActivitySubmissionPayload, appendToOutbox, createOutboxEntry, isFailedOutboxEntry, isOfflineError, isPermanentSyncError,
+    loadOutbox, OutboxEntry, QuizResultPayload, saveOutbox
+} from '../utils/submissionOutbox';
 
 export interface StudentDataContextType {
     modules: Module[];
@@ -17,30 +33,43 @@ export interface StudentDataContextType {
     achievements: Achievement[];
     activities: Activity[];
     studentClasses: TeacherClass[];
+    joinRequests: ClassJoinRequest[]; // Pedidos de entrada aguardando aprovação do professor
     notifications: Notification[];
     gradeReport: GradeReport;
     userStats: UserStats;
+    streak: UserStreak;
     unreadNotificationCount: number;
     isLoading: boolean;
     hasMoreActivities: boolean;
     isLoadingMoreActivities: boolean;
+    // Envios feitos sem conexão, aguardando sincronização (ou com falha, ver failedReason)
+    pendingSync: OutboxEntry[];
+    isOnline: boolean;
+    isSyncing: boolean;
     
     refreshData: (forceRefresh?: boolean) => Promise<void>;
     loadMoreActivities: () => Promise<void>;
     fetchClassSpecificHistory: (classId: string) => Promise<void>;
-    handleQuizComplete: (quizId: string, title: string, score: number, total: number) => Promise<number>;
-    handleActivitySubmit: (activityId: string, content: string) => Promise<void>;
+    handleQuizStart: (quizId: string) => Promise<number | null>;
+    handleQuizComplete: (quizId: string, title: string, score: number, total: number, answers?: Record<number, QuizAnswer>) => Promise<number>;
+    handleActivitySubmit: (activityId: string, content: string, files?: File[]) => Promise<void>;
+    handleMultipleChoiceSubmit: (activityId: string, answers: Record<number, QuizAnswer>) => Promise<void>;
     handleJoinClass: (code: string) => Promise<boolean>;
     handleLeaveClass: (classId: string) => void;
     handleMarkAllNotificationsRead: () => Promise<void>;
     handleMarkNotificationAsRead: (id: string) => Promise<void>;
     handleModuleProgressUpdate: (moduleId: string, progress: number) => Promise<void>;
     handleModuleComplete: (moduleId: string) => Promise<void>;
+    syncPendingSubmissions: () => Promise<void>;
+    retryOutboxEntry: (entryId: string) => Promise<void>;
+    discardOutboxEntry: (entryId: string) => void;
 }
 
 export const StudentDataContext = createContext<StudentDataContextType | undefined>(undefined);
 
 const ACTIVITIES_PER_PAGE = 10;
+// Tolerância do envio após o fim do tempo de um quiz (a mesma de quizAttemptDeadline em rules.txt)
+const QUIZ_SUBMIT_GRACE_MS = 30 * 1000;
 
 export function StudentDataProvider({ children }: { children: React.ReactNode }) {
     const { user } = useAuth();
@@ -51,6 +80,7 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
     const [achievements, setAchievements] = useState<Achievement[]>([]);
     const [activities, setActivities] = useState<Activity[]>([]);
     const [studentClasses, setStudentClasses] = useState<TeacherClass[]>([]);
+    const [joinRequests, setJoinRequests] = useState<ClassJoinRequest[]>([]);
     
     // FASE 2: Separação de estados para notificações Híbridas
     const [privateNotifications, setPrivateNotifications] = useState<Notification[]>([]);
@@ -59,7 +89,8 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
     // FASE 3: Estado para Recibos de Leitura (Read Receipts)
     const [readReceipts, setReadReceipts] = useState<Set<string>>(new Set());
     
-    const [userStats, setUserStats] = useState<UserStats>({ xp: 0, level: 1, xpForNextLevel: 100, levelName: 'Iniciante' });
+    const [userStats, setUserStats] = useState<UserStats>(() => getLevelInfo(0));
+    const [streak, setStreak] = useState<UserStreak>(() => createEmptyStreak());
     
     const [isLoading, setIsLoading] = useState(true);
     
@@ -68,6 +99,38 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
     const [hasMoreActivities, setHasMoreActivities] = useState(false);
     const [isLoadingMoreActivities, setIsLoadingMoreActivities] = useState(false);
 
+    // Outbox offline (fila persistida no localStorage)
+    const [pendingSync, setPendingSync] = useState<OutboxEntry[]>([]);
+    const pendingSyncRef = useRef<OutboxEntry[]>([]);
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const isSyncingRef = useRef(false);
+
+    useEffect(() => {
+        const entries = user && user.role === 'aluno' ? loadOutbox(user.id) : [];
+        pendingSyncRef.current = entries;
+        setPendingSync(entries);
+    }, [user?.id]);
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    const updateOutbox = useCallback((updater: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+        if (!user) return;
+        const next = updater(pendingSyncRef.current);
+        pendingSyncRef.current = next;
+        saveOutbox(user.id, next);
+        setPendingSync(next);
+    }, [user]);
+
     // Notification Listener 1: Private Messages (Direct) + Read Receipts Listener
     useEffect(() => {
         if (!user || user.role !== 'aluno') return;
@@ -163,6 +226,34 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
         return () => unsubBroadcast();
     }, [user, studentClasses]);
 
+    // Listener 3: Gamificação. XP, stats, sequência e conquistas são mantidos pelas Cloud Functions (functions/src);
+    // aqui o documento é apenas refletido na UI, avisando os desbloqueios que chegam durante a sessão.
+    useEffect(() => {
+        if (!user || user.role !== 'aluno') return;
+        let knownUnlocks: Set<string> | null = null;
+
+        const unsubGamification = onSnapshot(doc(db, USER_ACHIEVEMENTS_COLLECTION, user.id), (snap) => {
+            const data = mapUserAchievementsDoc(snap.data());
+            setUserStats(getLevelInfo(data.xp));
+            setStreak({ ...createEmptyStreak(), ...data.streak });
+
+            const unlockedIds = Object.keys(data.unlocked || {});
+            const fresh = knownUnlocks ? unlockedIds.filter(id => !knownUnlocks!.has(id)) : [];
+            knownUnlocks = new Set(unlockedIds);
+            if (fresh.length === 0) return;
+
+            setAchievements(prev => prev.map(a => fresh.includes(a.id)
+                ? { ...a, unlocked: true, date: new Date(data.unlocked[a.id].date).toLocaleDateString('pt-BR') }
+                : a
+            ));
+            fetchGlobalAchievements().then(all => {
+                all.filter(a => fresh.includes(a.id)).forEach(a => addToast(`🏆 Conquista desbloqueada: ${a.title}`, 'success'));
+            });
+        });
+
+        return () => unsubGamification();
+    }, [user, addToast]);
+
     // Merge Notifications (Híbrido) + Aplicação dos Read Receipts (Fase 3)
     const notifications = useMemo(() => {
         const combined = [...privateNotifications, ...broadcastNotifications];
@@ -219,7 +310,9 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
             
             snap.docs.forEach(d => {
                 const data = d.data();
-                fetchedActivities.push({ id: d.id, ...data } as Activity);
+                const activity = { id: d.id, ...data } as Activity;
+                // Recuperação só aparece para os alunos convocados
+                if (user && isActivityAvailableTo(activity, user.id)) fetchedActivities.push(activity);
             });
 
             return {
@@ -232,7 +325,7 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
             console.error("Error fetching paginated activities:", error);
             return { activities: [], lastDoc: null, hasMore: false };
         }
-    }, []);
+    }, [user]);
 
     const loadMoreActivities = async () => {
         if (!lastActivityDoc || isLoadingMoreActivities || studentClasses.length === 0) return;
@@ -284,7 +377,7 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                     ...data,
                     className: data.className || className
                 } as Activity;
-            });
+            }).filter(activity => isActivityAvailableTo(activity, user.id));
 
             setActivities(prev => {
                 const existingIds = new Set(prev.map(a => a.id));
@@ -349,6 +442,19 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
             setStudentClasses(myClasses);
             const myClassIds = myClasses.map(c => c.id);
 
+            // Pedidos de entrada ainda não respondidos (turmas com aprovação)
+            try {
+                const requestsSnap = await getDocs(query(
+                    collection(db, "join_requests"),
+                    where("studentId", "==", user.id),
+                    where("status", "==", "pending")
+                ));
+                setJoinRequests(requestsSnap.docs.map(d => {
+                    const data = d.data();
+                    return { id: d.id, ...data, createdAt: data.createdAt?.toDate ? data.createdAt.toDate().toISOString() : new Date().toISOString() } as ClassJoinRequest;
+                }));
+            } catch (e) { console.warn("Error fetching join requests:", e); }
+
             // 3. Fetch Content: Quizzes e Módulos
             let quizzesQuery = query(collection(db, "quizzes"), where("status", "==", "Ativo"));
             let modulesQuery = query(collection(db, "modules"), where("status", "==", "Ativo"), where("visibility", "==", "public"));
@@ -399,8 +505,10 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                 fetchUserAchievementsDoc(user.id)
             ]);
 
+            const unlockedMap = userAchievementsDoc.unlocked || {};
+
             const mergedAchievements = globalAchievements.map(ach => {
-                const userUnlockData = userAchievementsDoc.unlocked[ach.id];
+                const userUnlockData = unlockedMap[ach.id];
                 return {
                     ...ach,
                     unlocked: !!userUnlockData,
@@ -408,20 +516,16 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                 } as Achievement;
             });
             setAchievements(mergedAchievements);
-
-            const fetchedStats: UserStats = {
-                xp: userAchievementsDoc.xp,
-                level: userAchievementsDoc.level,
-                xpForNextLevel: 100,
-                levelName: userAchievementsDoc.level < 5 ? 'Iniciante' : 'Estudante'
-            };
-            setUserStats(fetchedStats);
+            // XP e sequência chegam pelo listener de gamificação
             // --- FIM FASE 1 ---
 
             // Process Quiz Attempts
             const quizAttemptsMap: Record<string, number> = {};
+            const quizFinalScoreMap: Record<string, number> = {};
             quizResultsSnap.docs.forEach((d: any) => {
-                quizAttemptsMap[d.id] = d.data().attempts || 0;
+                const result = d.data() as QuizResult;
+                quizAttemptsMap[d.id] = result.attempts || 0;
+                quizFinalScoreMap[d.id] = result.finalScore ?? result.bestScore ?? 0;
             });
 
             const fetchedQuizzes = quizzesSnap.docs.map((d: any) => {
@@ -429,7 +533,8 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                 return { 
                     id: d.id, 
                     ...qData, 
-                    attempts: quizAttemptsMap[d.id] || 0 
+                    attempts: quizAttemptsMap[d.id] || 0,
+                    finalScore: quizFinalScoreMap[d.id]
                 } as Quiz;
             });
 
@@ -496,181 +601,365 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
     // O contador reflete as notificações que NÃO estão marcadas como lidas
     const unreadNotificationCount = notifications.filter(n => !n.read).length;
 
+    // Unidade fechada: atividades sem entrega contam como zero no boletim
+    const isReportUnidadeClosed = useClosedUnidadeCheck(activities);
+
     const gradeReport: GradeReport = useMemo(() => {
         const report: GradeReport = {};
+        if (!user) return report;
+        // Médias ponderadas por matéria conforme o esquema de notas de cada turma
         studentClasses.forEach(cls => {
-            report[cls.id] = { className: cls.name, unidades: {} };
+            const classActivities = activities.filter(a => a.classId === cls.id);
+            report[cls.id] = { className: cls.name, subjects: buildSubjectReports(cls, classActivities, user.id, { isUnidadeClosed: isReportUnidadeClosed }) };
         });
+        return report;
+    }, [studentClasses, activities, user, isReportUnidadeClosed]);
 
-        activities.forEach(activity => {
-            const classReport = report[activity.classId];
-            if (!classReport) return;
+    // FASE 1: Implementação real de handleQuizComplete com persistência e regra de XP
+    // Retorna a mensagem de conflito quando o resultado não pode mais ser registrado.
+    const persistQuizResult = async ({ quizId, title, score, total, answers }: QuizResultPayload): Promise<{ xpEarned: number; conflict?: string }> => {
+        if (!user) return { xpEarned: 0 };
+
+        const resultRef = doc(db, 'users', user.id, 'quiz_results', quizId);
+        const resultSnap = await getDoc(resultRef);
+        const previousResult = resultSnap.exists() ? resultSnap.data() as QuizResult : null;
+        const quiz = quizzes.find(q => q.id === quizId);
+        const settings = getQuizSettings(quiz);
+
+        let xpEarned = 0;
+        const previousAttempts = previousResult?.attempts || 0;
+
+        // Limite de tentativas (também validado em rules.txt)
+        if (!canAttemptQuiz(settings, previousAttempts)) {
+            return { xpEarned: 0, conflict: 'Você já utilizou todas as tentativas deste quiz.' };
+        }
 
-            const submission = activity.submissions?.find(s => s.studentId === user?.id);
+        // Lógica de XP: 10 XP por questão acertada APENAS na PRIMEIRA tentativa.
+        if (previousAttempts === 0) {
+           xpEarned = score * 10;
+        }
 
-            if (submission && submission.status === 'Corrigido' && typeof submission.grade === 'number' && activity.unidade) {
-                const unidadeKey = activity.unidade as Unidade;
-                if (!classReport.unidades[unidadeKey]) {
-                    classReport.unidades[unidadeKey] = { totalPoints: 0, activities: [] };
-                }
-                const unitReport = classReport.unidades[unidadeKey]!;
-                unitReport.totalPoints += submission.grade;
-                unitReport.activities.push({
-                    id: activity.id,
-                    title: activity.title,
-                    grade: submission.grade,
-                    maxPoints: activity.points
-                });
-            }
-        });
-        return report;
-    }, [studentClasses, activities, user]);
+        // Melhor/última/média: a nota considerada segue a scorePolicy do quiz
+        const aggregated = computeQuizResult(previousResult, score, settings.scorePolicy);
+        // Professores que podem ler o resultado (análise de itens): os da turma do quiz ou, se público, os das turmas do aluno
+        const teacherClasses = quiz?.visibility === 'specific_class' && quiz.classId
+            ? studentClasses.filter(c => c.id === quiz.classId)
+            : studentClasses;
+        const teacherIds = Array.from(new Set(teacherClasses.flatMap(c => [c.teacherId, ...(c.teachers || [])]).filter(Boolean)));
+
+        const resultData: Record<string, any> = {
+            quizId,
+            title,
+            userId: user.id,
+            teacherIds,
+            totalQuestions: total,
+            lastCompletedAt: serverTimestamp(),
+            ...aggregated
+        };
 
-    // FASE 1: Implementação real de handleQuizComplete com persistência e regra de XP
-    const handleQuizComplete = async (quizId: string, title: string, score: number, total: number) => {
-        if (!user) return 0;
+        // Respostas por questão para a análise de itens do professor
+        if (answers) {
+            const serialized = serializeQuizAnswers(answers);
+            resultData.lastAnswers = serialized;
+            if (previousAttempts === 0) resultData.firstAnswers = serialized;
+        }
 
-        try {
-            const resultRef = doc(db, 'users', user.id, 'quiz_results', quizId);
-            const resultSnap = await getDoc(resultRef);
+        await setDoc(resultRef, resultData, { merge: true });
 
-            let xpEarned = 0;
-            const previousAttempts = resultSnap.exists() ? resultSnap.data().attempts || 0 : 0;
+        // O XP é lançado no ledger pela Cloud Function onQuizResultCreated, que recalcula a nota
+        // a partir das respostas; o listener de gamificação atualiza o nível quando ele chegar.
+        if (xpEarned > 0) {
+            addToast(`Parabéns! Você ganhou ${xpEarned} XP!`, 'success');
+        } else if (previousAttempts > 0) {
+            addToast(`Quiz concluído! (Sem XP extra por repetição)`, 'info');
+        } else if (score === 0) {
+            addToast(`Quiz concluído! (Sem acertos, sem XP)`, 'info');
+        }
 
-            // Lógica de XP: 10 XP por questão acertada APENAS na PRIMEIRA tentativa.
-            if (previousAttempts === 0) {
-               xpEarned = score * 10;
+        setQuizzes(prev => prev.map(q => {
+            if (q.id === quizId) {
+                return { ...q, attempts: aggregated.attempts, finalScore: aggregated.finalScore };
             }
+            return q;
+        }));
 
-            const resultData = {
-                quizId,
-                title,
-                lastScore: score,
-                totalQuestions: total,
-                lastCompletedAt: serverTimestamp(),
-                attempts: increment(1),
-                // Atualiza o melhor score se o atual for maior, ou mantém o antigo
-                bestScore: resultSnap.exists() ? Math.max(resultSnap.data().bestScore || 0, score) : score
-            };
+        return { xpEarned };
+    };
 
-            await setDoc(resultRef, resultData, { merge: true });
+    // Início da tentativa cronometrada em users/{uid}/quiz_attempts/{quizId}, com a hora do servidor.
+    // Uma tentativa ainda aberta (ex: página recarregada) é retomada em vez de reiniciar o relógio.
+    const handleQuizStart = useCallback(async (quizId: string): Promise<number | null> => {
+        if (!user) return null;
+        const attemptRef = doc(db, 'users', user.id, 'quiz_attempts', quizId);
+        const timeLimitMs = (getQuizSettings(quizzes.find(q => q.id === quizId)).timeLimitMinutes || 0) * 60 * 1000;
 
-            if (xpEarned > 0) {
-                const statsRef = doc(db, "userAchievements", user.id);
-                await setDoc(statsRef, {
-                    xp: increment(xpEarned),
-                    updatedAt: serverTimestamp()
-                }, { merge: true });
+        try {
+            const [attemptSnap, resultSnap] = await Promise.all([
+                getDoc(attemptRef),
+                getDoc(doc(db, 'users', user.id, 'quiz_results', quizId))
+            ]);
+            const startedAt = attemptSnap.data()?.startedAt as Timestamp | undefined;
+            const lastCompletedAt = resultSnap.data()?.lastCompletedAt as Timestamp | undefined;
+            const isOpen = startedAt
+                && (!lastCompletedAt || startedAt.toMillis() > lastCompletedAt.toMillis())
+                && Date.now() < startedAt.toMillis() + timeLimitMs + QUIZ_SUBMIT_GRACE_MS;
+            if (isOpen) return startedAt.toMillis();
+
+            await setDoc(attemptRef, { startedAt: serverTimestamp() });
+            const savedSnap = await getDoc(attemptRef);
+            return (savedSnap.data()?.startedAt as Timestamp).toMillis();
+        } catch (error) {
+            console.error("Erro ao iniciar o quiz:", error);
+            return null;
+        }
+    }, [user, quizzes]);
 
-                setUserStats(prev => ({ 
-                    ...prev, 
-                    xp: prev.xp + xpEarned,
-                    level: Math.floor((prev.xp + xpEarned) / 100) + 1 
-                }));
-                
-                addToast(`Parabéns! Você ganhou ${xpEarned} XP!`, 'success');
-            } else if (previousAttempts > 0) {
-                addToast(`Quiz concluído! (Sem XP extra por repetição)`, 'info');
-            } else if (score === 0) {
-                addToast(`Quiz concluído! (Sem acertos, sem XP)`, 'info');
-            }
+    const handleQuizComplete = async (quizId: string, title: string, score: number, total: number, answers?: Record<number, QuizAnswer>) => {
+        if (!user) return 0;
+        const payload: QuizResultPayload = { quizId, title, score, total, answers };
 
-            setQuizzes(prev => prev.map(q => {
-                if (q.id === quizId) {
-                    return { ...q, attempts: (q.attempts || 0) + 1 };
-                }
-                return q;
-            }));
+        const queueOffline = () => {
+            updateOutbox(entries => appendToOutbox(entries, createOutboxEntry('quiz_result', title, payload)));
+            setQuizzes(prev => prev.map(q => q.id === quizId ? { ...q, attempts: (q.attempts || 0) + 1 } : q));
+            addToast('Sem conexão: seu resultado será enviado quando a internet voltar.', 'info');
+            return 0;
+        };
 
-            return xpEarned;
+        if (!navigator.onLine) return queueOffline();
 
+        try {
+            const { xpEarned, conflict } = await persistQuizResult(payload);
+            if (conflict) addToast(conflict, 'error');
+            return xpEarned;
         } catch (error) {
+            if (isOfflineError(error)) return queueOffline();
             console.error("Erro ao salvar quiz:", error);
             addToast("Erro ao salvar seu resultado.", "error");
             return 0;
         }
     };
 
-    const handleActivitySubmit = async (activityId: string, content: string) => {
+    // Retorna a mensagem de conflito quando a atividade não aceita mais o envio
+    const persistActivitySubmission = async ({ activityId, content, submissionDate, attachments, answers, queuedAt }: ActivitySubmissionPayload): Promise<string | null> => {
+        if (!user) return null;
+
+        const activityRef = doc(db, "activities", activityId);
+        const snap = await getDoc(activityRef);
+
+        if (!snap.exists()) return 'a atividade foi removida pelo professor.';
+
+        const data = snap.data() as Activity;
+        if (data.isVisible === false) return 'a atividade não está mais disponível.';
+        // Unidade encerrada no calendário escolar (também barrada em rules.txt)
+        if (data.unidade && isUnidadeClosed(await fetchSchoolCalendar(getActivitySchoolYear(data)), data.unidade)) {
+            return `a ${data.unidade} já foi encerrada.`;
+        }
+
+        const currentSubmissions = data.submissions || [];
+        if (currentSubmissions.some(s => s.studentId === user.id && s.status === 'Corrigido')) {
+            return 'sua entrega anterior já foi corrigida pelo professor.';
+        }
+
+        // Reenvio (ex: reescrita solicitada): a entrega anterior vai para o histórico em vez de ser sobrescrita
+        const submissionsSubRef = collection(activityRef, "submissions");
+        const previousSnap = await getDoc(doc(submissionsSubRef, user.id));
+        const previous = previousSnap.exists() ? previousSnap.data() as ActivitySubmission : null;
+        const history = previous ? [...(previous.history || []), toSubmissionAttempt(previous)] : [];
+        const attempt = previous ? (previous.attempt || 1) + 1 : 1;
+        // Entrega ainda na fila do professor: o contador de pendentes não muda
+        const wasPending = previous?.status === 'Aguardando correção';
+
+        // O prazo vale pelo momento em que o servidor recebe a entrega (ou em que ela entrou na fila offline,
+        // dentro da tolerância): as regras barram o envio fora do prazo e o atraso é gravado pela
+        // Cloud Function onSubmissionWritten. Aqui é só a prévia exibida ao aluno.
+        // Reescrita pedida pelo professor não conta como atraso.
+        const isRevision = previous?.status === 'Revisão solicitada';
+        const lateStatus = isRevision ? ON_TIME_STATUS : getLateStatus(data, user.id, getDeadlineReferenceTime(new Date(), queuedAt));
+        if (lateStatus.blocked) return 'o prazo de entrega terminou.';
+        const lateFields = buildLateFields(lateStatus);
+
+        // Múltipla Escolha é corrigida pela Cloud Function onSubmissionWritten, com o gabarito atual da atividade
+        const isAutoGraded = data.type === 'Múltipla Escolha' && !!answers && !!data.questions?.length;
+
+        const submissionData = {
+            studentId: user.id,
+            studentName: user.name,
+            submissionDate,
+            content,
+            status: 'Aguardando correção' as const,
+            grade: null,
+            feedback: null,
+            attempt,
+            ...(attachments && attachments.length > 0 ? { attachments } : {}),
+            ...(answers ? { answers } : {}),
+            ...(queuedAt ? { queuedAt } : {})
+        };
+
+        const otherSubmissions = currentSubmissions.filter(s => s.studentId !== user.id);
+        const isFirstSubmission = !previous && otherSubmissions.length === currentSubmissions.length;
+        const pendingDelta = wasPending ? 0 : 1;
+
+        // Mesma escrita: quando a Cloud Function processa a entrega, a lista da atividade já a contém
+        const batch = writeBatch(db);
+        batch.set(doc(submissionsSubRef, user.id), { ...submissionData, ...(history.length > 0 ? { history } : {}) });
+        batch.update(activityRef, {
+            submissions: [...otherSubmissions, submissionData],
+            ...(isFirstSubmission ? { submissionCount: increment(1) } : {}),
+            ...(pendingDelta !== 0 ? { pendingSubmissionCount: increment(pendingDelta) } : {}),
+            status: "Pendente"
+        });
+        await batch.commit();
+
+        addLocalSubmission(activityId, {
+            submissionDate,
+            content,
+            attempt,
+            status: submissionData.status,
+            ...(attachments ? { attachments } : {}),
+            ...(answers ? { answers } : {}),
+            ...lateFields
+        });
+
+        // NOTIFICATION (a correção automática notifica o aluno pelo servidor)
+        if (!isAutoGraded && data.creatorId) {
+            await createNotification({
+                userId: data.creatorId,
+                actorId: user.id,
+                actorName: user.name,
+                type: 'activity_submission',
+                title: attempt > 1 ? "Resposta Reenviada" : "Nova Resposta Recebida",
+                text: `O aluno ${user.name} ${attempt > 1 ? `reenviou (tentativa ${attempt})` : 'enviou'} uma resposta para a atividade "${data.title}".`,
+                classId: data.classId,
+                activityId: activityId
+            });
+        }
+        return null;
+    };
+
+    const addLocalSubmission = (activityId: string, submission: Omit<ActivitySubmission, 'studentId' | 'studentName'>) => {
         if (!user) return;
+        setActivities(prev => prev.map(act => {
+            if (act.id !== activityId) return act;
+            const others = (act.submissions || []).filter(s => s.studentId !== user.id);
+            return {
+                ...act,
+                submissions: [...others, { studentId: user.id, studentName: user.name, ...submission }]
+            };
+        }));
+    };
+
+    // Verificação local do prazo, antes de enviar anexos ou colocar na fila (a definitiva é feita em persistActivitySubmission)
+    const isPastDeadline = (activityId: string) => {
+        const activity = activities.find(a => a.id === activityId);
+        if (!user || !activity || !getLateStatus(activity, user.id).blocked) return false;
+        if (activity.submissions?.some(s => s.studentId === user.id && s.status === 'Revisão solicitada')) return false;
+        addToast("O prazo desta atividade terminou e ela não aceita envios atrasados.", "error");
+        return true;
+    };
+
+    // Envia (ou coloca na fila, sem conexão) a entrega já montada
+    const submitActivityPayload = async (payload: ActivitySubmissionPayload, successMessage: string) => {
+        const queueOffline = () => {
+            const title = activities.find(a => a.id === payload.activityId)?.title || 'Atividade';
+            updateOutbox(entries => appendToOutbox(entries, createOutboxEntry('activity_submission', title, payload)));
+            addLocalSubmission(payload.activityId, { submissionDate: payload.submissionDate, content: payload.content, status: 'Aguardando correção', ...(payload.answers ? { answers: payload.answers } : {}) });
+            addToast("Sem conexão: sua atividade será enviada quando a internet voltar.", "info");
+        };
+
+        if (!navigator.onLine) return queueOffline();
+
         try {
-             const activityRef = doc(db, "activities", activityId);
-             const snap = await getDoc(activityRef);
-             
-             if (snap.exists()) {
-                 const data = snap.data() as Activity;
-                 
-                 const submissionData = {
-                     studentId: user.id,
-                     studentName: user.name,
-                     submissionDate: new Date().toISOString(),
-                     content,
-                     status: 'Aguardando correção',
-                     grade: null,
-                     feedback: null
-                 };
-
-                 const submissionsSubRef = collection(activityRef, "submissions");
-                 await setDoc(doc(submissionsSubRef, user.id), submissionData);
-
-                 const currentSubmissions = data.submissions || [];
-                 const otherSubmissions = currentSubmissions.filter(s => s.studentId !== user.id);
-                 
-                 await updateDoc(activityRef, {
-                     submissions: [...otherSubmissions, submissionData],
-                     status: "Pendente", 
-                     pendingSubmissionCount: increment(1),
-                     submissionCount: increment(1)
-                 });
-
-                 setActivities(prev => prev.map(act => {
-                     if (act.id !== activityId) return act;
-                     const others = (act.submissions || []).filter(s => s.studentId !== user.id);
-                     return {
-                         ...act,
-                         submissions: [...others, { ...submissionData, status: 'Aguardando correção' } as any]
-                     };
-                 }));
-
-                 // NOTIFICATION
-                 if (data.creatorId) {
-                    await createNotification({
-                        userId: data.creatorId,
-                        actorId: user.id,
-                        actorName: user.name,
-                        type: 'activity_submission',
-                        title: "Nova Resposta Recebida",
-                        text: `O aluno ${user.name} enviou uma resposta para a atividade "${data.title}".`,
-                        classId: data.classId,
-                        activityId: activityId
-                    });
-                 }
-
-                 addToast("Atividade enviada com sucesso!", "success");
-             }
+            const conflict = await persistActivitySubmission(payload);
+            if (conflict) addToast(`Não foi possível enviar: ${conflict}`, "error");
+            else addToast(successMessage, "success");
         } catch (e: any) {
-             console.error(e);
-             addToast("Erro ao enviar atividade.", "error");
+            if (isOfflineError(e)) return queueOffline();
+            console.error(e);
+            addToast("Erro ao enviar atividade.", "error");
         }
     };
 
-    const handleJoinClass = async (code: string) => {
+    const handleActivitySubmit = async (activityId: string, content: string, files: File[] = []) => {
+        if (!user || isPastDeadline(activityId)) return;
+        const payload: ActivitySubmissionPayload = { activityId, content, submissionDate: new Date().toISOString() };
+
+        // Anexos vão direto para o Storage: sem conexão não há como guardá-los na fila
+        if (files.length > 0) {
+            if (!navigator.onLine) {
+                addToast("Sem conexão: envie os anexos quando a internet voltar.", "error");
+                return;
+            }
+            try {
+                payload.attachments = await uploadSubmissionAttachments(activityId, user.id, files);
+            } catch (e) {
+                console.error(e);
+                addToast("Erro ao enviar os anexos.", "error");
+                return;
+            }
+        }
+
+        await submitActivityPayload(payload, "Atividade enviada com sucesso!");
+    };
+
+    const handleMultipleChoiceSubmit = async (activityId: string, answers: Record<number, QuizAnswer>) => {
+        if (!user || isPastDeadline(activityId)) return;
+        const payload: ActivitySubmissionPayload = {
+            activityId,
+            content: '',
+            submissionDate: new Date().toISOString(),
+            answers: serializeQuizAnswers(answers)
+        };
+        await submitActivityPayload(payload, "Respostas enviadas! A nota automática aparece em instantes.");
+    };
+
+    const handleJoinClass = async (rawCode: string) => {
         if (!user) return false;
+        const code = normalizeJoinCode(rawCode);
+        // Preenchido dentro da transação quando o código deixa de valer entre a leitura e a gravação
+        let blockedReason: string | null = null;
         try {
-            const classesRef = collection(db, "classes");
-            const q = query(classesRef, where("code", "==", code));
-            const querySnapshot = await getDocs(q);
+            const joinCode = await fetchJoinCode(code);
+            let classId: string;
+            let classData: Record<string, any>;
+
+            if (joinCode) {
+                const problem = getJoinCodeProblem(joinCode);
+                if (problem) {
+                    addToast(problem, "error");
+                    return false;
+                }
+                const classSnap = await getDoc(doc(db, "classes", joinCode.classId));
+                if (!classSnap.exists()) {
+                    addToast("Código da turma inválido.", "error");
+                    return false;
+                }
+                classId = classSnap.id;
+                classData = classSnap.data();
+            } else {
+                // Turmas antigas: código guardado apenas no documento da turma
+                const classesRef = collection(db, "classes");
+                const q = query(classesRef, where("code", "==", code));
+                const querySnapshot = await getDocs(q);
+
+                if (querySnapshot.empty) {
+                    addToast("Código da turma inválido.", "error");
+                    return false;
+                }
 
-            if (querySnapshot.empty) {
-                addToast("Código da turma inválido.", "error");
-                return false;
+                classId = querySnapshot.docs[0].id;
+                classData = querySnapshot.docs[0].data();
             }
-
-            const classDoc = querySnapshot.docs[0];
-            const classId = classDoc.id;
-            const classData = classDoc.data();
             const teacherId = classData.teacherId;
 
+            // Revalida o código dentro da transação (limite de usos disputado por vários alunos)
+            const assertCodeStillValid = async (tx: Transaction) => {
+                if (!joinCode) return;
+                const codeSnap = await tx.get(joinCodeRef(code));
+                const current: ClassJoinCode | null = codeSnap.exists() ? mapJoinCode(code, codeSnap.data()) : null;
+                blockedReason = current ? getJoinCodeProblem(current) : "Este código foi substituído. Peça o novo código ao professor.";
+                if (blockedReason) throw new Error("Join code blocked");
+            };
+
             // Check if already member locally first to avoid transaction overhead
             let isMember = false;
             if (classData.studentIds && Array.isArray(classData.studentIds)) {
@@ -687,6 +976,43 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                 return false;
             }
 
+            if (joinCode?.requireApproval) {
+                const requestRef = doc(db, "join_requests", `${classId}_${user.id}`);
+                const existing = await getDoc(requestRef);
+                if (existing.exists() && existing.data().status === 'pending') {
+                    addToast("Seu pedido já está aguardando a aprovação do professor.", "info");
+                    return false;
+                }
+
+                const request = {
+                    classId,
+                    className: classData.name || "",
+                    teacherId,
+                    studentId: user.id,
+                    studentName: user.name || "",
+                    ...((user as any).avatarUrl ? { avatarUrl: (user as any).avatarUrl } : {}),
+                    code,
+                    status: 'pending' as const,
+                };
+                await runTransaction(db, async (tx) => {
+                    await assertCodeStillValid(tx);
+                    tx.set(requestRef, { ...request, createdAt: serverTimestamp() });
+                });
+
+                setJoinRequests(prev => [...prev.filter(r => r.id !== requestRef.id), { id: requestRef.id, ...request, createdAt: new Date().toISOString() }]);
+                await createNotification({
+                    userId: teacherId,
+                    actorId: user.id,
+                    actorName: user.name,
+                    type: 'join_request',
+                    title: 'Pedido de entrada',
+                    text: `${user.name} pediu para entrar na turma ${classData.name}.`,
+                    classId
+                });
+                addToast("Pedido enviado! Você entrará na turma quando o professor aprovar.", "success");
+                return true;
+            }
+
             // Refactored Transaction: Only update 'classes' collection and 'teacher_history' counters.
             // Removed legacy 'classes' array update inside 'teacher_history'.
             await runTransaction(db, async (tx) => {
@@ -695,6 +1021,7 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                 
                 const classSnap = await tx.get(classRef);
                 if (!classSnap.exists()) throw new Error("Turma não encontrada durante transação.");
+                await assertCodeStillValid(tx);
                 
                 const currentData = classSnap.data();
                 const currentStudentIds = currentData.studentIds || [];
@@ -715,6 +1042,8 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
                     totalStudents: increment(1),
                     lastUpdated: serverTimestamp()
                 }, { merge: true });
+
+                if (joinCode) tx.update(joinCodeRef(code), { uses: increment(1) });
             });
 
             addToast("Entrou na turma com sucesso!", "success");
@@ -724,6 +1053,8 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
         } catch (error: any) {
             if (error.message === "User already in class") {
                 addToast("Você já está nesta turma.", "info");
+            } else if (error.message === "Join code blocked" && blockedReason) {
+                addToast(blockedReason, "error");
             } else {
                 console.error("Error joining class:", error);
                 addToast("Erro ao entrar na turma.", "error");
@@ -789,43 +1120,152 @@ export function StudentDataProvider({ children }: { children: React.ReactNode })
     
     const handleModuleProgressUpdate = async (moduleId: string, progress: number) => {
         if (!user) return;
+        const cleanProgress = Math.floor(progress);
+        // O progresso salvo nunca diminui (rules.txt): revisar páginas anteriores não regrava
+        if (cleanProgress <= (modules.find(m => m.id === moduleId)?.progress || 0)) return;
+        const queueOffline = () => {
+            const title = modules.find(m => m.id === moduleId)?.title || 'Módulo';
+            updateOutbox(entries => appendToOutbox(entries, createOutboxEntry('module_progress', title, { moduleId, progress: cleanProgress, completed: false })));
+            setModules(prev => prev.map(m => m.id === moduleId ? { ...m, progress: cleanProgress } : m));
+        };
+
+        if (!navigator.onLine) return queueOffline();
+
         try {
-            const cleanProgress = Math.floor(progress);
             const userRef = doc(db, "users", user.id);
             
             await updateDoc(userRef, {
-                [`modulesProgress.${moduleId}`]: { progress: cleanProgress, lastUpdated: serverTimestamp() }
+                [`modulesProgress.${moduleId}`]: { progress: cleanProgress, lastUpdated: serverTimestamp() },
+                lastModuleProgressId: moduleId
             });
 
             const updatedModules = modules.map(m => m.id === moduleId ? { ...m, progress: cleanProgress } : m);
             setModules(updatedModules);
             
         } catch (err) {
+            if (isOfflineError(err)) return queueOffline();
             console.error("Erro ao atualizar progresso:", err);
         }
     };
 
     const handleModuleComplete = async (moduleId: string) => {
         if (!user) return;
+        const queueOffline = () => {
+            const title = modules.find(m => m.id === moduleId)?.title || 'Módulo';
+            updateOutbox(entries => appendToOutbox(entries, createOutboxEntry('module_progress', title, { moduleId, progress: 100, completed: true })));
+            setModules(prev => prev.map(m => m.id === moduleId ? { ...m, progress: 100 } : m));
+            addToast('Sem conexão: a conclusão do módulo será registrada quando a internet voltar.', 'info');
+        };
+
+        if (!navigator.onLine) return queueOffline();
+
         try {
             const userRef = doc(db, "users", user.id);
             
             await updateDoc(userRef, {
-                [`modulesProgress.${moduleId}`]: { progress: 100, completedAt: Date.now() }
+                [`modulesProgress.${moduleId}`]: { progress: 100, completedAt: Date.now() },
+                lastModuleProgressId: moduleId
             });
 
             const updatedModules = modules.map(m => m.id === moduleId ? { ...m, progress: 100 } : m);
             setModules(updatedModules);
 
         } catch (err) {
+            if (isOfflineError(err)) return queueOffline();
             console.error("Erro ao concluir módulo:", err);
         }
     };
 
+    // Reaplica um item da fila. Progresso de módulo compara com o servidor para nunca regredir.
+    const replayOutboxEntry = async (entry: OutboxEntry): Promise<string | null> => {
+        if (!user) return null;
+        switch (entry.kind) {
+            case 'activity_submission':
+                return persistActivitySubmission({ ...entry.payload, queuedAt: entry.createdAt });
+            case 'quiz_result':
+                return (await persistQuizResult(entry.payload)).conflict || null;
+            case 'module_progress': {
+                const { moduleId, progress, completed } = entry.payload;
+                const userRef = doc(db, "users", user.id);
+                const userSnap = await getDoc(userRef);
+                const serverProgress = userSnap.data()?.modulesProgress?.[moduleId]?.progress || 0;
+
+                if (completed && serverProgress < 100) {
+                    await updateDoc(userRef, { [`modulesProgress.${moduleId}`]: { progress: 100, completedAt: entry.createdAt }, lastModuleProgressId: moduleId });
+                } else if (!completed && progress > serverProgress) {
+                    await updateDoc(userRef, { [`modulesProgress.${moduleId}`]: { progress, lastUpdated: serverTimestamp() }, lastModuleProgressId: moduleId });
+                }
+                return null;
+            }
+        }
+    };
+
+    // Conflito ou erro definitivo: o item continua na fila como falha, para o aluno copiar, reenviar ou descartar
+    const markOutboxEntryFailed = (entry: OutboxEntry, reason: string) => {
+        updateOutbox(entries => entries.map(e => e.id === entry.id ? { ...e, attempts: e.attempts + 1, failedReason: reason } : e));
+        addToast(`"${entry.label}" não foi sincronizado: ${reason}`, 'error');
+    };
+
+    // Envia a fila em ordem (itens com falha ficam de fora); para no primeiro erro de rede para não inverter a sequência
+    const syncPendingSubmissions = async () => {
+        const queued = pendingSyncRef.current.filter(e => !isFailedOutboxEntry(e));
+        if (!user || isSyncingRef.current || !navigator.onLine || queued.length === 0) return;
+        isSyncingRef.current = true;
+        setIsSyncing(true);
+        let syncedCount = 0;
+
+        try {
+            for (const entry of queued) {
+                try {
+                    const conflict = await replayOutboxEntry(entry);
+                    if (conflict) {
+                        markOutboxEntryFailed(entry, conflict);
+                        continue;
+                    }
+                    updateOutbox(entries => entries.filter(e => e.id !== entry.id));
+                    syncedCount++;
+                } catch (error: any) {
+                    if (isPermanentSyncError(error)) {
+                        console.error("Falha definitiva ao sincronizar envio pendente:", entry, error);
+                        markOutboxEntryFailed(entry, error?.code === 'permission-denied' ? 'o envio não é mais aceito.' : 'erro ao enviar.');
+                        continue;
+                    }
+                    console.warn("Falha ao sincronizar envio pendente:", error);
+                    updateOutbox(entries => entries.map(e => e.id === entry.id ? { ...e, attempts: e.attempts + 1, lastError: error?.message || String(error) } : e));
+                    break;
+                }
+            }
+        } finally {
+            isSyncingRef.current = false;
+            setIsSyncing(false);
+        }
+
+        if (syncedCount > 0) {
+            addToast(`${syncedCount} ${syncedCount === 1 ? 'envio pendente sincronizado' : 'envios pendentes sincronizados'}.`, 'success');
+        }
+    };
+
+    const retryOutboxEntry = async (entryId: string) => {
+        updateOutbox(entries => entries.map(e => e.id === entryId ? { ...e, failedReason: undefined } : e));
+        await syncPendingSubmissions();
+    };
+
+    const discardOutboxEntry = (entryId: string) => {
+        updateOutbox(entries => entries.filter(e => e.id !== entryId));
+    };
+
+    // Sincroniza quando a conexão volta (e após o carregamento inicial, para usar as regras atuais dos quizzes)
+    useEffect(() => {
+        if (isOnline && !isLoading && pendingSyncRef.current.some(e => !isFailedOutboxEntry(e))) {
+            syncPendingSubmissions();
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOnline, isLoading, user?.id]);
+
     const value = {
-        modules, quizzes, achievements, activities, studentClasses, notifications, gradeReport, userStats, unreadNotificationCount, isLoading,
-        hasMoreActivities, isLoadingMoreActivities,
-        loadMoreActivities, fetchClassSpecificHistory, handleQuizComplete, handleActivitySubmit, handleJoinClass, handleLeaveClass, handleMarkAllNotificationsRead, handleMarkNotificationAsRead, handleModuleProgressUpdate, handleModuleComplete, refreshData
+        modules, quizzes, achievements, activities, studentClasses, joinRequests, notifications, gradeReport, userStats, streak, unreadNotificationCount, isLoading,
+        hasMoreActivities, isLoadingMoreActivities, pendingSync, isOnline, isSyncing,
+        loadMoreActivities, fetchClassSpecificHistory, handleQuizStart, handleQuizComplete, handleActivitySubmit, handleMultipleChoiceSubmit, handleJoinClass, handleLeaveClass, handleMarkAllNotificationsRead, handleMarkNotificationAsRead, handleModuleProgressUpdate, handleModuleComplete, syncPendingSubmissions, retryOutboxEntry, discardOutboxEntry, refreshData
     };
 
     return <StudentDataContext.Provider value={value}>{children}</StudentDataContext.Provider>;
@@ -0,0 +1,117 @@
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import type { Achievement, UserAchievementsDoc, UserGamificationStats, XpLedgerSource } from "../../types";
+import { checkNewAchievements, toDayKey } from "../../utils/gamificationEngine";
+import { getLevelForXp } from "../../utils/levelCurve";
+
+export const USER_ACHIEVEMENTS_COLLECTION = "userAchievements";
+export const XP_LEDGER_SUBCOLLECTION = "xp_ledger";
+export const COMPLETIONS_SUBCOLLECTION = "completions";
+
+const EMPTY_STATS: UserGamificationStats = {
+  quizzesCompleted: 0,
+  modulesCompleted: 0,
+  activitiesCompleted: 0,
+  loginStreak: 0
+};
+
+export interface XpGrant {
+  source: XpLedgerSource;
+  amount: number;
+  reason: string;
+  referenceId: string;
+}
+
+interface GamificationProgress {
+  deltas?: Record<string, number>; // Incrementos em stats e no contador do dia
+  grant?: XpGrant; // XP da origem (ex: primeira tentativa de um quiz)
+  completionId?: string; // Marcador em completions (ex: module_{moduleId}): o progresso só é aplicado uma vez
+}
+
+/**
+ * ID determinístico do lançamento: impede conceder XP duas vezes pelo mesmo motivo.
+ */
+export function getXpLedgerEntryId(source: XpLedgerSource, referenceId: string): string {
+  return `${source}_${referenceId}`;
+}
+
+async function fetchActiveAchievements(): Promise<Achievement[]> {
+  const snap = await getFirestore().collection("achievements").where("status", "==", "Ativa").get();
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as Achievement));
+}
+
+/**
+ * Única forma de alterar XP, stats e conquistas de um aluno: as Security Rules não permitem
+ * que o cliente escreva em userAchievements nem no ledger.
+ * Na mesma transação: soma os contadores, lança o XP da origem no ledger (append-only),
+ * avalia as conquistas com a Gamification Engine e lança os pontos de cada desbloqueio.
+ *
+ * @returns Conquistas desbloqueadas nesta chamada.
+ */
+export async function applyGamificationProgress(userId: string, { deltas = {}, grant, completionId }: GamificationProgress = {}): Promise<Achievement[]> {
+  const db = getFirestore();
+  const achievements = await fetchActiveAchievements();
+  const userRef = db.collection(USER_ACHIEVEMENTS_COLLECTION).doc(userId);
+  const ledgerRef = userRef.collection(XP_LEDGER_SUBCOLLECTION);
+  const completionRef = completionId ? userRef.collection(COMPLETIONS_SUBCOLLECTION).doc(completionId) : null;
+
+  return db.runTransaction(async (tx) => {
+    if (completionRef && (await tx.get(completionRef)).exists) return [];
+    const userSnap = await tx.get(userRef);
+    const grantRef = grant && grant.amount > 0 ? ledgerRef.doc(getXpLedgerEntryId(grant.source, grant.referenceId)) : null;
+    const grantIsNew = grantRef ? !(await tx.get(grantRef)).exists : false;
+
+    const current = (userSnap.data() || {}) as Partial<UserAchievementsDoc>;
+    const todayKey = toDayKey(new Date());
+    const stats: UserGamificationStats = { ...EMPTY_STATS, ...current.stats };
+    const today: Record<string, number> = { ...current.daily?.[todayKey] };
+
+    Object.entries(deltas).filter(([, amount]) => amount > 0).forEach(([key, amount]) => {
+      stats[key] = (stats[key] || 0) + amount;
+      today[key] = (today[key] || 0) + amount;
+    });
+
+    const entries: XpGrant[] = grantRef && grantIsNew ? [grant!] : [];
+    const baseXp = (current.xp || 0) + entries.reduce((sum, e) => sum + e.amount, 0);
+
+    const newUnlocks = checkNewAchievements(stats, achievements, current.unlocked || {}, {
+      xp: baseXp,
+      level: getLevelForXp(baseXp),
+      daily: { ...current.daily, [todayKey]: today }
+    });
+
+    const unlocked: Record<string, { date: string; seen: boolean }> = {};
+    newUnlocks.forEach(ach => {
+      unlocked[ach.id] = { date: new Date().toISOString(), seen: false };
+      if ((ach.points || 0) > 0) {
+        entries.push({
+          source: "achievement",
+          amount: ach.points,
+          reason: `Conquista desbloqueada: ${ach.title}`,
+          referenceId: ach.id
+        });
+      }
+    });
+
+    const xp = (current.xp || 0) + entries.reduce((sum, e) => sum + e.amount, 0);
+
+    if (completionRef) tx.create(completionRef, { createdAt: FieldValue.serverTimestamp() });
+
+    entries.forEach(entry => {
+      tx.create(ledgerRef.doc(getXpLedgerEntryId(entry.source, entry.referenceId)), {
+        ...entry,
+        createdAt: FieldValue.serverTimestamp()
+      });
+    });
+
+    tx.set(userRef, {
+      xp,
+      level: getLevelForXp(xp),
+      stats,
+      daily: { [todayKey]: today },
+      ...(newUnlocks.length > 0 ? { unlocked } : {}),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+
+    return newUnlocks;
+  });
+}
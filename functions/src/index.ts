@@ -0,0 +1,7 @@
+import { initializeApp } from "firebase-admin/app";
+
+initializeApp();
+
+export { onQuizResultCreated, onSubmissionCreated, onUserModulesProgressUpdated } from "./progress";
+export { recordDailyActivity } from "./streak";
+export { onSubmissionWritten } from "./submissions";
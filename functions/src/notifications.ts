@@ -0,0 +1,36 @@
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+
+interface ServerNotificationParams {
+  userId: string;
+  actorId: string;
+  actorName: string;
+  type: "activity_correction";
+  title: string;
+  text: string;
+  classId: string;
+  activityId?: string;
+}
+
+/**
+ * Mesmo formato de utils/createNotification.ts, para notificações geradas pelo servidor.
+ */
+export async function createNotification(params: ServerNotificationParams): Promise<void> {
+  await getFirestore().collection("notifications").add({
+    userId: params.userId,
+    actorId: params.actorId,
+    actorName: params.actorName,
+    type: params.type,
+    title: params.title,
+    text: params.text,
+    summary: params.text,
+    deepLink: { page: "activities" }, // Aluno vê a nota na lista de atividades
+    urgency: "high",
+    classId: params.classId,
+    activityId: params.activityId || null,
+    moduleId: null,
+    noticeId: null,
+    groupCount: 1,
+    read: false,
+    timestamp: FieldValue.serverTimestamp()
+  });
+}
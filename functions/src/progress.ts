@@ -0,0 +1,69 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
+import type { Quiz, QuizAnswer } from "../../types";
+import { scoreQuiz } from "../../utils/quizScoring";
+import { applyGamificationProgress } from "./gamification";
+
+// 10 XP por questão acertada, apenas na primeira tentativa (o documento é criado nela)
+const XP_PER_CORRECT_ANSWER = 10;
+
+/**
+ * Primeira conclusão de um quiz: a nota é recalculada a partir das respostas gravadas
+ * (firstAnswers) e do gabarito atual do quiz, nunca a partir do placar enviado pelo cliente.
+ */
+export const onQuizResultCreated = onDocumentCreated("users/{userId}/quiz_results/{quizId}", async (event) => {
+  const { userId, quizId } = event.params;
+  const result = event.data?.data();
+  if (!result) return;
+
+  const quizSnap = await getFirestore().collection("quizzes").doc(quizId).get();
+  if (!quizSnap.exists) return;
+
+  const quiz = quizSnap.data() as Quiz;
+  const questions = quiz.questions || [];
+  const answers = (result.firstAnswers || {}) as Record<number, QuizAnswer>;
+  const score = scoreQuiz(questions, answers);
+
+  await applyGamificationProgress(userId, {
+    deltas: {
+      quizzesCompleted: 1,
+      perfectQuizzes: questions.length > 0 && score === questions.length ? 1 : 0
+    },
+    grant: {
+      source: "quiz",
+      amount: score * XP_PER_CORRECT_ANSWER,
+      reason: `Quiz concluído: ${quiz.title} (${score}/${questions.length})`,
+      referenceId: quizId
+    }
+  });
+});
+
+/**
+ * Primeira entrega de cada atividade conta para as conquistas (reenvios atualizam o mesmo documento).
+ */
+export const onSubmissionCreated = onDocumentCreated("activities/{activityId}/submissions/{studentId}", async (event) => {
+  await applyGamificationProgress(event.params.studentId, { deltas: { activitiesCompleted: 1 } });
+});
+
+/**
+ * Módulos concluídos: as entradas de users.modulesProgress que chegaram a 100% nesta escrita.
+ * Cada módulo existente conta uma única vez (marcador module_{moduleId}), mesmo que o progresso seja regravado.
+ */
+export const onUserModulesProgressUpdated = onDocumentUpdated("users/{userId}", async (event) => {
+  const before = event.data?.before.data()?.modulesProgress || {};
+  const after = event.data?.after.data()?.modulesProgress || {};
+
+  const completed = Object.keys(after).filter(moduleId =>
+    (after[moduleId]?.progress || 0) >= 100 && (before[moduleId]?.progress || 0) < 100
+  );
+
+  for (const moduleId of completed) {
+    const moduleSnap = await getFirestore().collection("modules").doc(moduleId).get();
+    if (!moduleSnap.exists) continue;
+
+    await applyGamificationProgress(event.params.userId, {
+      deltas: { modulesCompleted: 1 },
+      completionId: `module_${moduleId}`
+    });
+  }
+});
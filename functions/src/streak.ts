@@ -0,0 +1,46 @@
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import type { UserStreak } from "../../types";
+import { DEFAULT_TIMEZONE, toDayKey } from "../../utils/gamificationEngine";
+import { computeStreakUpdate, createEmptyStreak } from "../../utils/streakPolicy";
+import { applyGamificationProgress, USER_ACHIEVEMENTS_COLLECTION } from "./gamification";
+
+// Fuso do primeiro registro: apenas zonas IANA conhecidas; as demais usam o fuso da escola
+function getInitialTimeZone(requested?: string): string {
+  return requested && Intl.supportedValuesOf("timeZone").includes(requested) ? requested : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Registra a atividade diária do aluno com o relógio do servidor, espelha os valores
+ * em stats (loginStreak/longestStreak) e avalia as conquistas de sequência.
+ * O fuso enviado pelo cliente só vale no primeiro registro; depois vale o gravado,
+ * para que trocar de fuso não desloque a virada do dia.
+ */
+export const recordDailyActivity = onCall<{ timeZone?: string }>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) throw new HttpsError("unauthenticated", "Faça login para registrar a sequência.");
+
+  const db = getFirestore();
+  const profile = await db.collection("users").doc(userId).get();
+  if (profile.data()?.status === "Inativo") throw new HttpsError("permission-denied", "Conta desativada.");
+
+  const ref = db.collection(USER_ACHIEVEMENTS_COLLECTION).doc(userId);
+
+  const streak = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const previous = snap.data()?.streak as UserStreak | undefined;
+    const timeZone = previous ? previous.timeZone || DEFAULT_TIMEZONE : getInitialTimeZone(request.data?.timeZone);
+    const next = computeStreakUpdate(previous ? { ...previous, timeZone } : createEmptyStreak(timeZone), toDayKey(new Date(), timeZone));
+
+    tx.set(ref, {
+      streak: next,
+      stats: { loginStreak: next.current, longestStreak: next.longest },
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+
+    return next;
+  });
+
+  await applyGamificationProgress(userId);
+  return streak;
+});
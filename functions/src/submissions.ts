@@ -0,0 +1,76 @@
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import type { Activity, ActivitySubmission, QuizAnswer } from "../../types";
+import { applyLatePenalty, buildLateFields, getDeadlineReferenceTime, getLateStatus, ON_TIME_STATUS } from "../../utils/latePolicy";
+import { computeAutoGrade } from "../../utils/quizScoring";
+import { createNotification } from "./notifications";
+
+/**
+ * Recebimento de uma entrega: o aluno só grava o conteúdo como 'Aguardando correção'.
+ * Aqui o atraso é calculado com o relógio do servidor (o prazo em si é barrado em rules.txt),
+ * ou pelo momento em que a entrega entrou na fila offline, se sincronizada dentro da tolerância
+ * e a Múltipla Escolha é corrigida com o gabarito atual da atividade (o professor ainda pode alterar a nota).
+ * `receivedAt` marca a entrega como processada; o aluno não pode gravá-lo.
+ */
+export const onSubmissionWritten = onDocumentWritten("activities/{activityId}/submissions/{studentId}", async (event) => {
+  const { activityId, studentId } = event.params;
+  const submission = event.data?.after.data() as ActivitySubmission | undefined;
+  if (!submission || submission.status !== "Aguardando correção" || submission.receivedAt) return;
+
+  // Reescrita pedida pelo professor não conta como atraso
+  const isRevision = event.data?.before.data()?.status === "Revisão solicitada";
+  const receivedAt = new Date(event.time);
+
+  const db = getFirestore();
+  const activityRef = db.collection("activities").doc(activityId);
+  const submissionRef = activityRef.collection("submissions").doc(studentId);
+
+  const graded = await db.runTransaction(async (tx) => {
+    const [activitySnap, currentSnap] = await Promise.all([tx.get(activityRef), tx.get(submissionRef)]);
+    const activity = activitySnap.data() as Activity | undefined;
+    const current = currentSnap.data() as ActivitySubmission | undefined;
+
+    // Outra escrita já mudou a entrega (ex: novo envio ou correção do professor)
+    if (!activity || !current || current.receivedAt || current.status !== "Aguardando correção" || current.submissionDate !== submission.submissionDate) return null;
+
+    // Entrega da fila offline: vale o momento em que foi feita, dentro da tolerância
+    const lateStatus = isRevision ? ON_TIME_STATUS : getLateStatus(activity, studentId, getDeadlineReferenceTime(receivedAt, current.queuedAt));
+    const isAutoGraded = activity.type === "Múltipla Escolha" && !!current.answers && !!activity.questions?.length;
+    const rawGrade = isAutoGraded ? computeAutoGrade(activity.questions!, current.answers as Record<number, QuizAnswer>, activity.points) : 0;
+
+    const serverData = {
+      receivedAt: receivedAt.toISOString(),
+      ...buildLateFields(lateStatus),
+      ...(isAutoGraded ? {
+        status: "Corrigido" as const,
+        grade: applyLatePenalty(rawGrade, lateStatus.penaltyPercent),
+        feedback: null,
+        gradedAt: new Date().toISOString(),
+        autoGraded: true,
+        ...(lateStatus.penaltyPercent > 0 ? { rawGrade } : {})
+      } : {})
+    };
+
+    const submissions = (activity.submissions || []).map(s => s.studentId === studentId ? { ...s, ...serverData } : s);
+
+    tx.update(submissionRef, serverData);
+    tx.update(activityRef, {
+      submissions,
+      ...(isAutoGraded ? { pendingSubmissionCount: FieldValue.increment(-1) } : {})
+    });
+    return isAutoGraded ? { activity, grade: serverData.grade! } : null;
+  });
+
+  if (!graded) return;
+
+  await createNotification({
+    userId: studentId,
+    actorId: graded.activity.creatorId || "system",
+    actorName: graded.activity.creatorName || "Correção automática",
+    type: "activity_correction",
+    title: "Atividade Corrigida",
+    text: `Sua atividade "${graded.activity.title}" foi corrigida automaticamente. Nota: ${graded.grade}`,
+    classId: graded.activity.classId,
+    activityId
+  });
+});
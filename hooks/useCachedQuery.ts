@@ -4,7 +4,8 @@ import { getDocs, Query, DocumentData } from "firebase/firestore";
 import { getSessionCache, setSessionCache, removeSessionCache } from "../utils/cacheUtils";
 
 export function useCachedQuery(cacheKey: string, queryRefFactory: () => Query | null, deps: any[] = []) {
-  const [data, setData] = useState<DocumentData[] | null | undefined>(() => getSessionCache(cacheKey));
+  // Cache ausente precisa virar undefined (e não null), senão a primeira busca nunca acontece
+  const [data, setData] = useState<DocumentData[] | null | undefined>(() => getSessionCache(cacheKey) ?? undefined);
   const [loading, setLoading] = useState(!data);
   const [error, setError] = useState<any>(null);
 
@@ -0,0 +1,68 @@
+// hooks/useOfflineModules.ts
+import { useCallback, useEffect, useState } from "react";
+import type { Module, ModuleDownloadState } from "../types";
+import {
+  downloadModuleForOffline,
+  getStorageEstimate,
+  isOfflineStorageSupported,
+  listOfflineModules,
+  OfflineModuleRecord,
+  removeOfflineModule,
+  StorageEstimate,
+} from "../utils/offlineModules";
+
+/**
+ * Estado dos módulos baixados para uso offline (IndexedDB + Cache Storage) pelo usuário logado.
+ */
+export function useOfflineModules(userId?: string) {
+  const [records, setRecords] = useState<OfflineModuleRecord[]>([]);
+  const [downloading, setDownloading] = useState<Set<string>>(new Set());
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const isSupported = isOfflineStorageSupported() && !!userId;
+
+  const refresh = useCallback(async () => {
+    if (!isSupported || !userId) {
+      setRecords([]);
+      return;
+    }
+    try {
+      const [list, storage] = await Promise.all([listOfflineModules(userId), getStorageEstimate()]);
+      setRecords(list);
+      setEstimate(storage);
+    } catch (error) {
+      console.warn("Não foi possível ler os módulos offline:", error);
+    }
+  }, [isSupported, userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getDownloadState = useCallback((moduleId: string): ModuleDownloadState => {
+    if (downloading.has(moduleId)) return "downloading";
+    return records.some(r => r.moduleId === moduleId) ? "downloaded" : "not_downloaded";
+  }, [downloading, records]);
+
+  const download = useCallback(async (module: Module) => {
+    if (!userId) return;
+    setDownloading(prev => new Set(prev).add(module.id));
+    try {
+      await downloadModuleForOffline(userId, module);
+      await refresh();
+    } finally {
+      setDownloading(prev => {
+        const next = new Set(prev);
+        next.delete(module.id);
+        return next;
+      });
+    }
+  }, [userId, refresh]);
+
+  const remove = useCallback(async (moduleId: string) => {
+    if (!userId) return;
+    await removeOfflineModule(userId, moduleId);
+    await refresh();
+  }, [userId, refresh]);
+
+  return { isSupported, records, estimate, getDownloadState, download, remove };
+}
@@ -0,0 +1,37 @@
+// hooks/useSchoolCalendar.ts
+import { useEffect, useState } from "react";
+import type { Activity, SchoolCalendar } from "../types";
+import { fetchSchoolCalendar, getActivitySchoolYear, loadClosedUnidadeCheck } from "../utils/schoolCalendar";
+
+// Calendário escolar do ano (null enquanto carrega ou se a leitura falhar)
+export function useSchoolCalendar(year: number = new Date().getFullYear()) {
+  const [calendar, setCalendar] = useState<SchoolCalendar | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    fetchSchoolCalendar(year)
+      .then(data => { if (mounted) setCalendar(data); })
+      .catch(error => console.error("Error fetching school calendar:", error))
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, [year]);
+
+  return { calendar, loading };
+}
+
+// Unidades fechadas das atividades, para os boletins (undefined enquanto os calendários carregam)
+export function useClosedUnidadeCheck(activities: Activity[]) {
+  const yearsKey = Array.from(new Set(activities.filter(a => a.unidade).map(getActivitySchoolYear))).sort().join(",");
+  const [check, setCheck] = useState<{ isUnidadeClosed: (activity: Activity) => boolean } | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    const years = yearsKey ? yearsKey.split(",").map(Number) : [];
+    loadClosedUnidadeCheck(years).then(isUnidadeClosed => { if (mounted) setCheck({ isUnidadeClosed }); });
+    return () => { mounted = false; };
+  }, [yearsKey]);
+
+  return check?.isUnidadeClosed;
+}
@@ -17,6 +17,34 @@ export type UserStatus = 'Ativo' | 'Pendente' | 'Inativo';
 export interface AdminUser extends User {
   registrationDate: string;
   status: UserStatus;
+  isPreRegistration?: boolean; // Importado via CSV, ainda sem conta (users_preregistrations)
+}
+
+// Pré-cadastro importado via CSV: users_preregistrations/{emailEmMinúsculas}
+// Aplicado automaticamente quando o usuário cria a conta com o mesmo email.
+export interface UserPreRegistration {
+  email: string;
+  name: string;
+  role: Exclude<Role, null>;
+  series?: string;
+  status: 'Pendente';
+  importedBy: string;
+  importedAt: string;
+}
+
+export type UserAuditAction = 'role_change' | 'status_change' | 'import' | 'preregistration_claimed';
+
+// Trilha de auditoria (append-only): user_audit_log/{id}
+export interface UserAuditLogEntry {
+  id: string;
+  action: UserAuditAction;
+  targetUserId: string | null; // null para pré-cadastros ainda sem conta
+  targetEmail: string;
+  targetName: string;
+  actorId: string;
+  actorName: string;
+  changes: Record<string, { from: any; to: any }>;
+  timestamp: string;
 }
 
 export interface Achievement {
@@ -31,28 +59,75 @@ export interface Achievement {
   criterion?: string;
   criterionType?: 'modules' | 'quizzes' | 'activities';
   criterionCount?: number;
+  condition?: AchievementCondition; // Critério data-driven (tem prioridade sobre criterionType)
   category?: 'social' | 'learning' | 'engagement';
   rarity?: 'common' | 'rare' | 'epic';
   status?: 'Ativa' | 'Inativa';
 }
 
+// --- Linguagem de Critérios de Conquistas ---
+// Métricas avaliáveis: qualquer chave de UserGamificationStats, além de 'xp' e 'level'.
+export type AchievementMetric = keyof UserGamificationStats | 'xp' | 'level';
+export type AchievementOperator = '>=' | '>' | '==' | '<=' | '<';
+
+export interface AchievementRuleCondition {
+  kind: 'rule';
+  metric: AchievementMetric;
+  operator: AchievementOperator;
+  value: number;
+  // Janela de tempo em dias: considera apenas o que foi acumulado nos últimos N dias (usa UserAchievementsDoc.daily)
+  windowDays?: number;
+}
+
+export interface AchievementGroupCondition {
+  kind: 'all' | 'any'; // 'all' = E, 'any' = OU
+  conditions: AchievementCondition[];
+}
+
+export type AchievementCondition = AchievementRuleCondition | AchievementGroupCondition;
+
 // Novos tipos para a Fase 1 da Gamificação (Stat-Driven Architecture)
 export interface UserGamificationStats {
   quizzesCompleted: number;
   modulesCompleted: number;
   activitiesCompleted: number;
   loginStreak: number;
-  [key: string]: number; // Extensible
+  [key: string]: number; // Extensible (ex: perfectQuizzes)
 }
 
 export interface UserAchievementsDoc {
   xp: number;
   level: number;
   stats: UserGamificationStats;
+  // Contadores diários (YYYY-MM-DD -> incrementos do dia), usados nas janelas de tempo dos critérios
+  daily?: Record<string, Record<string, number>>;
   unlocked: Record<string, { date: string; seen: boolean }>; // Map<AchievementID, Data>
+  streak?: UserStreak;
   updatedAt?: any;
 }
 
+// Sequência de dias com atividade (streak), calculada no fuso da escola
+export interface UserStreak {
+  current: number;
+  longest: number;
+  lastActiveDate: string; // YYYY-MM-DD no fuso `timeZone`
+  freezes: number; // Proteções disponíveis: cobrem dias perdidos sem zerar a sequência
+  freezesUsed: number; // Total de proteções já consumidas
+  timeZone: string;
+}
+
+// Ledger de XP (append-only): userAchievements/{userId}/xp_ledger/{source}_{referenceId}
+export type XpLedgerSource = 'quiz' | 'achievement';
+
+export interface XpLedgerEntry {
+  id: string;
+  source: XpLedgerSource;
+  amount: number;
+  reason: string;
+  referenceId: string; // ID do quiz, conquista, etc. Garante idempotência via ID do documento
+  createdAt?: any;
+}
+
 export interface ModuleProgress {
   id: string;
   name: string;
@@ -84,7 +159,8 @@ export interface Notification {
 export interface UserStats {
   xp: number;
   level: number;
-  xpForNextLevel: number;
+  xpForCurrentLevel: number; // XP total em que o nível atual começa
+  xpForNextLevel: number; // XP total em que o próximo nível é alcançado
   levelName: string;
 }
 
@@ -101,6 +177,7 @@ export type Page =
   | 'notifications'
   | 'module_view'
   | 'boletim'
+  | 'calendar'
   // Teacher
   | 'teacher_dashboard'
   | 'teacher_main_dashboard'
@@ -109,6 +186,7 @@ export type Page =
   | 'teacher_statistics'
   | 'teacher_pending_activities'
   | 'teacher_school_records'
+  | 'teacher_calendar'
   | 'class_view'
   // Admin
   | 'admin_dashboard'
@@ -118,6 +196,7 @@ export type Page =
   | 'admin_achievements'
   | 'admin_stats'
   | 'admin_tests'
+  | 'admin_calendar'
   | 'admin_create_quiz'
   | 'admin_create_achievement'
   | 'admin_create_module'; // New admin specific page
@@ -152,14 +231,66 @@ export interface QuizChoice {
   text: string;
 }
 
+// Tipos de questão suportados pelo motor de quiz (utils/quizScoring.ts).
+// Questões antigas não possuem 'type' e são lidas como 'single'.
+export type QuizQuestionType = 'single' | 'true_false' | 'multi_select' | 'ordering' | 'matching' | 'fill_blank' | 'numeric';
+
+export interface QuizMatchPair {
+  id: string;
+  left: string;
+  right: string;
+}
+
 export interface QuizQuestion {
   id: number;
   question: string;
+  type?: QuizQuestionType;
+  // single/true_false/multi_select: alternativas. ordering: itens já na ORDEM CORRETA.
   choices: QuizChoice[];
   correctAnswerId: string;
+  correctAnswerIds?: string[]; // multi_select
+  pairs?: QuizMatchPair[]; // matching
+  acceptedAnswers?: string[]; // fill_blank (comparação sem acentos/maiúsculas)
+  numericAnswer?: number; // numeric
+  numericTolerance?: number; // numeric (margem aceita, ex: 0.5)
   mediaUrl?: string; // Optional URL for an image or YouTube video
+  bankQuestionId?: string; // Origem no banco de questões (question_bank), para rastrear o uso
 }
 
+// --- BANCO DE QUESTÕES ---
+export type QuestionDifficulty = 'Fácil' | 'Médio' | 'Difícil';
+
+export interface QuestionBankTags {
+  series?: string;
+  materia?: string;
+  period?: string; // Período histórico (ex: "Brasil Império")
+  bnccCode?: string; // Código de habilidade BNCC (ex: EF08HI06)
+  difficulty?: QuestionDifficulty;
+}
+
+export type QuestionUsageKind = 'quiz' | 'module' | 'activity';
+
+export interface QuestionUsage {
+  kind: QuestionUsageKind;
+  id: string;
+  title: string;
+}
+
+// Documento question_bank/{id}
+export interface QuestionBankItem {
+  id: string;
+  question: QuizQuestion;
+  tags: QuestionBankTags;
+  creatorId: string;
+  creatorName: string;
+  createdAt?: any;
+  usages?: Record<string, QuestionUsage>; // Chave = getQuestionUsageKey (kind_id)
+}
+
+// Resposta do aluno: id da alternativa, lista de ids (multi_select/ordering),
+// mapa par -> par escolhido (matching) ou texto livre (fill_blank/numeric).
+export type QuizAnswer = string | string[] | Record<string, string>;
+
 export type ModuleStatus = 'Concluído' | 'Em progresso' | 'Não iniciado';
 export type ModuleDownloadState = 'not_downloaded' | 'downloading' | 'downloaded';
 
@@ -187,6 +318,39 @@ export interface Module {
   date?: string;
 }
 
+// Quando o aluno pode ver o gabarito após enviar o quiz
+export type QuizRevealPolicy = 'immediately' | 'after_due_date' | 'never';
+// Qual nota fica registrada em quiz_results quando há várias tentativas
+export type QuizScorePolicy = 'best' | 'last' | 'average';
+
+export interface QuizSettings {
+  timeLimitMinutes?: number; // 0 ou ausente = sem limite
+  maxAttempts?: number; // 0 ou ausente = ilimitado
+  shuffleQuestions?: boolean;
+  shuffleChoices?: boolean;
+  revealAnswers?: QuizRevealPolicy;
+  dueDate?: string; // YYYY-MM-DD, usado pela política 'after_due_date'
+  scorePolicy?: QuizScorePolicy;
+}
+
+// Documento users/{uid}/quiz_results/{quizId}
+export interface QuizResult {
+  quizId: string;
+  title: string;
+  lastScore: number;
+  bestScore: number;
+  scoreSum?: number; // soma das notas de todas as tentativas (política 'average')
+  finalScore?: number; // nota considerada segundo a scorePolicy do quiz
+  totalQuestions: number;
+  attempts: number;
+  lastCompletedAt?: any;
+  userId?: string; // Permite consultas collectionGroup (análise de itens do professor)
+  teacherIds?: string[]; // Professores do aluno com acesso ao resultado (análise de itens)
+  // Respostas por questão (chave = id da questão). A análise de itens usa a primeira tentativa.
+  firstAnswers?: Record<string, QuizAnswer>;
+  lastAnswers?: Record<string, QuizAnswer>;
+}
+
 export interface Quiz {
   id: string;
   title: string;
@@ -194,7 +358,9 @@ export interface Quiz {
   visibility: 'public' | 'specific_class';
   classId?: string;
   questions: QuizQuestion[];
+  settings?: QuizSettings;
   attempts?: number;
+  finalScore?: number; // Preenchido no lado do aluno a partir de quiz_results
   series?: string | string[]; // Updated to support array
   materia?: string | string[]; // Updated to support array
   subjects?: string[]; // Explicit support for subjects array
@@ -208,6 +374,8 @@ export interface Quiz {
 // Activity Types
 export type ActivityType = 'Tarefa (Texto)' | 'Múltipla Escolha';
 
+export type SubmissionStatus = 'Aguardando correção' | 'Corrigido' | 'Revisão solicitada';
+
 export interface ActivitySubmission {
   studentId: string;
   studentName: string;
@@ -215,10 +383,94 @@ export interface ActivitySubmission {
   studentSeries?: string; // Denormalized
   submissionDate: string;
   content: string;
-  status: 'Aguardando correção' | 'Corrigido';
+  status: SubmissionStatus;
   grade?: number;
   feedback?: string;
   gradedAt?: string;
+  attempt?: number; // Número da tentativa atual (1 = primeiro envio)
+  revisionRequestedAt?: string;
+  history?: SubmissionAttempt[]; // Tentativas anteriores (apenas no documento da subcoleção)
+  answers?: Record<string, QuizAnswer>; // Múltipla Escolha: resposta por questão (chave = id da questão)
+  autoGraded?: boolean; // Nota calculada automaticamente pelo gabarito (Múltipla Escolha)
+  rubricScores?: Record<string, string>; // Rubrica preenchida: id do critério -> id do nível escolhido
+  attachments?: SubmissionAttachment[]; // Arquivos enviados pelo aluno (foto, PDF, áudio)
+  isLate?: boolean; // Enviada após o prazo (considerando a extensão do aluno)
+  daysLate?: number;
+  latePenaltyPercent?: number; // Desconto aplicado sobre a nota
+  rawGrade?: number; // Nota antes do desconto por atraso
+  receivedAt?: string; // Recebimento registrado pelo servidor, base do cálculo de atraso
+  queuedAt?: number; // Entrega feita sem conexão: momento (ms) em que entrou na fila
+}
+
+// Tentativa anterior de uma entrega, arquivada quando o aluno reenvia
+export interface SubmissionAttempt {
+  attempt: number;
+  submissionDate: string;
+  content: string;
+  status: SubmissionStatus;
+  grade?: number;
+  feedback?: string;
+  gradedAt?: string;
+  attachments?: SubmissionAttachment[];
+  answers?: Record<string, QuizAnswer>;
+  isLate?: boolean;
+}
+
+// Desconto por atraso: percentual por dia, limitado ao teto
+export interface LatePenalty {
+  percentPerDay: number;
+  maxPercent: number;
+}
+
+export interface SubmissionAttachment {
+  name: string;
+  path: string; // Caminho no Cloud Storage (submission_attachments/{activityId}/{studentId}/...); o link é resolvido na exibição
+  contentType: string;
+  size: number;
+}
+
+// Rubrica de correção: critérios × níveis de desempenho com pontuação
+export interface RubricLevel {
+  id: string;
+  label: string; // Ex: "Excelente"
+  description?: string;
+  points: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  id: string;
+  title: string;
+  criteria: RubricCriterion[];
+  creatorId?: string;
+  creatorName?: string;
+  createdAt?: any;
+}
+
+// Composição de notas por matéria (ex.: provas 60%, trabalhos 40%)
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number; // Percentual (a soma das categorias é 100)
+}
+
+export interface GradingScheme {
+  categories: GradeCategory[];
+  passingAverage: number; // Média mínima para aprovação (0 a 10)
+}
+
+// Recuperação: como a nota da atividade de recuperação altera a média da unidade
+export type RecoveryRule = 'maior_nota' | 'media' | 'limite_media';
+
+export interface RecoveryConfig {
+  rule: RecoveryRule;
+  studentIds: string[]; // Alunos abaixo da média convocados para a recuperação
 }
 
 export type Unidade = '1ª Unidade' | '2ª Unidade' | '3ª Unidade' | '4ª Unidade';
@@ -241,8 +493,16 @@ export interface Activity {
   attachmentFiles?: { name: string; url: string }[];
   imageUrl?: string;
   questions?: QuizQuestion[];
+  rubric?: Rubric; // Cópia da rubrica no momento da criação (Tarefa (Texto))
   isVisible: boolean;
   allowLateSubmissions: boolean;
+  latePenalty?: LatePenalty;
+  extensions?: Record<string, string>; // studentId -> novo prazo (YYYY-MM-DD)
+  recovery?: RecoveryConfig; // Presente apenas em atividades de recuperação da unidade
+  gradeCategory?: string; // id da categoria no esquema de notas da matéria (ex.: 'provas')
+  blindGrading?: boolean; // Correção anônima
+  identitiesRevealedAt?: string; // Quando o professor revelou os nomes (após corrigir todas)
+  identitiesRevealedBy?: string;
   submissions?: ActivitySubmission[];
   submissionCount?: number; // Denormalized
   pendingSubmissionCount?: number; // Denormalized
@@ -286,6 +546,8 @@ export interface TeacherClass {
   teachers?: string[]; // Array of teacher IDs for Multi-Teacher support (N:N)
   subjects?: Record<string, string>; // Map of teacherId -> Subject
   teacherNames?: Record<string, string>; // Denormalized Map of teacherId -> Name for UI
+  gradingSchemes?: Record<string, GradingScheme>; // matéria -> esquema de notas ('_default' vale para as demais)
+  timetable?: TimetableSlot[]; // Horário semanal (cada professor mantém as próprias aulas)
   isFullyLoaded?: boolean; // Lazy loading flag: true if detailed activities/sessions are loaded
 }
 
@@ -303,24 +565,88 @@ export interface ClassInvitation {
   timestamp: string;
 }
 
+// Código de acesso da turma (class_codes/{code}): o id do documento garante a unicidade
+export interface ClassJoinCode {
+  code: string;
+  classId: string;
+  teacherId: string;
+  enabled: boolean;
+  requireApproval: boolean; // Entradas ficam na fila de aprovação do professor
+  expiresAt?: string; // ISO; sem valor, o código não expira
+  maxUses?: number; // Sem valor, usos ilimitados
+  uses: number; // Entradas efetivadas: diretas ou pedidos aprovados
+  createdAt?: string;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// Pedido de entrada por código com aprovação (join_requests/{classId}_{studentId})
+export interface ClassJoinRequest {
+  id: string;
+  classId: string;
+  className: string;
+  teacherId: string;
+  studentId: string;
+  studentName: string;
+  avatarUrl?: string;
+  code: string;
+  status: JoinRequestStatus;
+  createdAt: string;
+  decidedAt?: string;
+}
+
 // Grade Report types for "Big Document" architecture
 export interface GradeReportActivityDetail {
   id: string;
   title: string;
   grade: number;
   maxPoints: number;
+  categoryId?: string;
+  gradedAt?: string;
+  missing?: boolean; // Prazo vencido ou unidade fechada sem entrega: conta como zero
+}
+
+export interface GradeReportCategory {
+  id: string;
+  name: string;
+  weight: number;
+  earned: number;
+  possible: number;
+  average: number | null; // 0 a 10, null sem notas na categoria
 }
 
 export interface GradeReportUnidade {
   activities: GradeReportActivityDetail[];
   totalPoints: number;
+  average: number | null; // Média ponderada da unidade (0 a 10), já considerando a recuperação
+  categories: GradeReportCategory[];
+  recovery?: GradeReportRecovery;
 }
 
-export interface ClassGradeReport {
-  className: string;
+export interface GradeReportRecovery {
+  activityId: string;
+  title: string;
+  grade: number;
+  maxPoints: number;
+  rule: RecoveryRule;
+  originalAverage: number | null; // Média da unidade antes da recuperação
+}
+
+export type FinalGradeStatus = 'Aprovado' | 'Recuperação' | 'Em andamento';
+
+export interface SubjectGradeReport {
+  materia: string;
   unidades: {
     [key in Unidade]?: GradeReportUnidade;
   };
+  finalAverage: number | null;
+  passingAverage: number;
+  status: FinalGradeStatus;
+}
+
+export interface ClassGradeReport {
+  className: string;
+  subjects: Record<string, SubjectGradeReport>; // Por matéria
 }
 
 export interface GradeReport {
@@ -334,11 +660,60 @@ export interface AttendanceSession {
   date: string; // ISO string date YYYY-MM-DD
   turno: Turno;
   horario: number; // 1-6
+  materia?: string; // Matéria da aula (frequência por matéria)
+  unidade?: Unidade; // Unidade letiva da aula (frequência por unidade)
+  timetableSlotId?: string; // Gerada automaticamente a partir do horário semanal
   createdBy: string; // teacherId
   createdAt: string; // ISO string timestamp
 }
 
-export type AttendanceStatus = 'presente' | 'ausente';
+// Aula fixa do horário semanal da turma. dayOfWeek segue Date.getDay() (0 = domingo)
+export interface TimetableSlot {
+  id: string;
+  dayOfWeek: number;
+  turno: Turno;
+  horario: number; // 1-6
+  materia?: string;
+  teacherId: string;
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// Período letivo de uma unidade (datas inclusivas, YYYY-MM-DD)
+export interface UnidadePeriod {
+  unidade: Unidade;
+  start: string;
+  end: string;
+}
+
+// Recesso escolar (ex.: férias de julho), sem aulas no intervalo
+export interface SchoolRecess {
+  name: string;
+  start: string;
+  end: string;
+}
+
+// Calendário escolar do ano letivo, mantido pelo administrador. Document stored at: school_calendar/{year}
+export interface SchoolCalendar {
+  year: number;
+  unidades: UnidadePeriod[];
+  holidays: Holiday[];
+  recesses: SchoolRecess[];
+  updatedAt?: string;
+}
+
+// 'pendente' é o estado inicial dos registros criados com a chamada
+export type AttendanceStatus = 'pendente' | 'presente' | 'ausente' | 'atrasado' | 'falta_justificada';
+
+// Justificativa de falta (ex.: atestado médico), com arquivo opcional no Storage
+export interface AttendanceJustification {
+  reason: string;
+  attachmentName?: string;
+  attachmentPath?: string; // Caminho no Cloud Storage; o link é resolvido na exibição
+}
 
 export interface AttendanceRecord {
   id: string;
@@ -346,9 +721,18 @@ export interface AttendanceRecord {
   studentId: string;
   studentName: string; // Denormalized for convenience
   status: AttendanceStatus;
+  justification?: AttendanceJustification; // Apenas em 'falta_justificada'
   updatedAt: string; // ISO string timestamp
 }
 
+// Alerta de faltas já enviado ao aluno. Documento classes/{classId}/absence_alerts/{studentId} (um por aluno)
+export interface AbsenceAlert {
+  studentId: string;
+  absencePercent: number;
+  sentBy: string;
+  sentAt: string; // ISO string timestamp
+}
+
 // --- Big Doc Types for new architecture ---
 
 // Document stored at: teacher_history/{teacherId}
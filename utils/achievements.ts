@@ -1,6 +1,6 @@
 
 import { db } from "../components/firebaseClient";
-import { doc, getDoc, setDoc, serverTimestamp, collection, getDocs, query, where } from "firebase/firestore";
+import { doc, getDoc, collection, getDocs, query, where } from "firebase/firestore";
 import type { Achievement, UserAchievementsDoc } from "../types";
 import { getSessionCache, setSessionCache } from "./cacheUtils";
 
@@ -40,58 +40,25 @@ export async function fetchGlobalAchievements(): Promise<Achievement[]> {
 /**
  * Busca o documento único do usuário (Single Source of Truth)
  * Contém XP, Nível, Stats e IDs das conquistas desbloqueadas.
- * Se o documento não existir, cria um inicial.
+ * Somente leitura: o documento é criado e mantido pelas Cloud Functions (functions/src/gamification.ts).
  */
 export async function fetchUserAchievementsDoc(userId: string): Promise<UserAchievementsDoc> {
   if (!userId) throw new Error("UserID is required");
 
-  const ref = doc(db, USER_ACHIEVEMENTS_COLLECTION, userId);
-
   try {
-    const snap = await getDoc(ref);
-
-    if (snap.exists()) {
-      return snap.data() as UserAchievementsDoc;
-    } else {
-      // Inicialização Lazy: Cria o documento se for a primeira vez
-      const initialData: UserAchievementsDoc = {
-        xp: 0,
-        level: 1,
-        stats: {
-          quizzesCompleted: 0,
-          modulesCompleted: 0,
-          activitiesCompleted: 0,
-          loginStreak: 0
-        },
-        unlocked: {}, // Mapa vazio
-        updatedAt: serverTimestamp()
-      };
-      
-      await setDoc(ref, initialData);
-      return initialData;
-    }
+    const snap = await getDoc(doc(db, USER_ACHIEVEMENTS_COLLECTION, userId));
+    return snap.exists() ? mapUserAchievementsDoc(snap.data()) : createEmptyUserAchievementsDoc();
   } catch (error) {
     console.error("Erro ao buscar documento de conquistas do usuário:", error);
     // Fallback seguro para não quebrar a UI
-    return { xp: 0, level: 1, stats: { quizzesCompleted: 0, modulesCompleted: 0, activitiesCompleted: 0, loginStreak: 0 }, unlocked: {} };
+    return createEmptyUserAchievementsDoc();
   }
 }
 
-// Registra/unlock de forma atômica por documento (Mantido para compatibilidade, mas será movido para a Engine na Fase 2)
-export async function recordAchievementUnlock(userId: string, achievementId: string, extra: Record<string, any> = {}) {
-  try {
-    const ref = doc(db, USER_ACHIEVEMENTS_COLLECTION, userId);
-    // Note: Na Fase 1, apenas garantimos que a estrutura suporta o unlock via merge
-    const payload = {
-      [`unlocked.${achievementId}`]: {
-        date: new Date().toISOString(),
-        seen: false,
-        ...extra
-      },
-      updatedAt: serverTimestamp()
-    };
-    await setDoc(ref, payload, { merge: true });
-  } catch (error) {
-    console.error("Error recording achievement unlock:", error);
-  }
+export function createEmptyUserAchievementsDoc(): UserAchievementsDoc {
+  return { xp: 0, level: 1, stats: { quizzesCompleted: 0, modulesCompleted: 0, activitiesCompleted: 0, loginStreak: 0 }, unlocked: {} };
+}
+
+export function mapUserAchievementsDoc(data: Record<string, any> | undefined): UserAchievementsDoc {
+  return { ...createEmptyUserAchievementsDoc(), ...data } as UserAchievementsDoc;
 }
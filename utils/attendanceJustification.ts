@@ -0,0 +1,40 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '../components/firebaseClient';
+import type { AttendanceJustification } from '../types';
+import { MAX_SUBMISSION_FILE_SIZE } from './submissionAttachments';
+
+// Atestados e declarações: foto ou PDF (limites também aplicados em storage.rules)
+export const ALLOWED_JUSTIFICATION_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+export const JUSTIFICATION_FILE_ACCEPT = ALLOWED_JUSTIFICATION_TYPES.join(',');
+
+// Retorna a mensagem de erro ou null quando o arquivo pode ser enviado
+export function validateJustificationFile(file: File): string | null {
+    if (!ALLOWED_JUSTIFICATION_TYPES.includes(file.type)) {
+        return `Tipo de arquivo "${file.name}" não suportado. Envie foto (JPG, PNG) ou PDF.`;
+    }
+    if (file.size > MAX_SUBMISSION_FILE_SIZE) {
+        return `Arquivo "${file.name}" é muito grande (máx 10MB).`;
+    }
+    return null;
+}
+
+/**
+ * Envia o atestado para o Cloud Storage, em caminho exclusivo por chamada e aluno.
+ * Só o caminho é gravado no registro: o link é resolvido na hora por quem pode ler o arquivo (storage.rules).
+ */
+export async function uploadJustificationAttachment(sessionId: string, studentId: string, file: File): Promise<Pick<AttendanceJustification, 'attachmentName' | 'attachmentPath'>> {
+    const safeName = file.name.replace(/[^\w.\-]+/g, '_');
+    const path = `attendance_justifications/${sessionId}/${studentId}/${Date.now()}-${safeName}`;
+    await uploadBytes(ref(storage, path), file, { contentType: file.type });
+    return {
+        attachmentName: file.name,
+        attachmentPath: path
+    };
+}
+
+/**
+ * Link de leitura do atestado. Falha para quem não é o professor da chamada nem o próprio aluno.
+ */
+export function getJustificationAttachmentUrl(path: string): Promise<string> {
+    return getDownloadURL(ref(storage, path));
+}
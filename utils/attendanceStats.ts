@@ -0,0 +1,172 @@
+import { collection, collectionGroup, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { AbsenceAlert, AttendanceRecord, AttendanceSession, AttendanceStatus } from '../types';
+
+// Percentual de faltas a partir do qual o aluno entra em alerta (LDB: mínimo de 75% de frequência)
+export const ABSENCE_ALERT_PERCENT = 25;
+
+export const NO_MATERIA_LABEL = 'Sem matéria';
+export const NO_UNIDADE_LABEL = 'Sem unidade';
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+    pendente: 'Pendente',
+    presente: 'Presente',
+    atrasado: 'Atrasado',
+    ausente: 'Ausente',
+    falta_justificada: 'Falta justificada',
+};
+
+/**
+ * Regras de frequência:
+ * - atrasado conta como presença;
+ * - falta justificada (atestado) não conta como falta nem entra na base do percentual;
+ * - registros pendentes são ignorados.
+ */
+export interface StudentAttendanceTotals {
+    present: number; // Inclui atrasos
+    late: number;
+    absent: number; // Apenas faltas sem justificativa
+    justified: number;
+    total: number; // Chamadas já registradas (pendentes não contam)
+    frequency: number | null; // Percentual de presença sobre as aulas não justificadas, null sem base
+}
+
+/**
+ * Todas as chamadas da turma (de todos os professores) com seus registros.
+ */
+export async function fetchClassAttendanceRecords(classId: string): Promise<{ sessions: AttendanceSession[]; records: AttendanceRecord[] }> {
+    const sessionsSnap = await getDocs(query(collection(db, "attendance_sessions"), where("classId", "==", classId)));
+    const sessions = sessionsSnap.docs.map(d => ({ id: d.id, ...d.data() } as AttendanceSession));
+
+    const recordSnaps = await Promise.all(sessions.map(s => getDocs(collection(db, "attendance_sessions", s.id, "records"))));
+    const records = recordSnaps.flatMap(snap => snap.docs.map(d => ({ id: d.id, ...d.data() } as AttendanceRecord)));
+
+    return { sessions, records };
+}
+
+// Alertas de faltas já enviados na turma, por aluno
+export async function fetchAbsenceAlerts(classId: string): Promise<Record<string, AbsenceAlert>> {
+    const snap = await getDocs(collection(db, "classes", classId, "absence_alerts"));
+    return Object.fromEntries(snap.docs.map(d => [d.id, d.data() as AbsenceAlert]));
+}
+
+/**
+ * Registros do próprio aluno (consulta collectionGroup) e as chamadas correspondentes das suas turmas.
+ */
+export async function fetchStudentAttendanceRecords(studentId: string, classIds: string[]): Promise<{ sessions: AttendanceSession[]; records: AttendanceRecord[] }> {
+    if (classIds.length === 0) return { sessions: [], records: [] };
+    // Firestore 'in' query limita a 10 itens: uma consulta por grupo de 10 turmas
+    const sessionQueries = [];
+    for (let i = 0; i < classIds.length; i += 10) {
+        const chunk = classIds.slice(i, i + 10);
+        sessionQueries.push(getDocs(query(collection(db, "attendance_sessions"), where("classId", "in", chunk))));
+    }
+    const [recordsSnap, ...sessionSnaps] = await Promise.all([
+        getDocs(query(collectionGroup(db, "records"), where("studentId", "==", studentId))),
+        ...sessionQueries
+    ]);
+    const sessions = sessionSnaps.flatMap(snap => snap.docs.map(d => ({ id: d.id, ...d.data() } as AttendanceSession)));
+    const sessionIds = new Set(sessions.map(s => s.id));
+    const records = recordsSnap.docs
+        .map(d => ({ id: d.id, ...d.data() } as AttendanceRecord))
+        .filter(r => sessionIds.has(r.sessionId));
+    return { sessions, records };
+}
+
+export function computeAttendanceTotals(records: AttendanceRecord[]): Record<string, StudentAttendanceTotals> {
+    const totals: Record<string, StudentAttendanceTotals> = {};
+    records.forEach(record => {
+        if (!record.status || record.status === 'pendente') return;
+        const entry = totals[record.studentId] || (totals[record.studentId] = { present: 0, late: 0, absent: 0, justified: 0, total: 0, frequency: null });
+        switch (record.status) {
+            case 'presente': entry.present++; break;
+            case 'atrasado': entry.present++; entry.late++; break;
+            case 'ausente': entry.absent++; break;
+            case 'falta_justificada': entry.justified++; break;
+        }
+        entry.total++;
+    });
+    Object.values(totals).forEach(entry => {
+        const base = entry.total - entry.justified;
+        entry.frequency = base > 0 ? Math.round((entry.present / base) * 1000) / 10 : null;
+    });
+    return totals;
+}
+
+export const formatFrequency = (frequency: number | null | undefined) =>
+    frequency === null || frequency === undefined ? '—' : `${frequency.toFixed(1).replace('.', ',')}%`;
+
+export function getAbsencePercent(totals: StudentAttendanceTotals | undefined): number {
+    const base = totals ? totals.total - totals.justified : 0;
+    if (!totals || base <= 0) return 0;
+    return Math.round((totals.absent / base) * 1000) / 10;
+}
+
+export function isOverAbsenceLimit(totals: StudentAttendanceTotals | undefined, limitPercent = ABSENCE_ALERT_PERCENT): boolean {
+    return getAbsencePercent(totals) >= limitPercent;
+}
+
+/**
+ * Totais por aluno separados por matéria ou unidade da chamada.
+ * Chamadas antigas, sem esses campos, ficam em "Sem matéria"/"Sem unidade".
+ */
+export function groupAttendanceTotals(
+    sessions: AttendanceSession[],
+    records: AttendanceRecord[],
+    by: 'materia' | 'unidade'
+): Record<string, Record<string, StudentAttendanceTotals>> {
+    const sessionsById = new Map(sessions.map(s => [s.id, s]));
+    const grouped: Record<string, AttendanceRecord[]> = {};
+    records.forEach(record => {
+        const session = sessionsById.get(record.sessionId);
+        if (!session) return;
+        const key = session[by] || (by === 'materia' ? NO_MATERIA_LABEL : NO_UNIDADE_LABEL);
+        (grouped[key] = grouped[key] || []).push(record);
+    });
+
+    const result: Record<string, Record<string, StudentAttendanceTotals>> = {};
+    Object.entries(grouped).forEach(([key, groupRecords]) => {
+        result[key] = computeAttendanceTotals(groupRecords);
+    });
+    return result;
+}
+
+// Meses (YYYY-MM) com chamadas, do mais recente ao mais antigo
+export function listAttendanceMonths(sessions: AttendanceSession[]): string[] {
+    return Array.from(new Set(sessions.map(s => s.date.slice(0, 7)))).sort().reverse();
+}
+
+export const formatMonthLabel = (month: string) =>
+    new Date(`${month}-01T12:00:00`).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+
+const TURNO_ORDER: Record<string, number> = { matutino: 1, vespertino: 2, noturno: 3 };
+
+// Ordem cronológica das chamadas: data, turno e horário
+export const compareAttendanceSessions = (a: AttendanceSession, b: AttendanceSession) =>
+    a.date.localeCompare(b.date) || (TURNO_ORDER[a.turno] || 99) - (TURNO_ORDER[b.turno] || 99) || a.horario - b.horario;
+
+// Chamada imediatamente anterior da mesma turma (base para copiar a lista de presença)
+export function findPreviousAttendanceSession(sessions: AttendanceSession[], current: AttendanceSession): AttendanceSession | undefined {
+    return sessions
+        .filter(s => s.id !== current.id && s.classId === current.classId && compareAttendanceSessions(s, current) < 0)
+        .sort(compareAttendanceSessions)
+        .pop();
+}
+
+/**
+ * Grade mensal: chamadas do mês em ordem (data, turno, horário) e o status de cada aluno em cada uma.
+ */
+export function buildMonthlyAttendanceGrid(sessions: AttendanceSession[], records: AttendanceRecord[], month: string) {
+    const monthSessions = sessions
+        .filter(s => s.date.startsWith(month))
+        .sort(compareAttendanceSessions);
+
+    const monthSessionIds = new Set(monthSessions.map(s => s.id));
+    const statusByStudent: Record<string, Record<string, AttendanceStatus>> = {};
+    records.forEach(record => {
+        if (!monthSessionIds.has(record.sessionId)) return;
+        (statusByStudent[record.studentId] = statusByStudent[record.studentId] || {})[record.sessionId] = record.status;
+    });
+
+    return { sessions: monthSessions, statusByStudent };
+}
@@ -0,0 +1,35 @@
+import type { Activity, ActivitySubmission } from '../types';
+
+// Correção anônima: nomes ocultos e ordem embaralhada até que todas as entregas estejam corrigidas
+// e o professor revele as identidades (registrado em identitiesRevealedAt).
+
+export function isIdentityHidden(activity: Pick<Activity, 'blindGrading' | 'identitiesRevealedAt'>): boolean {
+    return !!activity.blindGrading && !activity.identitiesRevealedAt;
+}
+
+export function areAllSubmissionsGraded(submissions: ActivitySubmission[] = []): boolean {
+    return submissions.length > 0 && submissions.every(s => s.status === 'Corrigido');
+}
+
+// Hash simples (FNV-1a) para uma ordem "aleatória" estável entre aberturas do modal
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Ordena as entregas de forma embaralhada, mas sempre igual para a mesma atividade,
+ * para que o rótulo "Entrega N" continue apontando para o mesmo aluno.
+ */
+export function orderForBlindGrading(activityId: string, submissions: ActivitySubmission[]): ActivitySubmission[] {
+    return [...submissions].sort((a, b) => hashString(`${activityId}_${a.studentId}`) - hashString(`${activityId}_${b.studentId}`));
+}
+
+export function getAnonymousLabel(activityId: string, submissions: ActivitySubmission[], studentId: string): string {
+    const position = orderForBlindGrading(activityId, submissions).findIndex(s => s.studentId === studentId);
+    return `Entrega anônima ${position + 1}`;
+}
@@ -0,0 +1,81 @@
+import { doc, getDoc, Transaction } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { ClassJoinCode } from '../types';
+
+// Sem 0/O e 1/I para evitar confusão ao copiar o código projetado na sala.
+// 32 símbolos dividem 256: o resto da divisão mantém a distribuição uniforme.
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Parâmetro do link de entrada (?turma=CODIGO), usado pelo QR Code
+export const JOIN_LINK_PARAM = 'turma';
+
+export function generateJoinCode(): string {
+    const values = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+    return Array.from(values, v => JOIN_CODE_ALPHABET[v % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+// Aceita o código digitado com espaços, hífens ou minúsculas
+export const normalizeJoinCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const joinCodeRef = (code: string) => doc(db, "class_codes", code);
+
+export function mapJoinCode(code: string, data: Record<string, any>): ClassJoinCode {
+    return {
+        code,
+        classId: data.classId,
+        teacherId: data.teacherId,
+        enabled: data.enabled !== false,
+        requireApproval: !!data.requireApproval,
+        uses: data.uses || 0,
+        ...(data.expiresAt?.toDate ? { expiresAt: data.expiresAt.toDate().toISOString() } : {}),
+        ...(typeof data.maxUses === 'number' ? { maxUses: data.maxUses } : {}),
+        ...(data.createdAt?.toDate ? { createdAt: data.createdAt.toDate().toISOString() } : {}),
+    };
+}
+
+// Turmas antigas têm o código apenas no documento da turma (sem class_codes): retorna null
+export async function fetchJoinCode(code: string): Promise<ClassJoinCode | null> {
+    if (!code) return null;
+    const snap = await getDoc(joinCodeRef(code));
+    return snap.exists() ? mapJoinCode(snap.id, snap.data()) : null;
+}
+
+/**
+ * Reserva um código inédito dentro da transação (deve ser chamada antes de qualquer escrita).
+ * A leitura do documento na transação garante que dois professores não fiquem com o mesmo código.
+ */
+export async function allocateJoinCode(transaction: Transaction): Promise<string> {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const code = generateJoinCode();
+        const snap = await transaction.get(joinCodeRef(code));
+        if (!snap.exists()) return code;
+    }
+    throw new Error("Não foi possível gerar um código único.");
+}
+
+// Motivo pelo qual o código não aceita novas entradas, ou null se estiver válido
+export function getJoinCodeProblem(joinCode: ClassJoinCode, now = new Date()): string | null {
+    if (!joinCode.enabled) return "Este código foi desativado pelo professor.";
+    if (joinCode.expiresAt && new Date(joinCode.expiresAt) <= now) return "Este código expirou. Peça um novo ao professor.";
+    if (joinCode.maxUses !== undefined && joinCode.uses >= joinCode.maxUses) return "Este código atingiu o limite de usos.";
+    return null;
+}
+
+export function buildJoinLink(code: string): string {
+    return `${window.location.origin}${window.location.pathname}?${JOIN_LINK_PARAM}=${encodeURIComponent(code)}`;
+}
+
+export function readJoinCodeFromUrl(): string | null {
+    const value = new URLSearchParams(window.location.search).get(JOIN_LINK_PARAM);
+    return value ? normalizeJoinCode(value) : null;
+}
+
+// Remove o parâmetro após o uso para o código não reaparecer ao recarregar
+export function clearJoinCodeFromUrl() {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(JOIN_LINK_PARAM)) return;
+    url.searchParams.delete(JOIN_LINK_PARAM);
+    window.history.replaceState(null, '', url.toString());
+}
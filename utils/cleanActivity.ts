@@ -18,10 +18,18 @@ export function cleanActivity(activity: any): any {
     dueDate: activity.dueDate,
     createdAt: activity.createdAt, // Preserva data de criação para Badges
     questions: activity.questions || [],
+    rubric: activity.rubric,
     submissions: activity.submissions || [],
     attachmentFiles: activity.attachmentFiles || [],
     isVisible: activity.isVisible,
     allowLateSubmissions: activity.allowLateSubmissions,
+    latePenalty: activity.latePenalty,
+    extensions: activity.extensions,
+    gradeCategory: activity.gradeCategory,
+    recovery: activity.recovery,
+    blindGrading: activity.blindGrading,
+    identitiesRevealedAt: activity.identitiesRevealedAt,
+    identitiesRevealedBy: activity.identitiesRevealedBy,
     creatorId: activity.creatorId,
     creatorName: activity.creatorName
   }));
@@ -1,6 +1,6 @@
 
 import { db } from "../components/firebaseClient";
-import { collection, addDoc, serverTimestamp, query, where, getDocs, orderBy, limit, updateDoc, doc } from "firebase/firestore";
+import { collection, addDoc, serverTimestamp, updateDoc, doc } from "firebase/firestore";
 import type { Page } from "../types";
 
 export type NotificationType = 
@@ -8,7 +8,11 @@ export type NotificationType =
   | "activity_submission" 
   | "module_post" 
   | "notice_post"
-  | "activity_correction";
+  | "activity_correction"
+  | "activity_revision"
+  | "absence_alert"
+  | "join_request"
+  | "join_decision";
 
 interface CreateNotificationParams {
   userId: string;    // Quem recebe
@@ -23,51 +27,34 @@ interface CreateNotificationParams {
   noticeId?: string;
 }
 
-export async function createNotification(params: CreateNotificationParams) {
-  try {
-    // Lógica de Agrupamento para Correções (Anti-Spam)
-    // Se o professor corrigir várias atividades em < 5 minutos, agrupa na última notificação.
-    if (params.type === 'activity_correction') {
-        const q = query(
-            collection(db, "notifications"),
-            where("userId", "==", params.userId),
-            where("type", "==", "activity_correction"),
-            where("read", "==", false), // Apenas agrupa se o aluno ainda não leu
-            orderBy("timestamp", "desc"),
-            limit(1)
-        );
-        
-        const snap = await getDocs(q);
-        
-        if (!snap.empty) {
-            const existingDoc = snap.docs[0];
-            const data = existingDoc.data();
-            
-            // Calcula diferença de tempo
-            let docTime = new Date();
-            if (data.timestamp?.toDate) {
-                docTime = data.timestamp.toDate();
-            } else if (typeof data.timestamp === 'string') {
-                docTime = new Date(data.timestamp);
-            }
-            
-            const timeDiff = Date.now() - docTime.getTime();
-            const FIVE_MINUTES = 5 * 60 * 1000;
+// Notificação de correção criada pelo professor nesta sessão, à qual as próximas correções do mesmo aluno são somadas
+export interface NotificationGroup {
+  id: string;
+  count: number;
+}
 
-            if (timeDiff < FIVE_MINUTES) {
-                // Atualiza a notificação existente
-                const currentCount = data.groupCount || 1;
-                const newCount = currentCount + 1;
-                
-                await updateDoc(doc(db, "notifications", existingDoc.id), {
-                    title: `${newCount} Atividades Corrigidas`,
-                    text: `Você possui ${newCount} atividades corrigidas recentemente. Verifique suas notas e feedbacks.`,
-                    groupCount: newCount,
-                    timestamp: serverTimestamp(), // Traz para o topo
-                    urgency: 'high'
-                });
-                return; // Interrompe a criação de uma nova
-            }
+/**
+ * Cria a notificação e devolve o grupo dela.
+ * Correções (Anti-Spam): com `group`, a correção é somada àquela notificação pelo id, sem consultar
+ * as notificações do aluno (rules.txt só permite ao autor atualizá-la enquanto não foi lida).
+ */
+export async function createNotification(params: CreateNotificationParams, group?: NotificationGroup | null): Promise<NotificationGroup | null> {
+  try {
+    if (params.type === 'activity_correction' && group) {
+        const newCount = group.count + 1;
+        const text = `Você possui ${newCount} atividades corrigidas recentemente. Verifique suas notas e feedbacks.`;
+        try {
+            await updateDoc(doc(db, "notifications", group.id), {
+                title: `${newCount} Atividades Corrigidas`,
+                text,
+                summary: text,
+                groupCount: newCount,
+                timestamp: serverTimestamp(), // Traz para o topo
+                urgency: 'high'
+            });
+            return { id: group.id, count: newCount };
+        } catch {
+            // Aluno já leu a notificação: segue criando uma nova
         }
     }
 
@@ -96,6 +83,22 @@ export async function createNotification(params: CreateNotificationParams) {
         deepLink = { page: 'activities' }; // Aluno vê o feedback na lista de atividades
         urgency = 'high';
         break;
+      case 'activity_revision':
+        deepLink = { page: 'activities' }; // Aluno reescreve pela lista de atividades
+        urgency = 'high';
+        break;
+      case 'absence_alert':
+        deepLink = { page: 'boletim' }; // Frequência aparece no boletim
+        urgency = 'high';
+        break;
+      case 'join_request':
+        deepLink = { page: 'teacher_dashboard' }; // Fila de aprovação fica na turma
+        urgency = 'medium';
+        break;
+      case 'join_decision':
+        deepLink = { page: 'join_class' };
+        urgency = 'medium';
+        break;
     }
 
     const payload = {
@@ -117,8 +120,10 @@ export async function createNotification(params: CreateNotificationParams) {
       timestamp: serverTimestamp()
     };
 
-    await addDoc(collection(db, "notifications"), payload);
+    const docRef = await addDoc(collection(db, "notifications"), payload);
+    return { id: docRef.id, count: 1 };
   } catch (error) {
     console.error("Erro ao criar notificação:", error);
+    return null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Trechos de feedback reutilizáveis na correção em lote, salvos por professor no aparelho
+const getSnippetsKey = (userId: string) => `feedback_snippets_${userId}`;
+
+export const MAX_FEEDBACK_SNIPPETS = 9; // Atalhos Alt+1 a Alt+9
+
+export const DEFAULT_FEEDBACK_SNIPPETS = [
+    'Excelente trabalho!',
+    'Boa resposta, mas faltou aprofundar a explicação.',
+    'Revise a ortografia e a pontuação.',
+    'Use exemplos do conteúdo estudado para justificar sua resposta.',
+];
+
+export function loadFeedbackSnippets(userId: string): string[] {
+    try {
+        const raw = localStorage.getItem(getSnippetsKey(userId));
+        return raw ? JSON.parse(raw) : DEFAULT_FEEDBACK_SNIPPETS;
+    } catch {
+        return DEFAULT_FEEDBACK_SNIPPETS;
+    }
+}
+
+export function saveFeedbackSnippets(userId: string, snippets: string[]) {
+    try {
+        localStorage.setItem(getSnippetsKey(userId), JSON.stringify(snippets.slice(0, MAX_FEEDBACK_SNIPPETS)));
+    } catch (e) {
+        console.warn('Could not save feedback snippets:', e);
+    }
+}
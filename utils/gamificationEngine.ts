@@ -1,10 +1,174 @@
-import type { Achievement, UserGamificationStats } from '../types';
+import type { Achievement, AchievementCondition, AchievementRuleCondition, AchievementOperator, UserGamificationStats } from '../types';
+
+/**
+ * Contexto extra usado pelos critérios data-driven.
+ * - xp/level: permitem regras como "alcançar 500 XP" ou "chegar ao nível 5".
+ * - daily: contadores por dia (YYYY-MM-DD), usados nas janelas de tempo (windowDays).
+ */
+export interface GamificationContext {
+    xp?: number;
+    level?: number;
+    daily?: Record<string, Record<string, number>>;
+    now?: Date;
+}
+
+// Métricas conhecidas, exibidas no editor de conquistas (CreateAchievement.tsx).
+// Qualquer outra chave de UserGamificationStats também é aceita pela engine.
+export const ACHIEVEMENT_METRICS: { value: string; label: string; unit: string }[] = [
+    { value: 'quizzesCompleted', label: 'Quizzes Concluídos', unit: 'quiz(zes)' },
+    { value: 'perfectQuizzes', label: 'Quizzes com Nota Máxima', unit: 'quiz(zes) perfeito(s)' },
+    { value: 'modulesCompleted', label: 'Módulos Concluídos', unit: 'módulo(s)' },
+    { value: 'activitiesCompleted', label: 'Atividades Enviadas', unit: 'atividade(s)' },
+    { value: 'loginStreak', label: 'Sequência de Dias (Streak)', unit: 'dia(s) seguidos' },
+    { value: 'longestStreak', label: 'Maior Sequência de Dias', unit: 'dia(s) seguidos' },
+    { value: 'xp', label: 'XP Total', unit: 'XP' },
+    { value: 'level', label: 'Nível', unit: '' },
+];
+
+// Métricas que representam um estado (não um acúmulo), logo não fazem sentido dentro de janelas de tempo.
+// O XP também fica de fora: os contadores diários (daily) não registram XP.
+const NON_WINDOWED_METRICS = new Set(['loginStreak', 'longestStreak', 'level', 'xp']);
+
+export const supportsTimeWindow = (metric: string): boolean => !NON_WINDOWED_METRICS.has(metric);
+
+const LEGACY_METRIC_MAP: Record<string, string> = {
+    quizzes: 'quizzesCompleted',
+    modules: 'modulesCompleted',
+    activities: 'activitiesCompleted',
+};
+
+/**
+ * Converte o critério de uma conquista em uma condição da linguagem de critérios.
+ * Conquistas antigas (criterionType + criterionCount) viram uma regra simples ">=".
+ * Retorna null quando a conquista não possui critério válido.
+ */
+export function getAchievementCondition(achievement: Achievement): AchievementCondition | null {
+    if (achievement.condition) return achievement.condition;
+
+    const metric = achievement.criterionType ? LEGACY_METRIC_MAP[achievement.criterionType] : undefined;
+    const target = achievement.criterionCount || 0;
+
+    // Evita desbloquear conquistas com critério 0 ou indefinido por segurança
+    if (!metric || target <= 0) return null;
+
+    return { kind: 'rule', metric, operator: '>=', value: target };
+}
+
+// Fuso padrão da escola. Todas as chaves diárias (daily, streak) usam este fuso,
+// para que o "dia" não dependa do relógio/fuso configurado no aparelho do aluno.
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formata uma data como chave diária (YYYY-MM-DD) no fuso informado.
+ */
+export function toDayKey(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+    try {
+        // 'en-CA' formata como YYYY-MM-DD
+        return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+    } catch {
+        const y = date.getFullYear();
+        const m = String(date.getMonth() + 1).padStart(2, '0');
+        const d = String(date.getDate()).padStart(2, '0');
+        return `${y}-${m}-${d}`;
+    }
+}
+
+/**
+ * Diferença em dias de calendário entre duas chaves YYYY-MM-DD (to - from).
+ */
+export function diffDayKeys(from: string, to: string): number {
+    const parse = (key: string) => {
+        const [y, m, d] = key.split('-').map(Number);
+        return Date.UTC(y, m - 1, d);
+    };
+    return Math.round((parse(to) - parse(from)) / DAY_MS);
+}
+
+function compare(actual: number, operator: AchievementOperator, expected: number): boolean {
+    switch (operator) {
+        case '>': return actual > expected;
+        case '==': return actual === expected;
+        case '<=': return actual <= expected;
+        case '<': return actual < expected;
+        case '>=':
+        default:
+            return actual >= expected;
+    }
+}
+
+function resolveMetric(rule: AchievementRuleCondition, stats: UserGamificationStats, context: GamificationContext): number {
+    const metric = String(rule.metric);
+
+    // Janela de tempo: soma os contadores diários dos últimos N dias (incluindo hoje)
+    if (rule.windowDays && rule.windowDays > 0 && supportsTimeWindow(metric)) {
+        const daily = context.daily || {};
+        const now = context.now || new Date();
+        let total = 0;
+        for (let i = 0; i < rule.windowDays; i++) {
+            const day = new Date(now.getTime() - i * DAY_MS);
+            total += daily[toDayKey(day)]?.[metric] || 0;
+        }
+        return total;
+    }
+
+    if (metric === 'xp') return context.xp || 0;
+    if (metric === 'level') return context.level || 0;
+    return stats[metric] || 0;
+}
+
+/**
+ * Avalia recursivamente uma condição contra as estatísticas do usuário.
+ * Grupos vazios nunca são satisfeitos, para evitar desbloqueios acidentais.
+ */
+export function evaluateCondition(
+    condition: AchievementCondition,
+    stats: UserGamificationStats,
+    context: GamificationContext = {}
+): boolean {
+    if (condition.kind === 'rule') {
+        return compare(resolveMetric(condition, stats, context), condition.operator, condition.value);
+    }
+
+    if (!condition.conditions || condition.conditions.length === 0) return false;
+
+    return condition.kind === 'all'
+        ? condition.conditions.every(c => evaluateCondition(c, stats, context))
+        : condition.conditions.some(c => evaluateCondition(c, stats, context));
+}
+
+/**
+ * Gera o texto legível ("Como Desbloquear") de uma condição.
+ */
+export function describeCondition(condition: AchievementCondition): string {
+    if (condition.kind === 'rule') {
+        const meta = ACHIEVEMENT_METRICS.find(m => m.value === condition.metric);
+        const label = meta ? meta.label : String(condition.metric);
+        const operatorText: Record<AchievementOperator, string> = {
+            '>=': 'pelo menos',
+            '>': 'mais de',
+            '==': 'exatamente',
+            '<=': 'no máximo',
+            '<': 'menos de',
+        };
+        const windowText = condition.windowDays ? ` em ${condition.windowDays} dia(s)` : '';
+        return `${label}: ${operatorText[condition.operator]} ${condition.value}${windowText}`;
+    }
+
+    const joiner = condition.kind === 'all' ? ' E ' : ' OU ';
+    const parts = (condition.conditions || []).map(c => {
+        const text = describeCondition(c);
+        return c.kind === 'rule' ? text : `(${text})`;
+    });
+    return parts.join(joiner);
+}
 
 /**
  * PURE FUNCTION: Gamification Engine
  * Compara as estatísticas atuais do usuário com as regras globais de conquistas
  * para determinar se houve novos desbloqueios.
- * 
+ *
  * Esta função é "pura":
  * 1. Não faz chamadas ao Firebase.
  * 2. Não altera o estado diretamente.
@@ -13,18 +177,20 @@ import type { Achievement, UserGamificationStats } from '../types';
  * @param currentStats - Os contadores atuais do usuário (ex: { quizzesCompleted: 10 })
  * @param allAchievements - Lista de todas as conquistas globais disponíveis no sistema
  * @param unlockedMap - Mapa O(1) das conquistas que o usuário JÁ possui (ID -> Data)
+ * @param context - XP, nível e contadores diários para critérios data-driven
  * @returns Array de objetos Achievement que foram desbloqueados nesta verificação
  */
 export function checkNewAchievements(
     currentStats: UserGamificationStats,
     allAchievements: Achievement[],
-    unlockedMap: Record<string, any>
+    unlockedMap: Record<string, any>,
+    context: GamificationContext = {}
 ): Achievement[] {
     const newUnlocks: Achievement[] = [];
 
     // Itera sobre todas as conquistas possíveis
     for (const achievement of allAchievements) {
-        
+
         // 1. Otimização: Se já está no mapa de desbloqueados, pula.
         if (unlockedMap[achievement.id]) {
             continue;
@@ -35,42 +201,12 @@ export function checkNewAchievements(
             continue;
         }
 
-        // 3. Verificação de Critérios
-        let isUnlocked = false;
-        const target = achievement.criterionCount || 0;
-
-        // Evita desbloquear conquistas com critério 0 ou indefinido por segurança
-        if (target <= 0) continue;
-
-        switch (achievement.criterionType) {
-            case 'quizzes':
-                // Ex: Fez 5 quizzes >= Meta de 5
-                if ((currentStats.quizzesCompleted || 0) >= target) {
-                    isUnlocked = true;
-                }
-                break;
-            
-            case 'modules':
-                // Ex: Completou 3 módulos >= Meta de 3
-                if ((currentStats.modulesCompleted || 0) >= target) {
-                    isUnlocked = true;
-                }
-                break;
-            
-            case 'activities':
-                // Ex: Enviou 10 atividades >= Meta de 10
-                if ((currentStats.activitiesCompleted || 0) >= target) {
-                    isUnlocked = true;
-                }
-                break;
-            
-            // Futuro: Adicionar novos tipos aqui (ex: 'loginStreak', 'xpTotal')
-            default:
-                break;
-        }
+        // 3. Verificação de Critérios (legado ou data-driven)
+        const condition = getAchievementCondition(achievement);
+        if (!condition) continue;
 
         // 4. Se passou na regra, adiciona à lista de "Novas Conquistas"
-        if (isUnlocked) {
+        if (evaluateCondition(condition, currentStats, context)) {
             // Injetamos a data atual para facilitar o uso imediato na UI
             const achievementWithDate = {
                 ...achievement,
@@ -82,4 +218,4 @@ export function checkNewAchievements(
     }
 
     return newUnlocks;
-}
\ No newline at end of file
+}
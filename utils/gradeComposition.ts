@@ -0,0 +1,230 @@
+import type { Activity, ActivitySubmission, GradeCategory, GradeReportCategory, GradeReportRecovery, GradeReportUnidade, GradingScheme, SubjectGradeReport, FinalGradeStatus, TeacherClass, Unidade } from '../types';
+import { applyRecoveryRule } from './recovery';
+import { getEffectiveDueDate } from './latePolicy';
+import { DEFAULT_TIMEZONE, diffDayKeys, toDayKey } from './gamificationEngine';
+
+export const UNIDADES: Unidade[] = ['1ª Unidade', '2ª Unidade', '3ª Unidade', '4ª Unidade'];
+
+// Chave do esquema que vale para todas as matérias da turma sem configuração própria
+export const DEFAULT_SCHEME_KEY = '_default';
+export const GENERAL_MATERIA = 'Geral';
+
+export const GRADE_SCALE = 10;
+export const DEFAULT_PASSING_AVERAGE = 6;
+
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+    categories: [
+        { id: 'provas', name: 'Provas', weight: 60 },
+        { id: 'trabalhos', name: 'Trabalhos', weight: 40 },
+    ],
+    passingAverage: DEFAULT_PASSING_AVERAGE,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface GradeReportOptions {
+    now?: Date;
+    // Unidade da atividade já fechada no calendário escolar (useClosedUnidadeCheck)
+    isUnidadeClosed?: (activity: Activity) => boolean;
+}
+
+export const formatAverage = (value: number | null | undefined) =>
+    value === null || value === undefined ? '—' : value.toFixed(1).replace('.', ',');
+
+/**
+ * Esquema de notas da matéria na turma. Sem configuração, a média é a proporção simples
+ * dos pontos obtidos (equivale à soma quando as atividades da unidade totalizam 10 pontos).
+ */
+export function getGradingScheme(cls: Pick<TeacherClass, 'gradingSchemes'> | undefined, materia?: string): GradingScheme | undefined {
+    if (!cls?.gradingSchemes) return undefined;
+    return (materia && cls.gradingSchemes[materia]) || cls.gradingSchemes[DEFAULT_SCHEME_KEY];
+}
+
+// Atividades sem categoria (ou com categoria removida do esquema) entram na primeira categoria
+export function resolveCategory(scheme: GradingScheme | undefined, categoryId?: string): GradeCategory | undefined {
+    if (!scheme || scheme.categories.length === 0) return undefined;
+    return scheme.categories.find(c => c.id === categoryId) || scheme.categories[0];
+}
+
+/**
+ * Média da unidade (0 a 10). Com categorias, cada uma contribui com seu percentual de acerto
+ * ponderado pelo peso; categorias ainda sem notas não entram no cálculo.
+ */
+export function computeUnitAverage(unit: Pick<GradeReportUnidade, 'activities'>, scheme?: GradingScheme): { average: number | null; categories: GradeReportCategory[] } {
+    const graded = unit.activities.filter(a => a.maxPoints > 0);
+    if (graded.length === 0) return { average: null, categories: [] };
+
+    if (!scheme || scheme.categories.length === 0) {
+        const earned = graded.reduce((sum, a) => sum + a.grade, 0);
+        const possible = graded.reduce((sum, a) => sum + a.maxPoints, 0);
+        return { average: round((earned / possible) * GRADE_SCALE), categories: [] };
+    }
+
+    const categories: GradeReportCategory[] = scheme.categories.map(category => {
+        const items = graded.filter(a => resolveCategory(scheme, a.categoryId)?.id === category.id);
+        const earned = items.reduce((sum, a) => sum + a.grade, 0);
+        const possible = items.reduce((sum, a) => sum + a.maxPoints, 0);
+        return {
+            id: category.id,
+            name: category.name,
+            weight: category.weight,
+            earned: round(earned),
+            possible: round(possible),
+            average: possible > 0 ? round((earned / possible) * GRADE_SCALE) : null,
+        };
+    });
+
+    const counted = categories.filter(c => c.average !== null && c.weight > 0);
+    const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+    if (totalWeight === 0) return { average: null, categories };
+
+    const average = counted.reduce((sum, c) => sum + c.average! * c.weight, 0) / totalWeight;
+    return { average: round(average), categories };
+}
+
+/**
+ * Média anual: média aritmética das unidades com nota. A situação só é definida
+ * quando as quatro unidades estão fechadas.
+ */
+export function computeFinalResult(unidades: SubjectGradeReport['unidades'], passingAverage: number): { finalAverage: number | null; status: FinalGradeStatus } {
+    const averages = UNIDADES.map(u => unidades[u]?.average).filter((a): a is number => typeof a === 'number');
+    if (averages.length === 0) return { finalAverage: null, status: 'Em andamento' };
+
+    const finalAverage = round(averages.reduce((sum, a) => sum + a, 0) / averages.length);
+    if (averages.length < UNIDADES.length) return { finalAverage, status: 'Em andamento' };
+    return { finalAverage, status: finalAverage >= passingAverage ? 'Aprovado' : 'Recuperação' };
+}
+
+/**
+ * Atividade que o aluno já deveria ter entregue: o prazo dele (com extensão) venceu ou a unidade fechou.
+ */
+export function isActivityDue(activity: Activity, studentId: string, { now = new Date(), isUnidadeClosed }: GradeReportOptions = {}): boolean {
+    if (isUnidadeClosed?.(activity)) return true;
+    const dueDate = getEffectiveDueDate(activity, studentId);
+    return !!dueDate && diffDayKeys(dueDate, toDayKey(now, DEFAULT_TIMEZONE)) > 0;
+}
+
+/**
+ * Monta o boletim de um aluno em uma turma, separado por matéria, a partir das entregas corrigidas.
+ * Atividades vencidas sem entrega entram com nota zero; as ainda no prazo ou aguardando correção ficam de fora.
+ * Atividades de recuperação não entram na média: ajustam a média da unidade pela regra configurada.
+ */
+export function buildSubjectReports(
+    cls: Pick<TeacherClass, 'gradingSchemes'> | undefined,
+    activities: Activity[],
+    studentId: string,
+    options: GradeReportOptions = {}
+): Record<string, SubjectGradeReport> {
+    const subjects: Record<string, SubjectGradeReport> = {};
+    const recoveries: { materia: string; unidade: Unidade; recovery: GradeReportRecovery }[] = [];
+
+    activities.forEach(activity => {
+        if (!activity.unidade) return;
+        const submission = activity.submissions?.find((s: ActivitySubmission) => s.studentId === studentId);
+        const isGraded = submission?.status === 'Corrigido' && typeof submission.grade === 'number';
+        // Recuperação não feita não altera a média; atividades ocultas não são cobradas
+        const isMissing = !submission && !activity.recovery && activity.isVisible !== false && isActivityDue(activity, studentId, options);
+        if (!isGraded && !isMissing) return;
+        const grade = isGraded ? submission!.grade! : 0;
+
+        const materia = activity.materia || GENERAL_MATERIA;
+        if (!subjects[materia]) {
+            const scheme = getGradingScheme(cls, activity.materia);
+            subjects[materia] = {
+                materia,
+                unidades: {},
+                finalAverage: null,
+                passingAverage: scheme?.passingAverage ?? DEFAULT_PASSING_AVERAGE,
+                status: 'Em andamento',
+            };
+        }
+
+        const unidades = subjects[materia].unidades;
+        if (!unidades[activity.unidade]) {
+            unidades[activity.unidade] = { totalPoints: 0, activities: [], average: null, categories: [] };
+        }
+
+        if (activity.recovery) {
+            recoveries.push({
+                materia,
+                unidade: activity.unidade,
+                recovery: {
+                    activityId: activity.id,
+                    title: activity.title,
+                    grade,
+                    maxPoints: activity.points,
+                    rule: activity.recovery.rule,
+                    originalAverage: null,
+                }
+            });
+            return;
+        }
+
+        const unit = unidades[activity.unidade]!;
+        unit.totalPoints = round(unit.totalPoints + grade);
+        unit.activities.push({
+            id: activity.id,
+            title: activity.title,
+            grade,
+            maxPoints: activity.points,
+            ...(activity.gradeCategory ? { categoryId: activity.gradeCategory } : {}),
+            ...(submission?.gradedAt ? { gradedAt: submission.gradedAt } : {}),
+            ...(isMissing ? { missing: true } : {}),
+        });
+    });
+
+    Object.values(subjects).forEach(subject => {
+        const scheme = getGradingScheme(cls, subject.materia === GENERAL_MATERIA ? undefined : subject.materia);
+        Object.values(subject.unidades).forEach(unit => {
+            if (!unit) return;
+            const { average, categories } = computeUnitAverage(unit, scheme);
+            unit.average = average;
+            unit.categories = categories;
+        });
+
+        // Mais de uma recuperação na mesma unidade: vale a que resultar na maior média
+        recoveries.filter(r => r.materia === subject.materia).forEach(({ unidade, recovery }) => {
+            const unit = subject.unidades[unidade]!;
+            const originalAverage = unit.recovery ? unit.recovery.originalAverage : unit.average;
+            const recoveryGrade = recovery.maxPoints > 0 ? (recovery.grade / recovery.maxPoints) * GRADE_SCALE : 0;
+            const average = applyRecoveryRule(recovery.rule, originalAverage, recoveryGrade, subject.passingAverage);
+            if (!unit.recovery || average > (unit.average ?? 0)) {
+                unit.recovery = { ...recovery, originalAverage };
+                unit.average = average;
+            }
+        });
+
+        Object.assign(subject, computeFinalResult(subject.unidades, subject.passingAverage));
+    });
+
+    return subjects;
+}
+
+/**
+ * Alunos com média abaixo da aprovação em uma unidade/matéria (candidatos à recuperação).
+ * Considera apenas as atividades já carregadas da turma; aluno sem nenhuma nota na unidade conta como zero.
+ */
+export function findStudentsBelowPassing(cls: TeacherClass | undefined, materia: string, unidade: Unidade, options: GradeReportOptions = {}): { studentId: string; name: string; average: number }[] {
+    if (!cls) return [];
+    const activities = (cls.activities || []).filter(a => a.materia === materia && a.unidade === unidade && !a.recovery);
+    const passingAverage = getGradingScheme(cls, materia)?.passingAverage ?? DEFAULT_PASSING_AVERAGE;
+
+    return (cls.students || [])
+        .map(student => {
+            const average = buildSubjectReports(cls, activities, student.id, options)[materia]?.unidades[unidade]?.average ?? 0;
+            return { studentId: student.id, name: student.name, average };
+        })
+        .filter(s => s.average < passingAverage)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Valida pesos e média antes de salvar o esquema
+export function validateGradingScheme(scheme: GradingScheme): string | null {
+    if (scheme.categories.length === 0) return 'Adicione pelo menos uma categoria.';
+    if (scheme.categories.some(c => !c.name.trim())) return 'Todas as categorias precisam de nome.';
+    if (scheme.categories.some(c => c.weight <= 0)) return 'Os pesos devem ser maiores que zero.';
+    const total = scheme.categories.reduce((sum, c) => sum + c.weight, 0);
+    if (Math.abs(total - 100) > 0.01) return `A soma dos pesos deve ser 100% (atual: ${round(total)}%).`;
+    if (scheme.passingAverage <= 0 || scheme.passingAverage > GRADE_SCALE) return `A média mínima deve estar entre 0 e ${GRADE_SCALE}.`;
+    return null;
+}
@@ -0,0 +1,137 @@
+import type { QuizAnswer, QuizQuestion } from '../types';
+import { getQuestionType, isAnswerCorrect, normalizeTextAnswer } from './quizScoring';
+
+/**
+ * Respostas de um aluno (chave = id da questão, como string — formato salvo no Firestore).
+ */
+export interface StudentItemResponses {
+    studentId: string;
+    studentName: string;
+    answers: Record<string, QuizAnswer>;
+}
+
+export interface DistractorStat {
+    key: string;
+    label: string;
+    count: number;
+    isCorrect: boolean;
+}
+
+export interface ItemAnalysisRow {
+    questionId: number;
+    index: number;
+    question: string;
+    answeredCount: number;
+    correctCount: number;
+    percentCorrect: number; // 0-100
+    // Índice de discriminação (grupo superior − grupo inferior, 27%). null quando há poucos alunos.
+    discrimination: number | null;
+    distractors: DistractorStat[];
+    missedBy: { id: string; name: string }[];
+}
+
+// Mínimo de respondentes para o índice de discriminação fazer sentido
+const MIN_RESPONDENTS_FOR_DISCRIMINATION = 4;
+const DISCRIMINATION_GROUP_RATIO = 0.27;
+
+// Chaves numéricas não são aceitas como campos de mapa de forma previsível: salvamos sempre como string
+export function serializeQuizAnswers(answers: Record<number, QuizAnswer>): Record<string, QuizAnswer> {
+    const serialized: Record<string, QuizAnswer> = {};
+    Object.entries(answers).forEach(([questionId, answer]) => {
+        if (answer !== undefined && answer !== null) serialized[String(questionId)] = answer;
+    });
+    return serialized;
+}
+
+/**
+ * Frequência de cada resposta. Questões de alternativa contam cada opção (inclusive as não marcadas);
+ * respostas abertas são agrupadas pelo texto normalizado.
+ */
+function buildDistractors(question: QuizQuestion, answers: (QuizAnswer | undefined)[]): DistractorStat[] {
+    const type = getQuestionType(question);
+
+    if (type === 'single' || type === 'true_false' || type === 'multi_select') {
+        const correctIds = type === 'multi_select' ? (question.correctAnswerIds || []) : [question.correctAnswerId];
+        return question.choices.map(choice => ({
+            key: choice.id,
+            label: choice.text,
+            isCorrect: correctIds.includes(choice.id),
+            count: answers.filter(a => Array.isArray(a) ? a.includes(choice.id) : a === choice.id).length,
+        }));
+    }
+
+    if (type === 'fill_blank' || type === 'numeric') {
+        const groups = new Map<string, DistractorStat>();
+        answers.forEach(answer => {
+            if (typeof answer !== 'string' || !answer.trim()) return;
+            const key = normalizeTextAnswer(answer);
+            const current = groups.get(key) || { key, label: answer.trim(), count: 0, isCorrect: isAnswerCorrect(question, answer) };
+            current.count++;
+            groups.set(key, current);
+        });
+        return Array.from(groups.values()).sort((a, b) => b.count - a.count).slice(0, 6);
+    }
+
+    // Ordenação e associação: apenas certo/errado
+    const correct = answers.filter(a => isAnswerCorrect(question, a)).length;
+    const answered = answers.filter(a => a !== undefined).length;
+    return [
+        { key: 'correct', label: 'Resposta completa e correta', count: correct, isCorrect: true },
+        { key: 'incorrect', label: 'Resposta incorreta ou parcial', count: answered - correct, isCorrect: false },
+    ];
+}
+
+/**
+ * Análise de itens clássica: percentual de acerto, distratores, discriminação e quem errou.
+ * Considera apenas alunos que responderam ao quiz/atividade.
+ */
+export function analyzeItems(questions: QuizQuestion[], responses: StudentItemResponses[]): ItemAnalysisRow[] {
+    // Nota total de cada aluno, usada para formar os grupos superior/inferior
+    const ranked = responses
+        .map(r => ({
+            ...r,
+            total: questions.reduce((sum, q) => sum + (isAnswerCorrect(q, r.answers[String(q.id)]) ? 1 : 0), 0),
+        }))
+        .sort((a, b) => b.total - a.total);
+
+    const groupSize = Math.max(1, Math.round(ranked.length * DISCRIMINATION_GROUP_RATIO));
+    const canDiscriminate = ranked.length >= MIN_RESPONDENTS_FOR_DISCRIMINATION;
+    const upper = ranked.slice(0, groupSize);
+    const lower = ranked.slice(-groupSize);
+
+    const proportionCorrect = (group: typeof ranked, q: QuizQuestion) =>
+        group.filter(r => isAnswerCorrect(q, r.answers[String(q.id)])).length / group.length;
+
+    return questions.map((q, index) => {
+        const key = String(q.id);
+        const answered = ranked.filter(r => r.answers[key] !== undefined);
+        const correct = answered.filter(r => isAnswerCorrect(q, r.answers[key]));
+
+        return {
+            questionId: q.id,
+            index,
+            question: q.question,
+            answeredCount: answered.length,
+            correctCount: correct.length,
+            percentCorrect: answered.length > 0 ? Math.round((correct.length / answered.length) * 100) : 0,
+            discrimination: canDiscriminate
+                ? Math.round((proportionCorrect(upper, q) - proportionCorrect(lower, q)) * 100) / 100
+                : null,
+            distractors: buildDistractors(q, ranked.map(r => r.answers[key])),
+            missedBy: ranked
+                .filter(r => !isAnswerCorrect(q, r.answers[key]))
+                .map(r => ({ id: r.studentId, name: r.studentName }))
+                .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')),
+        };
+    });
+}
+
+/**
+ * Leitura pedagógica do índice de discriminação (referência de Ebel).
+ */
+export function describeDiscrimination(value: number | null): { label: string; tone: 'good' | 'ok' | 'bad' | 'none' } {
+    if (value === null) return { label: 'Poucos alunos', tone: 'none' };
+    if (value >= 0.4) return { label: 'Ótima', tone: 'good' };
+    if (value >= 0.2) return { label: 'Aceitável', tone: 'ok' };
+    return { label: 'Revisar questão', tone: 'bad' };
+}
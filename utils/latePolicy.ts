@@ -0,0 +1,84 @@
+import type { Activity, ActivitySubmission, LatePenalty } from '../types';
+import { DEFAULT_TIMEZONE, diffDayKeys, toDayKey } from './gamificationEngine';
+
+export interface LateStatus {
+    isLate: boolean;
+    daysLate: number;
+    penaltyPercent: number;
+    blocked: boolean; // Atrasada e a atividade não aceita envios fora do prazo
+}
+
+export const ON_TIME_STATUS: LateStatus = { isLate: false, daysLate: 0, penaltyPercent: 0, blocked: false };
+
+// Entrega feita sem conexão: vale o momento em que entrou na fila, se sincronizada em até 24h (o mesmo de rules.txt)
+export const OFFLINE_SUBMISSION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Momento usado para o prazo: o recebimento ou, para entregas da fila offline, o momento em que foram
+ * feitas, desde que a sincronização ocorra dentro da tolerância.
+ */
+export function getDeadlineReferenceTime(receivedAt: Date, queuedAt?: number): Date {
+    if (typeof queuedAt !== 'number') return receivedAt;
+    const elapsed = receivedAt.getTime() - queuedAt;
+    return elapsed >= 0 && elapsed < OFFLINE_SUBMISSION_GRACE_MS ? new Date(queuedAt) : receivedAt;
+}
+
+/**
+ * Prazo que vale para o aluno: a extensão concedida pelo professor substitui a data da atividade.
+ */
+export function getEffectiveDueDate(activity: Pick<Activity, 'dueDate' | 'extensions'>, studentId: string): string | undefined {
+    return activity.extensions?.[studentId] || activity.dueDate;
+}
+
+/**
+ * Percentual descontado após `daysLate` dias, limitado ao teto configurado.
+ */
+export function computeLatePenaltyPercent(penalty: LatePenalty | undefined, daysLate: number): number {
+    if (!penalty || daysLate <= 0 || penalty.percentPerDay <= 0) return 0;
+    const cap = penalty.maxPercent > 0 ? Math.min(penalty.maxPercent, 100) : 100;
+    return Math.min(penalty.percentPerDay * daysLate, cap);
+}
+
+/**
+ * Situação de uma entrega em relação ao prazo. O prazo vale até o fim do dia, no fuso da escola.
+ */
+export function getLateStatus(
+    activity: Pick<Activity, 'dueDate' | 'extensions' | 'allowLateSubmissions' | 'latePenalty'>,
+    studentId: string,
+    submissionDate: string | Date = new Date()
+): LateStatus {
+    const dueDate = getEffectiveDueDate(activity, studentId);
+    if (!dueDate) return ON_TIME_STATUS;
+
+    const daysLate = diffDayKeys(dueDate, toDayKey(new Date(submissionDate), DEFAULT_TIMEZONE));
+    if (daysLate <= 0) return ON_TIME_STATUS;
+
+    return {
+        isLate: true,
+        daysLate,
+        penaltyPercent: computeLatePenaltyPercent(activity.latePenalty, daysLate),
+        // Atividades antigas sem o campo continuam aceitando envios
+        blocked: activity.allowLateSubmissions === false
+    };
+}
+
+export function applyLatePenalty(grade: number, penaltyPercent?: number): number {
+    if (!penaltyPercent) return grade;
+    return Math.round(grade * (1 - penaltyPercent / 100) * 100) / 100;
+}
+
+// Campos gravados na entrega (Firestore não aceita undefined)
+export function buildLateFields(status: LateStatus): Pick<ActivitySubmission, 'isLate' | 'daysLate' | 'latePenaltyPercent'> {
+    if (!status.isLate) return {};
+    return {
+        isLate: true,
+        daysLate: status.daysLate,
+        ...(status.penaltyPercent > 0 ? { latePenaltyPercent: status.penaltyPercent } : {})
+    };
+}
+
+export function formatLateLabel(submission: Pick<ActivitySubmission, 'daysLate' | 'latePenaltyPercent'>): string {
+    const days = submission.daysLate || 0;
+    const base = `Atrasada${days > 0 ? ` (${days} ${days === 1 ? 'dia' : 'dias'})` : ''}`;
+    return submission.latePenaltyPercent ? `${base} · -${submission.latePenaltyPercent}%` : base;
+}
@@ -0,0 +1,68 @@
+import type { UserStats } from '../types';
+
+/**
+ * Curva de níveis ÚNICA do sistema (Single Source of Truth).
+ * Todo cálculo de nível (UserStats, Perfil, Conquistas) deve passar por aqui,
+ * nunca por fórmulas locais como `xp / 100 + 1`.
+ *
+ * Curva progressiva: cada nível exige 100 XP a mais que o anterior.
+ * Nível 2 = 100 XP, Nível 3 = 300 XP, Nível 4 = 600 XP, Nível 5 = 1000 XP...
+ */
+const XP_STEP = 100;
+
+const LEVEL_NAMES: { minLevel: number; name: string }[] = [
+    { minLevel: 20, name: 'Mestre da História' },
+    { minLevel: 15, name: 'Historiador' },
+    { minLevel: 10, name: 'Pesquisador' },
+    { minLevel: 5, name: 'Estudante' },
+    { minLevel: 1, name: 'Iniciante' },
+];
+
+/**
+ * XP total necessário para alcançar um nível.
+ */
+export function getXpForLevel(level: number): number {
+    const n = Math.max(1, Math.floor(level));
+    return (XP_STEP * n * (n - 1)) / 2;
+}
+
+/**
+ * Nível correspondente a um total de XP (inverso de getXpForLevel).
+ */
+export function getLevelForXp(xp: number): number {
+    const safeXp = Math.max(0, xp || 0);
+    let level = Math.floor((1 + Math.sqrt(1 + (8 * safeXp) / XP_STEP)) / 2);
+    // Corrige possíveis erros de arredondamento do ponto flutuante
+    while (getXpForLevel(level + 1) <= safeXp) level++;
+    while (level > 1 && getXpForLevel(level) > safeXp) level--;
+    return Math.max(1, level);
+}
+
+export function getLevelName(level: number): string {
+    return LEVEL_NAMES.find(l => level >= l.minLevel)?.name || 'Iniciante';
+}
+
+/**
+ * Monta o UserStats completo a partir do XP.
+ * xpForNextLevel é o XP total em que o próximo nível é alcançado.
+ */
+export function getLevelInfo(xp: number): UserStats {
+    const safeXp = Math.max(0, xp || 0);
+    const level = getLevelForXp(safeXp);
+    return {
+        xp: safeXp,
+        level,
+        xpForCurrentLevel: getXpForLevel(level),
+        xpForNextLevel: getXpForLevel(level + 1),
+        levelName: getLevelName(level),
+    };
+}
+
+/**
+ * Percentual (0-100) percorrido dentro do nível atual.
+ */
+export function getLevelProgress(stats: UserStats): number {
+    const span = stats.xpForNextLevel - stats.xpForCurrentLevel;
+    if (span <= 0) return 100;
+    return Math.min(100, Math.max(0, Math.round(((stats.xp - stats.xpForCurrentLevel) / span) * 100)));
+}
@@ -0,0 +1,170 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { Module, ModulePage } from '../types';
+
+// Banco IndexedDB com o conteúdo dos módulos baixados (páginas, quiz e metadados), separado por usuário
+const OFFLINE_DB_NAME = 'historia-acessivel-offline';
+const OFFLINE_DB_VERSION = 2;
+const MODULES_STORE = 'modules';
+const USER_INDEX = 'userId';
+
+// Cache Storage com as imagens dos módulos baixados.
+// O service worker (vite.config.ts) usa este cache como fallback quando a rede falha.
+export const OFFLINE_ASSETS_CACHE = 'offline-module-assets';
+
+export interface OfflineModuleRecord {
+    id: string; // getOfflineRecordId(userId, moduleId)
+    userId: string; // Quem baixou: cada conta vê apenas as próprias cópias no aparelho
+    moduleId: string;
+    module: Module; // Inclui pages e quiz completos
+    assetUrls: string[];
+    sizeBytes: number;
+    downloadedAt: number;
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+export const isOfflineStorageSupported = () =>
+    typeof indexedDB !== 'undefined' && typeof caches !== 'undefined';
+
+const getOfflineRecordId = (userId: string, moduleId: string) => `${userId}_${moduleId}`;
+
+const openOfflineDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = (event) => {
+        const database = request.result;
+        // Versão 1 não registrava o dono da cópia: os downloads antigos são descartados
+        if (event.oldVersion < 2 && database.objectStoreNames.contains(MODULES_STORE)) {
+            database.deleteObjectStore(MODULES_STORE);
+        }
+        if (!database.objectStoreNames.contains(MODULES_STORE)) {
+            database.createObjectStore(MODULES_STORE, { keyPath: 'id' }).createIndex(USER_INDEX, 'userId');
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Executa uma única operação no object store e fecha a conexão
+async function runStoreRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await openOfflineDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = operation(database.transaction(MODULES_STORE, mode).objectStore(MODULES_STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+}
+
+export const getOfflineModule = (userId: string, moduleId: string) =>
+    runStoreRequest<OfflineModuleRecord | undefined>('readonly', store => store.get(getOfflineRecordId(userId, moduleId)));
+
+export const listOfflineModules = (userId: string) =>
+    runStoreRequest<OfflineModuleRecord[]>('readonly', store => store.index(USER_INDEX).getAll(userId));
+
+// Imagens referenciadas pela capa e pelas páginas (vídeos do YouTube não podem ser baixados)
+function collectAssetUrls(module: Module, pages: ModulePage[]): string[] {
+    const urls = new Set<string>();
+    if (module.coverImageUrl) urls.add(module.coverImageUrl);
+    pages.forEach(page => page.content.forEach(item => {
+        if (item.type === 'image' && typeof item.content === 'string' && /^https?:\/\//i.test(item.content)) {
+            urls.add(item.content);
+        }
+    }));
+    return Array.from(urls);
+}
+
+// Baixa a imagem para o Cache Storage. Retorna o tamanho em bytes (0 quando a resposta é opaca).
+async function cacheAsset(cache: Cache, url: string): Promise<number> {
+    try {
+        const response = await fetch(url, { mode: 'cors' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const size = (await response.clone().blob()).size;
+        await cache.put(url, response);
+        return size;
+    } catch {
+        // Servidores sem CORS: guarda a resposta opaca mesmo assim
+        try {
+            await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+        } catch (error) {
+            console.warn('Não foi possível baixar a imagem para uso offline:', url, error);
+        }
+        return 0;
+    }
+}
+
+/**
+ * Baixa o módulo completo para uso offline: páginas (module_contents), quiz e imagens.
+ */
+export async function downloadModuleForOffline(userId: string, module: Module): Promise<OfflineModuleRecord> {
+    let pages = module.pages || [];
+    if (pages.length === 0) {
+        const contentSnap = await getDoc(doc(db, 'module_contents', module.id));
+        pages = contentSnap.exists() ? (contentSnap.data().pages || []) : [];
+    }
+
+    const { downloadState, progress, ...moduleData } = module;
+    const snapshot: Module = { ...moduleData, pages, quiz: module.quiz || [] };
+
+    // Pede ao navegador que não apague os dados offline sob pressão de espaço
+    if (navigator.storage?.persist) {
+        await navigator.storage.persist().catch(() => false);
+    }
+
+    const assetUrls = collectAssetUrls(snapshot, pages);
+    const cache = await caches.open(OFFLINE_ASSETS_CACHE);
+    let assetsSize = 0;
+    for (const url of assetUrls) {
+        assetsSize += await cacheAsset(cache, url);
+    }
+
+    const record: OfflineModuleRecord = {
+        id: getOfflineRecordId(userId, module.id),
+        userId,
+        moduleId: module.id,
+        module: snapshot,
+        assetUrls,
+        sizeBytes: new Blob([JSON.stringify(snapshot)]).size + assetsSize,
+        downloadedAt: Date.now(),
+    };
+    await runStoreRequest('readwrite', store => store.put(record));
+    return record;
+}
+
+/**
+ * Remove o módulo do armazenamento offline. Imagens compartilhadas com outros módulos baixados
+ * (por este ou por outro usuário do aparelho) são mantidas.
+ */
+export async function removeOfflineModule(userId: string, moduleId: string): Promise<void> {
+    const record = await getOfflineModule(userId, moduleId);
+    await runStoreRequest('readwrite', store => store.delete(getOfflineRecordId(userId, moduleId)));
+    if (!record) return;
+
+    const remaining = await runStoreRequest<OfflineModuleRecord[]>('readonly', store => store.getAll());
+    const stillUsed = new Set(remaining.flatMap(r => r.assetUrls));
+    const cache = await caches.open(OFFLINE_ASSETS_CACHE);
+    await Promise.all(record.assetUrls.filter(url => !stillUsed.has(url)).map(url => cache.delete(url)));
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return { usage, quota };
+    } catch {
+        return null;
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
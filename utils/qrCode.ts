@@ -0,0 +1,273 @@
+// Gerador de QR Code (modo byte, correção de erros nível M) para projetar o link de entrada da turma.
+// Suporta as versões 1 a 6 (até 106 bytes), suficiente para o link com o código; dispensa bibliotecas externas.
+
+interface QrVersion {
+    dataPerBlock: number;
+    blocks: number;
+    eccPerBlock: number;
+}
+
+// Tabela da norma (ISO/IEC 18004) para o nível M
+const VERSIONS: QrVersion[] = [
+    { dataPerBlock: 16, blocks: 1, eccPerBlock: 10 },
+    { dataPerBlock: 28, blocks: 1, eccPerBlock: 16 },
+    { dataPerBlock: 44, blocks: 1, eccPerBlock: 26 },
+    { dataPerBlock: 32, blocks: 2, eccPerBlock: 18 },
+    { dataPerBlock: 43, blocks: 2, eccPerBlock: 24 },
+    { dataPerBlock: 27, blocks: 4, eccPerBlock: 16 },
+];
+
+// Indicador de modo (4 bits) + contagem de bytes (8 bits)
+const HEADER_BITS = 12;
+
+export const QR_MAX_BYTES = Math.floor((VERSIONS[VERSIONS.length - 1].dataPerBlock * VERSIONS[VERSIONS.length - 1].blocks * 8 - HEADER_BITS) / 8);
+
+// --- Reed-Solomon em GF(256), polinômio 0x11D ---
+
+const gfMultiply = (x: number, y: number): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z & 0xff;
+};
+
+const rsDivisor = (degree: number): number[] => {
+    const result = new Array(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < degree) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = divisor.map(() => 0);
+    data.forEach(byte => {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+    });
+    return result;
+};
+
+// --- Codificação dos dados ---
+
+function encodeCodewords(bytes: Uint8Array, version: QrVersion): number[] {
+    const capacityBits = version.dataPerBlock * version.blocks * 8;
+    const bits: number[] = [];
+    const push = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    push(0b0100, 4);
+    push(bytes.length, 8);
+    bytes.forEach(b => push(b, 8));
+    push(0, Math.min(4, capacityBits - bits.length));
+    push(0, (8 - bits.length % 8) % 8);
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+    }
+    for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+
+    // Divide em blocos, calcula a correção de cada um e intercala
+    const divisor = rsDivisor(version.eccPerBlock);
+    const blocks = Array.from({ length: version.blocks }, (_, i) => data.slice(i * version.dataPerBlock, (i + 1) * version.dataPerBlock));
+    const eccBlocks = blocks.map(block => rsRemainder(block, divisor));
+
+    const result: number[] = [];
+    for (let i = 0; i < version.dataPerBlock; i++) blocks.forEach(block => result.push(block[i]));
+    for (let i = 0; i < version.eccPerBlock; i++) eccBlocks.forEach(block => result.push(block[i]));
+    return result;
+}
+
+// --- Matriz ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+class QrMatrix {
+    readonly size: number;
+    modules: boolean[][];
+    readonly isFunction: boolean[][];
+
+    constructor(versionNumber: number) {
+        this.size = versionNumber * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+        this.drawFunctionPatterns(versionNumber);
+    }
+
+    private setFunction(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+
+    private drawFunctionPatterns(versionNumber: number) {
+        const { size } = this;
+        for (let i = 0; i < size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+        [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const x = cx + dx;
+                    const y = cy + dy;
+                    const dist = Math.max(Math.abs(dx), Math.abs(dy));
+                    if (x >= 0 && x < size && y >= 0 && y < size) this.setFunction(x, y, dist !== 2 && dist !== 4);
+                }
+            }
+        });
+        // Até a versão 6 há um único padrão de alinhamento, no canto inferior direito
+        if (versionNumber >= 2) {
+            const center = size - 7;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    this.setFunction(center + dx, center + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+                }
+            }
+        }
+        this.drawFormatBits(0);
+    }
+
+    // Nível M (bits 00) + máscara, com BCH(15,5) e a máscara fixa da norma
+    drawFormatBits(mask: number) {
+        const { size } = this;
+        const data = mask;
+        let rem = data;
+        for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+        const bits = ((data << 10) | rem) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+        for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+        this.setFunction(8, 7, bit(6));
+        this.setFunction(8, 8, bit(7));
+        this.setFunction(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+        for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+        for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+        this.setFunction(8, size - 8, true);
+    }
+
+    // Preenchimento em zigue-zague, de baixo para cima, em pares de colunas
+    drawCodewords(codewords: number[]) {
+        const { size } = this;
+        let i = 0;
+        for (let right = size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vert = 0; vert < size; vert++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? size - 1 - vert : vert;
+                    if (!this.isFunction[y][x] && i < codewords.length * 8) {
+                        this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+            }
+        }
+    }
+
+    // Penalidade simplificada: sequências longas, blocos 2x2 e equilíbrio entre claros e escuros
+    penalty(): number {
+        const { size, modules } = this;
+        let score = 0;
+        const scoreRuns = (get: (a: number, b: number) => boolean) => {
+            for (let a = 0; a < size; a++) {
+                let run = 1;
+                for (let b = 1; b <= size; b++) {
+                    if (b < size && get(a, b) === get(a, b - 1)) {
+                        run++;
+                    } else {
+                        if (run >= 5) score += 3 + (run - 5);
+                        run = 1;
+                    }
+                }
+            }
+        };
+        scoreRuns((y, x) => modules[y][x]);
+        scoreRuns((x, y) => modules[y][x]);
+
+        let dark = 0;
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (modules[y][x]) dark++;
+                if (x + 1 < size && y + 1 < size) {
+                    const color = modules[y][x];
+                    if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+                }
+            }
+        }
+        const total = size * size;
+        score += Math.max(0, Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return score;
+    }
+}
+
+/**
+ * Gera a matriz do QR Code (true = módulo escuro) escolhendo a menor versão que comporta o texto
+ * e a máscara com menor penalidade.
+ */
+export function encodeQrCode(text: string): boolean[][] {
+    const bytes = new TextEncoder().encode(text);
+    const versionIndex = VERSIONS.findIndex(v => HEADER_BITS + bytes.length * 8 <= v.dataPerBlock * v.blocks * 8);
+    if (versionIndex < 0) throw new Error(`Texto longo demais para o QR Code (máximo de ${QR_MAX_BYTES} bytes).`);
+
+    const matrix = new QrMatrix(versionIndex + 1);
+    matrix.drawCodewords(encodeCodewords(bytes, VERSIONS[versionIndex]));
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    const unmasked = matrix.modules.map(row => [...row]);
+    MASKS.forEach((_, mask) => {
+        matrix.modules = unmasked.map(row => [...row]);
+        matrix.applyMask(mask);
+        matrix.drawFormatBits(mask);
+        const penalty = matrix.penalty();
+        if (penalty < bestPenalty) {
+            bestPenalty = penalty;
+            bestMask = mask;
+        }
+    });
+
+    matrix.modules = unmasked.map(row => [...row]);
+    matrix.applyMask(bestMask);
+    matrix.drawFormatBits(bestMask);
+    return matrix.modules;
+}
+
+// Caminho SVG (um retângulo por módulo escuro), com margem de 4 módulos exigida pela norma
+export function buildQrSvgPath(modules: boolean[][], border = 4): { path: string; viewBoxSize: number } {
+    const parts: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) parts.push(`M${x + border},${y + border}h1v1h-1z`);
+    }));
+    return { path: parts.join(''), viewBoxSize: modules.length + border * 2 };
+}
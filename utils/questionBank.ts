@@ -0,0 +1,132 @@
+import { collection, addDoc, doc, writeBatch, serverTimestamp, query, where, getDocs, deleteField } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { QuestionBankItem, QuestionBankTags, QuestionUsage, QuizQuestion } from '../types';
+import { normalizeTextAnswer, sanitizeQuestion } from './quizScoring';
+
+export const QUESTION_BANK_COLLECTION = 'question_bank';
+
+export interface QuestionBankFilters {
+    search?: string;
+    series?: string;
+    materia?: string;
+    period?: string;
+    bnccCode?: string;
+    difficulty?: string;
+}
+
+/**
+ * Salva uma cópia da questão no banco compartilhado. A questão do quiz/atividade
+ * de origem passa a apontar para o item (bankQuestionId).
+ */
+export async function saveQuestionToBank(
+    question: QuizQuestion,
+    tags: QuestionBankTags,
+    creator: { id: string; name: string }
+): Promise<string> {
+    const { bankQuestionId, ...body } = sanitizeQuestion(question);
+    const cleanTags: QuestionBankTags = {};
+    if (tags.series?.trim()) cleanTags.series = tags.series.trim();
+    if (tags.materia?.trim()) cleanTags.materia = tags.materia.trim();
+    if (tags.period?.trim()) cleanTags.period = tags.period.trim();
+    if (tags.bnccCode?.trim()) cleanTags.bnccCode = tags.bnccCode.trim().toUpperCase();
+    if (tags.difficulty) cleanTags.difficulty = tags.difficulty;
+
+    const docRef = await addDoc(collection(db, QUESTION_BANK_COLLECTION), {
+        question: body,
+        tags: cleanTags,
+        creatorId: creator.id,
+        creatorName: creator.name,
+        createdAt: serverTimestamp(),
+        usages: {}
+    });
+    return docRef.id;
+}
+
+/**
+ * Copia um item do banco para dentro de um quiz/módulo/atividade, com id local novo.
+ */
+export function instantiateBankQuestion(item: QuestionBankItem, localId: number): QuizQuestion {
+    return {
+        ...JSON.parse(JSON.stringify(item.question)),
+        id: localId,
+        bankQuestionId: item.id
+    };
+}
+
+// Chave do conteúdo no mapa usages: um registro por quiz/módulo/atividade
+export function getQuestionUsageKey(usage: Pick<QuestionUsage, 'kind' | 'id'>): string {
+    return `${usage.kind}_${usage.id}`;
+}
+
+/**
+ * Sincroniza onde as questões vindas do banco estão sendo usadas: o conteúdo passa a constar
+ * (com o título atual) nos itens que ele usa e deixa de constar nos que não usa mais.
+ * Falhas não interrompem o salvamento do conteúdo (o rastreio é apenas informativo).
+ */
+export async function syncQuestionUsage(questions: QuizQuestion[] | undefined, usage: QuestionUsage): Promise<void> {
+    const key = getQuestionUsageKey(usage);
+    const bankIds = new Set((questions || []).map(q => q.bankQuestionId).filter((id): id is string => !!id));
+
+    try {
+        const previousSnap = await getDocs(query(collection(db, QUESTION_BANK_COLLECTION), where(`usages.${key}.id`, '==', usage.id)));
+        const staleIds = previousSnap.docs.map(d => d.id).filter(id => !bankIds.has(id));
+        if (bankIds.size === 0 && staleIds.length === 0) return;
+
+        const batch = writeBatch(db);
+        bankIds.forEach(id => {
+            batch.update(doc(db, QUESTION_BANK_COLLECTION, id), { [`usages.${key}`]: usage });
+        });
+        staleIds.forEach(id => {
+            batch.update(doc(db, QUESTION_BANK_COLLECTION, id), { [`usages.${key}`]: deleteField() });
+        });
+        await batch.commit();
+    } catch (error) {
+        console.warn('Não foi possível registrar o uso das questões do banco:', error);
+    }
+}
+
+// Conteúdo excluído: sai do rastreio de todos os itens do banco
+export function clearQuestionUsage(usage: Pick<QuestionUsage, 'kind' | 'id'>): Promise<void> {
+    return syncQuestionUsage([], { ...usage, title: '' });
+}
+
+/**
+ * Filtro local (o banco é carregado uma vez por sessão via useCachedQuery).
+ * A busca textual ignora acentos e considera enunciado, alternativas e tags.
+ */
+export function filterQuestionBank(items: QuestionBankItem[], filters: QuestionBankFilters): QuestionBankItem[] {
+    const term = filters.search ? normalizeTextAnswer(filters.search) : '';
+
+    return items.filter(item => {
+        const tags = item.tags || {};
+        if (filters.series && tags.series !== filters.series) return false;
+        if (filters.materia && tags.materia !== filters.materia) return false;
+        if (filters.difficulty && tags.difficulty !== filters.difficulty) return false;
+        if (filters.period && !normalizeTextAnswer(tags.period || '').includes(normalizeTextAnswer(filters.period))) return false;
+        if (filters.bnccCode && !(tags.bnccCode || '').toUpperCase().startsWith(filters.bnccCode.trim().toUpperCase())) return false;
+
+        if (!term) return true;
+        const haystack = [
+            item.question.question,
+            ...(item.question.choices || []).map(c => c.text),
+            ...(item.question.pairs || []).flatMap(p => [p.left, p.right]),
+            tags.period, tags.bnccCode, tags.materia
+        ].filter(Boolean).join(' ');
+        return normalizeTextAnswer(haystack).includes(term);
+    });
+}
+
+// Valores distintos de uma tag, para montar os filtros
+export function collectTagValues(items: QuestionBankItem[], key: keyof QuestionBankTags): string[] {
+    const values = new Set<string>();
+    items.forEach(item => {
+        const value = item.tags?.[key];
+        if (value) values.add(value);
+    });
+    return Array.from(values).sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+export function describeUsage(usage: QuestionUsage): string {
+    const labels: Record<QuestionUsage['kind'], string> = { quiz: 'Quiz', module: 'Módulo', activity: 'Atividade' };
+    return `${labels[usage.kind]}: ${usage.title}`;
+}
@@ -0,0 +1,110 @@
+import type { Quiz, QuizQuestion, QuizResult, QuizScorePolicy, QuizSettings } from '../types';
+import { getQuestionType, shuffleArray } from './quizScoring';
+import { DEFAULT_TIMEZONE, toDayKey } from './gamificationEngine';
+
+// Quizzes antigos não possuem 'settings': sem limite de tempo/tentativas e gabarito imediato.
+export const DEFAULT_QUIZ_SETTINGS: Required<Omit<QuizSettings, 'dueDate'>> = {
+    timeLimitMinutes: 0,
+    maxAttempts: 0,
+    shuffleQuestions: false,
+    shuffleChoices: false,
+    revealAnswers: 'immediately',
+    scorePolicy: 'best',
+};
+
+export const REVEAL_POLICY_OPTIONS: { value: QuizSettings['revealAnswers']; label: string }[] = [
+    { value: 'immediately', label: 'Imediatamente após o envio' },
+    { value: 'after_due_date', label: 'Após a data limite' },
+    { value: 'never', label: 'Nunca (apenas a nota)' },
+];
+
+export const SCORE_POLICY_OPTIONS: { value: QuizScorePolicy; label: string }[] = [
+    { value: 'best', label: 'Melhor tentativa' },
+    { value: 'last', label: 'Última tentativa' },
+    { value: 'average', label: 'Média das tentativas' },
+];
+
+export function getQuizSettings(quiz?: Pick<Quiz, 'settings'> | null): QuizSettings & typeof DEFAULT_QUIZ_SETTINGS {
+    return { ...DEFAULT_QUIZ_SETTINGS, ...(quiz?.settings || {}) };
+}
+
+/**
+ * Tentativas restantes. Retorna null quando o quiz não tem limite.
+ */
+export function getRemainingAttempts(settings: QuizSettings, attemptsDone: number): number | null {
+    if (!settings.maxAttempts || settings.maxAttempts <= 0) return null;
+    return Math.max(0, settings.maxAttempts - attemptsDone);
+}
+
+export function canAttemptQuiz(settings: QuizSettings, attemptsDone: number): boolean {
+    const remaining = getRemainingAttempts(settings, attemptsDone);
+    return remaining === null || remaining > 0;
+}
+
+/**
+ * Define se o gabarito pode ser exibido agora. A data limite é comparada pelo dia no fuso da escola.
+ */
+export function shouldRevealAnswers(settings: QuizSettings, now: Date = new Date()): boolean {
+    switch (settings.revealAnswers) {
+        case 'never':
+            return false;
+        case 'after_due_date':
+            return !!settings.dueDate && toDayKey(now, DEFAULT_TIMEZONE) > settings.dueDate;
+        case 'immediately':
+        default:
+            return true;
+    }
+}
+
+/**
+ * Calcula os campos agregados de quiz_results após uma nova tentativa.
+ */
+export function computeQuizResult(
+    previous: Partial<QuizResult> | null,
+    score: number,
+    policy: QuizScorePolicy = 'best'
+): Pick<QuizResult, 'lastScore' | 'bestScore' | 'scoreSum' | 'finalScore' | 'attempts'> {
+    const attempts = (previous?.attempts || 0) + 1;
+    // Resultados antigos não têm scoreSum: estimamos com a melhor nota das tentativas anteriores
+    const previousSum = previous?.scoreSum ?? (previous?.bestScore || 0) * (previous?.attempts || 0);
+    const scoreSum = previousSum + score;
+    const bestScore = Math.max(previous?.bestScore || 0, score);
+
+    let finalScore: number;
+    switch (policy) {
+        case 'last':
+            finalScore = score;
+            break;
+        case 'average':
+            finalScore = Math.round((scoreSum / attempts) * 100) / 100;
+            break;
+        case 'best':
+        default:
+            finalScore = bestScore;
+    }
+
+    return { lastScore: score, bestScore, scoreSum, finalScore, attempts };
+}
+
+/**
+ * Aplica o embaralhamento configurado. Ordenação e associação já são embaralhadas pelo QuizView,
+ * e Verdadeiro/Falso mantém a ordem fixa.
+ */
+export function prepareQuizQuestions(questions: QuizQuestion[], settings: QuizSettings): QuizQuestion[] {
+    const ordered = settings.shuffleQuestions ? shuffleArray(questions) : questions;
+    if (!settings.shuffleChoices) return ordered;
+
+    return ordered.map(q => {
+        const type = getQuestionType(q);
+        return type === 'single' || type === 'multi_select'
+            ? { ...q, choices: shuffleArray(q.choices) }
+            : q;
+    });
+}
+
+export function formatCountdown(totalSeconds: number): string {
+    const safe = Math.max(0, totalSeconds);
+    const minutes = Math.floor(safe / 60);
+    const seconds = safe % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
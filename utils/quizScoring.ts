@@ -0,0 +1,277 @@
+import type { QuizAnswer, QuizQuestion, QuizQuestionType } from '../types';
+
+export const QUESTION_TYPE_OPTIONS: { value: QuizQuestionType; label: string }[] = [
+    { value: 'single', label: 'Múltipla Escolha (uma resposta)' },
+    { value: 'true_false', label: 'Verdadeiro ou Falso' },
+    { value: 'multi_select', label: 'Múltipla Seleção (várias respostas)' },
+    { value: 'ordering', label: 'Ordenação / Linha do Tempo' },
+    { value: 'matching', label: 'Associação de Pares' },
+    { value: 'fill_blank', label: 'Completar Lacuna' },
+    { value: 'numeric', label: 'Resposta Numérica' },
+];
+
+export const TRUE_FALSE_CHOICES = [
+    { id: 'true', text: 'Verdadeiro' },
+    { id: 'false', text: 'Falso' },
+];
+
+/**
+ * Tipo efetivo da questão. Quizzes antigos não possuem 'type' e são múltipla escolha simples.
+ */
+export function getQuestionType(question: QuizQuestion): QuizQuestionType {
+    return question.type || 'single';
+}
+
+/**
+ * Cria uma questão vazia já com a estrutura mínima de cada tipo.
+ */
+export function createEmptyQuestion(type: QuizQuestionType, id: number): QuizQuestion {
+    const base: QuizQuestion = { id, type, question: '', choices: [], correctAnswerId: '' };
+    switch (type) {
+        case 'true_false':
+            return { ...base, choices: TRUE_FALSE_CHOICES.map(c => ({ ...c })), correctAnswerId: 'true' };
+        case 'multi_select':
+            return { ...base, choices: [{ id: '1', text: '' }, { id: '2', text: '' }], correctAnswerIds: [] };
+        case 'ordering':
+            return { ...base, choices: [{ id: '1', text: '' }, { id: '2', text: '' }] };
+        case 'matching':
+            return { ...base, pairs: [{ id: '1', left: '', right: '' }, { id: '2', left: '', right: '' }] };
+        case 'fill_blank':
+            return { ...base, acceptedAnswers: [''] };
+        case 'numeric':
+            return { ...base, numericAnswer: 0, numericTolerance: 0 };
+        case 'single':
+        default:
+            return { ...base, choices: [{ id: '1', text: '' }, { id: '2', text: '' }], correctAnswerId: '1' };
+    }
+}
+
+/**
+ * Converte uma questão para outro tipo, preservando enunciado e mídia.
+ */
+export function changeQuestionType(question: QuizQuestion, type: QuizQuestionType): QuizQuestion {
+    const empty = createEmptyQuestion(type, question.id);
+    const keepChoices = ['single', 'multi_select', 'ordering'].includes(type)
+        && ['single', 'multi_select', 'ordering'].includes(getQuestionType(question))
+        && question.choices.length > 0;
+    return {
+        ...empty,
+        question: question.question,
+        mediaUrl: question.mediaUrl,
+        bankQuestionId: question.bankQuestionId,
+        choices: keepChoices ? question.choices : empty.choices,
+        correctAnswerId: type === 'single' && keepChoices ? question.choices[0].id : empty.correctAnswerId,
+    };
+}
+
+// Remove acentos, maiúsculas e espaços extras para comparar respostas digitadas
+export function normalizeTextAnswer(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Aceita vírgula como separador decimal ("3,5")
+export function parseNumericAnswer(value: string): number | null {
+    const cleaned = value.trim().replace(/\s/g, '').replace(',', '.');
+    if (!cleaned) return null;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Verifica se o aluno respondeu a questão (usado para liberar o botão "Finalizar").
+ */
+export function isQuestionAnswered(question: QuizQuestion, answer: QuizAnswer | undefined): boolean {
+    if (answer === undefined) return false;
+    switch (getQuestionType(question)) {
+        case 'multi_select':
+            return Array.isArray(answer) && answer.length > 0;
+        case 'ordering':
+            return Array.isArray(answer) && answer.length === question.choices.length;
+        case 'matching': {
+            if (typeof answer !== 'object' || Array.isArray(answer)) return false;
+            return (question.pairs || []).every(p => !!answer[p.id]);
+        }
+        case 'numeric':
+            return typeof answer === 'string' && parseNumericAnswer(answer) !== null;
+        case 'fill_blank':
+            return typeof answer === 'string' && answer.trim().length > 0;
+        default:
+            return typeof answer === 'string' && answer.length > 0;
+    }
+}
+
+/**
+ * Correção de uma questão. Retorna true somente se a resposta estiver totalmente correta
+ * (a nota do quiz continua sendo "acertos / total de questões").
+ */
+export function isAnswerCorrect(question: QuizQuestion, answer: QuizAnswer | undefined): boolean {
+    if (answer === undefined) return false;
+
+    switch (getQuestionType(question)) {
+        case 'multi_select': {
+            if (!Array.isArray(answer)) return false;
+            const expected = new Set(question.correctAnswerIds || []);
+            return expected.size > 0 && answer.length === expected.size && answer.every(id => expected.has(id));
+        }
+        case 'ordering': {
+            if (!Array.isArray(answer)) return false;
+            return answer.length === question.choices.length
+                && question.choices.every((choice, index) => answer[index] === choice.id);
+        }
+        case 'matching': {
+            if (typeof answer !== 'object' || Array.isArray(answer)) return false;
+            const pairs = question.pairs || [];
+            return pairs.length > 0 && pairs.every(p => answer[p.id] === p.id);
+        }
+        case 'fill_blank': {
+            if (typeof answer !== 'string') return false;
+            const given = normalizeTextAnswer(answer);
+            return !!given && (question.acceptedAnswers || []).some(a => normalizeTextAnswer(a) === given);
+        }
+        case 'numeric': {
+            if (typeof answer !== 'string' || typeof question.numericAnswer !== 'number') return false;
+            const given = parseNumericAnswer(answer);
+            if (given === null) return false;
+            return Math.abs(given - question.numericAnswer) <= Math.abs(question.numericTolerance || 0);
+        }
+        case 'true_false':
+        case 'single':
+        default:
+            return answer === question.correctAnswerId;
+    }
+}
+
+/**
+ * Soma os acertos de um quiz.
+ */
+export function scoreQuiz(questions: QuizQuestion[], answers: Record<number, QuizAnswer>): number {
+    return questions.reduce((total, q) => total + (isAnswerCorrect(q, answers[q.id]) ? 1 : 0), 0);
+}
+
+/**
+ * Nota automática de uma atividade de Múltipla Escolha: acertos proporcionais aos pontos da atividade.
+ */
+export function computeAutoGrade(questions: QuizQuestion[], answers: Record<number, QuizAnswer>, points: number): number {
+    if (questions.length === 0) return 0;
+    const grade = (scoreQuiz(questions, answers) / questions.length) * points;
+    return Math.round(grade * 100) / 100;
+}
+
+/**
+ * Texto da resposta correta, exibido na revisão após o envio.
+ */
+export function describeCorrectAnswer(question: QuizQuestion): string {
+    switch (getQuestionType(question)) {
+        case 'multi_select': {
+            const ids = question.correctAnswerIds || [];
+            return question.choices.filter(c => ids.includes(c.id)).map(c => c.text).join(', ');
+        }
+        case 'ordering':
+            return question.choices.map((c, i) => `${i + 1}. ${c.text}`).join(' → ');
+        case 'matching':
+            return (question.pairs || []).map(p => `${p.left} = ${p.right}`).join('; ');
+        case 'fill_blank':
+            return (question.acceptedAnswers || []).filter(Boolean).join(' / ');
+        case 'numeric': {
+            const tolerance = question.numericTolerance ? ` (± ${question.numericTolerance})` : '';
+            return `${question.numericAnswer ?? ''}${tolerance}`;
+        }
+        default:
+            return question.choices.find(c => c.id === question.correctAnswerId)?.text || '';
+    }
+}
+
+/**
+ * Texto da resposta do aluno, exibido na revisão.
+ */
+export function describeGivenAnswer(q: QuizQuestion, answer: QuizAnswer | undefined): string {
+    if (answer === undefined) return '—';
+    switch (getQuestionType(q)) {
+        case 'multi_select':
+            return q.choices.filter(c => Array.isArray(answer) && answer.includes(c.id)).map(c => c.text).join(', ') || '—';
+        case 'ordering':
+            return Array.isArray(answer)
+                ? answer.map((id, i) => `${i + 1}. ${q.choices.find(c => c.id === id)?.text || ''}`).join(' → ')
+                : '—';
+        case 'matching': {
+            if (typeof answer !== 'object' || Array.isArray(answer)) return '—';
+            return (q.pairs || []).map(p => `${p.left} = ${(q.pairs || []).find(o => o.id === answer[p.id])?.right || '—'}`).join('; ');
+        }
+        case 'fill_blank':
+        case 'numeric':
+            return typeof answer === 'string' && answer.trim() ? answer : '—';
+        default:
+            return q.choices.find(c => c.id === answer)?.text || '—';
+    }
+}
+
+/**
+ * Valida se a questão está completa antes de salvar. Retorna a mensagem de erro ou null.
+ */
+export function validateQuestion(question: QuizQuestion): string | null {
+    if (!question.question.trim()) return 'O enunciado é obrigatório.';
+
+    switch (getQuestionType(question)) {
+        case 'single':
+            if (question.choices.length < 2 || question.choices.some(c => !c.text.trim())) return 'Preencha ao menos duas alternativas.';
+            if (!question.choices.some(c => c.id === question.correctAnswerId)) return 'Marque a alternativa correta.';
+            return null;
+        case 'multi_select':
+            if (question.choices.length < 2 || question.choices.some(c => !c.text.trim())) return 'Preencha ao menos duas alternativas.';
+            if (!question.correctAnswerIds || question.correctAnswerIds.length === 0) return 'Marque pelo menos uma alternativa correta.';
+            return null;
+        case 'ordering':
+            if (question.choices.length < 2 || question.choices.some(c => !c.text.trim())) return 'Informe ao menos dois itens para ordenar.';
+            return null;
+        case 'matching':
+            if (!question.pairs || question.pairs.length < 2 || question.pairs.some(p => !p.left.trim() || !p.right.trim())) return 'Preencha ao menos dois pares completos.';
+            return null;
+        case 'fill_blank':
+            if (!(question.acceptedAnswers || []).some(a => a.trim())) return 'Informe pelo menos uma resposta aceita.';
+            return null;
+        case 'numeric':
+            if (typeof question.numericAnswer !== 'number' || !Number.isFinite(question.numericAnswer)) return 'Informe a resposta numérica.';
+            return null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Mantém apenas os campos usados pelo tipo da questão (o Firestore rejeita valores undefined).
+ */
+export function sanitizeQuestion(question: QuizQuestion): QuizQuestion {
+    const type = getQuestionType(question);
+    const clean: QuizQuestion = {
+        id: question.id,
+        type,
+        question: question.question.trim(),
+        choices: ['single', 'true_false', 'multi_select', 'ordering'].includes(type) ? question.choices : [],
+        correctAnswerId: type === 'single' || type === 'true_false' ? question.correctAnswerId : '',
+    };
+    if (question.mediaUrl) clean.mediaUrl = question.mediaUrl;
+    if (question.bankQuestionId) clean.bankQuestionId = question.bankQuestionId;
+    if (type === 'multi_select') clean.correctAnswerIds = question.correctAnswerIds || [];
+    if (type === 'matching') clean.pairs = question.pairs || [];
+    if (type === 'fill_blank') clean.acceptedAnswers = (question.acceptedAnswers || []).map(a => a.trim()).filter(Boolean);
+    if (type === 'numeric') {
+        clean.numericAnswer = question.numericAnswer ?? 0;
+        clean.numericTolerance = Math.abs(question.numericTolerance || 0);
+    }
+    return clean;
+}
+
+// Embaralhamento Fisher-Yates (não altera o array original)
+export function shuffleArray<T>(items: T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+}
@@ -0,0 +1,44 @@
+import type { Activity, RecoveryRule } from '../types';
+
+// Recuperação: atividade extra da unidade, visível só para os alunos abaixo da média
+export const RECOVERY_RULE_LABELS: Record<RecoveryRule, string> = {
+    maior_nota: 'Substitui se for maior',
+    media: 'Média entre unidade e recuperação',
+    limite_media: 'Substitui se for maior, limitada à média',
+};
+
+export const RECOVERY_RULE_DESCRIPTIONS: Record<RecoveryRule, string> = {
+    maior_nota: 'A média da unidade passa a ser a nota da recuperação, se ela for maior.',
+    media: 'A média da unidade passa a ser a média entre a nota original e a da recuperação.',
+    limite_media: 'Substitui se for maior, mas a nova média não ultrapassa a média de aprovação.',
+};
+
+export function isRecoveryActivity(activity: Pick<Activity, 'recovery'>): boolean {
+    return !!activity.recovery;
+}
+
+// Atividades comuns valem para toda a turma; as de recuperação, só para os alunos selecionados
+export function isActivityAvailableTo(activity: Pick<Activity, 'recovery'>, studentId: string): boolean {
+    return !activity.recovery || activity.recovery.studentIds.includes(studentId);
+}
+
+/**
+ * Nova média da unidade (0 a 10) após a recuperação. Sem média original (nenhuma nota na unidade),
+ * a original conta como zero.
+ */
+export function applyRecoveryRule(rule: RecoveryRule, originalAverage: number | null, recoveryGrade: number, passingAverage: number): number {
+    const original = originalAverage ?? 0;
+    let result: number;
+    switch (rule) {
+        case 'media':
+            result = (original + recoveryGrade) / 2;
+            break;
+        case 'limite_media':
+            result = Math.max(original, Math.min(recoveryGrade, passingAverage));
+            break;
+        case 'maior_nota':
+        default:
+            result = Math.max(original, recoveryGrade);
+    }
+    return Math.round(result * 100) / 100;
+}
@@ -0,0 +1,271 @@
+import type { Activity, Student, SubjectGradeReport, TeacherClass, Unidade } from '../types';
+import { buildSubjectReports, formatAverage, GENERAL_MATERIA, GradeReportOptions, isActivityDue, UNIDADES } from './gradeComposition';
+import { formatFrequency, StudentAttendanceTotals } from './attendanceStats';
+import { RECOVERY_RULE_LABELS } from './recovery';
+
+// Exportação de boletins e planilhas de notas, gerada no navegador (CSV para planilhas, HTML impresso para PDF)
+
+type Cell = string | number | null | undefined;
+
+// Excel em português usa ";" como separador e vírgula decimal
+const CSV_SEPARATOR = ';';
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100).replace('.', ',');
+
+// Texto iniciado por = + - @ (ou tab/CR) seria interpretado como fórmula pelo Excel/Sheets (ex: nome de aluno)
+const neutralizeFormula = (text: string) => /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+const toCsvCell = (value: Cell): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'number' ? formatNumber(value) : neutralizeFormula(value);
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: Cell[][]): string {
+    return rows.map(row => row.map(toCsvCell).join(CSV_SEPARATOR)).join('\r\n');
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/csv;charset=utf-8') {
+    // BOM para o Excel reconhecer UTF-8 (acentos)
+    const blob = new Blob(['\uFEFF', content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const slugifyFilename = (text: string) =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toLowerCase();
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+    body { font-family: Arial, Helvetica, sans-serif; color: #1e293b; margin: 24px; font-size: 12px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    h2 { font-size: 14px; margin: 20px 0 6px; }
+    .meta { color: #64748b; margin-bottom: 12px; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 12px; }
+    th, td { border: 1px solid #cbd5e1; padding: 4px 6px; text-align: left; }
+    th { background: #f1f5f9; }
+    td.num, th.num { text-align: center; }
+    .below { color: #b91c1c; font-weight: bold; }
+    .signature { margin-top: 48px; display: flex; gap: 48px; }
+    .signature div { flex: 1; border-top: 1px solid #1e293b; padding-top: 4px; text-align: center; }
+    @page { margin: 12mm; }
+    @media print { body { margin: 0; } }
+`;
+
+const PRINT_CLEANUP_FALLBACK_MS = 5 * 60 * 1000;
+
+/**
+ * Abre a janela de impressão com o documento (o usuário escolhe "Salvar como PDF").
+ * Usa um iframe oculto para não depender de pop-ups.
+ */
+export function printHtmlDocument(title: string, bodyHtml: string, landscape = false) {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    document.body.appendChild(iframe);
+
+    const doc = iframe.contentWindow?.document;
+    if (!doc) {
+        iframe.remove();
+        return;
+    }
+    doc.open();
+    doc.write(`<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}${landscape ? '@page { size: landscape; }' : ''}</style></head><body>${bodyHtml}</body></html>`);
+    doc.close();
+
+    // Alguns navegadores (Safari/iOS) não bloqueiam no print(): o iframe só sai após a impressão.
+    // O timeout longo é apenas reserva para navegadores que não disparam afterprint.
+    const printWindow = iframe.contentWindow!;
+    const fallback = setTimeout(() => iframe.remove(), PRINT_CLEANUP_FALLBACK_MS);
+    printWindow.addEventListener('afterprint', () => {
+        clearTimeout(fallback);
+        iframe.remove();
+    }, { once: true });
+
+    printWindow.focus();
+    printWindow.print();
+}
+
+const sortedSubjects = (subjects: Record<string, SubjectGradeReport>) =>
+    Object.values<SubjectGradeReport>(subjects).sort((a, b) => a.materia.localeCompare(b.materia));
+
+const generatedAt = () => new Date().toLocaleString('pt-BR');
+
+// --- Boletim individual ---
+
+export interface StudentReportData {
+    student: Pick<Student, 'id' | 'name'>;
+    className: string;
+    subjects: Record<string, SubjectGradeReport>;
+    attendance?: StudentAttendanceTotals;
+}
+
+export function buildStudentReportCsv({ student, className, subjects, attendance }: StudentReportData): string {
+    const rows: Cell[][] = [
+        ['Aluno', student.name],
+        ['Turma', className],
+        ['Emitido em', generatedAt()],
+        [],
+        ['Matéria', ...UNIDADES, 'Média anual', 'Situação'],
+    ];
+    sortedSubjects(subjects).forEach(subject => {
+        rows.push([
+            subject.materia,
+            ...UNIDADES.map(u => subject.unidades[u]?.average ?? null),
+            subject.finalAverage,
+            subject.status,
+        ]);
+    });
+    if (attendance) {
+        rows.push([], ['Aulas registradas', attendance.total], ['Presenças', attendance.present], ['Atrasos', attendance.late], ['Faltas', attendance.absent], ['Faltas justificadas', attendance.justified], ['Frequência', formatFrequency(attendance.frequency)]);
+    }
+    return toCsv(rows);
+}
+
+export function buildStudentReportHtml({ student, className, subjects, attendance }: StudentReportData): string {
+    const subjectRows = sortedSubjects(subjects).map(subject => {
+        const cells = UNIDADES.map(u => {
+            const unit = subject.unidades[u];
+            const below = unit?.average !== null && unit?.average !== undefined && unit.average < subject.passingAverage;
+            const recovery = unit?.recovery ? `<br><small>Rec. (${escapeHtml(RECOVERY_RULE_LABELS[unit.recovery.rule])})</small>` : '';
+            return `<td class="num${below ? ' below' : ''}">${formatAverage(unit?.average)}${recovery}</td>`;
+        }).join('');
+        return `<tr><td>${escapeHtml(subject.materia)}</td>${cells}<td class="num"><strong>${formatAverage(subject.finalAverage)}</strong></td><td>${escapeHtml(subject.status)}</td></tr>`;
+    }).join('');
+
+    const attendanceHtml = attendance
+        ? `<h2>Frequência</h2><table><tr><th class="num">Aulas registradas</th><th class="num">Presenças</th><th class="num">Atrasos</th><th class="num">Faltas</th><th class="num">Faltas justificadas</th><th class="num">Frequência</th></tr>
+           <tr><td class="num">${attendance.total}</td><td class="num">${attendance.present}</td><td class="num">${attendance.late}</td><td class="num">${attendance.absent}</td><td class="num">${attendance.justified}</td><td class="num">${formatFrequency(attendance.frequency)}</td></tr></table>`
+        : '';
+
+    return `<section style="page-break-after: always;">
+        <h1>Boletim Escolar</h1>
+        <p class="meta">Aluno: <strong>${escapeHtml(student.name)}</strong> · Turma: ${escapeHtml(className)} · Emitido em ${generatedAt()}</p>
+        <table>
+            <tr><th>Matéria</th>${UNIDADES.map(u => `<th class="num">${u}</th>`).join('')}<th class="num">Média anual</th><th>Situação</th></tr>
+            ${subjectRows || `<tr><td colspan="${UNIDADES.length + 3}">Nenhuma nota registrada.</td></tr>`}
+        </table>
+        ${attendanceHtml}
+        <div class="signature"><div>Professor(a)</div><div>Coordenação</div><div>Responsável</div></div>
+    </section>`;
+}
+
+// --- Planilha consolidada da turma ---
+
+interface SheetColumn {
+    label: string;
+    materia: string;
+    unidade: Unidade;
+    activity?: Activity; // Ausente na coluna de média da unidade
+}
+
+// Colunas: por matéria, por unidade, as atividades (em ordem alfabética) seguidas da média da unidade
+function buildSheetColumns(activities: Activity[]): SheetColumn[] {
+    const columns: SheetColumn[] = [];
+    const materias = Array.from(new Set(activities.map(a => a.materia || GENERAL_MATERIA))).sort();
+    materias.forEach(materia => {
+        UNIDADES.forEach(unidade => {
+            const unitActivities = activities
+                .filter(a => (a.materia || GENERAL_MATERIA) === materia && a.unidade === unidade)
+                .sort((a, b) => a.title.localeCompare(b.title));
+            if (unitActivities.length === 0) return;
+            const prefix = `${materia} · ${unidade.replace(' Unidade', ' Un.')}`;
+            unitActivities.forEach(activity => {
+                columns.push({ label: `${prefix} · ${activity.recovery ? 'Rec.: ' : ''}${activity.title} (${activity.points})`, materia, unidade, activity });
+            });
+            columns.push({ label: `${prefix} · Média`, materia, unidade });
+        });
+    });
+    return columns;
+}
+
+interface ClassSheet {
+    header: string[];
+    rows: { student: Student; cells: Cell[]; belowPassing: boolean[] }[];
+}
+
+function buildClassSheet(cls: TeacherClass, activities: Activity[], attendance: Record<string, StudentAttendanceTotals>, options: GradeReportOptions): ClassSheet {
+    const gradedActivities = activities.filter(a => a.unidade);
+    const columns = buildSheetColumns(gradedActivities);
+    const materias = Array.from(new Set(columns.map(c => c.materia)));
+    const students = [...(cls.students || [])].sort((a, b) => a.name.localeCompare(b.name));
+
+    const header = [
+        'Aluno',
+        ...columns.map(c => c.label),
+        ...materias.flatMap(m => [`${m} · Média anual`, `${m} · Situação`]),
+        'Faltas',
+        'Frequência',
+    ];
+
+    const rows = students.map(student => {
+        const subjects = buildSubjectReports(cls, gradedActivities, student.id, options);
+        const belowPassing: boolean[] = [false];
+        const cells: Cell[] = [student.name];
+
+        columns.forEach(column => {
+            const subject = subjects[column.materia];
+            if (column.activity) {
+                const activity = column.activity;
+                const submission = activity.submissions?.find(s => s.studentId === student.id);
+                const isMissing = !submission && !activity.recovery && activity.isVisible !== false && isActivityDue(activity, student.id, options);
+                cells.push(submission?.status === 'Corrigido' && typeof submission.grade === 'number' ? submission.grade : isMissing ? 0 : null);
+                belowPassing.push(false);
+            } else {
+                const average = subject?.unidades[column.unidade]?.average ?? null;
+                cells.push(average);
+                belowPassing.push(average !== null && !!subject && average < subject.passingAverage);
+            }
+        });
+        materias.forEach(materia => {
+            const subject = subjects[materia];
+            cells.push(subject?.finalAverage ?? null, subject?.status ?? '');
+            belowPassing.push(!!subject && subject.finalAverage !== null && subject.finalAverage < subject.passingAverage, false);
+        });
+
+        const totals = attendance[student.id];
+        cells.push(totals ? totals.absent : null, formatFrequency(totals?.frequency));
+        belowPassing.push(false, false);
+        return { student, cells, belowPassing };
+    });
+
+    return { header, rows };
+}
+
+export function buildClassSheetCsv(cls: TeacherClass, activities: Activity[], attendance: Record<string, StudentAttendanceTotals>, options: GradeReportOptions = {}): string {
+    const sheet = buildClassSheet(cls, activities, attendance, options);
+    return toCsv([
+        ['Turma', cls.name],
+        ['Emitido em', generatedAt()],
+        [],
+        sheet.header,
+        ...sheet.rows.map(r => r.cells),
+    ]);
+}
+
+export function buildClassSheetHtml(cls: TeacherClass, activities: Activity[], attendance: Record<string, StudentAttendanceTotals>, options: GradeReportOptions = {}): string {
+    const sheet = buildClassSheet(cls, activities, attendance, options);
+    const formatCell = (value: Cell) => typeof value === 'number' ? formatNumber(value) : escapeHtml(value ?? '');
+    const body = sheet.rows.map(row =>
+        `<tr>${row.cells.map((value, i) => i === 0
+            ? `<td>${formatCell(value)}</td>`
+            : `<td class="num${row.belowPassing[i] ? ' below' : ''}">${formatCell(value)}</td>`).join('')}</tr>`
+    ).join('');
+
+    return `<h1>Mapa de Notas — ${escapeHtml(cls.name)}</h1>
+        <p class="meta">Emitido em ${generatedAt()} · ${sheet.rows.length} aluno(s)</p>
+        <table style="font-size: 10px;">
+            <tr>${sheet.header.map((h, i) => `<th${i > 0 ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('')}</tr>
+            ${body}
+        </table>`;
+}
@@ -0,0 +1,96 @@
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { Rubric, RubricCriterion, RubricLevel } from '../types';
+
+export const RUBRICS_COLLECTION = 'rubrics';
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Níveis sugeridos para um critério novo (pontuação editável)
+export function createCriterion(): RubricCriterion {
+    return {
+        id: newId('crit'),
+        title: '',
+        levels: [
+            { id: newId('lvl'), label: 'Excelente', points: 2 },
+            { id: newId('lvl'), label: 'Bom', points: 1.5 },
+            { id: newId('lvl'), label: 'Regular', points: 1 },
+            { id: newId('lvl'), label: 'Insuficiente', points: 0 },
+        ]
+    };
+}
+
+export function createLevel(): RubricLevel {
+    return { id: newId('lvl'), label: '', points: 0 };
+}
+
+export function createEmptyRubric(): Rubric {
+    return { id: newId('rubric'), title: '', criteria: [createCriterion()] };
+}
+
+// Pontuação máxima: soma do maior nível de cada critério
+export function getRubricMaxPoints(rubric: Rubric): number {
+    return rubric.criteria.reduce((sum, c) => sum + Math.max(0, ...c.levels.map(l => l.points)), 0);
+}
+
+export function isRubricComplete(rubric: Rubric, scores: Record<string, string>): boolean {
+    return rubric.criteria.every(c => c.levels.some(l => l.id === scores[c.id]));
+}
+
+/**
+ * Nota calculada pela rubrica. Quando o total da rubrica difere dos pontos da atividade,
+ * a soma é convertida proporcionalmente para a escala da atividade.
+ */
+export function computeRubricGrade(rubric: Rubric, scores: Record<string, string>, activityPoints: number): number {
+    const earned = rubric.criteria.reduce((sum, c) => sum + (c.levels.find(l => l.id === scores[c.id])?.points || 0), 0);
+    const max = getRubricMaxPoints(rubric);
+    if (max <= 0) return 0;
+    const grade = max === activityPoints ? earned : (earned / max) * activityPoints;
+    return Math.round(grade * 100) / 100;
+}
+
+// Retorna a mensagem de erro ou null quando a rubrica é válida
+export function validateRubric(rubric: Rubric): string | null {
+    if (rubric.criteria.length === 0) return 'A rubrica precisa de pelo menos um critério.';
+    for (const [index, criterion] of rubric.criteria.entries()) {
+        if (!criterion.title.trim()) return `Informe o nome do critério ${index + 1} da rubrica.`;
+        if (criterion.levels.length < 2) return `O critério "${criterion.title}" precisa de pelo menos dois níveis.`;
+        if (criterion.levels.some(l => !l.label.trim())) return `Todos os níveis do critério "${criterion.title}" precisam de um nome.`;
+        if (criterion.levels.some(l => !(l.points >= 0))) return `As pontuações do critério "${criterion.title}" devem ser números positivos.`;
+    }
+    if (getRubricMaxPoints(rubric) <= 0) return 'A pontuação máxima da rubrica deve ser maior que zero.';
+    return null;
+}
+
+// Remove campos vazios (o Firestore não aceita undefined)
+export function sanitizeRubric(rubric: Rubric): Rubric {
+    return {
+        id: rubric.id,
+        title: rubric.title.trim() || 'Rubrica',
+        criteria: rubric.criteria.map(c => ({
+            id: c.id,
+            title: c.title.trim(),
+            ...(c.description?.trim() ? { description: c.description.trim() } : {}),
+            levels: c.levels.map(l => ({
+                id: l.id,
+                label: l.label.trim(),
+                points: l.points,
+                ...(l.description?.trim() ? { description: l.description.trim() } : {})
+            }))
+        }))
+    };
+}
+
+/**
+ * Salva a rubrica como modelo reutilizável do professor.
+ */
+export async function saveRubricTemplate(rubric: Rubric, creator: { id: string; name: string }): Promise<string> {
+    const { id, ...body } = sanitizeRubric(rubric);
+    const docRef = await addDoc(collection(db, RUBRICS_COLLECTION), {
+        ...body,
+        creatorId: creator.id,
+        creatorName: creator.name,
+        createdAt: serverTimestamp()
+    });
+    return docRef.id;
+}
@@ -0,0 +1,152 @@
+import { doc, getDoc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { Activity, Holiday, SchoolCalendar, Unidade, UnidadePeriod } from '../types';
+import { UNIDADES } from './gradeComposition';
+
+// Data local no formato YYYY-MM-DD (toISOString usaria UTC e poderia trocar o dia à noite)
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export const parseDateKey = (dateKey: string) => new Date(`${dateKey}T12:00:00`);
+
+export const formatDateKey = (dateKey: string) =>
+    parseDateKey(dateKey).toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+export const formatShortDate = (dateKey: string) =>
+    parseDateKey(dateKey).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+export const emptySchoolCalendar = (year: number): SchoolCalendar => ({ year, unidades: [], holidays: [], recesses: [] });
+
+// O calendário muda pouco: uma leitura por ano durante a sessão
+const calendarCache = new Map<number, Promise<SchoolCalendar>>();
+
+export function fetchSchoolCalendar(year: number): Promise<SchoolCalendar> {
+    if (!calendarCache.has(year)) {
+        const request = getDoc(doc(db, "school_calendar", String(year))).then(snap => {
+            if (!snap.exists()) return emptySchoolCalendar(year);
+            const data = snap.data();
+            return {
+                year,
+                unidades: data.unidades || [],
+                holidays: data.holidays || [],
+                recesses: data.recesses || [],
+                ...(data.updatedAt?.toDate ? { updatedAt: data.updatedAt.toDate().toISOString() } : {})
+            };
+        });
+        // Falhas não ficam em cache
+        request.catch(() => calendarCache.delete(year));
+        calendarCache.set(year, request);
+    }
+    return calendarCache.get(year)!;
+}
+
+export async function saveSchoolCalendar(calendar: SchoolCalendar): Promise<void> {
+    const byDate = <T extends { date?: string; start?: string }>(a: T, b: T) => (a.date || a.start || '').localeCompare(b.date || b.start || '');
+    await setDoc(doc(db, "school_calendar", String(calendar.year)), {
+        year: calendar.year,
+        unidades: [...calendar.unidades].sort(byDate),
+        holidays: [...calendar.holidays].sort(byDate),
+        recesses: [...calendar.recesses].sort(byDate),
+        updatedAt: serverTimestamp()
+    });
+    calendarCache.delete(calendar.year);
+}
+
+export function getHoliday(calendar: SchoolCalendar | null | undefined, dateKey: string): Holiday | undefined {
+    return calendar?.holidays.find(h => h.date === dateKey);
+}
+
+// Feriado ou dia dentro de um recesso (datas YYYY-MM-DD comparam como texto)
+export function getNonSchoolDay(calendar: SchoolCalendar | null | undefined, dateKey: string): Holiday | undefined {
+    const holiday = getHoliday(calendar, dateKey);
+    if (holiday) return holiday;
+    const recess = calendar?.recesses.find(r => r.start <= dateKey && dateKey <= r.end);
+    return recess ? { date: dateKey, name: recess.name } : undefined;
+}
+
+export function getUnidadePeriod(calendar: SchoolCalendar | null | undefined, unidade: Unidade): UnidadePeriod | undefined {
+    return calendar?.unidades.find(p => p.unidade === unidade);
+}
+
+// Unidade letiva que contém a data; fora dos períodos cadastrados não há unidade
+export function getUnidadeForDate(calendar: SchoolCalendar | null | undefined, dateKey: string): Unidade | undefined {
+    return calendar?.unidades.find(p => p.start <= dateKey && dateKey <= p.end)?.unidade;
+}
+
+/**
+ * Unidade fechada: o período terminou e as notas dela ficam bloqueadas.
+ * Sem período cadastrado, a unidade nunca fecha.
+ */
+export function isUnidadeClosed(calendar: SchoolCalendar | null | undefined, unidade: Unidade | undefined, today = toDateKey(new Date())): boolean {
+    if (!unidade) return false;
+    const period = getUnidadePeriod(calendar, unidade);
+    return !!period && today > period.end;
+}
+
+// Ano letivo da atividade: o do prazo ou, sem prazo, o da criação
+export function getActivitySchoolYear(activity: Pick<Activity, 'dueDate' | 'createdAt'>): number {
+    if (activity.dueDate) return Number(activity.dueDate.slice(0, 4));
+    const createdAt: string | Timestamp | undefined = activity.createdAt;
+    const created = createdAt instanceof Timestamp ? createdAt.toDate() : createdAt ? new Date(createdAt) : new Date();
+    return isNaN(created.getTime()) ? new Date().getFullYear() : created.getFullYear();
+}
+
+/**
+ * Verificação síncrona de unidade fechada para os boletins, com o calendário de cada ano letivo informado.
+ * Ano cujo calendário não pôde ser lido fica sem unidades fechadas.
+ */
+export async function loadClosedUnidadeCheck(years: number[]): Promise<(activity: Activity) => boolean> {
+    const calendars = new Map<number, SchoolCalendar | null>();
+    await Promise.all(years.map(async year => {
+        calendars.set(year, await fetchSchoolCalendar(year).catch(() => null));
+    }));
+    return activity => isUnidadeClosed(calendars.get(getActivitySchoolYear(activity)), activity.unidade);
+}
+
+// Valida datas antes de salvar: períodos dentro do ano, em ordem e sem sobreposição
+export function validateSchoolCalendar(calendar: SchoolCalendar): string | null {
+    const inYear = (dateKey: string) => dateKey.startsWith(`${calendar.year}-`);
+    const periods = [...calendar.unidades].sort((a, b) => a.start.localeCompare(b.start));
+    for (const period of periods) {
+        if (!period.start || !period.end) return `Informe início e fim da ${period.unidade}.`;
+        if (!inYear(period.start) || !inYear(period.end)) return `As datas da ${period.unidade} devem estar em ${calendar.year}.`;
+        if (period.start > period.end) return `A ${period.unidade} termina antes de começar.`;
+    }
+    for (let i = 1; i < periods.length; i++) {
+        if (periods[i].start <= periods[i - 1].end) return `A ${periods[i].unidade} começa antes do fim da ${periods[i - 1].unidade}.`;
+    }
+    const order = periods.map(p => UNIDADES.indexOf(p.unidade));
+    if (order.some((position, i) => i > 0 && position < order[i - 1])) return 'As unidades devem seguir a ordem 1ª a 4ª.';
+    for (const recess of calendar.recesses) {
+        if (!recess.name.trim()) return 'Todos os recessos precisam de nome.';
+        if (!recess.start || !recess.end || recess.start > recess.end) return `Datas inválidas no recesso "${recess.name}".`;
+    }
+    return null;
+}
+
+/**
+ * Semanas do mês (domingo a sábado) para a grade do calendário; dias de outros meses ficam null.
+ * `month` no formato YYYY-MM.
+ */
+export function buildMonthWeeks(month: string): (string | null)[][] {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const daysInMonth = new Date(year, monthIndex, 0).getDate();
+    const firstWeekday = new Date(year, monthIndex - 1, 1).getDay();
+    const cells: (string | null)[] = Array(firstWeekday).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+        cells.push(`${month}-${String(day).padStart(2, '0')}`);
+    }
+    while (cells.length % 7 !== 0) cells.push(null);
+
+    const weeks: (string | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+    return weeks;
+}
+
+export function shiftMonth(month: string, delta: number): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return toDateKey(new Date(year, monthIndex - 1 + delta, 1)).slice(0, 7);
+}
@@ -0,0 +1,34 @@
+import { functions } from "../components/firebaseClient";
+import { httpsCallable } from "firebase/functions";
+import type { UserStreak } from "../types";
+import { DEFAULT_TIMEZONE, toDayKey } from "./gamificationEngine";
+
+const STREAK_SYNC_CACHE_KEY = "streak_last_sync";
+
+/**
+ * Registra a atividade diária do aluno (chamado no login em AuthContext).
+ * O cálculo roda na Cloud Function `recordDailyActivity` (functions/src/streak.ts), que
+ * também espelha os valores em stats (loginStreak/longestStreak) e avalia as conquistas.
+ */
+export async function recordDailyActivity(userId: string, timeZone: string = DEFAULT_TIMEZONE): Promise<UserStreak | null> {
+  if (!userId) return null;
+
+  const todayKey = toDayKey(new Date(), timeZone);
+  const cacheKey = `${STREAK_SYNC_CACHE_KEY}_${userId}`;
+
+  // Evita uma chamada por recarregamento de página: só sincroniza uma vez por dia
+  try {
+    if (localStorage.getItem(cacheKey) === todayKey) return null;
+  } catch { /* localStorage indisponível */ }
+
+  try {
+    const recordStreak = httpsCallable<{ timeZone: string }, UserStreak>(functions, "recordDailyActivity");
+    const { data: streak } = await recordStreak({ timeZone });
+
+    try { localStorage.setItem(cacheKey, todayKey); } catch { /* ignore */ }
+    return streak;
+  } catch (error) {
+    console.error("Erro ao registrar sequência diária:", error);
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+import type { UserStreak } from "../types";
+import { DEFAULT_TIMEZONE, diffDayKeys } from "./gamificationEngine";
+
+// Regras de proteção (streak freeze):
+// - A cada 7 dias seguidos o aluno ganha 1 proteção, acumulando no máximo 2.
+// - Se faltar N dias e houver N proteções, elas são consumidas e a sequência continua.
+// - Caso contrário, a sequência recomeça em 1.
+export const STREAK_FREEZE_EVERY_DAYS = 7;
+export const STREAK_FREEZE_MAX = 2;
+
+export function createEmptyStreak(timeZone: string = DEFAULT_TIMEZONE): UserStreak {
+  return { current: 0, longest: 0, lastActiveDate: '', freezes: 0, freezesUsed: 0, timeZone };
+}
+
+/**
+ * PURE FUNCTION: calcula o novo estado da sequência para o dia `todayKey`.
+ * Idempotente: chamar duas vezes no mesmo dia não altera nada.
+ */
+export function computeStreakUpdate(previous: UserStreak | undefined, todayKey: string): UserStreak {
+  const prev = { ...createEmptyStreak(), ...previous };
+
+  if (!prev.lastActiveDate) {
+    return { ...prev, current: 1, longest: Math.max(prev.longest, 1), lastActiveDate: todayKey };
+  }
+
+  const gap = diffDayKeys(prev.lastActiveDate, todayKey);
+  // Mesmo dia (ou relógio voltou no tempo): nada muda
+  if (gap <= 0) return prev;
+
+  const missedDays = gap - 1;
+  let { current, freezes, freezesUsed } = prev;
+
+  if (missedDays === 0) {
+    current += 1;
+  } else if (missedDays <= freezes) {
+    freezes -= missedDays;
+    freezesUsed += missedDays;
+    current += 1;
+  } else {
+    current = 1;
+  }
+
+  if (current > 0 && current % STREAK_FREEZE_EVERY_DAYS === 0) {
+    freezes = Math.min(STREAK_FREEZE_MAX, freezes + 1);
+  }
+
+  return {
+    ...prev,
+    current,
+    longest: Math.max(prev.longest, current),
+    lastActiveDate: todayKey,
+    freezes,
+    freezesUsed
+  };
+}
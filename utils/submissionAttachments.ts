@@ -0,0 +1,73 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '../components/firebaseClient';
+import type { SubmissionAttachment } from '../types';
+
+// Limites também aplicados em storage.rules
+export const MAX_SUBMISSION_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_SUBMISSION_FILES = 5;
+export const ALLOWED_SUBMISSION_TYPES = [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'application/pdf',
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/x-m4a',
+    'audio/ogg',
+    'audio/wav',
+    'audio/webm',
+];
+export const SUBMISSION_FILE_ACCEPT = ALLOWED_SUBMISSION_TYPES.join(',');
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'file';
+
+export function getAttachmentKind(contentType: string): AttachmentKind {
+    if (contentType.startsWith('image/')) return 'image';
+    if (contentType.startsWith('audio/')) return 'audio';
+    if (contentType === 'application/pdf') return 'pdf';
+    return 'file';
+}
+
+// Retorna a mensagem de erro ou null quando o arquivo pode ser enviado
+export function validateSubmissionFile(file: File): string | null {
+    if (!ALLOWED_SUBMISSION_TYPES.includes(file.type)) {
+        return `Tipo de arquivo "${file.name}" não suportado. Envie foto (JPG, PNG), PDF ou áudio.`;
+    }
+    if (file.size > MAX_SUBMISSION_FILE_SIZE) {
+        return `Arquivo "${file.name}" é muito grande (máx 10MB).`;
+    }
+    return null;
+}
+
+/**
+ * Envia os anexos do aluno para o Cloud Storage, em caminho exclusivo por atividade e aluno.
+ * Só o caminho é gravado na entrega: o link é resolvido na hora por quem pode ler o arquivo (storage.rules).
+ */
+export async function uploadSubmissionAttachments(activityId: string, studentId: string, files: File[]): Promise<SubmissionAttachment[]> {
+    const uploaded: SubmissionAttachment[] = [];
+    for (const file of files) {
+        const safeName = file.name.replace(/[^\w.\-]+/g, '_');
+        const path = `submission_attachments/${activityId}/${studentId}/${Date.now()}-${safeName}`;
+        const storageRef = ref(storage, path);
+        await uploadBytes(storageRef, file, { contentType: file.type });
+        uploaded.push({
+            name: file.name,
+            path,
+            contentType: file.type,
+            size: file.size
+        });
+    }
+    return uploaded;
+}
+
+/**
+ * Link de leitura de um anexo. Falha para quem não é o aluno nem o professor da atividade.
+ */
+export function getSubmissionAttachmentUrl(path: string): Promise<string> {
+    return getDownloadURL(ref(storage, path));
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
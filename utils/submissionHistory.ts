@@ -0,0 +1,42 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../components/firebaseClient';
+import type { ActivitySubmission, SubmissionAttempt, SubmissionStatus } from '../types';
+
+export const SUBMISSION_STATUS_COLORS: Record<SubmissionStatus, string> = {
+    'Aguardando correção': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300',
+    'Corrigido': 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    'Revisão solicitada': 'bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-300',
+};
+
+export function getSubmissionStatusColor(status: SubmissionStatus): string {
+    return SUBMISSION_STATUS_COLORS[status] || SUBMISSION_STATUS_COLORS['Aguardando correção'];
+}
+
+/**
+ * Converte a entrega atual em uma tentativa arquivada (sem campos undefined, que o Firestore rejeita).
+ */
+export function toSubmissionAttempt(submission: ActivitySubmission): SubmissionAttempt {
+    const attempt: SubmissionAttempt = {
+        attempt: submission.attempt || 1,
+        submissionDate: submission.submissionDate,
+        content: submission.content || '',
+        status: submission.status,
+    };
+    if (typeof submission.grade === 'number') attempt.grade = submission.grade;
+    if (submission.feedback) attempt.feedback = submission.feedback;
+    if (submission.gradedAt) attempt.gradedAt = submission.gradedAt;
+    if (submission.attachments?.length) attempt.attachments = submission.attachments;
+    if (submission.answers) attempt.answers = submission.answers;
+    if (submission.isLate) attempt.isLate = true;
+    return attempt;
+}
+
+/**
+ * Tentativas anteriores de um aluno, da mais recente para a mais antiga.
+ * O histórico fica só no documento da subcoleção para não inflar o documento da atividade.
+ */
+export async function fetchSubmissionHistory(activityId: string, studentId: string): Promise<SubmissionAttempt[]> {
+    const snap = await getDoc(doc(db, "activities", activityId, "submissions", studentId));
+    const history = (snap.data()?.history || []) as SubmissionAttempt[];
+    return [...history].sort((a, b) => b.attempt - a.attempt);
+}
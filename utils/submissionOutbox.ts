@@ -0,0 +1,112 @@
+import type { QuizAnswer, SubmissionAttachment } from '../types';
+
+// Fila local (por usuário) de envios feitos sem conexão.
+// Fica no localStorage para sobreviver ao fechamento do app; é reenviada em ordem quando a conexão volta.
+const getOutboxKey = (userId: string) => `submission_outbox_${userId}`;
+
+export type OutboxEntryKind = 'activity_submission' | 'quiz_result' | 'module_progress';
+
+export interface ActivitySubmissionPayload {
+    activityId: string;
+    content: string;
+    submissionDate: string; // ISO, momento em que o aluno enviou (não o da sincronização)
+    attachments?: SubmissionAttachment[]; // Já enviados ao Storage
+    answers?: Record<string, QuizAnswer>; // Múltipla Escolha: corrigida ao sincronizar
+    queuedAt?: number; // Preenchido ao sincronizar a fila: o prazo vale por este momento, dentro da tolerância
+}
+
+export interface QuizResultPayload {
+    quizId: string;
+    title: string;
+    score: number;
+    total: number;
+    answers?: Record<number, QuizAnswer>;
+}
+
+export interface ModuleProgressPayload {
+    moduleId: string;
+    progress: number;
+    completed: boolean;
+}
+
+interface OutboxPayloads {
+    activity_submission: ActivitySubmissionPayload;
+    quiz_result: QuizResultPayload;
+    module_progress: ModuleProgressPayload;
+}
+
+export type OutboxEntry = {
+    [K in OutboxEntryKind]: {
+        id: string;
+        kind: K;
+        label: string; // Título exibido no indicador de sincronização
+        payload: OutboxPayloads[K];
+        createdAt: number;
+        attempts: number;
+        lastError?: string;
+        // Conflito ou erro definitivo: o item fica na fila, visível ao aluno, até ser reenviado ou descartado
+        failedReason?: string;
+    }
+}[OutboxEntryKind];
+
+export const isFailedOutboxEntry = (entry: OutboxEntry) => !!entry.failedReason;
+
+export function loadOutbox(userId: string): OutboxEntry[] {
+    try {
+        const raw = localStorage.getItem(getOutboxKey(userId));
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveOutbox(userId: string, entries: OutboxEntry[]) {
+    try {
+        if (entries.length === 0) localStorage.removeItem(getOutboxKey(userId));
+        else localStorage.setItem(getOutboxKey(userId), JSON.stringify(entries));
+    } catch (e) {
+        console.warn('Could not write submission outbox:', e);
+    }
+}
+
+export function createOutboxEntry<K extends OutboxEntryKind>(kind: K, label: string, payload: OutboxPayloads[K]): OutboxEntry {
+    return {
+        id: `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        kind,
+        label,
+        payload,
+        createdAt: Date.now(),
+        attempts: 0
+    } as OutboxEntry;
+}
+
+/**
+ * Adiciona um envio à fila. O progresso de módulo é consolidado: só o mais recente
+ * (ou a conclusão) de cada módulo precisa ser reenviado.
+ */
+export function appendToOutbox(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+    if (entry.kind !== 'module_progress') return [...entries, entry];
+
+    const previous = entries.find(e => e.kind === 'module_progress' && e.payload.moduleId === entry.payload.moduleId);
+    if (!previous || previous.kind !== 'module_progress') return [...entries, entry];
+
+    const merged: OutboxEntry = {
+        ...entry,
+        payload: {
+            moduleId: entry.payload.moduleId,
+            progress: Math.max(previous.payload.progress, entry.payload.progress),
+            completed: previous.payload.completed || entry.payload.completed
+        }
+    };
+    return [...entries.filter(e => e.id !== previous.id), merged];
+}
+
+// Sem conexão: navegador offline ou Firestore indisponível
+export function isOfflineError(error: any): boolean {
+    return !navigator.onLine || error?.code === 'unavailable' || error?.code === 'deadline-exceeded';
+}
+
+// Erros definitivos: reenviar automaticamente não adianta, o item fica marcado como falha
+export function isPermanentSyncError(error: any): boolean {
+    return ['permission-denied', 'not-found', 'failed-precondition', 'invalid-argument'].includes(error?.code);
+}
@@ -0,0 +1,47 @@
+import type { AttendanceSession, TimetableSlot, Turno } from '../types';
+import { parseDateKey } from './schoolCalendar';
+
+// Dias letivos exibidos no horário (segunda a sábado), no índice de Date.getDay()
+export const WEEKDAYS: { day: number; label: string; short: string }[] = [
+    { day: 1, label: 'Segunda-feira', short: 'Seg' },
+    { day: 2, label: 'Terça-feira', short: 'Ter' },
+    { day: 3, label: 'Quarta-feira', short: 'Qua' },
+    { day: 4, label: 'Quinta-feira', short: 'Qui' },
+    { day: 5, label: 'Sexta-feira', short: 'Sex' },
+    { day: 6, label: 'Sábado', short: 'Sáb' },
+];
+
+export const TURNOS: Turno[] = ['matutino', 'vespertino', 'noturno'];
+export const HORARIOS = [1, 2, 3, 4, 5, 6];
+
+const TURNO_ORDER: Record<string, number> = { matutino: 1, vespertino: 2, noturno: 3 };
+
+export const compareTimetableSlots = (a: TimetableSlot, b: TimetableSlot) =>
+    a.dayOfWeek - b.dayOfWeek || (TURNO_ORDER[a.turno] || 99) - (TURNO_ORDER[b.turno] || 99) || a.horario - b.horario;
+
+// Duas aulas não podem ocupar o mesmo dia, turno e horário na turma
+const slotKey = (slot: Pick<TimetableSlot, 'dayOfWeek' | 'turno' | 'horario'>) => `${slot.dayOfWeek}_${slot.turno}_${slot.horario}`;
+
+export function findTimetableConflict(slots: TimetableSlot[]): TimetableSlot | undefined {
+    const seen = new Set<string>();
+    return slots.find(slot => {
+        const key = slotKey(slot);
+        if (seen.has(key)) return true;
+        seen.add(key);
+        return false;
+    });
+}
+
+// Aulas do professor na data (YYYY-MM-DD), em ordem de turno e horário
+export function getSlotsForDate(timetable: TimetableSlot[] | undefined, dateKey: string, teacherId: string): TimetableSlot[] {
+    const dayOfWeek = parseDateKey(dateKey).getDay();
+    return (timetable || [])
+        .filter(slot => slot.teacherId === teacherId && slot.dayOfWeek === dayOfWeek)
+        .sort(compareTimetableSlots);
+}
+
+// Aulas do dia que ainda não têm chamada (mesmo turno e horário na data)
+export function findSlotsWithoutSession(slots: TimetableSlot[], sessions: AttendanceSession[], dateKey: string): TimetableSlot[] {
+    const taken = new Set(sessions.filter(s => s.date === dateKey).map(s => `${s.turno}_${s.horario}`));
+    return slots.filter(slot => !taken.has(`${slot.turno}_${slot.horario}`));
+}
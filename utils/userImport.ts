@@ -0,0 +1,142 @@
+import type { Role, UserPreRegistration } from '../types';
+
+export interface UserImportRow {
+  line: number;
+  name: string;
+  email: string;
+  role: Exclude<Role, null>;
+  series?: string;
+}
+
+export interface UserImportResult {
+  rows: UserImportRow[];
+  errors: { line: number; message: string }[];
+}
+
+const ROLE_ALIASES: Record<string, Exclude<Role, null>> = {
+  aluno: 'aluno',
+  aluna: 'aluno',
+  estudante: 'aluno',
+  student: 'aluno',
+  professor: 'professor',
+  professora: 'professor',
+  teacher: 'professor',
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Divide uma linha CSV respeitando aspas ("Silva, Ana").
+ * Aceita ',' ou ';' como separador (Excel em pt-BR exporta com ';').
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === separator && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+}
+
+/**
+ * PURE FUNCTION: interpreta o CSV de importação de alunos/professores.
+ * Cabeçalho obrigatório: nome, email, perfil (aluno|professor). Opcional: serie.
+ * Apenas professores e alunos podem ser importados; admins são criados manualmente.
+ */
+export function parseUserImportCsv(text: string): UserImportResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const result: UserImportResult = { rows: [], errors: [] };
+
+  const headerIndex = lines.findIndex(l => l.trim() !== '');
+  if (headerIndex === -1) {
+    result.errors.push({ line: 1, message: 'Arquivo vazio.' });
+    return result;
+  }
+
+  const headerLine = lines[headerIndex];
+  const separator = headerLine.includes(';') ? ';' : ',';
+  const headers = splitCsvLine(headerLine, separator).map(normalizeHeader);
+
+  const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+  const nameCol = col('nome', 'name');
+  const emailCol = col('email', 'e-mail');
+  const roleCol = col('perfil', 'papel', 'funcao', 'role');
+  const seriesCol = col('serie', 'ano', 'series');
+
+  if (nameCol === -1 || emailCol === -1 || roleCol === -1) {
+    result.errors.push({ line: headerIndex + 1, message: 'Cabeçalho deve conter as colunas: nome, email, perfil (e opcionalmente serie).' });
+    return result;
+  }
+
+  const seenEmails = new Set<string>();
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const lineNumber = i + 1;
+    const cells = splitCsvLine(lines[i], separator);
+
+    const name = cells[nameCol] || '';
+    const email = (cells[emailCol] || '').toLowerCase();
+    const role = ROLE_ALIASES[normalizeHeader(cells[roleCol] || '')];
+    const series = seriesCol !== -1 ? cells[seriesCol] || undefined : undefined;
+
+    if (!name) {
+      result.errors.push({ line: lineNumber, message: 'Nome não informado.' });
+      continue;
+    }
+    if (!EMAIL_REGEX.test(email)) {
+      result.errors.push({ line: lineNumber, message: `Email inválido: "${cells[emailCol] || ''}".` });
+      continue;
+    }
+    if (!role) {
+      result.errors.push({ line: lineNumber, message: `Perfil inválido: "${cells[roleCol] || ''}". Use aluno ou professor.` });
+      continue;
+    }
+    if (role === 'aluno' && !series) {
+      result.errors.push({ line: lineNumber, message: 'Alunos precisam da coluna serie preenchida.' });
+      continue;
+    }
+    if (seenEmails.has(email)) {
+      result.errors.push({ line: lineNumber, message: `Email duplicado no arquivo: ${email}.` });
+      continue;
+    }
+
+    seenEmails.add(email);
+    result.rows.push({ line: lineNumber, name, email, role, series: role === 'aluno' ? series : undefined });
+  }
+
+  return result;
+}
+
+export function toPreRegistration(row: UserImportRow, importedBy: string): UserPreRegistration {
+  const preRegistration: UserPreRegistration = {
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    status: 'Pendente',
+    importedBy,
+    importedAt: new Date().toISOString()
+  };
+  if (row.series) preRegistration.series = row.series;
+  return preRegistration;
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Conecta aos emuladores locais (components/firebaseClient.ts)
+  readonly VITE_USE_FIREBASE_EMULATOR?: string;
+}
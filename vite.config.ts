@@ -3,6 +3,13 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 import { VitePWA } from 'vite-plugin-pwa';
 
+// Imagens de módulos baixados para uso offline (ver utils/offlineModules.ts).
+// Quando a rede falha, o service worker responde com a cópia gravada pelo app.
+const offlineModuleAssetsFallback = {
+  handlerDidError: async ({ request }: { request: Request }) =>
+    (await caches.match(request.url, { cacheName: 'offline-module-assets' })) || undefined
+};
+
 export default defineConfig({
   plugins: [
     react(),
@@ -50,7 +57,8 @@ export default defineConfig({
               },
               cacheableResponse: {
                 statuses: [0, 200]
-              }
+              },
+              plugins: [offlineModuleAssetsFallback]
             }
           },
           {
@@ -66,6 +74,14 @@ export default defineConfig({
                 statuses: [0, 200]
               }
             }
+          },
+          {
+            // Demais imagens externas dos módulos (Unsplash, Wikimedia etc.): rede, com fallback offline
+            urlPattern: ({ request, sameOrigin }) => request.destination === 'image' && !sameOrigin,
+            handler: 'NetworkOnly',
+            options: {
+              plugins: [offlineModuleAssetsFallback]
+            }
           }
         ]
       }